@@ -0,0 +1,111 @@
+/**
+ * @fileoverview Promise utilities used by asynchronous rule evaluation.
+ * @module Async
+ * @version 1.0.0
+ * @author Felix M. Martinez
+ * @since 1.0.0
+ */
+
+/**
+ * Marker returned by {@link settle} when a promise does not settle in time.
+ *
+ * @internal
+ */
+export const TIMED_OUT: unique symbol = Symbol('Validra.timeout');
+
+/**
+ * Waits for a value that may be a promise, honoring a timeout and an abort signal.
+ *
+ * Plain values are returned as is. A promise is raced against the timeout,
+ * which resolves to {@link TIMED_OUT}, and against the signal, which rejects
+ * with the signal's reason.
+ *
+ * @param value - The value or promise to wait for
+ * @param signal - Optional signal aborting the wait
+ * @param timeoutMs - Optional maximum wait in milliseconds
+ * @returns The settled value, or {@link TIMED_OUT}
+ * @throws The abort reason when the signal is aborted
+ *
+ * @internal
+ */
+export async function settle<T>(
+    value: T | Promise<T>,
+    signal: AbortSignal | undefined,
+    timeoutMs: number | undefined
+): Promise<T | typeof TIMED_OUT> {
+    if (!(value instanceof Promise)) {
+        return value;
+    }
+    if (timeoutMs === undefined && signal === undefined) {
+        return value;
+    }
+
+    signal?.throwIfAborted();
+
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    let onAbort: (() => void) | undefined;
+
+    const racers: Promise<T | typeof TIMED_OUT>[] = [value];
+    if (timeoutMs !== undefined) {
+        racers.push(new Promise(resolve => {
+            timer = setTimeout(() => resolve(TIMED_OUT), timeoutMs);
+        }));
+    }
+    if (signal) {
+        racers.push(new Promise((_, reject) => {
+            onAbort = () => reject(signal.reason);
+            signal.addEventListener('abort', onAbort, { once: true });
+        }));
+    }
+
+    try {
+        return await Promise.race(racers);
+    } finally {
+        clearTimeout(timer);
+        if (onAbort) signal?.removeEventListener('abort', onAbort);
+    }
+}
+
+/**
+ * Maps items through an asynchronous function with at most `limit` calls in flight.
+ *
+ * Results keep the order of the input. No new call is started once the
+ * signal is aborted or a call has rejected, and the first rejection rejects
+ * the whole map.
+ *
+ * @param items - The items to map
+ * @param limit - Maximum number of concurrent calls
+ * @param fn - The asynchronous mapping function
+ * @param signal - Optional signal stopping the scheduling of new calls
+ * @returns The mapped results, in input order
+ *
+ * @internal
+ */
+export async function mapWithConcurrency<T, R>(
+    items: readonly T[],
+    limit: number,
+    fn: (item: T, index: number) => Promise<R>,
+    signal?: AbortSignal
+): Promise<R[]> {
+    const results = new Array<R>(items.length);
+    let next = 0;
+    let failed = false;
+
+    const worker = async (): Promise<void> => {
+        while (!failed && next < items.length) {
+            signal?.throwIfAborted();
+            const index = next++;
+            try {
+                results[index] = await fn(items[index] as T, index);
+            } catch (error) {
+                failed = true;
+                throw error;
+            }
+        }
+    };
+
+    const workers = Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, worker);
+    await Promise.all(workers);
+
+    return results;
+}
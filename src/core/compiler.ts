@@ -0,0 +1,1146 @@
+/**
+ * @fileoverview Compiles rule definitions into reusable evaluator closures.
+ * @module Compiler
+ * @version 1.0.0
+ * @author Felix M. Martinez
+ * @since 1.0.0
+ */
+
+import { OperatorDefinition, OperatorRegistry } from "@/operations";
+import { Fact, RuleEvaluationError, ValidraArgumentError, ValidraTypeError } from "@/utils";
+import { mapWithConcurrency, settle, TIMED_OUT } from "./async";
+import { ChildOrder, renderTrace, RuleArguments, toExplanation, TraceContext } from "./explain";
+import { compileExpression, isDynamicOperand, isExpressionOperand } from "./expression";
+import { isFieldReference } from "./field-path";
+import { ABSENT, compilePath, PathAccessor } from "./path-accessor";
+import {
+    AsyncEvaluationOptions,
+    Condition,
+    ConditionGroup,
+    ConditionResult,
+    EngineOptions,
+    EvaluationOptions,
+    EvaluationResult,
+    ExecutionMode,
+    ExplainOptions,
+    Explanation,
+    GroupOperator,
+    GroupResult,
+    Rule,
+    Quantifier,
+    RuleResult,
+    Severity,
+    TypeMismatchPolicy,
+    ValidationResult
+} from "./types";
+import { RuleTimings, toValidationResult } from "./validation-result";
+
+/**
+ * A rule set compiled into closures, ready to be evaluated against many facts.
+ *
+ * @public
+ */
+export interface CompiledRuleSet {
+    /**
+     * Evaluates the top-level conditions and reports a result per condition.
+     *
+     * @param fact - The input object to validate
+     * @param options - Execution mode and rule groups turned on or off
+     * @returns The overall outcome and the result of each condition
+     */
+    evaluate(fact: Fact, options?: EvaluationOptions): EvaluationResult;
+
+    /**
+     * Checks whether a fact satisfies every condition, without building results.
+     *
+     * Stops at the first failing top-level condition, which makes it the
+     * fastest way to filter large numbers of facts. In `stopOnFirstMatch`
+     * mode, checks whether the fact satisfies any condition instead.
+     *
+     * @param fact - The input object to validate
+     * @param options - Execution mode and rule groups turned on or off
+     * @returns `true` when every condition passes
+     */
+    test(fact: Fact, options?: EvaluationOptions): boolean;
+
+    /**
+     * Evaluates every top-level condition, awaiting asynchronous operators.
+     *
+     * Top-level conditions are independent and run concurrently, up to
+     * `options.concurrency` at a time. Conditions inside a group run one
+     * after another so the group can short-circuit.
+     *
+     * @param fact - The input object to validate
+     * @param options - Abort signal, per-rule timeout, concurrency limit, execution mode and rule groups
+     * @returns A promise for the overall outcome and the result of each condition
+     */
+    evaluateAsync(fact: Fact, options?: AsyncEvaluationOptions): Promise<EvaluationResult>;
+
+    /**
+     * Evaluates the top-level conditions and reports per-rule diagnostics.
+     *
+     * @param fact - The input object to validate
+     * @param options - Execution mode and rule groups turned on or off
+     * @returns Validity, failures by severity, per-rule diagnostics and a summary
+     */
+    validate(fact: Fact, options?: EvaluationOptions): ValidationResult;
+
+    /**
+     * Asynchronous counterpart of {@link CompiledRuleSet.validate}, awaiting asynchronous operators.
+     *
+     * @param fact - The input object to validate
+     * @param options - Abort signal, per-rule timeout, concurrency limit, execution mode and rule groups
+     * @returns A promise for the validity, failures by severity, per-rule diagnostics and a summary
+     */
+    validateAsync(fact: Fact, options?: AsyncEvaluationOptions): Promise<ValidationResult>;
+
+    /**
+     * Evaluates the top-level conditions and traces every condition, evaluated or not.
+     *
+     * @param fact - The input object to validate
+     * @param options - Execution mode, rule groups and the logger receiving the rendered trace
+     * @returns The outcome and the trace tree
+     */
+    explain(fact: Fact, options?: ExplainOptions): Explanation;
+}
+
+/**
+ * Evaluator closures produced for a single condition.
+ *
+ * @internal
+ */
+interface CompiledCondition {
+    evaluate: (fact: Fact, context?: EvaluationContext) => ConditionResult;
+    test: (fact: Fact) => boolean;
+    evaluateAsync: (fact: Fact, context: AsyncContext) => Promise<ConditionResult>;
+}
+
+/**
+ * An operator bound to its arguments, testing a field value. The fact is
+ * used to resolve arguments that reference other fields.
+ *
+ * @internal
+ */
+type OperatorCall = (value: unknown, fact: Fact) => boolean | Promise<boolean>;
+
+/**
+ * Raised while resolving arguments when an optional reference is absent,
+ * so the rule passes without calling its operator.
+ *
+ * @internal
+ */
+class AbsentReference extends Error {}
+
+/**
+ * Settings shared by every condition of a rule set while it is compiled.
+ *
+ * @internal
+ */
+interface CompileContext {
+    operators: OperatorRegistry;
+    onTypeMismatch: TypeMismatchPolicy;
+    order: ChildOrder;
+}
+
+/**
+ * Settings shared by every condition of an evaluation.
+ *
+ * @internal
+ */
+interface EvaluationContext {
+    timings: RuleTimings | undefined;
+    disabled: ReadonlySet<string> | undefined;
+    resolved: RuleArguments | undefined;
+}
+
+/**
+ * Settings shared by every condition of an asynchronous evaluation.
+ *
+ * @internal
+ */
+interface AsyncContext extends EvaluationContext {
+    signal: AbortSignal | undefined;
+    timeoutMs: number | undefined;
+}
+
+/** Keys identifying a condition group, in lookup order */
+const GROUP_OPERATORS: readonly GroupOperator[] = ['all', 'any', 'not', 'none', 'atLeast'];
+
+/** Accepted rule and group severities */
+const SEVERITIES: readonly Severity[] = ['error', 'warning', 'info'];
+
+/** Accepted execution modes */
+const EXECUTION_MODES: readonly ExecutionMode[] = ['all', 'stopOnFirstFailure', 'stopOnFirstMatch'];
+
+/** Accepted quantifiers of rules with wildcard paths */
+const QUANTIFIERS: readonly Quantifier[] = ['every', 'some', 'none'];
+
+/** Default number of top-level conditions evaluated at the same time by `evaluateAsync` */
+const DEFAULT_CONCURRENCY = 8;
+
+/** Logger methods `explain()` can write the rendered trace with */
+const LOG_LEVELS: readonly NonNullable<ExplainOptions['logLevel']>[] = ['debug', 'trace'];
+
+/**
+ * Compiles a rule set into reusable evaluator closures.
+ *
+ * Operators, field accessors and constant arguments are resolved once:
+ * rule structure and argument types are validated, field paths are split,
+ * operator arguments are prepared (e.g. regular expressions are built) and
+ * each rule is bound to a fixed-arity call of its operator. The compiled rule
+ * set can then evaluate any number of facts without repeating that work.
+ *
+ * Conditions are ordered once by descending `priority`, keeping definition
+ * order between conditions of the same priority, so the same fact is always
+ * evaluated in the same order.
+ *
+ * With `onTypeMismatch` set to `skip`, or when rule groups are turned off,
+ * `test()` evaluates the full rule set so skipped rules can be left out of
+ * their groups.
+ *
+ * @param conditions - The rules and condition groups to compile
+ * @param options - Compilation options, such as a custom operator registry
+ * @returns The compiled rule set
+ * @throws {ValidraArgumentError} When a rule has no field, uses an unknown operator or has the
+ * wrong number of arguments, or when a group is malformed
+ * @throws {ValidraTypeError} When a rule argument doesn't match the operator's argument types
+ *
+ * @example
+ * ```typescript
+ * const ruleSet = compile([
+ *   { field: "user.age", op: "gte", value: 18 },
+ *   { field: "user.code", op: "matches", value: "^[A-Z]{3}$" }
+ * ]);
+ *
+ * const adults = facts.filter(fact => ruleSet.test(fact));
+ * const report = ruleSet.evaluate(facts[0]);
+ * ```
+ *
+ * @public
+ */
+export function compile(conditions: Condition[], options: EngineOptions = {}): CompiledRuleSet {
+    const context: CompileContext = {
+        operators: options.operators ?? new OperatorRegistry(),
+        onTypeMismatch: options.onTypeMismatch ?? 'throw',
+        order: new WeakMap()
+    };
+    if (!['throw', 'fail', 'skip'].includes(context.onTypeMismatch)) {
+        throw new ValidraArgumentError('onTypeMismatch must be one of throw, fail, skip.', { argument: context.onTypeMismatch });
+    }
+
+    const ordered = byPriority(conditions);
+    const compiled = ordered.map(condition => compileCondition(condition, context));
+    const tests = compiled.map(condition => condition.test);
+
+    const evaluateAll = (
+        fact: Fact,
+        options: EvaluationOptions,
+        timings: RuleTimings | undefined,
+        resolved?: RuleArguments
+    ): EvaluationResult => {
+        const mode = getMode(options);
+        const context: EvaluationContext = { timings, disabled: getDisabledGroups(options), resolved };
+        const results: ConditionResult[] = [];
+
+        for (const condition of compiled) {
+            const result = condition.evaluate(fact, context);
+            results.push(result);
+            if (stopsEvaluation(result, mode)) break;
+        }
+
+        return { passed: decideEvaluation(results, mode), results };
+    };
+
+    return {
+        evaluate(fact, options = {}) {
+            return evaluateAll(fact, options, undefined);
+        },
+        test(fact, options = {}) {
+            const mode = getMode(options);
+            if (context.onTypeMismatch === 'skip' || getDisabledGroups(options)) {
+                return evaluateAll(fact, options, undefined).passed;
+            }
+
+            const expected = mode === 'stopOnFirstMatch';
+            for (let i = 0; i < tests.length; i++) {
+                if ((tests[i] as CompiledCondition['test'])(fact) === expected) return expected;
+            }
+
+            return !expected;
+        },
+        async evaluateAsync(fact, options = {}) {
+            const results = await evaluateAllAsync(compiled, fact, options, undefined);
+
+            return {
+                passed: decideEvaluation(results, getMode(options)),
+                results
+            };
+        },
+        validate(fact, options = {}) {
+            const timings: RuleTimings = new WeakMap();
+            const start = performance.now();
+            const { results } = evaluateAll(fact, options, timings);
+
+            return toValidationResult(results, timings, performance.now() - start);
+        },
+        async validateAsync(fact, options = {}) {
+            const timings: RuleTimings = new WeakMap();
+            const start = performance.now();
+            const results = await evaluateAllAsync(compiled, fact, options, timings);
+
+            return toValidationResult(results, timings, performance.now() - start);
+        },
+        explain(fact, options = {}) {
+            const { logger, logLevel = 'debug' } = options;
+            if (!LOG_LEVELS.includes(logLevel)) {
+                throw new ValidraArgumentError(`Log level must be one of ${LOG_LEVELS.join(', ')}.`, { argument: logLevel });
+            }
+
+            const trace: TraceContext = { timings: new WeakMap(), resolved: new WeakMap(), order: context.order };
+            const start = performance.now();
+            const result = evaluateAll(fact, options, trace.timings, trace.resolved);
+            const explanation = toExplanation(ordered, result, trace, performance.now() - start);
+
+            logger?.[logLevel](renderTrace(explanation), explanation);
+            return explanation;
+        }
+    };
+}
+
+/**
+ * Evaluates compiled top-level conditions concurrently, or one at a time
+ * when the execution mode stops early.
+ *
+ * @param compiled - The compiled top-level conditions
+ * @param fact - The input object to validate
+ * @param options - Abort signal, per-rule timeout, concurrency limit, execution mode and rule groups
+ * @param timings - Optional map receiving the duration of each rule
+ * @returns A promise for the result of each evaluated condition, in evaluation order
+ * @throws {ValidraArgumentError} When the concurrency, timeout or mode options are invalid
+ */
+async function evaluateAllAsync(
+    compiled: CompiledCondition[],
+    fact: Fact,
+    options: AsyncEvaluationOptions,
+    timings: RuleTimings | undefined
+): Promise<ConditionResult[]> {
+    const { signal, timeoutMs, concurrency = DEFAULT_CONCURRENCY } = options;
+    const mode = getMode(options);
+    signal?.throwIfAborted();
+    if (!Number.isInteger(concurrency) || concurrency < 1) {
+        throw new ValidraArgumentError('Concurrency must be a positive integer.', { argument: concurrency });
+    }
+    if (timeoutMs !== undefined && (!Number.isFinite(timeoutMs) || timeoutMs < 0)) {
+        throw new ValidraArgumentError('Timeout must be a non-negative number of milliseconds.', { argument: timeoutMs });
+    }
+
+    const context: AsyncContext = { signal, timeoutMs, timings, disabled: getDisabledGroups(options), resolved: undefined };
+    if (mode !== 'all') {
+        const results: ConditionResult[] = [];
+        for (const condition of compiled) {
+            const result = await condition.evaluateAsync(fact, context);
+            results.push(result);
+            if (stopsEvaluation(result, mode)) break;
+        }
+
+        return results;
+    }
+
+    return mapWithConcurrency(
+        compiled,
+        concurrency,
+        condition => condition.evaluateAsync(fact, context),
+        signal
+    );
+}
+
+/**
+ * Reads and checks the execution mode of an evaluation.
+ *
+ * @param options - The evaluation options
+ * @returns The execution mode
+ * @throws {ValidraArgumentError} When the mode is unknown
+ */
+function getMode({ mode = 'all' }: EvaluationOptions): ExecutionMode {
+    if (!EXECUTION_MODES.includes(mode)) {
+        throw new ValidraArgumentError(`Execution mode must be one of ${EXECUTION_MODES.join(', ')}.`, { argument: mode });
+    }
+
+    return mode;
+}
+
+/**
+ * Collects the names of the rule groups turned off for an evaluation.
+ *
+ * @param options - The evaluation options
+ * @returns The names of the groups turned off, or `undefined` when every group is on
+ * @throws {ValidraArgumentError} When `groups` doesn't map names to booleans
+ */
+function getDisabledGroups({ groups }: EvaluationOptions): ReadonlySet<string> | undefined {
+    if (groups === undefined) return undefined;
+    if (groups === null || typeof groups !== 'object' || Object.values(groups).some(on => typeof on !== 'boolean')) {
+        throw new ValidraArgumentError('Rule groups must map group names to booleans.', { argument: groups });
+    }
+
+    const disabled = Object.keys(groups).filter(name => !groups[name]);
+    return disabled.length > 0 ? new Set(disabled) : undefined;
+}
+
+/**
+ * Whether the evaluation of the top-level conditions stops after a result.
+ *
+ * @param result - The result of the last evaluated condition
+ * @param mode - The execution mode
+ * @returns `true` when the remaining conditions must not be evaluated
+ */
+function stopsEvaluation(result: ConditionResult, mode: ExecutionMode): boolean {
+    switch (mode) {
+        case 'all': return false;
+        case 'stopOnFirstFailure': return !result.passed;
+        case 'stopOnFirstMatch': return result.passed && !isSkipped(result);
+    }
+}
+
+/**
+ * Decides the outcome of an evaluation from the results of its top-level conditions.
+ *
+ * @param results - The results of the evaluated conditions
+ * @param mode - The execution mode
+ * @returns Whether the evaluation passed
+ */
+function decideEvaluation(results: ConditionResult[], mode: ExecutionMode): boolean {
+    return mode === 'stopOnFirstMatch'
+        ? results.some(result => result.passed && !isSkipped(result))
+        : results.every(result => result.passed);
+}
+
+/**
+ * Orders conditions by descending priority, keeping definition order
+ * between conditions of the same priority.
+ *
+ * @param conditions - The conditions to order
+ * @returns A new, ordered array
+ *
+ * @internal
+ */
+export function byPriority<T>(conditions: T[]): T[] {
+    const priorityOf = (condition: T): number => {
+        const priority = condition !== null && typeof condition === 'object'
+            ? (condition as { priority?: unknown }).priority
+            : undefined;
+        return typeof priority === 'number' ? priority : 0;
+    };
+
+    return conditions
+        .map((condition, index) => ({ condition, index, priority: priorityOf(condition) }))
+        .sort((a, b) => b.priority - a.priority || a.index - b.index)
+        .map(entry => entry.condition);
+}
+
+/**
+ * Validates a condition and compiles it into a rule or group evaluator.
+ *
+ * @param condition - The condition to compile
+ * @param context - Operator registry and compilation settings
+ * @returns The compiled condition
+ * @throws {ValidraArgumentError} When the condition is malformed
+ */
+function compileCondition(condition: Condition, context: CompileContext): CompiledCondition {
+    if (condition === null || typeof condition !== 'object') {
+        throw new ValidraArgumentError('Condition must be a rule or a condition group object.', { argument: condition });
+    }
+    if (condition.priority !== undefined && !Number.isFinite(condition.priority)) {
+        throw new ValidraArgumentError('Condition priority must be a finite number.', { argument: condition.priority });
+    }
+    if (condition.group !== undefined && (typeof condition.group !== 'string' || condition.group.length === 0)) {
+        throw new ValidraArgumentError('Rule group name must be a non-empty string.', { argument: condition.group });
+    }
+
+    const groupKeys = GROUP_OPERATORS.filter(key => key in condition);
+    if (groupKeys.length === 0) {
+        return toggleable(condition, compileRule(condition as Rule, context));
+    }
+    if (groupKeys.length > 1 || 'field' in condition) {
+        throw new ValidraArgumentError(`Condition group must define exactly one of ${GROUP_OPERATORS.join(', ')} and no field.`, {
+            argument: condition
+        });
+    }
+
+    const operator = groupKeys[0] as GroupOperator;
+    return toggleable(condition, compileGroup(condition as ConditionGroup, operator, context), operator);
+}
+
+/**
+ * Lets a condition belonging to a named rule group be turned off at
+ * evaluation time. Turned-off conditions are reported skipped without
+ * being evaluated; `test()` relies on the evaluating path whenever groups
+ * are turned off.
+ *
+ * @param condition - The condition definition
+ * @param compiled - The compiled condition
+ * @param operator - The boolean operator, when the condition is a group
+ * @returns The compiled condition, wrapped when it belongs to a rule group
+ */
+function toggleable(condition: Condition, compiled: CompiledCondition, operator?: GroupOperator): CompiledCondition {
+    const name = condition.group;
+    if (name === undefined) return compiled;
+
+    const skip = (): ConditionResult => operator === undefined
+        ? { rule: condition as Rule, passed: true, status: 'skipped', actual: undefined, reason: `Rule group "${name}" is turned off.` }
+        : { group: condition as ConditionGroup, operator, passed: true, children: [], skipped: true };
+
+    return {
+        evaluate: (fact, context) => context?.disabled?.has(name) ? skip() : compiled.evaluate(fact, context),
+        test: compiled.test,
+        evaluateAsync: async (fact, context) => context.disabled?.has(name) ? skip() : compiled.evaluateAsync(fact, context)
+    };
+}
+
+/**
+ * Validates a rule definition and binds it to its operator, arguments and field accessor.
+ *
+ * @param rule - The rule to compile
+ * @param context - Operator registry and compilation settings
+ * @returns The compiled rule
+ * @throws {ValidraArgumentError} When the rule is malformed
+ */
+function compileRule(rule: Rule, { operators, onTypeMismatch }: CompileContext): CompiledCondition {
+    if (rule.expr !== undefined) {
+        if (typeof rule.expr !== 'string' || rule.expr.length === 0) {
+            throw new ValidraArgumentError('Rule expression must be a non-empty string.', { operator: rule.op, argument: rule });
+        }
+        if (rule.field !== undefined) {
+            throw new ValidraArgumentError('Rule must define either a field or an expression, not both.', { operator: rule.op, argument: rule });
+        }
+    } else if (typeof rule.field !== 'string' || rule.field.length === 0) {
+        throw new ValidraArgumentError('Rule field must be a non-empty string.', { operator: rule.op, argument: rule });
+    }
+
+    const name = (rule.expr ?? rule.field) as string;
+    const subject = rule.expr !== undefined ? `expression "${name}"` : `field "${name}"`;
+
+    if (!operators.has(rule.op)) {
+        throw new ValidraArgumentError(`Unknown operator "${rule.op}" in rule for ${subject}.`, {
+            operator: rule.op,
+            argument: rule
+        });
+    }
+
+    if (rule.message !== undefined && typeof rule.message !== 'string') {
+        throw new ValidraArgumentError(`Rule message for ${subject} must be a string.`, {
+            operator: rule.op,
+            argument: rule.message
+        });
+    }
+    checkSeverity(rule.severity, rule.op);
+
+    const operator = operators.get(rule.op);
+    const args = getArguments(rule, operator);
+    operators.checkArguments(rule.op, args, isDynamicOperand);
+    const operands = args.map(arg => compileOperand(arg, rule.op, subject));
+    const settings = rule.options !== undefined ? [operators.checkOptions(rule.op, rule.options)] : [];
+
+    const expression = rule.expr !== undefined ? compileExpression(rule.expr) : undefined;
+    const accessor = expression === undefined ? compilePath(rule.field as string) : undefined;
+    const wildcard = accessor?.wildcard ?? false;
+    const quantifier = rule.quantifier ?? 'every';
+    if (rule.quantifier !== undefined && (!wildcard || !QUANTIFIERS.includes(rule.quantifier))) {
+        throw new ValidraArgumentError(
+            `Quantifier of rule for ${subject} must be one of ${QUANTIFIERS.join(', ')} and requires a wildcard path.`,
+            { operator: rule.op, argument: rule.quantifier }
+        );
+    }
+
+    const getValue = expression ? expression.evaluate : compileRuleValue(accessor as PathAccessor);
+    const call = operands.some(operand => operand !== undefined)
+        ? bindOperands(operator, args, operands, settings)
+        : bindOperator(operator, [...(operator.prepare ? operator.prepare(args) : args), ...settings]);
+    const apply = wildcard
+        ? (actual: unknown, fact: Fact): boolean =>
+            quantify(quantifier, actual, value => call(value, fact) as boolean)
+        : call as (value: unknown, fact: Fact) => boolean;
+    const applyAsync = wildcard
+        ? (actual: unknown, fact: Fact, signal: AbortSignal | undefined, timeoutMs: number | undefined) =>
+            quantifyAsync(quantifier, actual, value => call(value, fact), signal, timeoutMs)
+        : (actual: unknown, fact: Fact, signal: AbortSignal | undefined, timeoutMs: number | undefined) =>
+            settle(call(actual, fact), signal, timeoutMs);
+    const isAsync = operator.async === true;
+    const absentReason = `Optional field "${rule.field}" is absent.`;
+
+    const assertSync = (): void => {
+        if (isAsync) {
+            throw new ValidraArgumentError(`Operator "${rule.op}" is asynchronous. Use evaluateAsync() instead.`, {
+                operator: rule.op,
+                argument: rule
+            });
+        }
+    };
+
+    const reject = (actual: unknown, error: unknown): RuleResult => {
+        if (error instanceof AbsentReference) {
+            return { rule, passed: true, status: 'passed', actual, reason: error.message };
+        }
+
+        const mismatch = error instanceof ValidraTypeError || error instanceof ValidraArgumentError;
+        if (!mismatch || onTypeMismatch === 'throw') {
+            throw new RuleEvaluationError(name, rule.op, actual, error);
+        }
+
+        return onTypeMismatch === 'fail'
+            ? { rule, passed: false, status: 'failed', actual, reason: error.message }
+            : { rule, passed: true, status: 'skipped', actual, reason: error.message };
+    };
+
+    const evaluate = (fact: Fact): RuleResult => {
+        assertSync();
+        let actual: unknown;
+        let passed: boolean;
+
+        try {
+            actual = getValue(fact);
+            if (actual === ABSENT) {
+                return { rule, passed: true, status: 'passed', actual: undefined, reason: absentReason };
+            }
+            passed = apply(actual, fact);
+        } catch (error) {
+            return reject(actual, error);
+        }
+
+        return { rule, passed, status: passed ? 'passed' : 'failed', actual };
+    };
+
+    const evaluateAsync = async (fact: Fact, { signal, timeoutMs }: AsyncContext): Promise<RuleResult> => {
+        signal?.throwIfAborted();
+        let actual: unknown;
+        let outcome: boolean | typeof TIMED_OUT;
+
+        try {
+            actual = getValue(fact);
+            if (actual === ABSENT) {
+                return { rule, passed: true, status: 'passed', actual: undefined, reason: absentReason };
+            }
+            outcome = await applyAsync(actual, fact, signal, timeoutMs);
+        } catch (error) {
+            if (signal?.aborted && error === signal.reason) throw error;
+            return reject(actual, error);
+        }
+
+        if (outcome === TIMED_OUT) {
+            return { rule, passed: false, status: 'timeout', actual };
+        }
+
+        return { rule, passed: outcome, status: outcome ? 'passed' : 'failed', actual };
+    };
+
+    const resolveArguments = (fact: Fact): unknown[] | undefined => {
+        try {
+            return args.map((arg, index) => {
+                const operand = operands[index];
+                return operand ? operand(fact) : arg;
+            });
+        } catch {
+            return undefined;
+        }
+    };
+
+    return {
+        evaluate: (fact, context) => {
+            if (!context?.timings) return evaluate(fact);
+
+            const start = performance.now();
+            const result = evaluate(fact);
+            context.timings.set(result, performance.now() - start);
+
+            if (context.resolved) {
+                const resolved = resolveArguments(fact);
+                if (resolved) context.resolved.set(result, resolved);
+            }
+            return result;
+        },
+        test: fact => {
+            assertSync();
+            let actual: unknown;
+
+            try {
+                actual = getValue(fact);
+                return actual === ABSENT || apply(actual, fact);
+            } catch (error) {
+                return reject(actual, error).passed;
+            }
+        },
+        evaluateAsync: async (fact, context) => {
+            if (!context.timings) return evaluateAsync(fact, context);
+
+            const start = performance.now();
+            const result = await evaluateAsync(fact, context);
+            context.timings.set(result, performance.now() - start);
+            return result;
+        }
+    };
+}
+
+/**
+ * Validates a condition group and compiles its children.
+ *
+ * @param group - The group to compile
+ * @param operator - The boolean operator of the group
+ * @param context - Operator registry and compilation settings
+ * @returns The compiled group
+ * @throws {ValidraArgumentError} When the group is malformed
+ */
+function compileGroup(group: ConditionGroup, operator: GroupOperator, context: CompileContext): CompiledCondition {
+    const source = group as unknown as Record<string, unknown>;
+    let definitions: unknown = operator === 'atLeast' ? source['of'] : source[operator];
+    let threshold = 0;
+
+    if (operator === 'not') {
+        definitions = [definitions];
+    }
+    if (!Array.isArray(definitions)) {
+        const key = operator === 'atLeast' ? 'of' : operator;
+        throw new ValidraArgumentError(`Condition group "${operator}" requires an array of conditions in "${key}".`, {
+            operator,
+            argument: group
+        });
+    }
+    if (operator === 'atLeast') {
+        threshold = source['atLeast'] as number;
+        if (!Number.isInteger(threshold) || threshold < 0) {
+            throw new ValidraArgumentError('Condition group "atLeast" requires a non-negative integer threshold.', {
+                operator,
+                argument: threshold
+            });
+        }
+    }
+
+    checkSeverity(group.severity, operator);
+
+    const ordered = byPriority(definitions as Condition[]);
+    const children = ordered.map(child => compileCondition(child, context));
+    context.order.set(group, ordered);
+
+    return {
+        evaluate: (fact, context) => {
+            if (!context?.timings) return evaluateGroup(group, operator, threshold, children, fact, context);
+
+            const start = performance.now();
+            const result = evaluateGroup(group, operator, threshold, children, fact, context);
+            context.timings.set(result, performance.now() - start);
+            return result;
+        },
+        test: compileGroupTest(operator, threshold, children.map(child => child.test)),
+        evaluateAsync: (fact, context) => evaluateGroupAsync(group, operator, threshold, children, fact, context)
+    };
+}
+
+/**
+ * Evaluates the children of a group until its outcome is known.
+ *
+ * @param group - The group definition
+ * @param operator - The boolean operator of the group
+ * @param threshold - Number of passing children required by `atLeast` groups
+ * @param children - The compiled children
+ * @param fact - The input object to read fields from
+ * @param context - Rule timings and turned-off rule groups of the evaluation
+ * @returns The group result
+ */
+function evaluateGroup(
+    group: ConditionGroup,
+    operator: GroupOperator,
+    threshold: number,
+    children: CompiledCondition[],
+    fact: Fact,
+    context: EvaluationContext | undefined
+): GroupResult {
+    const results: ConditionResult[] = [];
+    let passedCount = 0;
+    let skippedCount = 0;
+    let passed: boolean | undefined;
+
+    for (let index = 0; index < children.length && passed === undefined; index++) {
+        const result = (children[index] as CompiledCondition).evaluate(fact, context);
+        results.push(result);
+        if (isSkipped(result)) {
+            skippedCount++;
+            if (operator === 'atLeast') {
+                passed = decideGroup(operator, threshold, false, passedCount, children.length - index - 1);
+            }
+            continue;
+        }
+        if (result.passed) passedCount++;
+        passed = decideGroup(operator, threshold, result.passed, passedCount, children.length - index - 1);
+    }
+
+    if (skippedCount > 0 && skippedCount === results.length) {
+        return { group, operator, passed: true, children: results, skipped: true };
+    }
+
+    passed ??= settleGroup(operator, threshold, passedCount);
+    return { group, operator, passed, children: results };
+}
+
+/**
+ * Asynchronous counterpart of {@link evaluateGroup}. Children are awaited one
+ * after another so the group still short-circuits.
+ *
+ * @param group - The group definition
+ * @param operator - The boolean operator of the group
+ * @param threshold - Number of passing children required by `atLeast` groups
+ * @param children - The compiled children
+ * @param fact - The input object to read fields from
+ * @param context - Abort signal, timeout, rule timings and turned-off rule groups of the evaluation
+ * @returns A promise for the group result
+ */
+async function evaluateGroupAsync(
+    group: ConditionGroup,
+    operator: GroupOperator,
+    threshold: number,
+    children: CompiledCondition[],
+    fact: Fact,
+    context: AsyncContext
+): Promise<GroupResult> {
+    const results: ConditionResult[] = [];
+    let passedCount = 0;
+    let skippedCount = 0;
+    let passed: boolean | undefined;
+
+    for (let index = 0; index < children.length && passed === undefined; index++) {
+        const result = await (children[index] as CompiledCondition).evaluateAsync(fact, context);
+        results.push(result);
+        if (isSkipped(result)) {
+            skippedCount++;
+            if (operator === 'atLeast') {
+                passed = decideGroup(operator, threshold, false, passedCount, children.length - index - 1);
+            }
+            continue;
+        }
+        if (result.passed) passedCount++;
+        passed = decideGroup(operator, threshold, result.passed, passedCount, children.length - index - 1);
+    }
+
+    if (skippedCount > 0 && skippedCount === results.length) {
+        return { group, operator, passed: true, children: results, skipped: true };
+    }
+
+    passed ??= settleGroup(operator, threshold, passedCount);
+    return { group, operator, passed, children: results };
+}
+
+/**
+ * Whether a condition was skipped because its operator rejected the field value
+ * or its rule group is turned off.
+ * Skipped conditions count neither as passed nor as failed in their group.
+ *
+ * @param result - The condition result
+ * @returns `true` for skipped rules and groups whose children were all skipped
+ */
+function isSkipped(result: ConditionResult): boolean {
+    return 'rule' in result ? result.status === 'skipped' : result.skipped === true;
+}
+
+/**
+ * Decides the outcome of a group after one more child has been evaluated.
+ *
+ * @param operator - The boolean operator of the group
+ * @param threshold - Number of passing children required by `atLeast` groups
+ * @param childPassed - Whether the last evaluated child passed
+ * @param passedCount - Number of children that passed so far
+ * @param remaining - Number of children not evaluated yet
+ * @returns The outcome, or `undefined` when more children must be evaluated
+ */
+function decideGroup(
+    operator: GroupOperator,
+    threshold: number,
+    childPassed: boolean,
+    passedCount: number,
+    remaining: number
+): boolean | undefined {
+    switch (operator) {
+        case 'all':
+            return childPassed ? undefined : false;
+        case 'any':
+            return childPassed ? true : undefined;
+        case 'none':
+            return childPassed ? false : undefined;
+        case 'not':
+            return !childPassed;
+        case 'atLeast':
+            if (passedCount >= threshold) return true;
+            return passedCount + remaining < threshold ? false : undefined;
+    }
+}
+
+/**
+ * Outcome of a group once every child was evaluated without deciding it,
+ * including empty groups.
+ *
+ * @param operator - The boolean operator of the group
+ * @param threshold - Number of passing children required by `atLeast` groups
+ * @param passedCount - Number of children that passed
+ * @returns Whether the group passes
+ */
+function settleGroup(operator: GroupOperator, threshold: number, passedCount: number): boolean {
+    return operator === 'all' || operator === 'none' || (operator === 'atLeast' && passedCount >= threshold);
+}
+
+/**
+ * Builds the boolean test closure of a condition group.
+ *
+ * @param operator - The boolean operator of the group
+ * @param threshold - Number of passing children required by `atLeast` groups
+ * @param tests - The test closures of the children
+ * @returns A closure returning whether the group passes
+ */
+function compileGroupTest(
+    operator: GroupOperator,
+    threshold: number,
+    tests: CompiledCondition['test'][]
+): CompiledCondition['test'] {
+    switch (operator) {
+        case 'all':
+            return fact => tests.every(test => test(fact));
+        case 'any':
+            return fact => tests.some(test => test(fact));
+        case 'none':
+            return fact => !tests.some(test => test(fact));
+        case 'not': {
+            const test = tests[0] as CompiledCondition['test'];
+            return fact => !test(fact);
+        }
+        case 'atLeast':
+            return fact => {
+                let passedCount = 0;
+                for (let i = 0; i < tests.length; i++) {
+                    if (passedCount >= threshold || passedCount + tests.length - i < threshold) break;
+                    if ((tests[i] as CompiledCondition['test'])(fact)) passedCount++;
+                }
+
+                return passedCount >= threshold;
+            };
+    }
+}
+
+/**
+ * Builds the function reading the value a rule's operator is applied to.
+ *
+ * Unresolved values are passed to operators as `undefined`, except when an
+ * optional path stops in front of a `?.` segment, where {@link ABSENT} is
+ * returned so the rule can pass without calling its operator. For wildcard
+ * paths the function returns the list of matched values; optional paths
+ * leave the elements they stop at out.
+ *
+ * @param accessor - The compiled field path
+ * @returns A function reading the rule value from a fact
+ */
+function compileRuleValue({ get, wildcard, optional }: PathAccessor): (fact: Fact) => unknown {
+    const missing = optional ? ABSENT : undefined;
+
+    if (!wildcard) {
+        return fact => {
+            const value = get(fact);
+            return value === ABSENT ? missing : value;
+        };
+    }
+
+    return fact => {
+        const values = get(fact);
+        if (!Array.isArray(values)) return values === ABSENT ? missing : undefined;
+
+        return optional
+            ? values.filter(value => value !== ABSENT)
+            : values.map(value => value === ABSENT ? undefined : value);
+    };
+}
+
+/**
+ * Applies an operator to the values matched by a wildcard path.
+ *
+ * A single value (when the path couldn't be resolved up to its wildcard) is
+ * treated as a list of one value.
+ *
+ * @param quantifier - How the operator results are combined
+ * @param values - The matched values
+ * @param call - The bound operator
+ * @returns Whether the values satisfy the quantified operator
+ */
+function quantify(quantifier: Quantifier, values: unknown, call: (value: unknown) => boolean): boolean {
+    const list = Array.isArray(values) ? values : [values];
+
+    for (let i = 0; i < list.length; i++) {
+        const decided = decideQuantifier(quantifier, call(list[i]));
+        if (decided !== undefined) return decided;
+    }
+
+    return quantifier !== 'some';
+}
+
+/**
+ * Asynchronous counterpart of {@link quantify}. Values are checked one after
+ * another and each call is subject to the timeout.
+ *
+ * @param quantifier - How the operator results are combined
+ * @param values - The matched values
+ * @param call - The bound operator
+ * @param signal - Optional signal aborting the evaluation
+ * @param timeoutMs - Optional maximum wait per call, in milliseconds
+ * @returns A promise for the outcome, or {@link TIMED_OUT}
+ */
+async function quantifyAsync(
+    quantifier: Quantifier,
+    values: unknown,
+    call: (value: unknown) => boolean | Promise<boolean>,
+    signal: AbortSignal | undefined,
+    timeoutMs: number | undefined
+): Promise<boolean | typeof TIMED_OUT> {
+    const list = Array.isArray(values) ? values : [values];
+
+    for (const value of list) {
+        const outcome = await settle(call(value), signal, timeoutMs);
+        if (outcome === TIMED_OUT) return TIMED_OUT;
+
+        const decided = decideQuantifier(quantifier, outcome);
+        if (decided !== undefined) return decided;
+    }
+
+    return quantifier !== 'some';
+}
+
+/**
+ * Decides the outcome of a quantified rule after one more value has been checked.
+ *
+ * @param quantifier - How the operator results are combined
+ * @param passed - Whether the operator accepted the value
+ * @returns The outcome, or `undefined` when more values must be checked
+ */
+function decideQuantifier(quantifier: Quantifier, passed: boolean): boolean | undefined {
+    switch (quantifier) {
+        case 'every': return passed ? undefined : false;
+        case 'some': return passed ? true : undefined;
+        case 'none': return passed ? false : undefined;
+    }
+}
+
+/**
+ * Checks the severity of a rule or group, when it has one.
+ *
+ * @param severity - The declared severity
+ * @param operator - The rule operator or group operator, reported on errors
+ * @throws {ValidraArgumentError} When the severity is not `error`, `warning` or `info`
+ */
+function checkSeverity(severity: unknown, operator: string): void {
+    if (severity !== undefined && !SEVERITIES.includes(severity as Severity)) {
+        throw new ValidraArgumentError(`Severity must be one of ${SEVERITIES.join(', ')}.`, { operator, argument: severity });
+    }
+}
+
+/**
+ * Returns the implementation of an operator as a function of unknown values.
+ *
+ * Field values and arguments are only typed as {@link ValidraValue}s for
+ * operator authors: the compiler passes whatever the fact holds, and the
+ * operators reject unexpected values at runtime.
+ *
+ * @param operator - The operator
+ * @returns The operator implementation
+ */
+function untyped(operator: OperatorDefinition): (value: unknown, ...args: unknown[]) => boolean | Promise<boolean> {
+    return operator.fn as (value: unknown, ...args: unknown[]) => boolean | Promise<boolean>;
+}
+
+/**
+ * Binds an operator to its constant arguments with a fixed-arity call,
+ * so evaluating a rule doesn't spread or allocate an argument list.
+ *
+ * @param operator - The operator to bind
+ * @param args - The prepared constant arguments, followed by the configured rule options
+ * @returns A function testing a field value
+ */
+function bindOperator(operator: OperatorDefinition, args: unknown[]): OperatorCall {
+    const fn = untyped(operator);
+    const [a, b] = args;
+
+    switch (args.length) {
+        case 0: return value => fn(value);
+        case 1: return value => fn(value, a);
+        case 2: return value => fn(value, a, b);
+        default: return value => fn(value, ...args);
+    }
+}
+
+/**
+ * Compiles an operator argument computed from the fact.
+ *
+ * References are resolved with the same path semantics as rule fields and
+ * expressions are compiled with {@link compileExpression}.
+ *
+ * @param arg - The rule argument
+ * @param op - The operator of the rule, for error details
+ * @param subject - Description of the rule's field or expression, for error messages
+ * @returns A function computing the argument for a fact, or `undefined` for constant arguments
+ * @throws {ValidraArgumentError} At evaluation time, with code `ERR_VALIDRA_MISSING_ARGUMENT`,
+ * when a reference can't be resolved and its path isn't optional
+ */
+function compileOperand(arg: unknown, op: string, subject: string): ((fact: Fact) => unknown) | undefined {
+    if (isExpressionOperand(arg)) return compileExpression(arg.expr).evaluate;
+    if (!isFieldReference(arg)) return undefined;
+
+    const reference = compilePath(arg.ref);
+    return fact => {
+        const value = reference.get(fact);
+        if (value === ABSENT) {
+            if (reference.optional) throw new AbsentReference(`Optional reference "${reference.path}" is absent.`);
+            throw new ValidraArgumentError(
+                `Reference "${reference.path}" in rule for ${subject} could not be resolved.`,
+                { operator: op, argument: reference.path },
+                'ERR_VALIDRA_MISSING_ARGUMENT'
+            );
+        }
+
+        return reference.wildcard && Array.isArray(value) ? value.map(item => item === ABSENT ? undefined : item) : value;
+    };
+}
+
+/**
+ * Binds an operator to arguments computed from the fact.
+ *
+ * Computed arguments are evaluated on every call, then the operator's
+ * `prepare` step runs on the resolved list.
+ *
+ * @param operator - The operator to bind
+ * @param args - The rule arguments, constant and computed
+ * @param operands - The compiled computed arguments, by position
+ * @param settings - The configured rule options, passed after the arguments
+ * @returns A function testing a field value
+ */
+function bindOperands(
+    operator: OperatorDefinition,
+    args: unknown[],
+    operands: (((fact: Fact) => unknown) | undefined)[],
+    settings: unknown[]
+): OperatorCall {
+    const fn = untyped(operator);
+
+    return (value, fact) => {
+        const resolved = args.map((arg, index) => {
+            const operand = operands[index];
+            return operand ? operand(fact) : arg;
+        });
+        return fn(value, ...(operator.prepare ? operator.prepare(resolved) : resolved), ...settings);
+    };
+}
+
+/**
+ * Builds the operator argument list from the rule value.
+ *
+ * Single-argument operators receive the value as is, multi-argument
+ * operators expect it to be an array of arguments.
+ *
+ * @param rule - The rule holding the arguments
+ * @param operator - The operator the arguments are for
+ * @returns The arguments to pass after the field value
+ */
+function getArguments(rule: Rule, operator: OperatorDefinition): unknown[] {
+    if (!('value' in rule)) return [];
+    if (operator.arity > 1 && Array.isArray(rule.value)) return rule.value;
+    return [rule.value];
+}
@@ -0,0 +1,576 @@
+/**
+ * @fileoverview Decision tables loaded from CSV or JSON and compiled to rules.
+ * @module DecisionTable
+ * @version 1.0.0
+ * @author Felix M. Martinez
+ * @since 1.0.0
+ */
+
+import { parse } from "@/dls/parser";
+import { DslSyntaxError } from "@/dls/dsl-syntax-error";
+import { toCondition } from "@/dls/to-condition";
+import { CsvOptions, Fact, parseCsv, ValidraArgumentError } from "@/utils";
+import { compile, CompiledRuleSet } from "./compiler";
+import { parsePath } from "./path-accessor";
+import { Condition, ConditionResult, EngineOptions, Rule } from "./types";
+
+/**
+ * How a decision table picks its result among the matching rows.
+ *
+ * - `first`: the first matching row, in table order
+ * - `unique`: the only matching row; several matches are an error
+ * - `collect`: every matching row, in table order
+ * - `priority`: the matching row with the highest `#priority`, the first one on ties
+ *
+ * @public
+ */
+export type HitPolicy = 'first' | 'unique' | 'collect' | 'priority';
+
+/**
+ * A decision table in JSON form: a header row and data rows.
+ *
+ * Input headers are fact paths, output headers start with `=>`, e.g.
+ * `=> discount`, and `#id` and `#priority` headers hold the id and
+ * priority of each row. Other headers starting with `#` are annotations
+ * and are ignored.
+ *
+ * Input cells hold conditions in operator shorthand as strings (see
+ * {@link DecisionTable}); numbers and booleans match equal values and
+ * `null` matches anything. Output cells hold the output values as is.
+ *
+ * @example
+ * ```typescript
+ * const document: DecisionTableDocument = {
+ *   hitPolicy: "first",
+ *   columns: ["customer.age", "customer.tier", "=> discount"],
+ *   rows: [
+ *     [">=65", "-", 15],
+ *     ["-", "gold, platinum", 10],
+ *     [null, null, 0]
+ *   ]
+ * };
+ * ```
+ *
+ * @public
+ */
+export interface DecisionTableDocument {
+    /** How the result is picked among the matching rows. Defaults to `first` */
+    hitPolicy?: HitPolicy;
+    /** The column headers */
+    columns: string[];
+    /** The data rows, one cell per column; missing trailing cells are empty */
+    rows: unknown[][];
+}
+
+/**
+ * Options accepted by {@link DecisionTable}.
+ *
+ * @public
+ */
+export interface DecisionTableOptions extends EngineOptions {
+    /** How the result is picked among the matching rows. Overrides the document's hit policy */
+    hitPolicy?: HitPolicy;
+}
+
+/**
+ * A row of a {@link DecisionTable}, compiled to a condition.
+ *
+ * @public
+ */
+export interface DecisionRow {
+    /** The row's `#id`, when the table has one */
+    id?: string;
+    /** The row's `#priority`, or `0` */
+    priority: number;
+    /** The condition of the row: its input cells combined with `all` */
+    condition: Condition;
+    /** The row's outputs, keyed by output name; empty output cells are left out */
+    output: Record<string, unknown>;
+}
+
+/**
+ * Outcome of {@link DecisionTable.evaluate}.
+ *
+ * @public
+ */
+export interface DecisionResult {
+    /** `true` when at least one row was selected */
+    matched: boolean;
+    /** Outputs of the first selected row, or `undefined` when no row matched */
+    output: Record<string, unknown> | undefined;
+    /** Outputs of every selected row: all matching rows for `collect`, at most one otherwise */
+    outputs: Record<string, unknown>[];
+    /** Zero-based indices of the selected rows */
+    rows: number[];
+}
+
+/** Accepted hit policies */
+const HIT_POLICIES: readonly HitPolicy[] = ['first', 'unique', 'collect', 'priority'];
+
+/** Prefix of output column headers */
+const OUTPUT_PREFIX = '=>';
+
+/** Placeholder subject of input cells while they are parsed */
+const SUBJECT = '$cell';
+
+/** Matches cells made of a single bare word, read as a string */
+const BARE_WORD = /^[A-Za-z_][\w-]*$/;
+
+/** Bare words read as literals rather than strings */
+const LITERAL_WORDS = new Set(['true', 'false', 'null']);
+
+/** Matches cells starting with a comparison operator */
+const COMPARISON = /^(>=|<=|==|!=|>|<|=)/;
+
+/**
+ * A decision table: rows of conditions over fact fields and the outputs
+ * they decide, compiled once into engine rules.
+ *
+ * Input cells are written in operator shorthand and compile to the same
+ * rules and helpers as the DSL, with the column's field as subject:
+ *
+ * - `-` or an empty cell matches anything
+ * - `>=18`, `< 100`, `!= 0`, `=5` compare the field
+ * - `between 1..5`, `not between 1..5` check ranges
+ * - `contains "vip"`, `startsWith "A"`, `after date("2025-01-01")` apply word operators
+ * - `weekday`, `email`, `not empty`, `is leapYear` apply `is` predicates
+ * - `42`, `true`, `"gold"` or a bare word like `gold` match equal values
+ * - comma-separated alternatives, e.g. `gold, platinum` or `<18, >=65`, match any of them
+ *
+ * Strings in operator cells must be quoted; bare words after an operator
+ * are references to other fields, like in the DSL.
+ *
+ * @example
+ * ```typescript
+ * const table = DecisionTable.fromCsv(
+ *   'customer.age,customer.tags,signupDate,=> eligible,=> discount\n' +
+ *   '>=18,"contains ""vip""",weekday,true,20\n' +
+ *   'between 18..64,-,-,true,5\n' +
+ *   '-,-,-,false,\n'
+ * );
+ *
+ * table.evaluate({ customer: { age: 30, tags: ["vip"] }, signupDate: new Date("2025-01-06") }).output;
+ * // { eligible: true, discount: 20 }
+ * ```
+ *
+ * @public
+ */
+export class DecisionTable {
+    /** How the result is picked among the matching rows */
+    readonly hitPolicy: HitPolicy;
+    /** Fact paths of the input columns */
+    readonly inputs: readonly string[];
+    /** Names of the output columns */
+    readonly outputs: readonly string[];
+    /** The compiled rows, in table order */
+    readonly rows: readonly DecisionRow[];
+    /** One compiled rule set per row */
+    private readonly ruleSets: CompiledRuleSet[];
+
+    /**
+     * Creates a decision table from its JSON form.
+     *
+     * @param document - The table's hit policy, headers and rows
+     * @param options - Hit policy, operator registry and `onTypeMismatch` policy
+     * @throws {ValidraArgumentError} When a header, cell or the hit policy is invalid
+     *
+     * @example
+     * ```typescript
+     * const table = new DecisionTable({
+     *   columns: ["order.total", "=> shipping"],
+     *   rows: [[">100", "free"], ["-", "standard"]]
+     * });
+     * table.evaluate({ order: { total: 150 } }).output; // { shipping: "free" }
+     * ```
+     */
+    constructor(document: DecisionTableDocument, options: DecisionTableOptions = {}) {
+        if (document === null || typeof document !== 'object' || !Array.isArray(document.columns) || !Array.isArray(document.rows)) {
+            throw new ValidraArgumentError('Decision table must have "columns" and "rows" arrays.', { argument: document });
+        }
+
+        const hitPolicy = options.hitPolicy ?? document.hitPolicy ?? 'first';
+        if (!HIT_POLICIES.includes(hitPolicy)) {
+            throw new ValidraArgumentError(`Hit policy must be one of ${HIT_POLICIES.join(', ')}.`, { argument: hitPolicy });
+        }
+
+        const columns = document.columns.map(readColumn);
+        const outputs = columns.filter(column => column.kind === 'output').map(column => column.name);
+        if (outputs.length === 0) {
+            throw new ValidraArgumentError(`Decision table requires at least one output column, e.g. "${OUTPUT_PREFIX} result".`, {
+                argument: document.columns
+            });
+        }
+        const duplicate = outputs.find((name, index) => outputs.indexOf(name) !== index);
+        if (duplicate !== undefined) {
+            throw new ValidraArgumentError(`Output column "${duplicate}" is defined more than once.`, { argument: document.columns });
+        }
+
+        this.hitPolicy = hitPolicy;
+        this.inputs = columns.filter(column => column.kind === 'input').map(column => column.name);
+        this.outputs = outputs;
+        this.rows = document.rows.map((cells, index) => readRow(columns, cells, index + 1));
+        this.ruleSets = this.rows.map(row => compile([row.condition], options));
+    }
+
+    /**
+     * Creates a decision table from CSV text whose first row holds the headers.
+     *
+     * Output cells are read as `true`, `false`, `null`, numbers, quoted
+     * strings or, otherwise, the text as written; empty output cells are
+     * left out of the row's output.
+     *
+     * @param text - The CSV text, e.g. exported from a spreadsheet
+     * @param options - Hit policy, CSV delimiter, operator registry and `onTypeMismatch` policy
+     * @returns The decision table
+     * @throws {ValidraArgumentError} When the CSV is malformed or a header, cell or the hit policy is invalid
+     *
+     * @example
+     * ```typescript
+     * const table = DecisionTable.fromCsv(readFileSync("eligibility.csv", "utf8"), { hitPolicy: "collect" });
+     * ```
+     */
+    static fromCsv(text: string, options: DecisionTableOptions & CsvOptions = {}): DecisionTable {
+        const [columns = [], ...rows] = parseCsv(text, options);
+        const outputs = new Set(columns.map((header, index) => readColumn(header).kind === 'output' ? index : -1));
+
+        return new DecisionTable({
+            columns,
+            rows: rows.map(row => row.map((cell, index) => outputs.has(index) ? readOutputText(cell) : cell))
+        }, options);
+    }
+
+    /**
+     * Creates a decision table from its JSON form, given as text or parsed.
+     *
+     * @param json - The JSON text or the parsed {@link DecisionTableDocument}
+     * @param options - Hit policy, operator registry and `onTypeMismatch` policy
+     * @returns The decision table
+     * @throws {ValidraArgumentError} When the JSON is malformed or a header, cell or the hit policy is invalid
+     *
+     * @example
+     * ```typescript
+     * const table = DecisionTable.fromJson(await readFile("eligibility.json", "utf8"));
+     * ```
+     */
+    static fromJson(json: string | DecisionTableDocument, options: DecisionTableOptions = {}): DecisionTable {
+        if (typeof json !== 'string') return new DecisionTable(json, options);
+
+        let document: DecisionTableDocument;
+        try {
+            document = JSON.parse(json) as DecisionTableDocument;
+        } catch (error) {
+            throw new ValidraArgumentError(`Decision table is not valid JSON: ${(error as Error).message}`, { argument: json, cause: error });
+        }
+
+        return new DecisionTable(document, options);
+    }
+
+    /**
+     * Finds the rows matching a fact and picks the result with the hit policy.
+     *
+     * @param fact - The input object
+     * @returns The selected rows and their outputs
+     * @throws {ValidraArgumentError} When the hit policy is `unique` and several rows match
+     * @throws {RuleEvaluationError} When a cell cannot be evaluated, e.g. a missing field compared with `>=`
+     *
+     * @example
+     * ```typescript
+     * const { matched, output } = table.evaluate({ customer: { age: 70 } });
+     * ```
+     */
+    evaluate(fact: Fact): DecisionResult {
+        const matches: number[] = [];
+
+        for (let index = 0; index < this.ruleSets.length; index++) {
+            const [result] = (this.ruleSets[index] as CompiledRuleSet).evaluate(fact).results;
+            if (!isMatch(result as ConditionResult)) continue;
+
+            matches.push(index);
+            if (this.hitPolicy === 'first') break;
+        }
+
+        let selected = matches;
+        if (this.hitPolicy === 'unique' && matches.length > 1) {
+            const rows = matches.map(index => index + 1);
+            throw new ValidraArgumentError(
+                `Hit policy "unique" allows a single matching row, but rows ${rows.slice(0, -1).join(', ')} and ${rows[rows.length - 1]} matched.`,
+                { argument: fact }
+            );
+        }
+        if (this.hitPolicy === 'priority' && matches.length > 1) {
+            const priorityOf = (index: number) => (this.rows[index] as DecisionRow).priority;
+            selected = [matches.reduce((best, index) => priorityOf(index) > priorityOf(best) ? index : best)];
+        }
+
+        const outputs = selected.map(index => ({ ...(this.rows[index] as DecisionRow).output }));
+        return { matched: selected.length > 0, output: outputs[0], outputs, rows: selected };
+    }
+
+    /**
+     * Returns the rows as engine conditions, e.g. to export them with {@link toRuleSet}.
+     *
+     * Each row's condition carries the row's `#id` and `#priority`.
+     *
+     * @returns One condition per row, in table order
+     */
+    toConditions(): Condition[] {
+        return this.rows.map(row => ({ ...row.condition }));
+    }
+}
+
+/**
+ * A classified column header.
+ */
+interface Column {
+    kind: 'input' | 'output' | 'id' | 'priority' | 'annotation';
+    name: string;
+}
+
+/**
+ * Classifies a column header.
+ *
+ * @param header - The header text
+ * @returns The column kind and its fact path or output name
+ * @throws {ValidraArgumentError} When the header is empty or an input header is not a valid field path
+ */
+function readColumn(header: unknown): Column {
+    const text = typeof header === 'string' ? header.trim() : '';
+    if (text === '') {
+        throw new ValidraArgumentError('Decision table column headers must be non-empty strings.', { argument: header });
+    }
+
+    if (text.startsWith(OUTPUT_PREFIX)) {
+        const name = text.slice(OUTPUT_PREFIX.length).trim();
+        if (name === '') {
+            throw new ValidraArgumentError(`Output column "${text}" must be named, e.g. "${OUTPUT_PREFIX} result".`, { argument: header });
+        }
+        return { kind: 'output', name };
+    }
+    if (text === '#id') return { kind: 'id', name: text };
+    if (text === '#priority') return { kind: 'priority', name: text };
+    if (text.startsWith('#')) return { kind: 'annotation', name: text };
+
+    try {
+        parsePath(text);
+    } catch (error) {
+        throw new ValidraArgumentError(`Invalid column "${text}": ${(error as Error).message}`, { argument: header, cause: error });
+    }
+
+    return { kind: 'input', name: text };
+}
+
+/**
+ * Compiles a data row into its condition and outputs.
+ *
+ * @param columns - The classified headers
+ * @param cells - The row's cells
+ * @param row - One-based row number, for error messages
+ * @returns The compiled row
+ * @throws {ValidraArgumentError} When the row has too many cells or a cell is invalid
+ */
+function readRow(columns: Column[], cells: unknown[], row: number): DecisionRow {
+    if (!Array.isArray(cells) || cells.length > columns.length) {
+        throw new ValidraArgumentError(`Row ${row} must be an array of at most ${columns.length} cells.`, { argument: cells });
+    }
+
+    const conditions: Condition[] = [];
+    const output: Record<string, unknown> = {};
+    let id: string | undefined;
+    let priority = 0;
+
+    columns.forEach((column, index) => {
+        const cell = cells[index];
+        const empty = cell === undefined || cell === null || (typeof cell === 'string' && cell.trim() === '');
+
+        switch (column.kind) {
+            case 'input': {
+                const condition = readInputCell(column.name, cell, row);
+                if (condition) conditions.push(condition);
+                break;
+            }
+            case 'output':
+                if (cell !== undefined) output[column.name] = cell;
+                break;
+            case 'id':
+                if (!empty) id = String(cell).trim();
+                break;
+            case 'priority':
+                if (!empty) {
+                    priority = typeof cell === 'number' ? cell : Number(String(cell).trim());
+                    if (!Number.isFinite(priority)) {
+                        throw new ValidraArgumentError(`Invalid priority "${String(cell)}" in row ${row}.`, { argument: cell });
+                    }
+                }
+                break;
+        }
+    });
+
+    const condition: Condition = conditions.length === 1 ? conditions[0] as Condition : { all: conditions };
+    if (id !== undefined) condition.id = id;
+    if (priority !== 0) condition.priority = priority;
+
+    return id === undefined ? { priority, condition, output } : { id, priority, condition, output };
+}
+
+/**
+ * Compiles an input cell into a condition on the column's field.
+ *
+ * @param path - The column's field path
+ * @param cell - The cell
+ * @param row - One-based row number, for error messages
+ * @returns The condition, or `undefined` for cells that match anything
+ * @throws {ValidraArgumentError} When the cell is not valid shorthand
+ */
+function readInputCell(path: string, cell: unknown, row: number): Condition | undefined {
+    if (cell === undefined || cell === null) return undefined;
+    if (typeof cell === 'number' || typeof cell === 'boolean') return { field: path, op: 'eq', value: cell };
+    if (typeof cell !== 'string') {
+        throw new ValidraArgumentError(`Invalid cell in row ${row}, column "${path}": input cells must be strings, numbers, booleans or null.`, {
+            argument: cell
+        });
+    }
+
+    const text = cell.trim();
+    if (text === '' || text === '-') return undefined;
+
+    const alternatives = splitAlternatives(text).map(alternative => {
+        try {
+            return bindSubject(readShorthand(alternative), path);
+        } catch (error) {
+            const reason = error instanceof DslSyntaxError ? error.reason : (error as Error).message;
+            throw new ValidraArgumentError(`Invalid cell "${text}" in row ${row}, column "${path}": ${reason}`, {
+                argument: cell,
+                cause: error
+            });
+        }
+    });
+
+    return alternatives.length === 1 ? alternatives[0] : { any: alternatives };
+}
+
+/**
+ * Parses one alternative of an input cell into a condition on {@link SUBJECT}.
+ *
+ * The cell is read as the end of a DSL predicate (`>= 18`, `contains "vip"`),
+ * then as an `is` predicate (`weekday`, `not empty`), then as a value
+ * compared for equality (`42`, `"gold"`); a bare word that is none of these
+ * is compared as a string.
+ *
+ * @param text - The trimmed alternative
+ * @returns The condition
+ * @throws {DslSyntaxError} When the text is not valid shorthand
+ */
+function readShorthand(text: string): Condition {
+    const comparison = COMPARISON.exec(text);
+    if (comparison) {
+        const source = comparison[1] === '=' ? `==${text.slice(1)}` : text;
+        return toCondition(parse(`${SUBJECT} ${source}`));
+    }
+
+    const source = /^(not\s+)?between\b/.test(text) ? text.replace('..', ' and ') : text;
+    const bareWord = BARE_WORD.test(text) && !LITERAL_WORDS.has(text);
+    const candidates = [`${SUBJECT} ${source}`, `${SUBJECT} is ${source}`];
+    if (!bareWord) candidates.push(`${SUBJECT} == ${source}`);
+    let firstError: unknown;
+
+    for (const candidate of candidates) {
+        try {
+            return toCondition(parse(candidate));
+        } catch (error) {
+            firstError ??= error;
+        }
+    }
+
+    if (bareWord) return { field: SUBJECT, op: 'eq', value: text };
+    throw firstError;
+}
+
+/**
+ * Replaces the placeholder subject of a parsed cell with the column's field.
+ *
+ * @param condition - The condition parsed with {@link SUBJECT} as subject
+ * @param path - The column's field path
+ * @returns The condition on the column's field
+ */
+function bindSubject(condition: Condition, path: string): Condition {
+    if ('op' in condition) {
+        const rule = condition as Rule;
+        return rule.field === SUBJECT ? { ...rule, field: path } : rule;
+    }
+
+    const group = { ...condition } as Record<string, unknown>;
+    for (const key of ['all', 'any', 'none', 'of']) {
+        if (Array.isArray(group[key])) group[key] = (group[key] as Condition[]).map(child => bindSubject(child, path));
+    }
+    if (group['not'] !== undefined) group['not'] = bindSubject(group['not'] as Condition, path);
+
+    return group as unknown as Condition;
+}
+
+/**
+ * Splits a cell on the commas separating alternatives, ignoring commas
+ * inside strings and parentheses.
+ *
+ * @param text - The cell
+ * @returns The trimmed alternatives
+ */
+function splitAlternatives(text: string): string[] {
+    const alternatives: string[] = [];
+    let depth = 0;
+    let quote: string | undefined;
+    let start = 0;
+
+    for (let index = 0; index < text.length; index++) {
+        const char = text[index] as string;
+        if (quote) {
+            if (char === '\\') index++;
+            else if (char === quote) quote = undefined;
+        } else if (char === '"' || char === "'") {
+            quote = char;
+        } else if (char === '(') {
+            depth++;
+        } else if (char === ')') {
+            depth--;
+        } else if (char === ',' && depth === 0) {
+            alternatives.push(text.slice(start, index).trim());
+            start = index + 1;
+        }
+    }
+    alternatives.push(text.slice(start).trim());
+
+    return alternatives;
+}
+
+/**
+ * Reads an output cell of a CSV table.
+ *
+ * @param text - The cell text
+ * @returns `true`, `false`, `null`, a number, the unquoted string, the text
+ * as written, or `undefined` for empty cells
+ */
+function readOutputText(text: string): unknown {
+    const value = text.trim();
+    if (value === '') return undefined;
+    if (value === 'true' || value === 'false') return value === 'true';
+    if (value === 'null') return null;
+    if (/^-?(\d+\.?\d*|\.\d+)(e[+-]?\d+)?$/i.test(value)) return Number(value);
+    if (value.length >= 2 && value.startsWith('"') && value.endsWith('"')) {
+        try {
+            return JSON.parse(value) as string;
+        } catch {
+            return value.slice(1, -1);
+        }
+    }
+
+    return value;
+}
+
+/**
+ * Whether a row's condition matched.
+ *
+ * @param result - The condition result
+ * @returns `true` for passed rules and passed groups that weren't skipped
+ */
+function isMatch(result: ConditionResult): boolean {
+    return 'rule' in result ? result.status === 'passed' : result.passed && result.skipped !== true;
+}
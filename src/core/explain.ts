@@ -0,0 +1,268 @@
+/**
+ * @fileoverview Builds evaluation traces and renders them as indented text.
+ * @module Explain
+ * @version 1.0.0
+ * @author Felix M. Martinez
+ * @since 1.0.0
+ */
+
+import {
+    Condition,
+    ConditionGroup,
+    ConditionResult,
+    EvaluationResult,
+    Explanation,
+    GroupOperator,
+    GroupResult,
+    GroupTrace,
+    Rule,
+    RuleResult,
+    RuleTrace,
+    TraceNode,
+    TraceStatus
+} from "./types";
+import { RuleTimings } from "./validation-result";
+
+/**
+ * Operator arguments of evaluated rules, with references and expressions
+ * resolved against the fact, keyed by rule result.
+ *
+ * @internal
+ */
+export type RuleArguments = WeakMap<RuleResult, unknown[]>;
+
+/**
+ * Children of each compiled group in evaluation order, keyed by group definition.
+ *
+ * @internal
+ */
+export type ChildOrder = WeakMap<ConditionGroup, Condition[]>;
+
+/**
+ * What an evaluation records so it can be explained.
+ *
+ * @internal
+ */
+export interface TraceContext {
+    timings: RuleTimings;
+    resolved: RuleArguments;
+    order: ChildOrder;
+}
+
+/**
+ * Options accepted by {@link renderTrace}.
+ *
+ * @public
+ */
+export interface TraceRenderOptions {
+    /** Whether each line ends with the time spent on the condition. Defaults to `true` */
+    durations?: boolean;
+}
+
+/** Keys identifying a condition group, in lookup order */
+const GROUP_OPERATORS: readonly GroupOperator[] = ['all', 'any', 'not', 'none', 'atLeast'];
+
+/** Marker printed before each node, by status */
+const MARKS: Record<TraceStatus, string> = {
+    passed: '✓',
+    failed: '✗',
+    timeout: '✗',
+    skipped: '–',
+    notEvaluated: '·'
+};
+
+/** Maximum length of a value printed by {@link renderTrace} */
+const MAX_VALUE_LENGTH = 60;
+
+/**
+ * Builds an {@link Explanation} from the results of the top-level conditions.
+ *
+ * Results are matched to conditions by position: conditions after the last
+ * result, at the top level or in a group, were not evaluated.
+ *
+ * @param conditions - The top-level conditions, in evaluation order
+ * @param evaluation - The outcome of the evaluation
+ * @param context - Timings, resolved arguments and child order recorded during the evaluation
+ * @param duration - Total evaluation time, in milliseconds
+ * @returns The explanation
+ *
+ * @internal
+ */
+export function toExplanation(
+    conditions: Condition[],
+    { passed, results }: EvaluationResult,
+    context: TraceContext,
+    duration: number
+): Explanation {
+    return {
+        passed,
+        trace: conditions.map((condition, index) => toTraceNode(condition, results[index], context)),
+        duration
+    };
+}
+
+/**
+ * Renders an evaluation trace as indented text, one line per condition.
+ *
+ * Lines start with `✓` for passed conditions, `✗` for failed and timed out
+ * ones, `–` for skipped ones and `·` for conditions that were not evaluated.
+ * Rules show their field, operator, resolved arguments and the actual value.
+ *
+ * @param explanation - The explanation returned by {@link ValidraEngine.explain}
+ * @param options - Whether durations are printed
+ * @returns The rendered trace
+ *
+ * @example
+ * ```typescript
+ * console.log(renderTrace(engine.explain({ user: { age: 16, country: "FR" } })));
+ * // ✗ evaluation failed [0.041 ms]
+ * //   ✗ [adult] user.age gte 18 (actual: 16) [0.008 ms]
+ * //   ✗ any [0.012 ms]
+ * //     ✗ user.country eq "US" (actual: "FR") [0.003 ms]
+ * //     ✗ user.hasConsent eq true (actual: undefined) [0.002 ms]
+ * ```
+ *
+ * @public
+ */
+export function renderTrace(explanation: Explanation, options: TraceRenderOptions = {}): string {
+    const { durations = true } = options;
+    const lines = [
+        `${explanation.passed ? MARKS.passed : MARKS.failed} evaluation ${explanation.passed ? 'passed' : 'failed'}` +
+        (durations ? ` ${formatDuration(explanation.duration)}` : '')
+    ];
+
+    const render = (node: TraceNode, depth: number): void => {
+        lines.push(`${'  '.repeat(depth)}${renderNode(node, durations)}`);
+        if (node.kind === 'group') node.children.forEach(child => render(child, depth + 1));
+    };
+    explanation.trace.forEach(node => render(node, 1));
+
+    return lines.join('\n');
+}
+
+/**
+ * Builds the trace node of a condition.
+ *
+ * @param condition - The condition definition
+ * @param result - The condition's result, or `undefined` when it was not evaluated
+ * @param context - Timings, resolved arguments and child order recorded during the evaluation
+ * @returns The trace node
+ */
+function toTraceNode(condition: Condition, result: ConditionResult | undefined, context: TraceContext): TraceNode {
+    const duration = result ? context.timings.get(result) ?? 0 : 0;
+    const operator = GROUP_OPERATORS.find(key => key in condition);
+
+    if (operator === undefined) {
+        const rule = condition as Rule;
+        const node: RuleTrace = {
+            kind: 'rule',
+            rule,
+            subject: (rule.field ?? rule.expr) as string,
+            operator: rule.op,
+            expected: rule.value,
+            status: 'notEvaluated',
+            duration
+        };
+        if (rule.id !== undefined) node.id = rule.id;
+        if (!result || !('rule' in result)) return node;
+
+        node.status = result.status;
+        node.passed = result.passed;
+        node.actual = result.actual;
+        if (result.reason !== undefined) node.reason = result.reason;
+        const resolved = context.resolved.get(result);
+        if (resolved) node.arguments = resolved;
+
+        return node;
+    }
+
+    const group = condition as ConditionGroup;
+    const groupResult = result as GroupResult | undefined;
+    const node: GroupTrace = {
+        kind: 'group',
+        group,
+        operator,
+        status: 'notEvaluated',
+        children: (context.order.get(group) ?? []).map((child, index) => toTraceNode(child, groupResult?.children[index], context)),
+        duration
+    };
+    if (group.id !== undefined) node.id = group.id;
+    if ('atLeast' in group) node.threshold = group.atLeast;
+    if (!groupResult) return node;
+
+    node.passed = groupResult.passed;
+    node.status = groupResult.skipped ? 'skipped' : groupResult.passed ? 'passed' : 'failed';
+    if (groupResult.skipped && groupResult.children.length === 0 && group.group !== undefined) {
+        node.reason = `Rule group "${group.group}" is turned off.`;
+    }
+
+    return node;
+}
+
+/**
+ * Renders the line of a trace node, without indentation.
+ *
+ * @param node - The trace node
+ * @param durations - Whether the duration is printed
+ * @returns The rendered line
+ */
+function renderNode(node: TraceNode, durations: boolean): string {
+    const parts = [MARKS[node.status]];
+    if (node.id !== undefined) parts.push(`[${node.id}]`);
+
+    if (node.kind === 'group') {
+        parts.push(node.threshold !== undefined ? `atLeast ${node.threshold} of` : node.operator);
+    } else {
+        const args = node.arguments?.map(formatValue).join(', ') ?? ('value' in node.rule ? formatValue(node.expected) : '');
+        parts.push(node.subject, node.operator);
+        if (args !== '') parts.push(args);
+    }
+
+    if (node.status === 'notEvaluated') {
+        parts.push('(not evaluated)');
+        return parts.join(' ');
+    }
+
+    if (node.kind === 'rule') parts.push(`(actual: ${formatValue(node.actual)})`);
+    if (node.status === 'timeout') parts.push('timed out');
+    if (node.status === 'skipped' && node.reason === undefined) parts.push('skipped');
+    if (node.reason !== undefined) parts.push(`— ${node.reason}`);
+    if (durations) parts.push(formatDuration(node.duration));
+
+    return parts.join(' ');
+}
+
+/**
+ * Formats a value for a trace line, shortening long values.
+ *
+ * @param value - The value to format
+ * @returns The formatted value
+ */
+function formatValue(value: unknown): string {
+    let text: string;
+    if (value instanceof Date) {
+        text = Number.isNaN(value.getTime()) ? 'Invalid Date' : value.toISOString();
+    } else if (value instanceof RegExp || value === undefined || typeof value === 'function' || typeof value === 'symbol') {
+        text = String(value);
+    } else if (typeof value === 'bigint') {
+        text = `${value}n`;
+    } else {
+        try {
+            text = JSON.stringify(value) ?? String(value);
+        } catch {
+            text = String(value);
+        }
+    }
+
+    return text.length > MAX_VALUE_LENGTH ? `${text.slice(0, MAX_VALUE_LENGTH - 1)}…` : text;
+}
+
+/**
+ * Formats a duration for a trace line.
+ *
+ * @param duration - The duration, in milliseconds
+ * @returns The formatted duration, e.g. `[0.012 ms]`
+ */
+function formatDuration(duration: number): string {
+    return `[${duration.toFixed(3)} ms]`;
+}
@@ -0,0 +1,294 @@
+/**
+ * @fileoverview Safe evaluation of arithmetic expressions computing rule operands.
+ * @module Expression
+ * @version 1.0.0
+ * @author Felix M. Martinez
+ * @since 1.0.0
+ */
+
+import { BinaryNode, CallNode, DurationUnit, ValueNode } from "@/dls/ast";
+import { TypeChecker } from "@/dls/helpers";
+import { parseOperand } from "@/dls/parser";
+import { ValidraTypeError } from "@/utils";
+import { isFieldReference } from "./field-path";
+import { ABSENT, compilePath } from "./path-accessor";
+import { ExpressionOperand, FieldReference } from "./types";
+
+/**
+ * An expression parsed once and ready to be evaluated against many facts.
+ *
+ * @public
+ */
+export interface CompiledExpression {
+    /** The source expression */
+    readonly source: string;
+    /** The parsed expression tree */
+    readonly node: ValueNode;
+
+    /**
+     * Computes the value of the expression for a fact.
+     *
+     * @param fact - The object fields are read from
+     * @returns The computed value
+     * @throws {ValidraTypeError} When an operator or function receives values of the wrong type
+     */
+    evaluate(fact: unknown): unknown;
+}
+
+/** Milliseconds in one unit of each duration unit */
+const UNIT_MS: Record<DurationUnit, number> = {
+    milliseconds: 1,
+    seconds: 1000,
+    minutes: 60 * 1000,
+    hours: 60 * 60 * 1000,
+    days: 24 * 60 * 60 * 1000,
+    weeks: 7 * 24 * 60 * 60 * 1000
+};
+
+/**
+ * Parses an expression into a reusable evaluator.
+ *
+ * Expressions use the operand syntax of the DSL: fields, constants,
+ * durations such as `30 days`, the arithmetic operators `+`, `-`, `*`, `/`
+ * and `%`, and the aggregates `sum`, `min`, `max`, `avg` and `count`. The
+ * expression tree is walked by closures built once; source is never handed
+ * to `eval` or `new Function`.
+ *
+ * Fields are resolved like rule fields (see {@link compilePath}); fields that
+ * can't be resolved evaluate to `undefined`, and so do the elements of
+ * wildcard paths, unless the path is optional, in which case they are left
+ * out. Durations and differences between dates are numbers of milliseconds,
+ * and adding or subtracting a number of milliseconds to a date gives a date.
+ *
+ * Aggregates take a list, e.g. `sum(items[*].price)`, or several values,
+ * e.g. `max(a, b)`. `sum` of no values is `0`; `min`, `max` and `avg` of no
+ * values are `undefined`. `min` and `max` also compare dates.
+ *
+ * @param source - The expression, e.g. `"sum(items[*].price) * (1 + taxRate)"`
+ * @returns The compiled expression
+ * @throws {DslSyntaxError} When the expression is malformed
+ * @throws {ValidraArgumentError} When a field path is malformed
+ *
+ * @example
+ * ```typescript
+ * const total = compileExpression("sum(items[*].price) * (1 + taxRate)");
+ * total.evaluate({ items: [{ price: 40 }, { price: 60 }], taxRate: 0.25 }); // 125
+ *
+ * const rental = compileExpression("endDate - startDate");
+ * rental.evaluate({ startDate: new Date("2025-01-01"), endDate: new Date("2025-01-31") }); // 2592000000 (30 days)
+ * ```
+ *
+ * @public
+ */
+export function compileExpression(source: string): CompiledExpression {
+    const node = parseOperand(source);
+    return { source, node, evaluate: compileNode(node, source) };
+}
+
+/**
+ * Computes the value of an expression for a fact.
+ *
+ * Convenience wrapper around {@link compileExpression} for one-off evaluations.
+ *
+ * @param source - The expression
+ * @param fact - The object fields are read from
+ * @returns The computed value
+ * @throws {DslSyntaxError} When the expression is malformed
+ * @throws {ValidraTypeError} When an operator or function receives values of the wrong type
+ *
+ * @example
+ * ```typescript
+ * evaluateExpression("count(items) * 2", { items: [1, 2, 3] }); // 6
+ * evaluateExpression("shippedAt + 2 days", { shippedAt: new Date("2025-03-01") }); // 2025-03-03
+ * ```
+ *
+ * @public
+ */
+export function evaluateExpression(source: string, fact: unknown): unknown {
+    return compileExpression(source).evaluate(fact);
+}
+
+/**
+ * Checks whether a rule argument is an {@link ExpressionOperand}: an object
+ * whose only property is a string `expr`.
+ *
+ * @param value - The rule argument to check
+ * @returns `true` when the argument is computed with an expression
+ *
+ * @example
+ * ```typescript
+ * isExpressionOperand({ expr: "subtotal * 0.1" }); // true
+ * isExpressionOperand({ ref: "subtotal" });        // false
+ * ```
+ *
+ * @public
+ */
+export function isExpressionOperand(value: unknown): value is ExpressionOperand {
+    if (value === null || typeof value !== 'object' || Array.isArray(value)) return false;
+
+    const keys = Object.keys(value);
+    return keys.length === 1 && keys[0] === 'expr' && typeof (value as ExpressionOperand).expr === 'string';
+}
+
+/**
+ * Checks whether a rule argument is read from the fact on every evaluation:
+ * a {@link FieldReference} or an {@link ExpressionOperand}.
+ *
+ * @param value - The rule argument to check
+ * @returns `true` when the argument depends on the fact
+ *
+ * @internal
+ */
+export function isDynamicOperand(value: unknown): value is FieldReference | ExpressionOperand {
+    return isFieldReference(value) || isExpressionOperand(value);
+}
+
+/**
+ * Builds the evaluation function of an expression node.
+ *
+ * @param node - The node to compile
+ * @param source - The whole expression, for error messages
+ * @returns A function computing the node's value for a fact
+ */
+function compileNode(node: ValueNode, source: string): (fact: unknown) => unknown {
+    switch (node.type) {
+        case 'Literal': {
+            const { value } = node;
+            return () => value;
+        }
+        case 'Duration': {
+            const value = node.value * UNIT_MS[node.unit];
+            return () => value;
+        }
+        case 'Field':
+            return compileField(node.path);
+        case 'Negate': {
+            const operand = compileNode(node.operand, source);
+            return fact => {
+                const value = operand(fact);
+                if (typeof value !== 'number') {
+                    throw new ValidraTypeError(`Cannot negate ${TypeChecker.typeOf(value)} in expression "${source}".`, {
+                        operator: '-',
+                        argument: value
+                    });
+                }
+                return -value;
+            };
+        }
+        case 'Binary': {
+            const left = compileNode(node.left, source);
+            const right = compileNode(node.right, source);
+            const { operator } = node;
+            return fact => calculate(operator, left(fact), right(fact), source);
+        }
+        case 'Call': {
+            const args = node.args.map(arg => compileNode(arg, source));
+            const { callee } = node;
+            return fact => aggregate(callee, args.map(arg => arg(fact)), source);
+        }
+    }
+}
+
+/**
+ * Builds the resolution function of a field used in an expression.
+ *
+ * @param path - The field path
+ * @returns A function reading the field from a fact
+ */
+function compileField(path: string): (fact: unknown) => unknown {
+    const { get, wildcard, optional } = compilePath(path);
+
+    if (wildcard) {
+        return fact => {
+            const values = get(fact);
+            if (!Array.isArray(values)) return undefined;
+            return optional
+                ? values.filter(value => value !== ABSENT)
+                : values.map(value => value === ABSENT ? undefined : value);
+        };
+    }
+
+    return fact => {
+        const value = get(fact);
+        return value === ABSENT ? undefined : value;
+    };
+}
+
+/**
+ * Applies an arithmetic operator to numbers, dates and durations.
+ *
+ * @param operator - The operator
+ * @param left - The left operand
+ * @param right - The right operand
+ * @param source - The whole expression, for error messages
+ * @returns The result
+ * @throws {ValidraTypeError} When the operator doesn't apply to the operands
+ */
+function calculate(operator: BinaryNode['operator'], left: unknown, right: unknown, source: string): number | Date {
+    if (typeof left === 'number' && typeof right === 'number') {
+        switch (operator) {
+            case '+': return left + right;
+            case '-': return left - right;
+            case '*': return left * right;
+            case '/': return left / right;
+            case '%': return left % right;
+        }
+    }
+
+    if (left instanceof Date && right instanceof Date && operator === '-') {
+        return left.getTime() - right.getTime();
+    }
+    if (left instanceof Date && typeof right === 'number' && (operator === '+' || operator === '-')) {
+        return new Date(operator === '+' ? left.getTime() + right : left.getTime() - right);
+    }
+    if (typeof left === 'number' && right instanceof Date && operator === '+') {
+        return new Date(left + right.getTime());
+    }
+
+    throw new ValidraTypeError(`Cannot apply "${operator}" to ${TypeChecker.typeOf(left)} and ${TypeChecker.typeOf(right)} in expression "${source}".`, {
+        operator,
+        argument: [left, right]
+    });
+}
+
+/**
+ * Computes an aggregate function.
+ *
+ * @param callee - The function
+ * @param args - The evaluated arguments
+ * @param source - The whole expression, for error messages
+ * @returns The aggregated value
+ * @throws {ValidraTypeError} When the values can't be aggregated
+ */
+function aggregate(callee: CallNode['callee'], args: unknown[], source: string): unknown {
+    const [first] = args;
+    const fail = (expected: string, value: unknown): never => {
+        throw new ValidraTypeError(`Function "${callee}" expects ${expected} but received ${TypeChecker.typeOf(value)} in expression "${source}".`, {
+            operator: callee,
+            argument: value
+        });
+    };
+
+    if (callee === 'count') {
+        return Array.isArray(first) ? first.length : fail('a list', first);
+    }
+
+    const values = args.length === 1 && Array.isArray(first) ? first as unknown[] : args;
+    const dates = (callee === 'min' || callee === 'max') && values.length > 0 && values.every(value => value instanceof Date);
+    if (!dates) {
+        for (const value of values) {
+            if (typeof value !== 'number') fail('numbers', value);
+        }
+    }
+
+    if (callee === 'sum' || callee === 'avg') {
+        const sum = (values as number[]).reduce((total, value) => total + value, 0);
+        return callee === 'sum' ? sum : values.length === 0 ? undefined : sum / values.length;
+    }
+    if (values.length === 0) return undefined;
+
+    const times = dates ? (values as Date[]).map(date => date.getTime()) : values as number[];
+    // Spreading long lists into Math.min/max would exceed the argument limit
+    const result = times.reduce(callee === 'min' ? (a, b) => Math.min(a, b) : (a, b) => Math.max(a, b));
+    return dates ? new Date(result) : result;
+}
@@ -0,0 +1,94 @@
+/**
+ * @fileoverview Field path resolution for the Validra rule engine.
+ * @module FieldPath
+ * @version 1.0.0
+ * @author Felix M. Martinez
+ * @since 1.0.0
+ */
+
+import { ABSENT, compilePath } from "./path-accessor";
+import { FieldReference } from "./types";
+
+/**
+ * Resolves a field path against a fact object.
+ *
+ * Accepts the same paths as {@link compilePath}, including array indices,
+ * wildcards and optional segments. Unlike {@link resolvePath}, values that
+ * cannot be resolved (missing property, `null` or primitive parent) are
+ * reported as `undefined`.
+ *
+ * @param fact - The object to read the value from
+ * @param path - Path to the field, e.g. `"user.address.zip"` or `"user.tags[0]"`
+ * @returns The value found at the path, or `undefined` when it does not exist
+ *
+ * @example
+ * ```typescript
+ * const fact = { user: { age: 30, tags: ["vip"] } };
+ * getFieldValue(fact, "user.age");    // 30
+ * getFieldValue(fact, "user.tags.0"); // "vip"
+ * getFieldValue(fact, "user.tags[0]"); // "vip"
+ * getFieldValue(fact, "user.name");   // undefined
+ * ```
+ *
+ * @public
+ */
+export function getFieldValue(fact: unknown, path: string): unknown {
+    return compileFieldPath(path)(fact);
+}
+
+/**
+ * Compiles a field path into a reusable accessor.
+ *
+ * The path is parsed once, so the returned function can be called for many
+ * facts without re-parsing it. The accessor behaves like {@link getFieldValue}.
+ *
+ * @param path - Path to the field, e.g. `"user.address.zip"`
+ * @returns A function reading the field from a fact
+ *
+ * @example
+ * ```typescript
+ * const getZip = compileFieldPath("user.address.zip");
+ * getZip({ user: { address: { zip: "10001" } } }); // "10001"
+ * getZip({ user: {} });                            // undefined
+ * ```
+ *
+ * @public
+ */
+export function compileFieldPath(path: string): (fact: unknown) => unknown {
+    const { get, wildcard } = compilePath(path);
+
+    if (wildcard) {
+        return fact => {
+            const values = get(fact);
+            return Array.isArray(values) ? values.map(value => value === ABSENT ? undefined : value) : undefined;
+        };
+    }
+
+    return fact => {
+        const value = get(fact);
+        return value === ABSENT ? undefined : value;
+    };
+}
+
+/**
+ * Checks whether a rule argument is a {@link FieldReference}: an object
+ * whose only property is a string `ref`.
+ *
+ * @param value - The rule argument to check
+ * @returns `true` when the argument references another fact field
+ *
+ * @example
+ * ```typescript
+ * isFieldReference({ ref: "order.subtotal" }); // true
+ * isFieldReference({ ref: 1 });                // false
+ * isFieldReference("order.subtotal");          // false
+ * ```
+ *
+ * @public
+ */
+export function isFieldReference(value: unknown): value is FieldReference {
+    return value !== null
+        && typeof value === 'object'
+        && typeof (value as FieldReference).ref === 'string'
+        && Object.keys(value).length === 1;
+}
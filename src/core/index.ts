@@ -0,0 +1,13 @@
+export * from './compiler';
+export * from './decision-table';
+export * from './explain';
+export * from './expression';
+export * from './field-path';
+export * from './inference';
+export * from './path-accessor';
+export * from './rule-set';
+export * from './rule-set-schema';
+export * from './schema-builder';
+export * from './types';
+export * from './validation-result';
+export * from './validra-engine';
@@ -0,0 +1,549 @@
+/**
+ * @fileoverview Forward chaining over rules with `then` actions.
+ * @module Inference
+ * @version 1.0.0
+ * @author Felix M. Martinez
+ * @since 1.0.0
+ */
+
+import { ValueNode } from "@/dls/ast";
+import { TypeChecker } from "@/dls/helpers";
+import { Fact, InferenceError, ValidraArgumentError, ValidraTypeError } from "@/utils";
+import { byPriority, compile, CompiledRuleSet } from "./compiler";
+import { compileExpression, isExpressionOperand } from "./expression";
+import { compileFieldPath, isFieldReference } from "./field-path";
+import { parsePath, PathSegment } from "./path-accessor";
+import {
+    Action,
+    Condition,
+    ConditionResult,
+    EngineOptions,
+    InferenceEvent,
+    InferenceOptions,
+    InferenceResult,
+    Rule
+} from "./types";
+
+/**
+ * Rules with actions compiled once and ready to run against many facts.
+ *
+ * @internal
+ */
+export interface CompiledInference {
+    /**
+     * Runs the actions of the passing conditions until no field changes.
+     *
+     * @param fact - The input object; it is copied, never modified
+     * @param options - Iteration limit and rule groups turned on or off
+     * @returns The working memory, the emitted events and the fired conditions
+     * @throws {InferenceError} When the rules don't settle
+     */
+    run(fact: Fact, options?: InferenceOptions): InferenceResult;
+}
+
+/**
+ * A top-level condition with actions.
+ */
+interface Production {
+    condition: Condition;
+    ruleSet: CompiledRuleSet;
+    /** Keys of the fields the condition reads; `*` matches any key */
+    reads: string[][];
+    actions: CompiledAction[];
+}
+
+/**
+ * A `set` action bound to its parsed path and value.
+ */
+interface CompiledSet {
+    kind: 'set';
+    path: string;
+    segments: PathSegment[];
+    keys: string[];
+    value: (fact: Fact) => unknown;
+}
+
+/**
+ * An `emit` action bound to its payload.
+ */
+interface CompiledEmit {
+    kind: 'emit';
+    name: string;
+    payload: (fact: Fact) => unknown;
+}
+
+/**
+ * An action bound to its path and operands.
+ */
+type CompiledAction = CompiledSet | CompiledEmit;
+
+/** Default limit of passes over the rules */
+const DEFAULT_MAX_ITERATIONS = 100;
+
+/** Keys actions must not write, to keep prototypes out of reach */
+const FORBIDDEN_KEYS = new Set(['__proto__', 'prototype', 'constructor']);
+
+/** Properties holding the children of each kind of condition group */
+const CHILD_KEYS = ['all', 'any', 'none', 'of', 'not'];
+
+/**
+ * Validates the actions of a rule set and compiles its top-level conditions
+ * with actions into a forward-chaining runner.
+ *
+ * A run works on a copy of the fact, the working memory. Each pass
+ * evaluates, by descending priority, the conditions that were never
+ * evaluated or that read a field changed since their last evaluation, and
+ * runs the actions of those that pass: `set` writes the working memory and
+ * `emit` records an event. Writes are visible to the conditions evaluated
+ * after them. The run ends after a pass that changed nothing. It fails when
+ * a pass leaves the working memory in a state it was already in, which
+ * would repeat forever, or after `maxIterations` passes.
+ *
+ * Conditions without actions are ignored. Rules with asynchronous operators
+ * can't be run.
+ *
+ * @param conditions - The rules and condition groups of the engine
+ * @param options - Operator registry and compilation settings
+ * @returns The compiled runner
+ * @throws {ValidraArgumentError} When an action is malformed or appears on a nested condition
+ *
+ * @example
+ * ```typescript
+ * const promotions = compileInference([
+ *   { field: "cart.total", op: "gt", value: 100, then: [{ set: "cart.freeShipping", value: true }] },
+ *   { field: "cart.freeShipping", op: "eq", value: true, then: [{ emit: "freeShippingUnlocked" }] }
+ * ]);
+ *
+ * const { fact, events } = promotions.run({ cart: { total: 120 } });
+ * fact.cart;      // { total: 120, freeShipping: true }
+ * events[0].name; // "freeShippingUnlocked"
+ * ```
+ *
+ * @internal
+ */
+export function compileInference(conditions: Condition[], options: EngineOptions = {}): CompiledInference {
+    const productions: Production[] = [];
+
+    for (const condition of byPriority(conditions)) {
+        if (condition === null || typeof condition !== 'object') continue;
+
+        childrenOf(condition).forEach(checkNoActions);
+        if (condition.then === undefined) continue;
+
+        productions.push({
+            condition,
+            ruleSet: compile([condition], options),
+            reads: readsOf(condition).map(keysOf),
+            actions: compileActions(condition.then)
+        });
+    }
+
+    return {
+        run: (fact, runOptions = {}) => run(productions, fact, runOptions)
+    };
+}
+
+/**
+ * Runs compiled productions against a copy of a fact.
+ *
+ * @param productions - The conditions with actions, by descending priority
+ * @param fact - The input object
+ * @param options - Iteration limit and rule groups turned on or off
+ * @returns The working memory, the emitted events and the fired conditions
+ * @throws {InferenceError} When the rules don't settle
+ * @throws {ValidraArgumentError} When the options are invalid
+ */
+function run(productions: Production[], fact: Fact, options: InferenceOptions): InferenceResult {
+    const { maxIterations = DEFAULT_MAX_ITERATIONS, groups } = options;
+    if (!Number.isInteger(maxIterations) || maxIterations < 1) {
+        throw new ValidraArgumentError('Maximum iterations must be a positive integer.', { argument: maxIterations });
+    }
+
+    const memory = cloneValue(fact, new WeakMap()) as Record<string, unknown>;
+    const events: InferenceEvent[] = [];
+    const fired: Condition[] = [];
+    const evaluationOptions = groups === undefined ? {} : { groups };
+
+    // Every write gets a sequence number; a production is due when a write it reads is newer than its last evaluation
+    const changes: { sequence: number; keys: string[] }[] = [];
+    const evaluatedAt = productions.map(() => -1);
+    const written = new Map<string, CompiledSet>();
+    const states = new Set<string>();
+    let sequence = 0;
+    let iterations = 0;
+
+    const isDue = (index: number): boolean => {
+        const since = evaluatedAt[index] as number;
+        if (since < 0) return true;
+
+        const { reads } = productions[index] as Production;
+        return changes.some(change => change.sequence > since && reads.some(keys => overlaps(keys, change.keys)));
+    };
+
+    for (;;) {
+        const due = productions.map((_, index) => index).filter(isDue);
+        if (due.length === 0) break;
+        if (iterations === maxIterations) {
+            throw new InferenceError('maxIterations', iterations, `Rules kept changing the fact after ${maxIterations} iterations.`);
+        }
+
+        iterations++;
+        const start = sequence;
+        for (const index of due) {
+            const production = productions[index] as Production;
+            evaluatedAt[index] = sequence;
+
+            const [result] = production.ruleSet.evaluate(memory, evaluationOptions).results;
+            if (!hasFired(result as ConditionResult)) continue;
+
+            fired.push(production.condition);
+            for (const action of production.actions) {
+                if (action.kind === 'emit') {
+                    events.push({ name: action.name, payload: action.payload(memory), condition: production.condition, iteration: iterations });
+                } else if (write(memory, action, action.value(memory))) {
+                    changes.push({ sequence: ++sequence, keys: action.keys });
+                    written.set(action.path, action);
+                }
+            }
+        }
+
+        if (sequence === start) continue;
+
+        const values = [...written.values()].map(action => readPath(memory, action.segments));
+        const state = fingerprint(values, productions.map((_, index) => index).filter(isDue));
+        if (states.has(state)) {
+            throw new InferenceError('cycle', iterations, `Rules change the fact in a cycle that repeats after ${iterations} iterations.`);
+        }
+        states.add(state);
+    }
+
+    return { fact: memory, events, fired, iterations };
+}
+
+/**
+ * Validates and compiles the actions of a condition.
+ *
+ * @param actions - The actions in the condition's `then`
+ * @returns The compiled actions
+ * @throws {ValidraArgumentError} When an action is malformed
+ */
+function compileActions(actions: Action[]): CompiledAction[] {
+    if (!Array.isArray(actions) || actions.length === 0) {
+        throw new ValidraArgumentError('Condition actions in "then" must be a non-empty array.', { argument: actions });
+    }
+
+    return actions.map(compileAction);
+}
+
+/**
+ * Checks an action the way the engine does when it is created.
+ *
+ * @param action - The action to check
+ * @throws {ValidraArgumentError} When the action is malformed
+ * @throws {DslSyntaxError} When an expression operand is malformed
+ *
+ * @internal
+ */
+export function checkAction(action: Action): void {
+    compileAction(action);
+}
+
+/**
+ * Validates an action and binds it to its path and operands.
+ *
+ * @param action - The action to compile
+ * @returns The compiled action
+ * @throws {ValidraArgumentError} When the action is malformed
+ * @throws {DslSyntaxError} When an expression operand is malformed
+ */
+function compileAction(action: Action): CompiledAction {
+    if (action === null || typeof action !== 'object' || ('set' in action) === ('emit' in action)) {
+        throw new ValidraArgumentError('Action must define exactly one of set, emit.', { argument: action });
+    }
+
+    if ('emit' in action) {
+        if (typeof action.emit !== 'string' || action.emit.length === 0) {
+            throw new ValidraArgumentError('Event name must be a non-empty string.', { argument: action.emit });
+        }
+        return { kind: 'emit', name: action.emit, payload: compileActionOperand(action.payload) };
+    }
+
+    const path = action.set;
+    const segments = parsePath(path);
+    if (segments.some(segment => segment.kind === 'wildcard')) {
+        throw new ValidraArgumentError(`Action path "${path}" must not contain wildcards.`, { argument: path });
+    }
+    const forbidden = segments.find(segment => segment.kind === 'property' && FORBIDDEN_KEYS.has(segment.key));
+    if (forbidden) {
+        throw new ValidraArgumentError(`Action path "${path}" must not write to "${(forbidden as { key: string }).key}".`, { argument: path });
+    }
+    if (!('value' in action)) {
+        throw new ValidraArgumentError(`Action setting "${path}" requires a value.`, { argument: action });
+    }
+
+    return { kind: 'set', path, segments, keys: keysOf(segments), value: compileActionOperand(action.value) };
+}
+
+/**
+ * Builds the function computing the value of an action.
+ *
+ * @param operand - A constant, a field reference or an expression operand
+ * @returns A function computing the value from the working memory
+ */
+function compileActionOperand(operand: unknown): (fact: Fact) => unknown {
+    if (isFieldReference(operand)) {
+        const get = compileFieldPath(operand.ref);
+        return fact => cloneValue(get(fact), new WeakMap());
+    }
+    if (isExpressionOperand(operand)) {
+        return compileExpression(operand.expr).evaluate;
+    }
+
+    return () => cloneValue(operand, new WeakMap());
+}
+
+/**
+ * Rejects actions on the conditions nested in a group.
+ *
+ * @param condition - A nested condition
+ * @throws {ValidraArgumentError} When the condition or one of its children has actions
+ */
+function checkNoActions(condition: Condition): void {
+    if (condition === null || typeof condition !== 'object') return;
+    if (condition.then !== undefined) {
+        throw new ValidraArgumentError('Actions in "then" are only allowed on top-level conditions.', { argument: condition });
+    }
+
+    childrenOf(condition).forEach(checkNoActions);
+}
+
+/**
+ * Lists the children of a condition group.
+ *
+ * @param condition - The condition
+ * @returns The nested conditions, or an empty array for rules
+ */
+function childrenOf(condition: Condition): Condition[] {
+    const source = condition as unknown as Record<string, unknown>;
+    return CHILD_KEYS.flatMap(key => {
+        const children = source[key];
+        if (key === 'not') return children === undefined ? [] : [children as Condition];
+        return Array.isArray(children) ? children as Condition[] : [];
+    });
+}
+
+/**
+ * Collects the paths of the fields a condition reads: rule fields, the
+ * fields of expressions and referenced fields.
+ *
+ * @param condition - The condition
+ * @returns The field paths
+ */
+function readsOf(condition: Condition): PathSegment[][] {
+    const children = childrenOf(condition);
+    if (children.length > 0 || !('op' in condition)) {
+        return children.flatMap(readsOf);
+    }
+
+    const rule = condition as Rule;
+    const paths: string[] = [];
+    const collect = (value: unknown): void => {
+        if (Array.isArray(value)) value.forEach(collect);
+        else if (isFieldReference(value)) paths.push(value.ref);
+        else if (isExpressionOperand(value)) paths.push(...fieldsOf(compileExpression(value.expr).node));
+    };
+
+    if (rule.field !== undefined) paths.push(rule.field);
+    if (rule.expr !== undefined) paths.push(...fieldsOf(compileExpression(rule.expr).node));
+    collect(rule.value);
+
+    return paths.map(parsePath);
+}
+
+/**
+ * Collects the paths of the fields an expression reads.
+ *
+ * @param node - The expression tree
+ * @returns The field paths
+ */
+function fieldsOf(node: ValueNode): string[] {
+    switch (node.type) {
+        case 'Field': return [node.path];
+        case 'Binary': return [...fieldsOf(node.left), ...fieldsOf(node.right)];
+        case 'Negate': return fieldsOf(node.operand);
+        case 'Call': return node.args.flatMap(fieldsOf);
+        default: return [];
+    }
+}
+
+/**
+ * Reduces path segments to comparable keys, `*` standing for wildcards.
+ *
+ * @param segments - The parsed path
+ * @returns One key per segment
+ */
+function keysOf(segments: readonly PathSegment[]): string[] {
+    return segments.map(segment => segment.kind === 'property' ? segment.key : segment.kind === 'index' ? String(segment.index) : '*');
+}
+
+/**
+ * Whether two paths can designate the same field or one contains the other.
+ *
+ * @param read - Keys of a field read by a condition
+ * @param written - Keys of a field written by an action
+ * @returns `true` when a write to `written` can change what `read` resolves to
+ */
+function overlaps(read: string[], written: string[]): boolean {
+    const length = Math.min(read.length, written.length);
+    for (let i = 0; i < length; i++) {
+        if (read[i] !== written[i] && read[i] !== '*') return false;
+    }
+
+    return true;
+}
+
+/**
+ * Whether a condition passed and its actions must run.
+ *
+ * @param result - The condition result
+ * @returns `true` for passed rules and passed groups that weren't skipped
+ */
+function hasFired(result: ConditionResult): boolean {
+    return 'rule' in result ? result.status === 'passed' : result.passed && result.skipped !== true;
+}
+
+/**
+ * Writes a value to the working memory, creating missing parents.
+ *
+ * @param memory - The working memory
+ * @param action - The set action
+ * @param value - The value to write
+ * @returns `true` when the field changed
+ * @throws {ValidraTypeError} When a parent of the field is a primitive, or an object
+ * other than a plain object or an array, which is shared with the input fact
+ */
+function write(memory: Record<string, unknown>, action: CompiledSet, value: unknown): boolean {
+    const { segments, path } = action;
+    let parent = checkParent(memory, path);
+
+    for (let i = 0; i < segments.length - 1; i++) {
+        const key = keyOf(segments[i] as PathSegment);
+        let child = parent[key];
+        if (child === undefined || child === null) {
+            child = (segments[i + 1] as PathSegment).kind === 'index' ? [] : {};
+            parent[key] = child;
+        } else if (typeof child !== 'object') {
+            throw new ValidraTypeError(`Cannot set "${path}": a parent field holds ${typeof child}.`, { argument: child });
+        }
+        parent = checkParent(child as object, path);
+    }
+
+    const key = keyOf(segments[segments.length - 1] as PathSegment);
+    if (key in parent && isSameValue(parent[key], value)) return false;
+
+    parent[key] = value;
+    return true;
+}
+
+/**
+ * Checks that a parent of a written field belongs to the working memory.
+ *
+ * Only plain objects and arrays are copied from the fact (see {@link cloneValue});
+ * class instances, maps and other objects are shared with the caller and
+ * must not be written to.
+ *
+ * @param parent - The parent object
+ * @param path - The written path, for the error message
+ * @returns The parent
+ * @throws {ValidraTypeError} When the parent is shared with the input fact
+ */
+function checkParent(parent: object, path: string): Record<string | number, unknown> {
+    if (!Array.isArray(parent) && !TypeChecker.isPlainObject(parent)) {
+        throw new ValidraTypeError(
+            `Cannot set "${path}": a parent field holds ${TypeChecker.typeOf(parent)}, which is shared with the input fact.`,
+            { argument: parent }
+        );
+    }
+
+    return parent as Record<string | number, unknown>;
+}
+
+/**
+ * Reads a field of the working memory without wildcards.
+ *
+ * @param memory - The working memory
+ * @param segments - The parsed path
+ * @returns The value, or `undefined` when a parent is missing
+ */
+function readPath(memory: Record<string, unknown>, segments: PathSegment[]): unknown {
+    let value: unknown = memory;
+    for (const segment of segments) {
+        if (value === null || typeof value !== 'object') return undefined;
+        value = (value as Record<string | number, unknown>)[keyOf(segment)];
+    }
+
+    return value;
+}
+
+/**
+ * Returns the property name or index a segment reads.
+ *
+ * @param segment - A property or index segment
+ * @returns The key
+ */
+function keyOf(segment: PathSegment): string | number {
+    return segment.kind === 'property' ? segment.key : segment.kind === 'index' ? segment.index : '*';
+}
+
+/**
+ * Whether writing a value would leave a field unchanged.
+ *
+ * @param current - The value in the working memory
+ * @param next - The value to write
+ * @returns `true` for identical values and dates with the same time
+ */
+function isSameValue(current: unknown, next: unknown): boolean {
+    if (current instanceof Date && next instanceof Date) return current.getTime() === next.getTime();
+    return Object.is(current, next);
+}
+
+/**
+ * Copies plain objects, arrays and dates, sharing other values.
+ *
+ * @param value - The value to copy
+ * @param copies - Copies already made, so cyclic values are copied once
+ * @returns The copy
+ */
+function cloneValue(value: unknown, copies: WeakMap<object, unknown>): unknown {
+    if (value === null || typeof value !== 'object') return value;
+    if (value instanceof Date) return new Date(value.getTime());
+    if (copies.has(value)) return copies.get(value);
+
+    if (Array.isArray(value)) {
+        const copy: unknown[] = [];
+        copies.set(value, copy);
+        value.forEach(item => copy.push(cloneValue(item, copies)));
+        return copy;
+    }
+
+    const prototype = Object.getPrototypeOf(value);
+    if (prototype !== Object.prototype && prototype !== null) return value;
+
+    const copy: Record<string, unknown> = Object.create(prototype);
+    copies.set(value, copy);
+    for (const [key, item] of Object.entries(value)) copy[key] = cloneValue(item, copies);
+    return copy;
+}
+
+/**
+ * Describes the state of a run: the values of the written fields and the
+ * conditions due in the next pass. A run reaching the same state twice
+ * would repeat forever.
+ *
+ * @param values - Current values of the fields written so far
+ * @param due - Indices of the conditions due in the next pass
+ * @returns A string identifying the state
+ */
+function fingerprint(values: unknown[], due: number[]): string {
+    return JSON.stringify([values, due], (_, value: unknown) => typeof value === 'bigint' ? `${value}n` : value);
+}
@@ -0,0 +1,369 @@
+/**
+ * @fileoverview Field path parsing and resolution with array indices, wildcards and optional segments.
+ * @module PathAccessor
+ * @version 1.0.0
+ * @author Felix M. Martinez
+ * @since 1.0.0
+ */
+
+import { ValidraArgumentError } from "@/utils";
+
+/**
+ * Value produced when a path cannot be resolved: a property is missing, an
+ * index is out of range or a parent is `null`, `undefined` or a primitive.
+ *
+ * Unlike `undefined`, it can't be confused with a field that exists and
+ * holds `undefined`.
+ *
+ * @public
+ */
+export const ABSENT: unique symbol = Symbol('Validra.absent');
+
+/**
+ * Type of the {@link ABSENT} marker.
+ *
+ * @public
+ */
+export type Absent = typeof ABSENT;
+
+/**
+ * One step of a parsed field path.
+ *
+ * - `property`: reads a named property, e.g. `user` or `["first.name"]`
+ * - `index`: reads an array element, e.g. `[0]`
+ * - `wildcard`: expands to every element of an array, e.g. `[*]`
+ *
+ * `optional` is `true` when the step is written with `?.`, e.g. `meta?.tags`.
+ *
+ * @public
+ */
+export type PathSegment =
+    | { kind: 'property'; key: string; optional: boolean }
+    | { kind: 'index'; index: number; optional: boolean }
+    | { kind: 'wildcard'; optional: boolean };
+
+/**
+ * A parsed field path, ready to be resolved against many facts.
+ *
+ * @public
+ */
+export interface PathAccessor {
+    /** The source path */
+    readonly path: string;
+    /** The parsed segments */
+    readonly segments: readonly PathSegment[];
+    /** Whether the path has a `[*]` wildcard and resolves to a list of values */
+    readonly wildcard: boolean;
+    /** Whether the path has an optional `?.` segment */
+    readonly optional: boolean;
+
+    /**
+     * Resolves the path against a fact.
+     *
+     * Paths without wildcards return the value found, or {@link ABSENT}.
+     * Paths with wildcards return one entry per matched element, in order,
+     * flattening nested wildcards; elements whose remaining path can't be
+     * resolved are {@link ABSENT}. When the path can't be resolved before its
+     * first wildcard, {@link ABSENT} itself is returned.
+     *
+     * Paths with an optional `?.` segment follow optional chaining: they only
+     * give {@link ABSENT} when the value in front of a `?.` segment is absent,
+     * `null` or `undefined`, and `undefined` when another segment can't be
+     * resolved.
+     *
+     * @param fact - The object to read the value from
+     * @returns The resolved value or values
+     */
+    get(fact: unknown): unknown;
+}
+
+/**
+ * Checks whether a resolved value is the {@link ABSENT} marker.
+ *
+ * @param value - The value to check
+ * @returns `true` when the value is {@link ABSENT}
+ *
+ * @example
+ * ```typescript
+ * isAbsent(resolvePath({ user: {} }, "user.name"));             // true
+ * isAbsent(resolvePath({ user: { name: undefined } }, "user.name")); // false
+ * ```
+ *
+ * @public
+ */
+export function isAbsent(value: unknown): value is Absent {
+    return value === ABSENT;
+}
+
+/**
+ * Parses a field path into segments.
+ *
+ * Paths are made of property names separated by dots, array indices such
+ * as `[0]`, wildcards `[*]` and quoted keys such as `["first.name"]`. A
+ * segment written with `?.` (or `?.[`) is optional. Numeric dotted segments
+ * like `tags.0` keep reading the property named `0`.
+ *
+ * @param path - The path to parse, e.g. `"order.items[*].price"`
+ * @returns The parsed segments
+ * @throws {ValidraArgumentError} When the path is empty or malformed
+ *
+ * @example
+ * ```typescript
+ * parsePath("customer.addresses[0].zip");
+ * // [
+ * //   { kind: 'property', key: 'customer', optional: false },
+ * //   { kind: 'property', key: 'addresses', optional: false },
+ * //   { kind: 'index', index: 0, optional: false },
+ * //   { kind: 'property', key: 'zip', optional: false }
+ * // ]
+ * ```
+ *
+ * @public
+ */
+export function parsePath(path: string): PathSegment[] {
+    if (typeof path !== 'string' || path.length === 0) {
+        throw new ValidraArgumentError('Field path must be a non-empty string.', { argument: path });
+    }
+
+    const segments: PathSegment[] = [];
+    let position = 0;
+
+    const fail = (reason: string): never => {
+        throw new ValidraArgumentError(`Invalid field path "${path}": ${reason} at position ${position + 1}.`, { argument: path });
+    };
+
+    while (position < path.length) {
+        let optional = false;
+        let bracket = path[position] === '[';
+
+        if (segments.length > 0 && !bracket) {
+            if (path.startsWith('?.', position)) {
+                optional = true;
+                position += 2;
+            } else if (path[position] === '.') {
+                position += 1;
+            } else {
+                fail('expected "." or "["');
+            }
+            bracket = path[position] === '[';
+            if (bracket && !optional) fail('unexpected "["');
+        }
+
+        if (bracket) {
+            const [segment, end] = parseBracket(path, position, optional, fail);
+            segments.push(segment);
+            position = end;
+            continue;
+        }
+
+        let end = position;
+        while (end < path.length && path[end] !== '.' && path[end] !== '[' && path[end] !== '?') end++;
+        if (end === position) fail('expected a property name');
+
+        segments.push({ kind: 'property', key: path.slice(position, end), optional });
+        position = end;
+    }
+
+    return segments;
+}
+
+/**
+ * Parses a field path into a reusable accessor.
+ *
+ * The path is parsed once, so the accessor can resolve many facts without
+ * re-parsing it. Plain dotted paths get a dedicated fast path.
+ *
+ * @param path - The path to compile, e.g. `"order.items[*].price"`
+ * @returns The compiled accessor
+ * @throws {ValidraArgumentError} When the path is empty or malformed
+ *
+ * @example
+ * ```typescript
+ * const prices = compilePath("order.items[*].price");
+ * prices.get({ order: { items: [{ price: 5 }, { price: 7 }, {}] } }); // [5, 7, ABSENT]
+ *
+ * const tags = compilePath("meta?.tags");
+ * tags.optional;            // true
+ * tags.get({});             // ABSENT
+ * tags.get({ meta: {} });   // undefined
+ * ```
+ *
+ * @public
+ */
+export function compilePath(path: string): PathAccessor {
+    const segments = parsePath(path);
+    const wildcard = segments.some(segment => segment.kind === 'wildcard');
+    const optional = segments.some(segment => segment.optional);
+
+    return { path, segments, wildcard, optional, get: compileGetter(segments, wildcard) };
+}
+
+/**
+ * Resolves a field path against a fact.
+ *
+ * Convenience wrapper around {@link compilePath} for one-off lookups.
+ *
+ * @param fact - The object to read the value from
+ * @param path - The path to resolve
+ * @returns The resolved value, the list of values for wildcard paths, or {@link ABSENT}
+ * @throws {ValidraArgumentError} When the path is empty or malformed
+ *
+ * @example
+ * ```typescript
+ * const fact = { customer: { addresses: [{ zip: "10001" }] } };
+ * resolvePath(fact, "customer.addresses[0].zip"); // "10001"
+ * resolvePath(fact, "customer.addresses[1].zip"); // ABSENT
+ * resolvePath(fact, "customer.addresses[*].zip"); // ["10001"]
+ * ```
+ *
+ * @public
+ */
+export function resolvePath(fact: unknown, path: string): unknown {
+    return compilePath(path).get(fact);
+}
+
+/**
+ * Parses a bracket segment starting at `start`.
+ *
+ * @param path - The full path
+ * @param start - Index of the opening bracket
+ * @param optional - Whether the segment was written with `?.`
+ * @param fail - Reports a syntax error
+ * @returns The parsed segment and the index following the closing bracket
+ */
+function parseBracket(
+    path: string,
+    start: number,
+    optional: boolean,
+    fail: (reason: string) => never
+): [PathSegment, number] {
+    const quote = path[start + 1];
+
+    if (quote === '"' || quote === "'") {
+        let end = start + 2;
+        while (end < path.length && path[end] !== quote) end += path[end] === '\\' ? 2 : 1;
+        if (end >= path.length || path[end + 1] !== ']') fail('unterminated quoted key');
+
+        const key = path.slice(start + 2, end).replace(/\\(.)/g, '$1');
+        return [{ kind: 'property', key, optional }, end + 2];
+    }
+
+    const end = path.indexOf(']', start);
+    if (end === -1) fail('missing "]"');
+
+    const content = path.slice(start + 1, end);
+    if (content === '*') return [{ kind: 'wildcard', optional }, end + 1];
+    if (!/^\d+$/.test(content)) fail('expected an index, "*" or a quoted key');
+
+    return [{ kind: 'index', index: Number(content), optional }, end + 1];
+}
+
+/**
+ * Builds the resolution function of a parsed path.
+ *
+ * @param segments - The parsed segments
+ * @param wildcard - Whether the path has a wildcard
+ * @returns A function resolving the path against a fact
+ */
+function compileGetter(segments: PathSegment[], wildcard: boolean): (fact: unknown) => unknown {
+    const lastOptional = segments.map(segment => segment.optional).lastIndexOf(true);
+
+    if (!wildcard && lastOptional === -1 && segments.every(segment => segment.kind === 'property')) {
+        const keys = segments.map(segment => (segment as { key: string }).key);
+
+        if (keys.length === 1) {
+            const [key] = keys as [string];
+            return fact => fact !== null && typeof fact === 'object' && Object.hasOwn(fact, key) ? (fact as Record<string, unknown>)[key] : ABSENT;
+        }
+
+        return fact => {
+            let current: unknown = fact;
+            for (let i = 0; i < keys.length; i++) {
+                const key = keys[i] as string;
+                if (current === null || typeof current !== 'object' || !Object.hasOwn(current, key)) return ABSENT;
+                current = (current as Record<string, unknown>)[key];
+            }
+
+            return current;
+        };
+    }
+
+    return fact => {
+        const values: unknown[] = [];
+        const resolved = resolveFrom(fact, segments, 0, lastOptional, values);
+        return wildcard && resolved ? values : values[0];
+    };
+}
+
+/**
+ * Resolves segments from `start` on, pushing every resolved value to `values`.
+ *
+ * When a segment can't be resolved, the value given by {@link unresolved}
+ * is pushed instead.
+ *
+ * @param value - The value to resolve the remaining segments against
+ * @param segments - The parsed segments
+ * @param start - Index of the first segment to resolve
+ * @param lastOptional - Index of the last optional segment, or `-1`
+ * @param values - Receives the resolved values
+ * @returns `false` when resolution failed before reaching a wildcard, `true` otherwise
+ */
+function resolveFrom(value: unknown, segments: PathSegment[], start: number, lastOptional: number, values: unknown[]): boolean {
+    let current = value;
+
+    for (let i = start; i < segments.length; i++) {
+        const segment = segments[i] as PathSegment;
+
+        if (segment.kind === 'wildcard') {
+            if (!Array.isArray(current)) {
+                values.push(unresolved(current, i, lastOptional));
+                return false;
+            }
+            for (const element of current) resolveFrom(element, segments, i + 1, lastOptional, values);
+            return true;
+        }
+
+        const key = segment.kind === 'index' ? segment.index : segment.key;
+        if (current === null || typeof current !== 'object' || !hasSegment(current, key)) {
+            values.push(unresolved(current, i, lastOptional));
+            return false;
+        }
+        current = (current as Record<string | number, unknown>)[key];
+    }
+
+    values.push(current);
+    return true;
+}
+
+/**
+ * Value of a path whose segment at `index` can't be resolved.
+ *
+ * Paths without optional segments give {@link ABSENT}. Paths with optional
+ * segments follow optional chaining: they give {@link ABSENT} when the value
+ * in front of a `?.` segment is absent, `null` or `undefined`, and
+ * `undefined` otherwise, e.g. for `meta?.tags` on `{ meta: {} }`.
+ *
+ * @param current - The value the segment was read from
+ * @param index - Index of the segment
+ * @param lastOptional - Index of the last optional segment, or `-1`
+ * @returns {@link ABSENT} or `undefined`
+ */
+function unresolved(current: unknown, index: number, lastOptional: number): unknown {
+    if (lastOptional === -1 || index < lastOptional) return ABSENT;
+    return index === lastOptional && (current === null || current === undefined) ? ABSENT : undefined;
+}
+
+/**
+ * Whether an object holds the key a segment reads.
+ *
+ * Only own properties resolve, so `user.constructor` or `user.__proto__`
+ * are absent on plain objects; array indices must be within bounds.
+ *
+ * @param value - The object
+ * @param key - The property name or index
+ * @returns `true` when the segment resolves
+ */
+function hasSegment(value: object, key: string | number): boolean {
+    if (typeof key === 'number' && Array.isArray(value)) return key < value.length;
+    return Object.hasOwn(value, key);
+}
@@ -0,0 +1,205 @@
+/**
+ * @fileoverview JSON Schema of the serializable Validra rule-set document format.
+ * @module RuleSetSchema
+ * @version 1.0.0
+ * @author Felix M. Martinez
+ * @since 1.0.0
+ */
+
+/**
+ * JSON Schema (draft 2020-12) of version `1` of the rule-set document format.
+ *
+ * The schema describes the structure of a document: conditions, groups,
+ * severities, priorities, rule groups, actions, quantifiers, operator options, dates, field
+ * references and expressions. Whether operators exist, receive the right number and
+ * types of arguments and accept the options, and whether expressions parse, is checked by
+ * {@link validateRuleSet} instead.
+ *
+ * @example
+ * ```typescript
+ * import Ajv from "ajv/dist/2020";
+ *
+ * const validate = new Ajv().compile(RULE_SET_SCHEMA);
+ * validate({ $validra: "1", rules: [{ field: "age", op: "gte", value: 18 }] }); // true
+ * ```
+ *
+ * @public
+ */
+export const RULE_SET_SCHEMA = {
+    $schema: 'https://json-schema.org/draft/2020-12/schema',
+    $id: 'urn:validra:rule-set:1',
+    title: 'Validra rule set',
+    description: 'A versioned, serializable set of Validra rules and condition groups.',
+    type: 'object',
+    required: ['$validra', 'rules'],
+    additionalProperties: false,
+    properties: {
+        $schema: { type: 'string' },
+        $validra: { const: '1', description: 'Version of the rule-set document format.' },
+        description: { type: 'string' },
+        rules: {
+            type: 'array',
+            items: { $ref: '#/$defs/condition' }
+        }
+    },
+    $defs: {
+        condition: {
+            oneOf: [
+                { $ref: '#/$defs/rule' },
+                { $ref: '#/$defs/allGroup' },
+                { $ref: '#/$defs/anyGroup' },
+                { $ref: '#/$defs/notGroup' },
+                { $ref: '#/$defs/noneGroup' },
+                { $ref: '#/$defs/atLeastGroup' }
+            ]
+        },
+        rule: {
+            type: 'object',
+            required: ['op'],
+            oneOf: [{ required: ['field'] }, { required: ['expr'] }],
+            additionalProperties: false,
+            properties: {
+                id: { type: 'string' },
+                field: { type: 'string', minLength: 1, description: 'Path of the fact field, e.g. "order.items[*].price".' },
+                expr: { type: 'string', minLength: 1, description: 'Expression computing the tested value, e.g. "endDate - startDate".' },
+                op: { type: 'string', minLength: 1, description: 'Name of a registered operator, e.g. "gte" or "isEmail".' },
+                value: { $ref: '#/$defs/value' },
+                quantifier: { enum: ['every', 'some', 'none'] },
+                options: { type: 'object', description: 'Settings of the operator, e.g. { "caseInsensitive": true } for "eq".' },
+                severity: { $ref: '#/$defs/severity' },
+                message: { type: 'string' },
+                priority: { $ref: '#/$defs/priority' },
+                group: { $ref: '#/$defs/ruleGroup' },
+                then: { $ref: '#/$defs/actions' }
+            }
+        },
+        allGroup: {
+            type: 'object',
+            required: ['all'],
+            additionalProperties: false,
+            properties: {
+                id: { type: 'string' },
+                severity: { $ref: '#/$defs/severity' },
+                priority: { $ref: '#/$defs/priority' },
+                group: { $ref: '#/$defs/ruleGroup' },
+                then: { $ref: '#/$defs/actions' },
+                all: { type: 'array', items: { $ref: '#/$defs/condition' } }
+            }
+        },
+        anyGroup: {
+            type: 'object',
+            required: ['any'],
+            additionalProperties: false,
+            properties: {
+                id: { type: 'string' },
+                severity: { $ref: '#/$defs/severity' },
+                priority: { $ref: '#/$defs/priority' },
+                group: { $ref: '#/$defs/ruleGroup' },
+                then: { $ref: '#/$defs/actions' },
+                any: { type: 'array', items: { $ref: '#/$defs/condition' } }
+            }
+        },
+        notGroup: {
+            type: 'object',
+            required: ['not'],
+            additionalProperties: false,
+            properties: {
+                id: { type: 'string' },
+                severity: { $ref: '#/$defs/severity' },
+                priority: { $ref: '#/$defs/priority' },
+                group: { $ref: '#/$defs/ruleGroup' },
+                then: { $ref: '#/$defs/actions' },
+                not: { $ref: '#/$defs/condition' }
+            }
+        },
+        noneGroup: {
+            type: 'object',
+            required: ['none'],
+            additionalProperties: false,
+            properties: {
+                id: { type: 'string' },
+                severity: { $ref: '#/$defs/severity' },
+                priority: { $ref: '#/$defs/priority' },
+                group: { $ref: '#/$defs/ruleGroup' },
+                then: { $ref: '#/$defs/actions' },
+                none: { type: 'array', items: { $ref: '#/$defs/condition' } }
+            }
+        },
+        atLeastGroup: {
+            type: 'object',
+            required: ['atLeast', 'of'],
+            additionalProperties: false,
+            properties: {
+                id: { type: 'string' },
+                severity: { $ref: '#/$defs/severity' },
+                priority: { $ref: '#/$defs/priority' },
+                group: { $ref: '#/$defs/ruleGroup' },
+                then: { $ref: '#/$defs/actions' },
+                atLeast: { type: 'integer', minimum: 0 },
+                of: { type: 'array', items: { $ref: '#/$defs/condition' } }
+            }
+        },
+        severity: { enum: ['error', 'warning', 'info'] },
+        priority: { type: 'number', description: 'Conditions with a higher priority are evaluated first; ties keep definition order.' },
+        ruleGroup: { type: 'string', minLength: 1, description: 'Name of a rule group that can be turned off per evaluation.' },
+        actions: {
+            description: 'Actions run by forward chaining when the condition passes. Only allowed on the entries of "rules".',
+            type: 'array',
+            minItems: 1,
+            items: { oneOf: [{ $ref: '#/$defs/setAction' }, { $ref: '#/$defs/emitAction' }] }
+        },
+        setAction: {
+            type: 'object',
+            required: ['set', 'value'],
+            additionalProperties: false,
+            properties: {
+                set: { type: 'string', minLength: 1, description: 'Path of the field to write, e.g. "cart.freeShipping".' },
+                value: { $ref: '#/$defs/value' }
+            }
+        },
+        emitAction: {
+            type: 'object',
+            required: ['emit'],
+            additionalProperties: false,
+            properties: {
+                emit: { type: 'string', minLength: 1, description: 'Name of the emitted event.' },
+                payload: { $ref: '#/$defs/value' }
+            }
+        },
+        date: {
+            type: 'object',
+            required: ['$date'],
+            additionalProperties: false,
+            properties: {
+                $date: { type: 'string', description: 'Date in a format accepted by Date.parse, e.g. ISO 8601.' }
+            }
+        },
+        reference: {
+            type: 'object',
+            required: ['ref'],
+            additionalProperties: false,
+            properties: {
+                ref: { type: 'string', minLength: 1, description: 'Path of another fact field, e.g. "order.shippedAt".' }
+            }
+        },
+        expression: {
+            type: 'object',
+            required: ['expr'],
+            additionalProperties: false,
+            properties: {
+                expr: { type: 'string', minLength: 1, description: 'Expression computing the argument, e.g. "sum(items[*].price) * (1 + taxRate)".' }
+            }
+        },
+        value: {
+            description: 'Operator argument, or the list of arguments for multi-argument operators. Dates are written as { "$date": "..." }, '
+                + 'other fields as { "ref": "..." } and computed values as { "expr": "..." }.',
+            anyOf: [
+                { $ref: '#/$defs/date' },
+                { $ref: '#/$defs/reference' },
+                { $ref: '#/$defs/expression' },
+                { type: 'array', items: { $ref: '#/$defs/value' } },
+                { type: ['string', 'number', 'boolean', 'null', 'object'] }
+            ]
+        }
+    }
+} as const;
@@ -0,0 +1,617 @@
+/**
+ * @fileoverview Serializable, versioned JSON rule-set documents: validation, loading and export.
+ * @module RuleSet
+ * @version 1.0.0
+ * @author Felix M. Martinez
+ * @since 1.0.0
+ */
+
+import { OperatorRegistry } from "@/operations";
+import { ValidraArgumentError, ValidraTypeError } from "@/utils";
+import { compileExpression, isDynamicOperand, isExpressionOperand } from "./expression";
+import { isFieldReference } from "./field-path";
+import { checkAction } from "./inference";
+import { compilePath } from "./path-accessor";
+import { Action, Condition, ConditionGroup, GroupOperator, Rule } from "./types";
+
+/**
+ * Current version of the rule-set document format.
+ *
+ * @public
+ */
+export const RULE_SET_VERSION = '1';
+
+/**
+ * A value that can be represented in JSON.
+ *
+ * @public
+ */
+export type JsonValue = string | number | boolean | null | JsonValue[] | JsonObject;
+
+/**
+ * A JSON object.
+ *
+ * @public
+ */
+export interface JsonObject {
+    [key: string]: JsonValue;
+}
+
+/**
+ * A serializable rule-set document, as stored in a database or edited in an admin UI.
+ *
+ * Conditions have the same shape as {@link Rule} and {@link ConditionGroup},
+ * except that dates are written as `{ "$date": "<ISO 8601 string>" }`.
+ * References to other fields and computed operands keep their
+ * `{ "ref": "<field path>" }` and `{ "expr": "<expression>" }` forms.
+ * The structure is described by {@link RULE_SET_SCHEMA}.
+ *
+ * @example
+ * ```json
+ * {
+ *   "$validra": "1",
+ *   "rules": [
+ *     { "id": "adult", "field": "user.age", "op": "gte", "value": 18 },
+ *     { "field": "order.createdAt", "op": "isAfter", "value": { "$date": "2025-01-01T00:00:00Z" } },
+ *     { "field": "order.deliveredAt", "op": "isAfter", "value": { "ref": "order.shippedAt" } },
+ *     { "any": [
+ *       { "field": "user.country", "op": "eq", "value": "US" },
+ *       { "field": "user.hasConsent", "op": "eq", "value": true }
+ *     ] }
+ *   ]
+ * }
+ * ```
+ *
+ * @public
+ */
+export interface RuleSetDocument {
+    /** Optional URI of the JSON Schema the document conforms to */
+    $schema?: string;
+    /** Version of the document format */
+    $validra: typeof RULE_SET_VERSION;
+    /** Optional human-readable description */
+    description?: string;
+    /** The rules and condition groups */
+    rules: JsonObject[];
+}
+
+/**
+ * A structural problem found in a rule-set document.
+ *
+ * @public
+ */
+export interface RuleSetProblem {
+    /** JSON pointer (RFC 6901) to the offending value, e.g. `/rules/2/value` */
+    pointer: string;
+    /** Description of the problem */
+    message: string;
+}
+
+/**
+ * Outcome of {@link validateRuleSet}.
+ *
+ * @public
+ */
+export interface RuleSetValidation {
+    /** `true` when the document has no problems */
+    valid: boolean;
+    /** The problems found, in document order */
+    problems: RuleSetProblem[];
+}
+
+/**
+ * Options accepted by {@link validateRuleSet} and {@link loadRuleSet}.
+ *
+ * @public
+ */
+export interface RuleSetOptions {
+    /** Registry operators are resolved from. Defaults to a registry with the built-in operators */
+    operators?: OperatorRegistry;
+}
+
+/** Keys identifying a condition group, in lookup order */
+const GROUP_OPERATORS: readonly GroupOperator[] = ['all', 'any', 'not', 'none', 'atLeast'];
+
+/** Properties allowed on a rule-set document */
+const DOCUMENT_KEYS = ['$schema', '$validra', 'description', 'rules'];
+
+/** Properties allowed on a rule */
+const RULE_KEYS = ['id', 'field', 'expr', 'op', 'value', 'quantifier', 'options', 'severity', 'message', 'priority', 'group', 'then'];
+
+/** Properties allowed on every condition group, besides its operator */
+const GROUP_KEYS = ['id', 'severity', 'priority', 'group', 'then'];
+
+/**
+ * Checks a rule-set document for structural problems without loading it.
+ *
+ * Every problem is reported with a JSON pointer to its location: unknown
+ * or missing properties, unsupported versions, malformed groups and field
+ * paths, unknown operators, wrong arity, argument types that don't match
+ * the operator, invalid `$date` values, severities, quantifiers, operator options and actions.
+ *
+ * @param document - The parsed JSON document
+ * @param options - Registry operators are resolved from
+ * @returns Whether the document is valid and the problems found
+ *
+ * @example
+ * ```typescript
+ * const { valid, problems } = validateRuleSet({
+ *   $validra: "1",
+ *   rules: [{ field: "age", op: "gte", value: "18" }, { field: "email", op: "isMail" }]
+ * });
+ * valid;    // false
+ * problems; // [
+ *           //   { pointer: "/rules/0/value", message: 'Argument 1 of operator "gte" must be of type number but got string.' },
+ *           //   { pointer: "/rules/1/op", message: 'Unknown operator "isMail".' }
+ *           // ]
+ * ```
+ *
+ * @public
+ */
+export function validateRuleSet(document: unknown, options: RuleSetOptions = {}): RuleSetValidation {
+    const operators = options.operators ?? new OperatorRegistry();
+    const problems: RuleSetProblem[] = [];
+    const report = (pointer: string, message: string): void => {
+        problems.push({ pointer, message });
+    };
+
+    if (!isJsonObject(document)) {
+        report('', 'Rule set must be an object.');
+        return { valid: false, problems };
+    }
+
+    checkKeys(document, DOCUMENT_KEYS, '', report);
+    if (!('$validra' in document)) {
+        report('/$validra', 'Missing rule-set version "$validra".');
+    } else if (document['$validra'] !== RULE_SET_VERSION) {
+        report('/$validra', `Unsupported rule-set version ${JSON.stringify(document['$validra'])}; expected "${RULE_SET_VERSION}".`);
+    }
+    for (const key of ['$schema', 'description']) {
+        if (key in document && typeof document[key] !== 'string') report(`/${key}`, `"${key}" must be a string.`);
+    }
+
+    const rules = document['rules'];
+    if (!Array.isArray(rules)) {
+        report('/rules', '"rules" must be an array of conditions.');
+    } else {
+        rules.forEach((condition, index) => checkCondition(condition, `/rules/${index}`, operators, report, true));
+    }
+
+    return { valid: problems.length === 0, problems };
+}
+
+/**
+ * Validates a rule-set document and converts it into conditions the engine can compile.
+ *
+ * `$date` values are converted into `Date` instances.
+ *
+ * @param document - The parsed JSON document
+ * @param options - Registry operators are resolved from
+ * @returns The rules and condition groups of the document
+ * @throws {ValidraArgumentError} When the document has problems; the problems are
+ * listed in the message and available as the error's `argument`
+ *
+ * @example
+ * ```typescript
+ * const conditions = loadRuleSet(JSON.parse(row.rules));
+ * const engine = new ValidraEngine(conditions);
+ * ```
+ *
+ * @public
+ */
+export function loadRuleSet(document: unknown, options: RuleSetOptions = {}): Condition[] {
+    const { valid, problems } = validateRuleSet(document, options);
+
+    if (!valid) {
+        const details = problems.map(problem => `  ${problem.pointer || '/'}: ${problem.message}`).join('\n');
+        throw new ValidraArgumentError(`Invalid rule set:\n${details}`, { argument: problems });
+    }
+
+    return ((document as RuleSetDocument).rules as unknown[]).map(condition => decodeCondition(condition as JsonObject));
+}
+
+/**
+ * Converts conditions into a serializable rule-set document.
+ *
+ * `Date` values are written as `{ "$date": "<ISO 8601 string>" }`. The result
+ * can be passed to `JSON.stringify` and loaded back with {@link loadRuleSet}.
+ *
+ * @param conditions - The rules and condition groups to export
+ * @returns The rule-set document
+ * @throws {ValidraTypeError} When a value cannot be represented in JSON, e.g. a function,
+ * a regular expression or an invalid date
+ *
+ * @example
+ * ```typescript
+ * const document = toRuleSet([{ field: "createdAt", op: "isAfter", value: new Date("2025-01-01") }]);
+ * JSON.stringify(document);
+ * // {"$validra":"1","rules":[{"field":"createdAt","op":"isAfter","value":{"$date":"2025-01-01T00:00:00.000Z"}}]}
+ * ```
+ *
+ * @public
+ */
+export function toRuleSet(conditions: Condition[]): RuleSetDocument {
+    return {
+        $validra: RULE_SET_VERSION,
+        rules: conditions.map((condition, index) => encodeValue(condition, `/rules/${index}`) as JsonObject)
+    };
+}
+
+/**
+ * Checks a condition and its children.
+ *
+ * @param condition - The condition to check
+ * @param pointer - JSON pointer to the condition
+ * @param operators - Registry operators are resolved from
+ * @param report - Receives the problems found
+ * @param topLevel - Whether the condition is an entry of `rules`, the only place actions are allowed
+ */
+function checkCondition(
+    condition: unknown,
+    pointer: string,
+    operators: OperatorRegistry,
+    report: (pointer: string, message: string) => void,
+    topLevel = false
+): void {
+    if (!isJsonObject(condition)) {
+        report(pointer, 'Condition must be a rule or a condition group object.');
+        return;
+    }
+    if ('then' in condition) {
+        if (topLevel) checkActions(condition['then'] as JsonValue, `${pointer}/then`, report);
+        else report(`${pointer}/then`, 'Actions in "then" are only allowed on top-level conditions.');
+    }
+
+    const groupKeys = GROUP_OPERATORS.filter(key => key in condition);
+    if (groupKeys.length === 0) {
+        checkRule(condition, pointer, operators, report);
+        return;
+    }
+    if (groupKeys.length > 1 || 'field' in condition) {
+        report(pointer, `Condition group must define exactly one of ${GROUP_OPERATORS.join(', ')} and no field.`);
+        return;
+    }
+
+    const operator = groupKeys[0] as GroupOperator;
+    checkKeys(condition, [...GROUP_KEYS, operator, ...(operator === 'atLeast' ? ['of'] : [])], pointer, report);
+    checkCommon(condition, pointer, report);
+
+    if (operator === 'not') {
+        checkCondition(condition['not'], `${pointer}/not`, operators, report);
+        return;
+    }
+    if (operator === 'atLeast') {
+        const threshold = condition['atLeast'];
+        if (!Number.isInteger(threshold) || (threshold as number) < 0) {
+            report(`${pointer}/atLeast`, 'Condition group "atLeast" requires a non-negative integer threshold.');
+        }
+    }
+
+    const key = operator === 'atLeast' ? 'of' : operator;
+    const children = condition[key];
+    if (!Array.isArray(children)) {
+        report(`${pointer}/${key}`, `Condition group "${operator}" requires an array of conditions in "${key}".`);
+        return;
+    }
+
+    children.forEach((child, index) => checkCondition(child, `${pointer}/${key}/${index}`, operators, report));
+}
+
+/**
+ * Checks a rule: its field path, operator, arguments and options.
+ *
+ * @param rule - The rule to check
+ * @param pointer - JSON pointer to the rule
+ * @param operators - Registry operators are resolved from
+ * @param report - Receives the problems found
+ */
+function checkRule(
+    rule: JsonObject,
+    pointer: string,
+    operators: OperatorRegistry,
+    report: (pointer: string, message: string) => void
+): void {
+    checkKeys(rule, RULE_KEYS, pointer, report);
+    checkCommon(rule, pointer, report);
+
+    const { field, op } = rule;
+    let wildcard: boolean | undefined;
+
+    if ('expr' in rule) {
+        wildcard = false;
+        checkExpression(rule['expr'], `${pointer}/expr`, report);
+        if ('field' in rule) report(`${pointer}/field`, 'Rule must define either a field or an expression, not both.');
+    } else if (typeof field !== 'string' || field.length === 0) {
+        report(`${pointer}/field`, 'Rule field must be a non-empty string.');
+    } else {
+        try {
+            wildcard = compilePath(field).wildcard;
+        } catch (error) {
+            report(`${pointer}/field`, (error as Error).message);
+        }
+    }
+
+    if ('message' in rule && typeof rule['message'] !== 'string') {
+        report(`${pointer}/message`, 'Rule message must be a string.');
+    }
+    if ('quantifier' in rule) {
+        if (!['every', 'some', 'none'].includes(rule['quantifier'] as string)) {
+            report(`${pointer}/quantifier`, 'Quantifier must be one of every, some, none.');
+        } else if (wildcard === false) {
+            report(`${pointer}/quantifier`, 'Quantifier requires a wildcard field path.');
+        }
+    }
+
+    if (typeof op !== 'string' || op.length === 0) {
+        report(`${pointer}/op`, 'Rule operator must be a non-empty string.');
+        return;
+    }
+    if (!operators.has(op)) {
+        report(`${pointer}/op`, `Unknown operator "${op}".`);
+        return;
+    }
+
+    const valueProblems: string[] = [];
+    const value = 'value' in rule ? decodeValue(rule['value'] as JsonValue, `${pointer}/value`, (at, message) => {
+        valueProblems.push(message);
+        report(at, message);
+    }) : undefined;
+    if (valueProblems.length > 0) return;
+
+    const operator = operators.get(op);
+    const args = !('value' in rule) ? [] : operator.arity > 1 && Array.isArray(value) ? value : [value];
+
+    try {
+        operators.checkArguments(op, args, isDynamicOperand);
+        // Constant arguments are prepared when compiling, e.g. `matches` patterns
+        if (operator.prepare && !args.some(isDynamicOperand)) operator.prepare(args);
+    } catch (error) {
+        report('value' in rule ? `${pointer}/value` : pointer, (error as Error).message);
+    }
+
+    if ('options' in rule) {
+        try {
+            operators.checkOptions(op, rule['options']);
+        } catch (error) {
+            report(`${pointer}/options`, (error as Error).message);
+        }
+    }
+}
+
+/**
+ * Checks the properties shared by rules and groups.
+ *
+ * @param condition - The rule or group
+ * @param pointer - JSON pointer to the condition
+ * @param report - Receives the problems found
+ */
+function checkCommon(condition: JsonObject, pointer: string, report: (pointer: string, message: string) => void): void {
+    if ('id' in condition && typeof condition['id'] !== 'string') {
+        report(`${pointer}/id`, 'Condition id must be a string.');
+    }
+    if ('severity' in condition && !['error', 'warning', 'info'].includes(condition['severity'] as string)) {
+        report(`${pointer}/severity`, 'Severity must be one of error, warning, info.');
+    }
+    if ('priority' in condition && !Number.isFinite(condition['priority'])) {
+        report(`${pointer}/priority`, 'Condition priority must be a finite number.');
+    }
+    if ('group' in condition && (typeof condition['group'] !== 'string' || condition['group'].length === 0)) {
+        report(`${pointer}/group`, 'Rule group name must be a non-empty string.');
+    }
+}
+
+/**
+ * Checks the actions of a condition: their properties, operands and paths.
+ *
+ * @param actions - The actions in the condition's `then`
+ * @param pointer - JSON pointer to the actions
+ * @param report - Receives the problems found
+ */
+function checkActions(actions: JsonValue, pointer: string, report: (pointer: string, message: string) => void): void {
+    if (!Array.isArray(actions) || actions.length === 0) {
+        report(pointer, 'Condition actions in "then" must be a non-empty array.');
+        return;
+    }
+
+    actions.forEach((action, index) => {
+        const at = `${pointer}/${index}`;
+        if (!isJsonObject(action) || ('set' in action) === ('emit' in action)) {
+            report(at, 'Action must define exactly one of set, emit.');
+            return;
+        }
+
+        const operand = 'set' in action ? 'value' : 'payload';
+        checkKeys(action, 'set' in action ? ['set', 'value'] : ['emit', 'payload'], at, report);
+
+        const operandProblems: string[] = [];
+        if (operand in action) {
+            decodeValue(action[operand] as JsonValue, `${at}/${operand}`, (problemAt, message) => {
+                operandProblems.push(message);
+                report(problemAt, message);
+            });
+        }
+        if (operandProblems.length > 0) return;
+
+        try {
+            checkAction(decodeAction(action));
+        } catch (error) {
+            report(at, (error as Error).message);
+        }
+    });
+}
+
+/**
+ * Reports an expression that is not a string or can't be compiled.
+ *
+ * @param expression - The expression source
+ * @param pointer - JSON pointer to the expression
+ * @param report - Receives the problems found
+ */
+function checkExpression(expression: unknown, pointer: string, report: (pointer: string, message: string) => void): void {
+    if (typeof expression !== 'string' || expression.length === 0) {
+        report(pointer, 'Expression must be a non-empty string.');
+        return;
+    }
+
+    try {
+        compileExpression(expression);
+    } catch (error) {
+        // Syntax errors append the source line and a caret, keep the first line only
+        report(pointer, `Invalid expression "${expression}": ${(error as Error).message.split('\n')[0]?.replace(/\.$/, '')}.`);
+    }
+}
+
+/**
+ * Reports the properties of an object that are not allowed.
+ *
+ * @param object - The object to check
+ * @param allowed - The allowed property names
+ * @param pointer - JSON pointer to the object
+ * @param report - Receives the problems found
+ */
+function checkKeys(
+    object: JsonObject,
+    allowed: readonly string[],
+    pointer: string,
+    report: (pointer: string, message: string) => void
+): void {
+    for (const key of Object.keys(object)) {
+        if (!allowed.includes(key)) report(`${pointer}/${escapePointer(key)}`, `Unknown property "${key}".`);
+    }
+}
+
+/**
+ * Converts a validated JSON condition into a condition, decoding its values.
+ *
+ * @param condition - The JSON condition
+ * @returns The condition
+ */
+function decodeCondition(condition: JsonObject): Condition {
+    const groupKey = GROUP_OPERATORS.find(key => key in condition);
+
+    if (groupKey === undefined) {
+        const rule = { ...condition } as unknown as Rule;
+        if ('value' in condition) rule.value = decodeValue(condition['value'] as JsonValue, '', () => undefined);
+        if ('then' in condition) rule.then = (condition['then'] as JsonObject[]).map(decodeAction);
+        return rule;
+    }
+
+    const group = { ...condition } as Record<string, unknown>;
+    if ('then' in condition) group['then'] = (condition['then'] as JsonObject[]).map(decodeAction);
+    const key = groupKey === 'atLeast' ? 'of' : groupKey;
+    group[key] = groupKey === 'not'
+        ? decodeCondition(condition['not'] as JsonObject)
+        : (condition[key] as JsonObject[]).map(decodeCondition);
+
+    return group as unknown as ConditionGroup;
+}
+
+/**
+ * Converts a JSON action into an action, decoding its value or payload.
+ *
+ * @param action - The JSON action
+ * @returns The action
+ */
+function decodeAction(action: JsonObject): Action {
+    const decoded = { ...action } as Record<string, unknown>;
+    for (const key of ['value', 'payload']) {
+        if (key in action) decoded[key] = decodeValue(action[key] as JsonValue, '', () => undefined);
+    }
+
+    return decoded as unknown as Action;
+}
+
+/**
+ * Decodes `$date` values and checks `ref` paths and `expr` expressions, recursing into arrays and objects.
+ *
+ * @param value - The JSON value
+ * @param pointer - JSON pointer to the value
+ * @param report - Receives the problems found
+ * @returns The decoded value
+ */
+function decodeValue(value: JsonValue, pointer: string, report: (pointer: string, message: string) => void): unknown {
+    if (Array.isArray(value)) {
+        return value.map((item, index) => decodeValue(item, `${pointer}/${index}`, report));
+    }
+    if (isJsonObject(value) && '$date' in value) {
+        const date = typeof value['$date'] === 'string' ? new Date(value['$date']) : undefined;
+        if (Object.keys(value).length !== 1 || date === undefined || Number.isNaN(date.getTime())) {
+            report(pointer, '"$date" must be the only property and hold a valid date string.');
+        }
+        return date;
+    }
+    if (isJsonObject(value) && 'ref' in value) {
+        if (!isFieldReference(value)) {
+            report(pointer, '"ref" must be the only property and hold a field path string.');
+        } else {
+            try {
+                compilePath(value.ref);
+            } catch (error) {
+                report(pointer, (error as Error).message);
+            }
+        }
+        return value;
+    }
+    if (isJsonObject(value) && 'expr' in value) {
+        if (!isExpressionOperand(value)) {
+            report(pointer, '"expr" must be the only property and hold an expression string.');
+        } else {
+            checkExpression(value.expr, pointer, report);
+        }
+        return value;
+    }
+    if (isJsonObject(value)) {
+        const object: Record<string, unknown> = {};
+        for (const [key, item] of Object.entries(value)) {
+            object[key] = decodeValue(item, `${pointer}/${escapePointer(key)}`, report);
+        }
+        return object;
+    }
+
+    return value;
+}
+
+/**
+ * Encodes a value as JSON, writing dates as `$date` objects.
+ *
+ * @param value - The value to encode
+ * @param pointer - JSON pointer to the value, reported on errors
+ * @returns The JSON value
+ * @throws {ValidraTypeError} When the value cannot be represented in JSON
+ */
+function encodeValue(value: unknown, pointer: string): JsonValue {
+    if (value === null || typeof value === 'string' || typeof value === 'boolean') return value;
+    if (typeof value === 'number' && Number.isFinite(value)) return value;
+    if (value instanceof Date && !Number.isNaN(value.getTime())) return { $date: value.toISOString() };
+    if (Array.isArray(value)) return value.map((item, index) => encodeValue(item, `${pointer}/${index}`));
+
+    if (typeof value === 'object' && Object.getPrototypeOf(value) === Object.prototype) {
+        const object: JsonObject = {};
+        for (const [key, item] of Object.entries(value)) {
+            if (item !== undefined) object[key] = encodeValue(item, `${pointer}/${escapePointer(key)}`);
+        }
+        return object;
+    }
+
+    throw new ValidraTypeError(`Value at "${pointer}" cannot be represented in JSON.`, { argument: value });
+}
+
+/**
+ * Checks whether a value is a plain JSON object (not an array or `null`).
+ *
+ * @param value - The value to check
+ * @returns `true` for plain objects
+ */
+function isJsonObject(value: unknown): value is JsonObject {
+    return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * Escapes a property name for use in a JSON pointer (RFC 6901).
+ *
+ * @param key - The property name
+ * @returns The escaped reference token
+ */
+function escapePointer(key: string): string {
+    return key.replace(/~/g, '~0').replace(/\//g, '~1');
+}
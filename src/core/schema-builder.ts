@@ -0,0 +1,601 @@
+/**
+ * @fileoverview Fluent schema builder compiling typed schemas to serializable rules.
+ * @module SchemaBuilder
+ * @version 1.0.0
+ * @author Felix M. Martinez
+ * @since 1.0.0
+ */
+
+import { TypeChecker } from "@/dls/helpers";
+import { Fact, ValidraArgumentError } from "@/utils";
+import { RuleSetDocument, toRuleSet } from "./rule-set";
+import { Condition, Rule } from "./types";
+import { ValidraEngine } from "./validra-engine";
+
+/**
+ * A constraint added by a schema method: the operator and argument of the
+ * rule it compiles to.
+ *
+ * @internal
+ */
+interface SchemaCheck {
+    /** Name of the operator */
+    op: string;
+    /** Operator argument, or the list of arguments for multi-argument operators */
+    value?: unknown;
+    /** Message reported when the rule fails */
+    message?: string;
+    /** Wraps the rule in a `not` group */
+    negated?: boolean;
+}
+
+/**
+ * Fields of an object schema, by property name.
+ *
+ * @public
+ */
+export type SchemaShape = Record<string, Schema>;
+
+/**
+ * The TypeScript type of the values accepted by a schema.
+ *
+ * @example
+ * ```typescript
+ * const user = v.object({ age: v.number().gte(18), nickname: v.string().optional() });
+ * type User = Infer<typeof user>; // { age: number; nickname?: string | undefined }
+ * ```
+ *
+ * @public
+ */
+export type Infer<S extends Schema> = S['_output'];
+
+/**
+ * The TypeScript type of the objects accepted by an object schema:
+ * fields of {@link OptionalSchema}s are optional properties.
+ *
+ * @public
+ */
+export type InferShape<S extends SchemaShape> = Flatten<
+    & { [K in keyof S as S[K] extends OptionalSchema<Schema> ? never : K]: Infer<S[K]> }
+    & { [K in keyof S as S[K] extends OptionalSchema<Schema> ? K : never]?: Infer<S[K]> }
+>;
+
+/** Merges an intersection of object types into a single object type, for readable hovers */
+type Flatten<T> = { [K in keyof T]: T[K] } & {};
+
+/**
+ * Base class of the schemas created by {@link v}.
+ *
+ * A schema describes a value with a type and a list of constraints, and
+ * compiles to rules whose first rule checks the type (e.g. `isString`) and
+ * whose other rules apply the constraints in the order they were added.
+ * The rules are grouped with `all`, so constraints only run once the type
+ * check passed. Schemas are immutable: every method returns a new schema.
+ *
+ * @typeParam T - Type of the values accepted by the schema (see {@link Infer})
+ *
+ * @public
+ */
+export abstract class Schema<T = unknown> {
+    /**
+     * Phantom property carrying the type of the accepted values, read by
+     * {@link Infer}. It holds no value at runtime.
+     *
+     * @internal
+     */
+    declare readonly _output: T;
+
+    /** Constraints added by the schema methods, in order */
+    protected checks: readonly SchemaCheck[] = [];
+
+    /**
+     * Name of the operator checking the type of the value, or `undefined`
+     * when the schema has no type check.
+     */
+    protected abstract readonly typeOperator: string | undefined;
+
+    /**
+     * Accepts `undefined` and absent fields besides the values of this schema.
+     *
+     * @returns The optional schema
+     *
+     * @example
+     * ```typescript
+     * v.object({ nickname: v.string().optional() }); // { nickname?: string | undefined }
+     * ```
+     */
+    optional(): OptionalSchema<this> {
+        return new OptionalSchema(this);
+    }
+
+    /**
+     * Accepts `null` besides the values of this schema.
+     *
+     * @returns The nullable schema
+     *
+     * @example
+     * ```typescript
+     * v.object({ deletedAt: v.date().nullable() }); // { deletedAt: Date | null }
+     * ```
+     */
+    nullable(): NullableSchema<this> {
+        return new NullableSchema(this);
+    }
+
+    /**
+     * Compiles the schema to the condition checking the value at a field path.
+     *
+     * @param field - Path of the value
+     * @param wildcard - Whether the path has a `[*]` wildcard, i.e. the value is an array element
+     * @returns The condition
+     * @throws {ValidraArgumentError} When the schema can't be checked at this path
+     * @internal
+     */
+    toCondition(field: string, wildcard: boolean): Condition {
+        const rules: Condition[] = this.typeOperator === undefined ? [] : [{ field, op: this.typeOperator }];
+        for (const { negated, ...check } of this.checks) {
+            rules.push(negated ? { not: { field, ...check } } : { field, ...check });
+        }
+        rules.push(...this.children(field, wildcard));
+
+        return rules.length === 1 ? rules[0] as Condition : { all: rules };
+    }
+
+    /**
+     * Conditions checking the values nested in the value, e.g. object fields
+     * or array elements, evaluated after the constraints.
+     *
+     * @param _field - Path of the value
+     * @param _wildcard - Whether the path has a `[*]` wildcard
+     * @returns The conditions
+     */
+    protected children(_field: string, _wildcard: boolean): Condition[] {
+        return [];
+    }
+
+    /**
+     * Returns a copy of the schema with one more constraint.
+     *
+     * @param op - Name of the operator
+     * @param value - Operator argument, left out for operators without arguments
+     * @param message - Message reported when the rule fails
+     * @param negated - Whether the rule must fail instead
+     * @returns The new schema
+     */
+    protected check(op: string, value?: unknown, message?: string, negated = false): this {
+        const check: SchemaCheck = { op };
+        if (value !== undefined) check.value = value;
+        if (message !== undefined) check.message = message;
+        if (negated) check.negated = true;
+
+        const copy = Object.create(Object.getPrototypeOf(this)) as this;
+        Object.assign(copy, this, { checks: [...this.checks, check] });
+        return copy;
+    }
+}
+
+/**
+ * Schema accepting strings, created by {@link v.string}.
+ *
+ * @public
+ */
+export class StringSchema extends Schema<string> {
+    protected readonly typeOperator = 'isString';
+
+    /** Requires at least `length` characters (`minLength`) */
+    minLength(length: number, message?: string): this {
+        return this.check('minLength', length, message);
+    }
+
+    /** Requires at most `length` characters (`maxLength`) */
+    maxLength(length: number, message?: string): this {
+        return this.check('maxLength', length, message);
+    }
+
+    /** Requires an email address (`isEmail`) */
+    email(message?: string): this {
+        return this.check('isEmail', undefined, message);
+    }
+
+    /** Requires a URL (`isURL`) */
+    url(message?: string): this {
+        return this.check('isURL', undefined, message);
+    }
+
+    /** Requires a UUID (`isUUID`) */
+    uuid(message?: string): this {
+        return this.check('isUUID', undefined, message);
+    }
+
+    /** Requires the string to start with `prefix` (`startsWith`) */
+    startsWith(prefix: string, message?: string): this {
+        return this.check('startsWith', prefix, message);
+    }
+
+    /** Requires the string to end with `suffix` (`endsWith`) */
+    endsWith(suffix: string, message?: string): this {
+        return this.check('endsWith', suffix, message);
+    }
+
+    /** Requires the string to contain `substring` (`contains`) */
+    contains(substring: string, message?: string): this {
+        return this.check('contains', substring, message);
+    }
+
+    /**
+     * Requires the string to match a regular expression (`matches`). The
+     * pattern is given as its source so the rule stays serializable.
+     */
+    matches(pattern: string, message?: string): this {
+        return this.check('matches', pattern, message);
+    }
+}
+
+/**
+ * Schema accepting numbers other than `NaN`, created by {@link v.number}.
+ *
+ * @public
+ */
+export class NumberSchema extends Schema<number> {
+    protected readonly typeOperator = 'isNumber';
+
+    /** Requires a value greater than `min` (`gt`) */
+    gt(min: number, message?: string): this {
+        return this.check('gt', min, message);
+    }
+
+    /** Requires a value greater than or equal to `min` (`gte`) */
+    gte(min: number, message?: string): this {
+        return this.check('gte', min, message);
+    }
+
+    /** Requires a value less than `max` (`lt`) */
+    lt(max: number, message?: string): this {
+        return this.check('lt', max, message);
+    }
+
+    /** Requires a value less than or equal to `max` (`lte`) */
+    lte(max: number, message?: string): this {
+        return this.check('lte', max, message);
+    }
+
+    /** Requires a value between `min` and `max`, inclusive (`between`) */
+    between(min: number, max: number, message?: string): this {
+        return this.check('between', [min, max], message);
+    }
+
+    /** Requires an integer (`isInteger`) */
+    int(message?: string): this {
+        return this.check('isInteger', undefined, message);
+    }
+
+    /** Requires a finite number (`isFinite`) */
+    finite(message?: string): this {
+        return this.check('isFinite', undefined, message);
+    }
+}
+
+/**
+ * Schema accepting booleans, created by {@link v.boolean}.
+ *
+ * @public
+ */
+export class BooleanSchema extends Schema<boolean> {
+    protected readonly typeOperator = 'isBoolean';
+}
+
+/**
+ * Schema accepting valid dates, created by {@link v.date}.
+ *
+ * @public
+ */
+export class DateSchema extends Schema<Date> {
+    protected readonly typeOperator = 'isValidDate';
+
+    /** Requires a date after `date` (`isAfter`) */
+    after(date: Date, message?: string): this {
+        return this.check('isAfter', date, message);
+    }
+
+    /** Requires a date before `date` (`isBefore`) */
+    before(date: Date, message?: string): this {
+        return this.check('isBefore', date, message);
+    }
+
+    /** Requires a Monday to Friday (`isWeekday`) */
+    weekday(message?: string): this {
+        return this.check('isWeekday', undefined, message);
+    }
+
+    /** Requires a Saturday or Sunday (`isWeekend`) */
+    weekend(message?: string): this {
+        return this.check('isWeekend', undefined, message);
+    }
+}
+
+/**
+ * Schema accepting one of a list of constant values, created by
+ * {@link v.literal} and {@link v.enum}.
+ *
+ * @public
+ */
+export class EnumSchema<T extends string | number | boolean | null> extends Schema<T> {
+    protected readonly typeOperator = undefined;
+
+    /**
+     * @param values - The accepted values
+     * @throws {ValidraArgumentError} When no value is given
+     */
+    constructor(readonly values: readonly T[]) {
+        super();
+        if (values.length === 0) {
+            throw new ValidraArgumentError('Enum schema requires at least one value.', { operator: 'v.enum', argument: values });
+        }
+    }
+
+    /**
+     * Compiles `null` to an `isNull` rule and the other values to `eq` rules,
+     * behind a `not isNullish` guard so absent fields fail instead of throwing.
+     * Inside arrays, only single values are accepted: the alternatives would
+     * apply to all the elements at once.
+     *
+     * @throws {ValidraArgumentError} When the schema inside an array has more than one value
+     */
+    toCondition(field: string, wildcard: boolean): Condition {
+        if (wildcard && this.values.length > 1) {
+            throw new ValidraArgumentError(`Values inside arrays can't be enums: "${field}".`, { operator: 'enum', argument: field });
+        }
+
+        const equals = this.values.filter(value => value !== null).map((value): Rule => ({ field, op: 'eq', value }));
+        const alternatives: Condition[] = this.values.includes(null as T) ? [{ field, op: 'isNull' }] : [];
+
+        if (equals.length > 0) {
+            const [first, ...rest] = equals as [Rule, ...Rule[]];
+            const guard: Condition = wildcard
+                ? { field, op: 'isNullish', quantifier: 'none' }
+                : { not: { field, op: 'isNullish' } };
+            alternatives.push({ all: [guard, rest.length === 0 ? first : { any: equals }] });
+        }
+
+        return alternatives.length === 1 ? alternatives[0] as Condition : { any: alternatives };
+    }
+}
+
+/**
+ * Schema accepting arrays whose elements match an element schema, created by {@link v.array}.
+ *
+ * Elements are checked through a `[*]` wildcard path, e.g. `tags[*]`.
+ *
+ * @public
+ */
+export class ArraySchema<E extends Schema> extends Schema<Infer<E>[]> {
+    protected readonly typeOperator = 'isArray';
+
+    /**
+     * @param element - Schema of the elements
+     */
+    constructor(readonly element: E) {
+        super();
+    }
+
+    /** Requires at least one element (`not isEmpty`) */
+    nonEmpty(message?: string): this {
+        return this.check('isEmpty', undefined, message, true);
+    }
+
+    protected children(field: string, _wildcard: boolean): Condition[] {
+        return [this.element.toCondition(`${field}[*]`, true)];
+    }
+}
+
+/**
+ * Schema accepting objects whose fields match a shape, created by {@link v.object}.
+ *
+ * Used at the root, it describes a whole fact: {@link ObjectSchema.toConditions}
+ * compiles it to the rules consumed by {@link ValidraEngine}, so rules
+ * defined in code and rules stored as JSON share one runtime.
+ *
+ * @example
+ * ```typescript
+ * const signup = v.object({
+ *   age: v.number().gte(18),
+ *   email: v.string().email(),
+ *   tags: v.array(v.string().minLength(2)).optional()
+ * });
+ *
+ * type Signup = Infer<typeof signup>; // { age: number; email: string; tags?: string[] | undefined }
+ *
+ * signup.toConditions();
+ * // [
+ * //   { all: [{ field: "age", op: "isNumber" }, { field: "age", op: "gte", value: 18 }] },
+ * //   { all: [{ field: "email", op: "isString" }, { field: "email", op: "isEmail" }] },
+ * //   { any: [{ field: "tags", op: "isUndefined" }, { all: [...] }] }
+ * // ]
+ *
+ * if (signup.is(input)) input.email; // input is a Signup
+ * ```
+ *
+ * @public
+ */
+export class ObjectSchema<S extends SchemaShape> extends Schema<InferShape<S>> {
+    protected readonly typeOperator = 'isPlainObject';
+    /** Engine checking facts against the schema, created on first use by {@link ObjectSchema.is} */
+    private engine: ValidraEngine | undefined;
+
+    /**
+     * @param shape - Schemas of the fields, by property name
+     */
+    constructor(readonly shape: S) {
+        super();
+    }
+
+    /**
+     * Compiles the schema to the conditions checking a fact: one condition
+     * per field, in shape order.
+     *
+     * @returns The conditions
+     * @throws {ValidraArgumentError} When a value inside an array is nullable, optional or an enum of several values
+     *
+     * @example
+     * ```typescript
+     * const engine = new ValidraEngine(v.object({ age: v.number().gte(18) }).toConditions());
+     * ```
+     */
+    toConditions(): Condition[] {
+        return this.children(undefined, false);
+    }
+
+    /**
+     * Compiles the schema to a serializable rule-set document (see {@link toRuleSet}),
+     * e.g. to store it alongside rules edited in an admin UI.
+     *
+     * @returns The rule-set document
+     * @throws {ValidraArgumentError} When the schema can't be compiled (see {@link ObjectSchema.toConditions})
+     *
+     * @example
+     * ```typescript
+     * JSON.stringify(v.object({ active: v.boolean() }).toRuleSet());
+     * // {"$validra":"1","rules":[{"field":"active","op":"isBoolean"}]}
+     * ```
+     */
+    toRuleSet(): RuleSetDocument {
+        return toRuleSet(this.toConditions());
+    }
+
+    /**
+     * Checks a fact against the schema, narrowing its type.
+     *
+     * @param fact - The value to check
+     * @returns `true` when the fact is a plain object matching every field of the schema
+     *
+     * @example
+     * ```typescript
+     * const user = v.object({ name: v.string() });
+     * if (user.is(body)) greet(body.name);
+     * ```
+     */
+    is(fact: unknown): fact is InferShape<S> {
+        if (!TypeChecker.isPlainObject(fact)) return false;
+
+        this.engine ??= new ValidraEngine(this.toConditions());
+        return this.engine.test(fact as Fact);
+    }
+
+    protected children(field: string | undefined, wildcard: boolean): Condition[] {
+        return Object.entries(this.shape).map(([key, schema]) => schema.toCondition(joinPath(field, key), wildcard));
+    }
+}
+
+/**
+ * Schema also accepting `undefined` and absent fields, created by {@link Schema.optional}.
+ *
+ * Compiles to an `any` group of an `isUndefined` rule and the rules of the
+ * wrapped schema. Values inside arrays can't be optional: the alternatives
+ * would apply to all the elements at once.
+ *
+ * @public
+ */
+export class OptionalSchema<S extends Schema> extends Schema<Infer<S> | undefined> {
+    protected readonly typeOperator = undefined;
+    /** Marks optional schemas apart from other wrappers in {@link InferShape} */
+    declare private readonly optional_: true;
+
+    /**
+     * @param inner - The wrapped schema
+     */
+    constructor(readonly inner: S) {
+        super();
+    }
+
+    toCondition(field: string, wildcard: boolean): Condition {
+        if (wildcard) {
+            throw new ValidraArgumentError(`Values inside arrays can't be optional: "${field}".`, { operator: 'optional', argument: field });
+        }
+
+        return { any: [{ field, op: 'isUndefined' }, this.inner.toCondition(field, wildcard)] };
+    }
+}
+
+/**
+ * Schema also accepting `null`, created by {@link Schema.nullable}.
+ *
+ * Compiles to an `any` group of an `isNull` rule and the rules of the
+ * wrapped schema. Values inside arrays can't be nullable: the alternatives
+ * would apply to all the elements at once.
+ *
+ * @public
+ */
+export class NullableSchema<S extends Schema> extends Schema<Infer<S> | null> {
+    protected readonly typeOperator = undefined;
+
+    /**
+     * @param inner - The wrapped schema
+     */
+    constructor(readonly inner: S) {
+        super();
+    }
+
+    toCondition(field: string, wildcard: boolean): Condition {
+        if (wildcard) {
+            throw new ValidraArgumentError(`Values inside arrays can't be nullable: "${field}".`, { operator: 'nullable', argument: field });
+        }
+
+        return { any: [{ field, op: 'isNull' }, this.inner.toCondition(field, wildcard)] };
+    }
+}
+
+/**
+ * Entry point of the fluent schema builder.
+ *
+ * Every method maps to an operator of the rule engine (and so to a DSL
+ * helper such as `Comparison.isGreaterThanOrEqual` or `StringChecker.isEmail`),
+ * and {@link Infer} gives the TypeScript type of the values a schema accepts.
+ *
+ * @example
+ * ```typescript
+ * const order = v.object({
+ *   id: v.string().uuid(),
+ *   status: v.enum(["pending", "paid", "shipped"]),
+ *   items: v.array(v.object({ sku: v.string(), qty: v.number().int().gte(1) })).nonEmpty(),
+ *   note: v.string().maxLength(200).optional()
+ * });
+ *
+ * type Order = Infer<typeof order>;
+ * const engine = new ValidraEngine(order.toConditions());
+ * ```
+ *
+ * @public
+ */
+export const v = {
+    /** Schema accepting strings */
+    string: (): StringSchema => new StringSchema(),
+    /** Schema accepting numbers other than `NaN` */
+    number: (): NumberSchema => new NumberSchema(),
+    /** Schema accepting booleans */
+    boolean: (): BooleanSchema => new BooleanSchema(),
+    /** Schema accepting valid dates */
+    date: (): DateSchema => new DateSchema(),
+    /** Schema accepting a single constant value */
+    literal: <const T extends string | number | boolean | null>(value: T): EnumSchema<T> => new EnumSchema([value]),
+    /** Schema accepting one of a list of constant values */
+    enum: <const T extends string | number | boolean | null>(values: readonly T[]): EnumSchema<T> => new EnumSchema(values),
+    /** Schema accepting arrays whose elements match `element` */
+    array: <E extends Schema>(element: E): ArraySchema<E> => new ArraySchema(element),
+    /** Schema accepting objects whose fields match `shape` */
+    object: <S extends SchemaShape>(shape: S): ObjectSchema<S> => new ObjectSchema(shape)
+};
+
+/**
+ * Appends a property to a field path, quoting keys that aren't plain names.
+ *
+ * @param parent - The parent path, or `undefined` at the root
+ * @param key - The property name
+ * @returns The field path
+ */
+function joinPath(parent: string | undefined, key: string): string {
+    const plain = /^[^.[\]?"']+$/.test(key);
+    const segment = plain ? key : `["${key.replace(/["\\]/g, '\\$&')}"]`;
+
+    if (parent === undefined) return segment;
+    return plain ? `${parent}.${segment}` : `${parent}${segment}`;
+}
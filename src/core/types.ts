@@ -0,0 +1,663 @@
+/**
+ * @fileoverview Type definitions shared by the Validra rule engine.
+ * @module CoreTypes
+ * @version 1.0.0
+ * @author Felix M. Martinez
+ * @since 1.0.0
+ */
+
+import { OperatorRegistry } from "@/operations";
+import { ValidraLogger } from "@/utils";
+
+/**
+ * How much a failing rule matters.
+ *
+ * - `error`: the failure makes the fact invalid
+ * - `warning`: the failure is reported but the fact stays valid
+ * - `info`: the failure is informational only
+ *
+ * @public
+ */
+export type Severity = 'error' | 'warning' | 'info';
+
+/**
+ * How the operator of a rule with a wildcard field path applies to the matched values.
+ *
+ * - `every`: every value must satisfy the operator
+ * - `some`: at least one value must satisfy the operator
+ * - `none`: no value may satisfy the operator
+ *
+ * @public
+ */
+export type Quantifier = 'every' | 'some' | 'none';
+
+/**
+ * An operand read from another field of the fact instead of a constant.
+ *
+ * The `ref` path uses the same syntax and semantics as a rule's `field`
+ * (see {@link compilePath}).
+ *
+ * @example
+ * ```typescript
+ * const shipped: Rule = { field: "deliveredAt", op: "isAfter", value: { ref: "shippedAt" } };
+ * const range: Rule = { field: "discount", op: "between", value: [0, { ref: "subtotal" }] };
+ * ```
+ *
+ * @public
+ */
+export interface FieldReference {
+    /** Path of the referenced fact field */
+    ref: string;
+}
+
+/**
+ * An operator argument computed from the fact with an arithmetic expression,
+ * e.g. `{ expr: "sum(items[*].price) * (1 + taxRate)" }`.
+ *
+ * Expressions combine fields and constants with `+`, `-`, `*`, `/` and `%`,
+ * aggregate collections with `sum`, `min`, `max`, `avg` and `count`, and
+ * compute with dates and durations such as `shippedAt + 3 days`. Durations
+ * and differences between dates are numbers of milliseconds.
+ *
+ * @public
+ */
+export interface ExpressionOperand {
+    /** Source of the expression, in the operand syntax of the DSL */
+    expr: string;
+}
+
+/**
+ * A single rule definition evaluated by the {@link ValidraEngine}.
+ *
+ * The `field` is a path resolved against the input fact (see {@link compilePath}),
+ * `op` is the name of a registered operator and `value` holds the operator
+ * argument. Instead of a `field`, a rule can test the result of an `expr`
+ * (see {@link ExpressionOperand}). For operators that take more than one argument (like `between`),
+ * `value` must be an array holding the arguments in order.
+ *
+ * Paths with a `[*]` wildcard apply the operator to every matched value,
+ * combined with the rule's `quantifier`. When the value in front of an
+ * optional `?.` segment is absent, `null` or `undefined`, the rule passes
+ * without calling its operator; other unresolved paths pass `undefined` to
+ * the operator.
+ *
+ * Operator arguments can be {@link FieldReference}s and {@link ExpressionOperand}s,
+ * computed from the fact on every evaluation. A reference that can't be resolved makes the rule raise a
+ * `ERR_VALIDRA_MISSING_ARGUMENT` error, handled like any other operator
+ * argument error (see {@link TypeMismatchPolicy}), unless its path is optional.
+ *
+ * @example
+ * ```typescript
+ * const adult: Rule = { field: "user.age", op: "gte", value: 18 };
+ * const range: Rule = { field: "order.quantity", op: "between", value: [1, 10] };
+ * const email: Rule = { field: "user.email", op: "isEmail" };
+ * const prices: Rule = { field: "order.items[*].price", op: "gt", value: 0 };
+ * const gift: Rule = { field: "order.items[*].sku", op: "startsWith", value: "GIFT-", quantifier: "some" };
+ * const tags: Rule = { field: "meta?.tags", op: "contains", value: "public" };
+ * const status: Rule = { field: "status", op: "eq", value: "ACTIVE", options: { caseInsensitive: true } };
+ * const discount: Rule = { field: "discount", op: "lte", value: { ref: "subtotal" } };
+ * const total: Rule = { field: "total", op: "eq", value: { expr: "sum(items[*].price) * (1 + taxRate)" } };
+ * const rental: Rule = { expr: "endDate - startDate", op: "lte", value: { expr: "30 days" } };
+ * const nickname: Rule = {
+ *   field: "user.nickname",
+ *   op: "maxLength",
+ *   value: 20,
+ *   severity: "warning",
+ *   message: "{field} should have at most {expected} characters, got \"{value}\""
+ * };
+ * ```
+ *
+ * @public
+ */
+export interface Rule {
+    /** Optional identifier used to correlate results with the rule definition */
+    id?: string;
+    /**
+     * Path of the fact field the rule applies to, e.g. `user.age`, `items[0].sku` or `items[*].price`.
+     * Required unless the rule has an `expr`
+     */
+    field?: string;
+    /** Expression computing the value the rule applies to, e.g. `endDate - startDate`. Replaces `field` */
+    expr?: string;
+    /** Name of the operator used to evaluate the field */
+    op: string;
+    /**
+     * Operator argument, or the list of arguments for multi-argument operators.
+     * Arguments can be {@link FieldReference}s to other fields of the fact and {@link ExpressionOperand}s
+     */
+    value?: unknown;
+    /** How the operator applies to the values matched by a wildcard path. Defaults to `every` */
+    quantifier?: Quantifier;
+    /**
+     * Settings of the operator for this rule, e.g. `{ caseInsensitive: true }` for `eq`
+     * (see {@link EqualityOptions}). Only allowed on operators that accept options
+     */
+    options?: Readonly<Record<string, unknown>>;
+    /** Severity of a failure of this rule. Defaults to the enclosing group's severity, or `error` */
+    severity?: Severity;
+    /**
+     * Message reported when the rule fails. `{field}`, `{value}`, `{expected}`
+     * and `{operator}` are replaced with the field path (or expression), the actual value, the
+     * rule value and the operator name
+     */
+    message?: string;
+    /**
+     * Salience of the rule: siblings with a higher priority are evaluated first.
+     * Defaults to `0`; siblings with the same priority keep their definition order
+     */
+    priority?: number;
+    /** Name of the rule group the rule belongs to, which can be turned off per evaluation (see {@link EvaluationOptions}) */
+    group?: string;
+    /** Actions run by {@link ValidraEngine.run} when the rule passes. Only allowed on top-level conditions */
+    then?: Action[];
+}
+
+/**
+ * Names of the boolean operators that combine conditions into groups.
+ *
+ * @public
+ */
+export type GroupOperator = 'all' | 'any' | 'not' | 'none' | 'atLeast';
+
+/**
+ * A group of conditions combined with a boolean operator.
+ *
+ * - `all`: passes when every condition passes
+ * - `any`: passes when at least one condition passes
+ * - `not`: passes when the wrapped condition fails
+ * - `none`: passes when no condition passes
+ * - `atLeast`: passes when at least `atLeast` of the conditions in `of` pass
+ *
+ * Groups can be nested to any depth. A group's `severity` applies to the
+ * rules it contains that don't declare their own.
+ *
+ * @example
+ * ```typescript
+ * // age >= 18 AND (country = 'US' OR hasConsent)
+ * const group: ConditionGroup = {
+ *   all: [
+ *     { field: "age", op: "gte", value: 18 },
+ *     { any: [
+ *       { field: "country", op: "eq", value: "US" },
+ *       { field: "hasConsent", op: "eq", value: true }
+ *     ] }
+ *   ]
+ * };
+ *
+ * const twoOfThree: ConditionGroup = { atLeast: 2, of: [ruleA, ruleB, ruleC] };
+ * ```
+ *
+ * @public
+ */
+export type ConditionGroup =
+    | ConditionGroupBase & { all: Condition[] }
+    | ConditionGroupBase & { any: Condition[] }
+    | ConditionGroupBase & { not: Condition }
+    | ConditionGroupBase & { none: Condition[] }
+    | ConditionGroupBase & { atLeast: number; of: Condition[] };
+
+/**
+ * Properties shared by every kind of {@link ConditionGroup}.
+ *
+ * @public
+ */
+export interface ConditionGroupBase {
+    /** Optional identifier used to correlate results with the group definition */
+    id?: string;
+    /** Severity of the failures of the rules in the group that don't declare their own */
+    severity?: Severity;
+    /**
+     * Salience of the condition group: siblings with a higher priority are evaluated first.
+     * Defaults to `0`; siblings with the same priority keep their definition order
+     */
+    priority?: number;
+    /** Name of the rule group the condition group belongs to, which can be turned off per evaluation (see {@link EvaluationOptions}) */
+    group?: string;
+    /** Actions run by {@link ValidraEngine.run} when the group passes. Only allowed on top-level conditions */
+    then?: Action[];
+}
+
+/**
+ * A single rule or a group of conditions.
+ *
+ * @public
+ */
+export type Condition = Rule | ConditionGroup;
+
+/**
+ * Action writing a value to a field of the working memory of
+ * {@link ValidraEngine.run}, creating missing parent objects and arrays.
+ *
+ * @example
+ * ```typescript
+ * const freeShipping: SetAction = { set: "cart.freeShipping", value: true };
+ * const points: SetAction = { set: "customer.points", value: { expr: "customer.points + cart.total / 10" } };
+ * ```
+ *
+ * @public
+ */
+export interface SetAction {
+    /** Path of the field to write, e.g. `cart.freeShipping` or `items[0].discount`. Wildcards are not allowed */
+    set: string;
+    /** The value to write: a constant, a {@link FieldReference} or an {@link ExpressionOperand} */
+    value: unknown;
+}
+
+/**
+ * Action emitting an event from {@link ValidraEngine.run}.
+ *
+ * @example
+ * ```typescript
+ * const notify: EmitAction = { emit: "freeShippingUnlocked", payload: { ref: "cart.total" } };
+ * ```
+ *
+ * @public
+ */
+export interface EmitAction {
+    /** Name of the event */
+    emit: string;
+    /** Data attached to the event: a constant, a {@link FieldReference} or an {@link ExpressionOperand} */
+    payload?: unknown;
+}
+
+/**
+ * Something a condition does when it passes during forward chaining.
+ *
+ * @public
+ */
+export type Action = SetAction | EmitAction;
+
+/**
+ * Status of an evaluated rule.
+ *
+ * - `passed`: the field satisfied the rule
+ * - `failed`: the field did not satisfy the rule
+ * - `timeout`: an asynchronous operator did not settle within the configured timeout
+ * - `skipped`: the field had the wrong type for the operator and `onTypeMismatch` is `skip`,
+ *   or the rule's group is turned off
+ *
+ * @public
+ */
+export type RuleStatus = 'passed' | 'failed' | 'timeout' | 'skipped';
+
+/**
+ * Outcome of evaluating a single rule against a fact.
+ *
+ * @public
+ */
+export interface RuleResult {
+    /** The rule that was evaluated */
+    rule: Rule;
+    /** Whether the field satisfied the rule */
+    passed: boolean;
+    /**
+     * Detailed status of the rule. `passed` and `skipped` rules have `passed` set to
+     * `true`; skipped rules are otherwise ignored by their group
+     */
+    status: RuleStatus;
+    /** The value resolved from the fact for the rule's field; the list of matched values for wildcard paths */
+    actual: unknown;
+    /**
+     * Why the rule failed or was skipped when its operator rejected the field
+     * value, or why it passed when its optional field is absent
+     */
+    reason?: string;
+}
+
+/**
+ * Outcome of evaluating a condition group against a fact.
+ *
+ * `children` mirrors the conditions of the group in evaluation order:
+ * by descending priority, then in definition order. Groups
+ * short-circuit, so conditions after the one that decided the outcome are
+ * not evaluated and have no entry in `children`.
+ *
+ * @public
+ */
+export interface GroupResult {
+    /** The group that was evaluated */
+    group: ConditionGroup;
+    /** The boolean operator of the group */
+    operator: GroupOperator;
+    /** Whether the group passed */
+    passed: boolean;
+    /** Results of the conditions that were evaluated, in evaluation order */
+    children: ConditionResult[];
+    /**
+     * `true` when every evaluated child was skipped, or the group's rule group
+     * is turned off; the group then counts as passed
+     */
+    skipped?: boolean;
+}
+
+/**
+ * Outcome of evaluating a rule or a condition group.
+ *
+ * @public
+ */
+export type ConditionResult = RuleResult | GroupResult;
+
+/**
+ * Outcome of evaluating a full rule set against a fact.
+ *
+ * @public
+ */
+export interface EvaluationResult {
+    /**
+     * `true` when every top-level condition passed; in `stopOnFirstMatch`
+     * mode, `true` when a condition passed
+     */
+    passed: boolean;
+    /**
+     * Per-condition results, in evaluation order: by descending priority, then
+     * in definition order. Modes that stop early leave the conditions after
+     * the stopping one out
+     */
+    results: ConditionResult[];
+}
+
+/**
+ * Diagnostic of a single evaluated rule, reported by {@link ValidraEngine.validate}.
+ *
+ * @public
+ */
+export interface RuleDiagnostic {
+    /** Identifier of the rule, when it has one */
+    id?: string;
+    /** Path of the field the rule applies to, or the rule's expression */
+    field: string;
+    /** Operator of the rule */
+    operator: string;
+    /** The rule value the field was checked against */
+    expected: unknown;
+    /** The value resolved from the fact */
+    actual: unknown;
+    /** Whether the rule itself passed */
+    passed: boolean;
+    /** Detailed status of the rule */
+    status: RuleStatus;
+    /** Effective severity of the rule */
+    severity: Severity;
+    /** The rule's message with its placeholders filled in, or a default message */
+    message: string;
+    /** Time spent evaluating the rule, in milliseconds */
+    duration: number;
+}
+
+/**
+ * Counts and timing of a validation.
+ *
+ * @public
+ */
+export interface ValidationSummary {
+    /** Number of rules evaluated */
+    total: number;
+    /** Number of rules that passed */
+    passed: number;
+    /** Number of rules that failed or timed out */
+    failed: number;
+    /** Number of rules skipped because of a type mismatch or a rule group turned off */
+    skipped: number;
+    /** Total validation time, in milliseconds */
+    duration: number;
+}
+
+/**
+ * Detailed outcome of validating a fact, reported by {@link ValidraEngine.validate}.
+ *
+ * `errors`, `warnings` and `infos` hold the diagnostics of the rules that
+ * made a top-level condition fail, split by severity. A rule failing inside
+ * a group that still passes (e.g. one branch of an `any`) is not listed
+ * there. Inside `not` and `none` groups the rules that passed are the ones
+ * listed, since they made the group fail.
+ *
+ * @public
+ */
+export interface ValidationResult {
+    /** `false` when at least one rule with `error` severity made the fact invalid */
+    valid: boolean;
+    /** Failures with `error` severity */
+    errors: RuleDiagnostic[];
+    /** Failures with `warning` severity */
+    warnings: RuleDiagnostic[];
+    /** Failures with `info` severity */
+    infos: RuleDiagnostic[];
+    /** Diagnostics of every evaluated rule, in evaluation order */
+    rules: RuleDiagnostic[];
+    /** Counts and timing of the validation */
+    summary: ValidationSummary;
+}
+
+/**
+ * Status of a node in an evaluation trace: the status of the evaluated rule
+ * or group, or `notEvaluated` for conditions left out because their group
+ * short-circuited or the execution mode stopped early.
+ *
+ * @public
+ */
+export type TraceStatus = RuleStatus | 'notEvaluated';
+
+/**
+ * Fields shared by rule and group nodes of an evaluation trace.
+ *
+ * @public
+ */
+export interface TraceNodeBase {
+    /** Identifier of the condition, when it has one */
+    id?: string;
+    /** Outcome of the condition */
+    status: TraceStatus;
+    /** Whether the condition passed; absent for conditions that were not evaluated */
+    passed?: boolean;
+    /** Why the condition failed, was skipped or passed without calling its operator */
+    reason?: string;
+    /** Time spent evaluating the condition, in milliseconds; `0` when it was not evaluated */
+    duration: number;
+}
+
+/**
+ * An evaluated (or short-circuited) rule in an evaluation trace.
+ *
+ * @public
+ */
+export interface RuleTrace extends TraceNodeBase {
+    kind: 'rule';
+    /** The rule definition */
+    rule: Rule;
+    /** Path of the rule's field, or its expression */
+    subject: string;
+    /** Operator of the rule */
+    operator: string;
+    /** The rule value as written, with references and expressions unresolved */
+    expected: unknown;
+    /**
+     * Operator arguments with references and expressions resolved against the
+     * fact; absent when the rule was not evaluated or they could not be resolved
+     */
+    arguments?: unknown[];
+    /** The value resolved from the fact; absent when the rule was not evaluated */
+    actual?: unknown;
+}
+
+/**
+ * An evaluated (or short-circuited) condition group in an evaluation trace.
+ *
+ * @public
+ */
+export interface GroupTrace extends TraceNodeBase {
+    kind: 'group';
+    /** The group definition */
+    group: ConditionGroup;
+    /** The boolean operator of the group */
+    operator: GroupOperator;
+    /** Number of passing children required by `atLeast` groups */
+    threshold?: number;
+    /** Every child of the group, in evaluation order, evaluated or not */
+    children: TraceNode[];
+}
+
+/**
+ * A node of an evaluation trace.
+ *
+ * @public
+ */
+export type TraceNode = RuleTrace | GroupTrace;
+
+/**
+ * Trace of an evaluation, reported by {@link ValidraEngine.explain}.
+ *
+ * Unlike {@link EvaluationResult}, the trace lists every condition of the
+ * rule set, marking the ones that short-circuiting left out as `notEvaluated`.
+ *
+ * @public
+ */
+export interface Explanation {
+    /** Whether the evaluation passed, like {@link EvaluationResult.passed} */
+    passed: boolean;
+    /** One node per top-level condition, in evaluation order */
+    trace: TraceNode[];
+    /** Total evaluation time, in milliseconds */
+    duration: number;
+}
+
+/**
+ * What the engine does when an operator rejects a field value with a
+ * {@link ValidraTypeError} or {@link ValidraArgumentError}, e.g. a number
+ * passed to `isEmail` or a missing field passed to `gte`.
+ *
+ * - `throw`: rethrow it as a {@link RuleEvaluationError}
+ * - `fail`: report the rule as failed, with the error message as `reason`
+ * - `skip`: report the rule as skipped, with the error message as `reason`;
+ *   skipped rules don't affect the outcome of their group or of the evaluation
+ *
+ * @public
+ */
+export type TypeMismatchPolicy = 'throw' | 'fail' | 'skip';
+
+/**
+ * Options accepted by the {@link ValidraEngine} constructor.
+ *
+ * @public
+ */
+export interface EngineOptions {
+    /** Registry used to resolve rule operators. Defaults to a registry with the built-in operators */
+    operators?: OperatorRegistry;
+    /** How operator type and argument errors are reported. Defaults to `throw` */
+    onTypeMismatch?: TypeMismatchPolicy;
+}
+
+/**
+ * How many top-level conditions an evaluation runs.
+ *
+ * - `all`: evaluate every condition; the evaluation passes when they all pass
+ * - `stopOnFirstFailure`: stop after the first failing condition
+ * - `stopOnFirstMatch`: stop after the first passing condition; the
+ *   evaluation passes when a condition passed
+ *
+ * Skipped conditions neither stop the evaluation nor count as a match.
+ *
+ * @public
+ */
+export type ExecutionMode = 'all' | 'stopOnFirstFailure' | 'stopOnFirstMatch';
+
+/**
+ * Options accepted by {@link ValidraEngine.evaluate} and the other evaluation methods.
+ *
+ * @example
+ * ```typescript
+ * engine.evaluate(order, { mode: "stopOnFirstFailure", groups: { promotions: false } });
+ * ```
+ *
+ * @public
+ */
+export interface EvaluationOptions {
+    /** How many top-level conditions are evaluated. Defaults to `all` */
+    mode?: ExecutionMode;
+    /**
+     * Rule groups turned on (`true`) or off (`false`), by name. Groups that
+     * aren't listed are on. Conditions of a group that is off are reported as
+     * skipped without being evaluated
+     */
+    groups?: Record<string, boolean>;
+}
+
+/**
+ * Options accepted by {@link ValidraEngine.explain}.
+ *
+ * @example
+ * ```typescript
+ * engine.explain(order, { logger: new ValidraLogger("Checkout"), logLevel: "trace" });
+ * ```
+ *
+ * @public
+ */
+export interface ExplainOptions extends EvaluationOptions {
+    /** Logger receiving the rendered trace (see {@link renderTrace}) */
+    logger?: ValidraLogger;
+    /** Logger method the trace is written with. Defaults to `debug` */
+    logLevel?: 'debug' | 'trace';
+}
+
+/**
+ * Options accepted by {@link ValidraEngine.run}.
+ *
+ * @public
+ */
+export interface InferenceOptions {
+    /**
+     * Maximum number of passes over the rules with actions before the run
+     * fails with an {@link InferenceError}. Defaults to 100
+     */
+    maxIterations?: number;
+    /** Rule groups turned on (`true`) or off (`false`), by name, like {@link EvaluationOptions.groups} */
+    groups?: Record<string, boolean>;
+}
+
+/**
+ * An event emitted by an {@link EmitAction}.
+ *
+ * @public
+ */
+export interface InferenceEvent {
+    /** Name of the event */
+    name: string;
+    /** The evaluated payload, or `undefined` when the action has none */
+    payload: unknown;
+    /** The condition whose action emitted the event */
+    condition: Condition;
+    /** The pass over the rules in which the event was emitted, starting at 1 */
+    iteration: number;
+}
+
+/**
+ * Outcome of {@link ValidraEngine.run}.
+ *
+ * @public
+ */
+export interface InferenceResult {
+    /** The working memory: a copy of the input fact with every `set` action applied */
+    fact: Record<string, unknown>;
+    /** Emitted events, in emission order */
+    events: InferenceEvent[];
+    /** Conditions whose actions ran, in firing order. A condition fires again when a field it reads changes */
+    fired: Condition[];
+    /** Number of passes over the rules until no field changed */
+    iterations: number;
+}
+
+/**
+ * Options accepted by {@link ValidraEngine.evaluateAsync}.
+ *
+ * @public
+ */
+export interface AsyncEvaluationOptions extends EvaluationOptions {
+    /** Aborts the evaluation; the returned promise rejects with the signal's reason */
+    signal?: AbortSignal;
+    /** Maximum time in milliseconds an asynchronous operator may take before its rule fails with `timeout` */
+    timeoutMs?: number;
+    /**
+     * Maximum number of top-level conditions evaluated at the same time. Defaults to 8.
+     * Conditions run one at a time when the mode stops early
+     */
+    concurrency?: number;
+}
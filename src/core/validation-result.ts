@@ -0,0 +1,216 @@
+/**
+ * @fileoverview Builds detailed validation results and rule messages from evaluation results.
+ * @module ValidationResult
+ * @version 1.0.0
+ * @author Felix M. Martinez
+ * @since 1.0.0
+ */
+
+import {
+    ConditionResult,
+    GroupOperator,
+    Rule,
+    RuleDiagnostic,
+    RuleResult,
+    Severity,
+    ValidationResult
+} from "./types";
+
+/**
+ * Durations of evaluated rules and groups, in milliseconds, keyed by result.
+ *
+ * @internal
+ */
+export type RuleTimings = WeakMap<ConditionResult, number>;
+
+/** Group operators whose children make the group fail by passing */
+const NEGATING_OPERATORS: readonly GroupOperator[] = ['not', 'none'];
+
+/** Matches the placeholders of a rule message */
+const PLACEHOLDER = /\{(field|value|expected|operator)\}/g;
+
+/**
+ * Fills the placeholders of a rule message.
+ *
+ * `{field}` is replaced with the rule's field path, `{value}` with the actual
+ * value, `{expected}` with the rule value and `{operator}` with the operator
+ * name. Strings are inserted as is, dates as ISO strings and other objects
+ * as JSON. Unknown placeholders are left untouched.
+ *
+ * @param template - The message, e.g. `"{field} must be at least {expected}"`
+ * @param rule - The rule the message belongs to
+ * @param actual - The value resolved from the fact
+ * @returns The formatted message
+ *
+ * @example
+ * ```typescript
+ * formatMessage("{field} must be at least {expected}, got {value}", { field: "age", op: "gte", value: 18 }, 16);
+ * // "age must be at least 18, got 16"
+ * ```
+ *
+ * @public
+ */
+export function formatMessage(template: string, rule: Rule, actual: unknown): string {
+    return template.replace(PLACEHOLDER, (_, name: string) => {
+        switch (name) {
+            case 'field': return (rule.field ?? rule.expr) as string;
+            case 'value': return formatValue(actual);
+            case 'expected': return formatValue(rule.value);
+            default: return rule.op;
+        }
+    });
+}
+
+/**
+ * Builds a {@link ValidationResult} from the results of the top-level conditions.
+ *
+ * Rules are collected in evaluation order. A rule is listed as a failure when
+ * it made its top-level condition fail: it failed (or, under a `not` or `none`
+ * group, passed) and every group between it and the top level failed too.
+ *
+ * @param results - Results of the top-level conditions
+ * @param timings - Durations of the evaluated rules
+ * @param duration - Total validation time, in milliseconds
+ * @returns The validation result
+ *
+ * @internal
+ */
+export function toValidationResult(results: ConditionResult[], timings: RuleTimings, duration: number): ValidationResult {
+    const validation: ValidationResult = {
+        valid: true,
+        errors: [],
+        warnings: [],
+        infos: [],
+        rules: [],
+        summary: { total: 0, passed: 0, failed: 0, skipped: 0, duration }
+    };
+
+    for (const result of results) {
+        collect(validation, result, timings, 'error', false, true);
+    }
+
+    validation.valid = validation.errors.length === 0;
+    return validation;
+}
+
+/**
+ * Adds the diagnostics of a condition result and its children to a validation result.
+ *
+ * @param validation - The validation result being built
+ * @param result - The condition result to collect
+ * @param timings - Durations of the evaluated rules
+ * @param severity - Severity inherited from the enclosing groups
+ * @param negated - Whether an odd number of enclosing `not`/`none` groups was crossed
+ * @param blamed - Whether every enclosing group contributes to a top-level failure
+ */
+function collect(
+    validation: ValidationResult,
+    result: ConditionResult,
+    timings: RuleTimings,
+    severity: Severity,
+    negated: boolean,
+    blamed: boolean
+): void {
+    if ('rule' in result) {
+        const failure = blamed && result.status !== 'skipped' && result.passed === negated;
+        const diagnostic = toDiagnostic(result, timings.get(result) ?? 0, result.rule.severity ?? severity, failure, negated);
+
+        validation.rules.push(diagnostic);
+        validation.summary.total++;
+        if (result.status === 'skipped') validation.summary.skipped++;
+        else if (result.passed) validation.summary.passed++;
+        else validation.summary.failed++;
+
+        if (failure) {
+            const target = diagnostic.severity === 'error' ? validation.errors
+                : diagnostic.severity === 'warning' ? validation.warnings
+                    : validation.infos;
+            target.push(diagnostic);
+        }
+        return;
+    }
+
+    const childBlamed = blamed && result.skipped !== true && result.passed === negated;
+    const childNegated = NEGATING_OPERATORS.includes(result.operator) ? !negated : negated;
+    const childSeverity = result.group.severity ?? severity;
+
+    for (const child of result.children) {
+        collect(validation, child, timings, childSeverity, childNegated, childBlamed);
+    }
+}
+
+/**
+ * Builds the diagnostic of an evaluated rule.
+ *
+ * @param result - The rule result
+ * @param duration - Time spent evaluating the rule, in milliseconds
+ * @param severity - Effective severity of the rule
+ * @param failure - Whether the rule made its top-level condition fail
+ * @param negated - Whether the rule is under an odd number of `not`/`none` groups
+ * @returns The rule diagnostic
+ */
+function toDiagnostic(result: RuleResult, duration: number, severity: Severity, failure: boolean, negated: boolean): RuleDiagnostic {
+    const { rule, actual } = result;
+    const template = rule.message !== undefined && (failure || !result.passed)
+        ? rule.message
+        : defaultMessage(result, negated && failure);
+
+    const diagnostic: RuleDiagnostic = {
+        field: (rule.field ?? rule.expr) as string,
+        operator: rule.op,
+        expected: rule.value,
+        actual,
+        passed: result.passed,
+        status: result.status,
+        severity,
+        message: formatMessage(template, rule, actual),
+        duration
+    };
+    if (rule.id !== undefined) diagnostic.id = rule.id;
+
+    return diagnostic;
+}
+
+/**
+ * Message template used for rules without a custom message.
+ *
+ * @param result - The rule result
+ * @param negated - Whether the rule failed by passing under a `not`/`none` group
+ * @returns The message template
+ */
+function defaultMessage(result: RuleResult, negated: boolean): string {
+    const check = 'value' in result.rule ? '{operator} {expected}' : '{operator}';
+
+    switch (result.status) {
+        case 'timeout':
+            return 'Field "{field}" timed out on {operator}';
+        case 'skipped':
+            return `Field "{field}" was skipped: ${result.reason ?? 'type mismatch'}`;
+        case 'failed':
+            return result.reason !== undefined
+                ? `Field "{field}" could not be checked: ${result.reason}`
+                : `Field "{field}" must satisfy ${check}`;
+        default:
+            return negated ? `Field "{field}" must not satisfy ${check}` : `Field "{field}" satisfies ${check}`;
+    }
+}
+
+/**
+ * Formats a value for a rule message.
+ *
+ * @param value - The value to format
+ * @returns The formatted value
+ */
+function formatValue(value: unknown): string {
+    if (typeof value === 'string') return value;
+    if (value instanceof Date) return Number.isNaN(value.getTime()) ? 'Invalid Date' : value.toISOString();
+    if (value === undefined || typeof value === 'function' || typeof value === 'symbol' || typeof value === 'bigint') {
+        return String(value);
+    }
+
+    try {
+        return JSON.stringify(value) ?? String(value);
+    } catch {
+        return String(value);
+    }
+}
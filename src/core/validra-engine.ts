@@ -0,0 +1,311 @@
+/**
+ * @fileoverview Core rule engine that evaluates rule definitions against facts.
+ * @module ValidraEngine
+ * @version 1.0.0
+ * @author Felix M. Martinez
+ * @since 1.0.0
+ */
+
+import { Fact } from "@/utils";
+import { compile, CompiledRuleSet } from "./compiler";
+import { CompiledInference, compileInference } from "./inference";
+import { loadRuleSet } from "./rule-set";
+import {
+    AsyncEvaluationOptions,
+    Condition,
+    EngineOptions,
+    EvaluationOptions,
+    EvaluationResult,
+    ExplainOptions,
+    Explanation,
+    InferenceOptions,
+    InferenceResult,
+    ValidationResult
+} from "./types";
+
+/**
+ * Evaluates a list of rule definitions against input facts.
+ *
+ * Rules are checked when the engine is created: every rule must target a
+ * field and reference an operator registered in the engine's
+ * {@link OperatorRegistry}, with arguments matching its arity and types.
+ * Rules can be combined into nested `all`, `any`, `not`, `none` and
+ * `atLeast` groups, which short-circuit as soon as their outcome is known.
+ * The rule set is compiled once (see {@link compile}); evaluation resolves each
+ * rule's field path against the fact, dispatches to the matching helper method
+ * and reports a result per condition, keeping the shape of the condition tree.
+ * Conditions with `then` actions can also drive forward chaining with
+ * {@link ValidraEngine.run}, and {@link ValidraEngine.explain} traces how a
+ * fact was evaluated.
+ *
+ * @example
+ * ```typescript
+ * const engine = new ValidraEngine([
+ *   { field: "user.age", op: "gte", value: 18 },
+ *   { field: "user.email", op: "isEmail" },
+ *   { any: [
+ *     { field: "user.country", op: "eq", value: "US" },
+ *     { field: "user.hasConsent", op: "eq", value: true }
+ *   ] }
+ * ]);
+ *
+ * const result = engine.evaluate({ user: { age: 21, email: "jane@example.com", country: "US" } });
+ * result.passed;            // true
+ * result.results[0].actual; // 21
+ * ```
+ *
+ * @public
+ */
+export class ValidraEngine {
+    /** The compiled conditions evaluated by this engine */
+    private readonly ruleSet: CompiledRuleSet;
+    /** The compiled conditions with `then` actions, run by {@link ValidraEngine.run} */
+    private readonly inference: CompiledInference;
+
+    /**
+     * Creates a new engine for the given rule set.
+     *
+     * @param conditions - The rules and condition groups to evaluate
+     * @param options - Engine options, such as a custom operator registry or the `onTypeMismatch` policy
+     * @throws {ValidraArgumentError} When a rule has no field, uses an unknown operator or has the
+     * wrong number of arguments, when a group or action is malformed or when `onTypeMismatch` is invalid
+     * @throws {ValidraTypeError} When a rule argument doesn't match the operator's argument types
+     *
+     * @example
+     * ```typescript
+     * const engine = new ValidraEngine([{ field: "total", op: "gt", value: 0 }]);
+     *
+     * const operators = new OperatorRegistry().register('isValidIban', isValidIban, { arity: 0 });
+     * const custom = new ValidraEngine([{ field: "iban", op: "isValidIban" }], { operators });
+     * ```
+     */
+    constructor(conditions: Condition[], options: EngineOptions = {}) {
+        this.ruleSet = compile(conditions, options);
+        this.inference = compileInference(conditions, options);
+    }
+
+    /**
+     * Creates an engine from a serializable rule-set document.
+     *
+     * The document is checked with {@link validateRuleSet} against the
+     * engine's operator registry before it is compiled.
+     *
+     * @param document - The parsed JSON rule-set document
+     * @param options - Engine options, such as a custom operator registry
+     * @returns A new engine evaluating the document's rules
+     * @throws {ValidraArgumentError} When the document has structural problems
+     *
+     * @example
+     * ```typescript
+     * const engine = ValidraEngine.fromRuleSet({
+     *   $validra: "1",
+     *   rules: [{ field: "user.age", op: "gte", value: 18 }]
+     * });
+     * ```
+     */
+    static fromRuleSet(document: unknown, options: EngineOptions = {}): ValidraEngine {
+        return new ValidraEngine(loadRuleSet(document, options), options);
+    }
+
+    /**
+     * Evaluates the top-level conditions against a fact.
+     *
+     * Conditions run by descending `priority`, then in definition order. By
+     * default every top-level condition is evaluated, even after a failure,
+     * so the result reports every failing rule; `options.mode` stops after
+     * the first failure or the first match instead, and `options.groups`
+     * turns named rule groups off. Errors raised by the underlying helpers
+     * (for example when a field has the wrong type) are rethrown as a
+     * {@link RuleEvaluationError} whose `cause` is the helper error, unless
+     * the engine was created with `onTypeMismatch` set to `fail` or `skip`.
+     *
+     * @param fact - The input object to validate
+     * @param options - Execution mode and rule groups turned on or off
+     * @returns The overall outcome and the result of each condition
+     * @throws {RuleEvaluationError} When a rule cannot be evaluated
+     * @throws {ValidraArgumentError} When the options are invalid
+     *
+     * @example
+     * ```typescript
+     * const { passed, results } = engine.evaluate({ total: 10 });
+     *
+     * const lenient = new ValidraEngine([{ field: "email", op: "isEmail" }], { onTypeMismatch: 'fail' });
+     * lenient.evaluate({ email: 42 }).results[0];
+     * // { passed: false, status: 'failed', reason: 'Value must be a string to check if it is an email.', ... }
+     *
+     * const firstFailure = engine.evaluate(fact, { mode: 'stopOnFirstFailure', groups: { fraud: false } });
+     * ```
+     */
+    evaluate(fact: Fact, options: EvaluationOptions = {}): EvaluationResult {
+        return this.ruleSet.evaluate(fact, options);
+    }
+
+    /**
+     * Checks whether a fact satisfies every condition, without building results.
+     *
+     * Stops at the first failing condition. Use it when only the overall
+     * outcome matters, e.g. to filter large batches of facts. With
+     * `options.mode` set to `stopOnFirstMatch`, checks whether any condition
+     * passes instead.
+     *
+     * @param fact - The input object to validate
+     * @param options - Execution mode and rule groups turned on or off
+     * @returns `true` when every condition passes
+     *
+     * @example
+     * ```typescript
+     * const valid = orders.filter(order => engine.test(order));
+     * const flagged = orders.filter(order => engine.test(order, { mode: 'stopOnFirstMatch' }));
+     * ```
+     */
+    test(fact: Fact, options: EvaluationOptions = {}): boolean {
+        return this.ruleSet.test(fact, options);
+    }
+
+    /**
+     * Evaluates every top-level condition, awaiting asynchronous operators.
+     *
+     * Independent top-level conditions run concurrently, bounded by
+     * `options.concurrency`, unless `options.mode` stops early, in which case
+     * they run one at a time in priority order. A rule whose operator does not settle within
+     * `options.timeoutMs` fails with the `timeout` status, and aborting
+     * `options.signal` rejects the returned promise with the signal's reason.
+     * Synchronous operators can be mixed freely with asynchronous ones.
+     *
+     * @param fact - The input object to validate
+     * @param options - Abort signal, per-rule timeout, concurrency limit, execution mode and rule groups
+     * @returns A promise for the overall outcome and the result of each condition
+     * @throws {ValidraArgumentError} When the concurrency, timeout or mode options are invalid
+     * @throws {RuleEvaluationError} When a rule cannot be evaluated or its operator rejects
+     *
+     * @example
+     * ```typescript
+     * const operators = new OperatorRegistry()
+     *   .register('isUniqueEmail', async (email) => !(await users.exists(email)), { arity: 0, async: true });
+     * const engine = new ValidraEngine([{ field: "email", op: "isUniqueEmail" }], { operators });
+     *
+     * const controller = new AbortController();
+     * const result = await engine.evaluateAsync(fact, { signal: controller.signal, timeoutMs: 500 });
+     * result.results[0].status; // 'passed' | 'failed' | 'timeout'
+     * ```
+     */
+    evaluateAsync(fact: Fact, options: AsyncEvaluationOptions = {}): Promise<EvaluationResult> {
+        return this.ruleSet.evaluateAsync(fact, options);
+    }
+
+    /**
+     * Validates a fact and reports a diagnostic per rule.
+     *
+     * Top-level conditions are evaluated like {@link ValidraEngine.evaluate}.
+     * The rules that made a condition fail are listed in `errors`, `warnings`
+     * or `infos` according to their severity, and only `error` failures make
+     * the fact invalid. Each diagnostic carries the rule id, field path,
+     * operator, expected and actual values, the rule's message with its
+     * `{field}`, `{value}`, `{expected}` and `{operator}` placeholders filled
+     * in, and the time spent evaluating the rule.
+     *
+     * @param fact - The input object to validate
+     * @param options - Execution mode and rule groups turned on or off
+     * @returns Validity, failures by severity, per-rule diagnostics and a summary
+     * @throws {RuleEvaluationError} When a rule cannot be evaluated
+     *
+     * @example
+     * ```typescript
+     * const engine = new ValidraEngine([
+     *   { id: "adult", field: "age", op: "gte", value: 18, message: "{field} must be at least {expected}, got {value}" },
+     *   { field: "nickname", op: "maxLength", value: 20, severity: "warning" }
+     * ]);
+     *
+     * const result = engine.validate({ age: 16, nickname: "a-very-long-nickname-indeed" });
+     * result.valid;              // false
+     * result.errors[0].message;  // "age must be at least 18, got 16"
+     * result.warnings[0].field;  // "nickname"
+     * result.summary;            // { total: 2, passed: 0, failed: 2, skipped: 0, duration: 0.02 }
+     * ```
+     */
+    validate(fact: Fact, options: EvaluationOptions = {}): ValidationResult {
+        return this.ruleSet.validate(fact, options);
+    }
+
+    /**
+     * Asynchronous counterpart of {@link ValidraEngine.validate}, awaiting
+     * asynchronous operators like {@link ValidraEngine.evaluateAsync}.
+     *
+     * @param fact - The input object to validate
+     * @param options - Abort signal, per-rule timeout, concurrency limit, execution mode and rule groups
+     * @returns A promise for the validity, failures by severity, per-rule diagnostics and a summary
+     * @throws {ValidraArgumentError} When the concurrency, timeout or mode options are invalid
+     * @throws {RuleEvaluationError} When a rule cannot be evaluated or its operator rejects
+     *
+     * @example
+     * ```typescript
+     * const { valid, errors } = await engine.validateAsync(fact, { timeoutMs: 500 });
+     * ```
+     */
+    validateAsync(fact: Fact, options: AsyncEvaluationOptions = {}): Promise<ValidationResult> {
+        return this.ruleSet.validateAsync(fact, options);
+    }
+
+    /**
+     * Evaluates a fact and traces every condition of the rule set.
+     *
+     * The trace keeps the shape of the condition tree. Each rule node holds
+     * the value resolved from the fact, the operator, its arguments with
+     * references and expressions resolved, the outcome and the time spent;
+     * conditions left out because a group short-circuited or the mode stopped
+     * early are listed as `notEvaluated`. Render the trace with
+     * {@link renderTrace}, or pass a `logger` to have it written with the
+     * logger's `debug` (or `trace`) method.
+     *
+     * @param fact - The input object to validate
+     * @param options - Execution mode, rule groups, and the logger and log level receiving the rendered trace
+     * @returns The outcome and the trace tree
+     * @throws {RuleEvaluationError} When a rule cannot be evaluated
+     * @throws {ValidraArgumentError} When the options are invalid
+     *
+     * @example
+     * ```typescript
+     * const explanation = engine.explain(order, { logger: new ValidraLogger("Checkout") });
+     * explanation.trace[0].status; // 'failed'
+     * console.log(renderTrace(explanation, { durations: false }));
+     * ```
+     */
+    explain(fact: Fact, options: ExplainOptions = {}): Explanation {
+        return this.ruleSet.explain(fact, options);
+    }
+
+    /**
+     * Runs the `then` actions of the passing conditions until the fact stops changing.
+     *
+     * Forward chaining works on a copy of the fact, the working memory. Each
+     * pass evaluates, by descending priority, the top-level conditions with
+     * actions that were never evaluated or that read a field changed since
+     * their last evaluation, and runs the actions of those that pass: `set`
+     * writes a field of the working memory, `emit` records an event. The run
+     * ends after a pass that changes nothing. Conditions without actions are
+     * ignored, so one engine can both validate facts and run promotions.
+     *
+     * @param fact - The input object; it is copied, never modified
+     * @param options - Iteration limit and rule groups turned on or off
+     * @returns The working memory, the emitted events and the fired conditions
+     * @throws {InferenceError} When the rules keep changing the fact after
+     * `maxIterations` passes, or bring it back to an earlier state, which would repeat forever
+     * @throws {RuleEvaluationError} When a rule cannot be evaluated
+     * @throws {ValidraArgumentError} When the options are invalid
+     *
+     * @example
+     * ```typescript
+     * const engine = new ValidraEngine([
+     *   { field: "cart.total", op: "gt", value: 100, then: [{ set: "cart.freeShipping", value: true }] },
+     *   { field: "cart.freeShipping", op: "eq", value: true, then: [{ emit: "freeShippingUnlocked" }] }
+     * ]);
+     *
+     * const { fact, events } = engine.run({ cart: { total: 120 } });
+     * fact.cart;      // { total: 120, freeShipping: true }
+     * events[0].name; // "freeShippingUnlocked"
+     * ```
+     */
+    run(fact: Fact, options: InferenceOptions = {}): InferenceResult {
+        return this.inference.run(fact, options);
+    }
+}
@@ -0,0 +1,199 @@
+/**
+ * @fileoverview Abstract syntax tree produced by the Validra DSL parser.
+ * @module DslAst
+ * @version 1.0.0
+ * @author Felix M. Martinez
+ * @since 1.0.0
+ */
+
+/**
+ * Location of a token or node in the DSL source.
+ *
+ * @public
+ */
+export interface SourcePosition {
+    /** Zero-based character offset in the source */
+    offset: number;
+    /** One-based line number */
+    line: number;
+    /** One-based column number */
+    column: number;
+}
+
+/**
+ * A path to a fact field, e.g. `user.age` or `items[*].price`.
+ *
+ * @public
+ */
+export interface FieldNode {
+    type: 'Field';
+    path: string;
+    position: SourcePosition;
+}
+
+/**
+ * A constant value: string, number, boolean, `null` or date.
+ *
+ * @public
+ */
+export interface LiteralNode {
+    type: 'Literal';
+    value: string | number | boolean | Date | null;
+    position: SourcePosition;
+}
+
+/**
+ * Units of {@link DurationNode} literals.
+ *
+ * @public
+ */
+export type DurationUnit = 'milliseconds' | 'seconds' | 'minutes' | 'hours' | 'days' | 'weeks';
+
+/**
+ * A length of time, e.g. `30 days`. Durations evaluate to milliseconds.
+ *
+ * @public
+ */
+export interface DurationNode {
+    type: 'Duration';
+    value: number;
+    unit: DurationUnit;
+    position: SourcePosition;
+}
+
+/**
+ * An arithmetic operation, e.g. `endDate - startDate` or `price * (1 + taxRate)`.
+ *
+ * @public
+ */
+export interface BinaryNode {
+    type: 'Binary';
+    operator: '+' | '-' | '*' | '/' | '%';
+    left: ValueNode;
+    right: ValueNode;
+    position: SourcePosition;
+}
+
+/**
+ * A negated operand, e.g. `-discount`.
+ *
+ * @public
+ */
+export interface NegateNode {
+    type: 'Negate';
+    operand: ValueNode;
+    position: SourcePosition;
+}
+
+/**
+ * A call to an aggregate function, e.g. `sum(items[*].price)` or `max(a, b)`.
+ *
+ * @public
+ */
+export interface CallNode {
+    type: 'Call';
+    callee: 'sum' | 'min' | 'max' | 'avg' | 'count';
+    args: ValueNode[];
+    position: SourcePosition;
+}
+
+/**
+ * An operand: a constant, another field of the fact, e.g. `subtotal` in
+ * `discount <= subtotal`, or an arithmetic expression over them.
+ *
+ * @public
+ */
+export type ValueNode = LiteralNode | FieldNode | DurationNode | BinaryNode | NegateNode | CallNode;
+
+/**
+ * A field or computed value tested with an operator, e.g. `user.age >= 18`,
+ * `email is email` or `endDate - startDate <= 30 days`.
+ *
+ * `operator` is the name of the operator in the {@link OperatorRegistry}
+ * the predicate is mapped to. `options` holds the settings written after
+ * `with`, e.g. `status == "ACTIVE" with caseInsensitive`.
+ *
+ * @public
+ */
+export interface PredicateNode {
+    type: 'Predicate';
+    subject: ValueNode;
+    operator: string;
+    args: ValueNode[];
+    options?: Record<string, string | number | boolean>;
+    position: SourcePosition;
+}
+
+/**
+ * Two expressions joined with `and` or `or`.
+ *
+ * @public
+ */
+export interface LogicalNode {
+    type: 'Logical';
+    operator: 'and' | 'or';
+    left: ExpressionNode;
+    right: ExpressionNode;
+    position: SourcePosition;
+}
+
+/**
+ * A negated expression, e.g. `not (a > 1)` or `email is not email`.
+ *
+ * @public
+ */
+export interface NotNode {
+    type: 'Not';
+    operand: ExpressionNode;
+    position: SourcePosition;
+}
+
+/**
+ * Any boolean expression of the DSL.
+ *
+ * @public
+ */
+export type ExpressionNode = PredicateNode | LogicalNode | NotNode;
+
+/**
+ * A `set` action writing a field, e.g. `set cart.freeShipping = true`.
+ *
+ * @public
+ */
+export interface SetActionNode {
+    type: 'SetAction';
+    path: string;
+    value: ValueNode;
+    position: SourcePosition;
+}
+
+/**
+ * An `emit` action raising an event, e.g. `emit freeShipping with cart.total`.
+ *
+ * @public
+ */
+export interface EmitActionNode {
+    type: 'EmitAction';
+    name: string;
+    payload?: ValueNode;
+    position: SourcePosition;
+}
+
+/**
+ * Any action of a {@link ProductionNode}.
+ *
+ * @public
+ */
+export type ActionNode = SetActionNode | EmitActionNode;
+
+/**
+ * A rule with actions, e.g. `if cart.total > 100 then set cart.freeShipping = true`.
+ *
+ * @public
+ */
+export interface ProductionNode {
+    type: 'Production';
+    condition: ExpressionNode;
+    actions: ActionNode[];
+    position: SourcePosition;
+}
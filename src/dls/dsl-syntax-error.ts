@@ -0,0 +1,60 @@
+/**
+ * @fileoverview Syntax error raised by the Validra DSL tokenizer and parser.
+ * @module DslSyntaxError
+ * @version 1.0.0
+ * @author Felix M. Martinez
+ * @since 1.0.0
+ */
+
+import { ValidraError } from "@/utils";
+import { SourcePosition } from "./ast";
+
+/**
+ * Error raised when DSL source cannot be tokenized or parsed.
+ *
+ * The message reports the line and column of the offending token and
+ * shows the source line with a caret under it. The error code is
+ * `ERR_VALIDRA_SYNTAX`.
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   parse("user.age >= and");
+ * } catch (error) {
+ *   if (error instanceof DslSyntaxError) {
+ *     console.log(error.message);
+ *     // Expected a value but found "and" at line 1, column 13
+ *     // user.age >= and
+ *     //             ^
+ *   }
+ * }
+ * ```
+ *
+ * @public
+ */
+export class DslSyntaxError extends ValidraError {
+    /** One-based line of the offending token */
+    readonly line: number;
+    /** One-based column of the offending token */
+    readonly column: number;
+    /** Description of the problem, without location or source excerpt */
+    readonly reason: string;
+
+    /**
+     * Creates a new syntax error.
+     *
+     * @param reason - Description of the problem
+     * @param source - The full DSL source being parsed
+     * @param position - Location of the offending token
+     */
+    constructor(reason: string, source: string, position: SourcePosition) {
+        const lineText = source.split(/\r?\n/)[position.line - 1] ?? '';
+        const caret = ' '.repeat(position.column - 1) + '^';
+
+        super('ERR_VALIDRA_SYNTAX', `${reason} at line ${position.line}, column ${position.column}\n${lineText}\n${caret}`);
+        this.name = 'DslSyntaxError';
+        this.line = position.line;
+        this.column = position.column;
+        this.reason = reason;
+    }
+}
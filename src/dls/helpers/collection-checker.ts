@@ -6,6 +6,7 @@
  * @since 1.0.0
  */
 
+import { ValidraArray, ValidraRecord, ValidraTypeError, ValidraValue } from "@/utils";
 import { TypeChecker } from "./type-checker";
 
 /**
@@ -36,9 +37,9 @@ export class CollectionChecker {
      * 
      * @public
      * @static
-     * @param {any[] | Record<string, any>} collection - The collection to check for emptiness
+     * @param {ValidraArray | ValidraRecord} collection - The collection to check for emptiness
      * @returns {boolean} True if the collection is empty, false otherwise
-     * @throws {string} Throws if the input is neither an array nor an object
+     * @throws {ValidraTypeError} Throws if the input is neither an array nor an object
      * 
      * @example
      * ```typescript
@@ -61,13 +62,16 @@ export class CollectionChecker {
      * 
      * @since 1.0.0
      */
-    static isEmpty(collection: any[] | Record<string, any>): boolean {
+    static isEmpty(collection: ValidraArray | ValidraRecord): boolean {
         if (Array.isArray(collection)) {
             return collection.length === 0;
         } else if (TypeChecker.isObject(collection)) {
             return Object.keys(collection).length === 0 && Object.getOwnPropertySymbols(collection).length === 0;
         } else {
-            throw 'Input must be an array or an object.';
+            throw new ValidraTypeError('Input must be an array or an object.', {
+                operator: 'CollectionChecker.isEmpty',
+                argument: collection
+            });
         }
     }
 
@@ -78,10 +82,10 @@ export class CollectionChecker {
      * 
      * @public
      * @static
-     * @param {Record<string, any>} value - The object to check for properties
+     * @param {ValidraRecord} value - The object to check for properties
      * @param {string | string[]} prop - The property name(s) to check for
      * @returns {boolean} True if all specified properties exist in the object, false otherwise
-     * @throws {string} Throws if the value is not an object
+     * @throws {ValidraTypeError} Throws if the value is not an object
      * 
      * @example
      * ```typescript
@@ -102,9 +106,12 @@ export class CollectionChecker {
      * 
      * @since 1.0.0
      */
-    static hasProperty(value: Record<string, any>, prop: string | string[]): boolean {
+    static hasProperty(value: ValidraRecord, prop: string | string[]): boolean {
         if (!TypeChecker.isObject(value)) {
-            throw 'Value must be an object.';
+            throw new ValidraTypeError('Value must be an object.', {
+                operator: 'CollectionChecker.hasProperty',
+                argument: value
+            });
         }
 
         if (Array.isArray(prop)) {
@@ -121,10 +128,10 @@ export class CollectionChecker {
      * 
      * @public
      * @static
-     * @param {any[] | Record<string, any>} collection - The collection to search in
-     * @param {any} item - The item to search for
+     * @param {ValidraArray | ValidraRecord} collection - The collection to search in
+     * @param {ValidraValue} item - The item to search for
      * @returns {boolean} True if the item is found in the collection, false otherwise
-     * @throws {string} Throws if the collection is neither an array nor an object
+     * @throws {ValidraTypeError} Throws if the collection is neither an array nor an object
      * 
      * @example
      * ```typescript
@@ -148,13 +155,16 @@ export class CollectionChecker {
      * 
      * @since 1.0.0
      */
-    static contains(collection: any[] | Record<string, any>, item: any): boolean {
+    static contains(collection: ValidraArray | ValidraRecord, item: ValidraValue): boolean {
         if (Array.isArray(collection)) {
             return collection.includes(item);
         } else if (TypeChecker.isObject(collection)) {
             return Object.values(collection).includes(item);
         } else {
-            throw 'Input must be an array or an object.';
+            throw new ValidraTypeError('Input must be an array or an object.', {
+                operator: 'CollectionChecker.contains',
+                argument: collection
+            });
         }
     }
 }
\ No newline at end of file
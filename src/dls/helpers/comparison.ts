@@ -11,7 +11,7 @@
  * @since 1.0.0
  */
 
-import { isNullOrUndefined, isNumber } from "@/utils";
+import { isNullOrUndefined, isNumber, ValidraArgumentError, ValidraTypeError } from "@/utils";
 
 /**
  * Utility class for performing numerical comparisons and range validations.
@@ -33,8 +33,8 @@ import { isNullOrUndefined, isNumber } from "@/utils";
  * Comparison.notBetween(15, 1, 10);       // true
  * 
  * // Error handling
- * Comparison.isGreaterThan(null, 5);      // throws Error
- * Comparison.isGreaterThan("10", 5);      // throws Error
+ * Comparison.isGreaterThan(null, 5);      // throws ValidraArgumentError
+ * Comparison.isGreaterThan("10", 5);      // throws ValidraTypeError
  * ```
  * 
  * @public
@@ -50,7 +50,8 @@ export class Comparison {
      * @param valueA - The first number to compare
      * @param valueB - The second number to compare
      * @returns `true` if valueA is greater than valueB, `false` otherwise
-     * @throws {Error} When either value is null, undefined, or not a number
+     * @throws {ValidraArgumentError} When either value is null or undefined
+     * @throws {ValidraTypeError} When either value is not a number
      * 
      * @example
      * ```typescript
@@ -64,11 +65,7 @@ export class Comparison {
      * @static
      */
     static isGreaterThan(valueA: number, valueB: number): boolean {
-        if (isNullOrUndefined(valueA) || isNullOrUndefined(valueB))
-            throw new Error('Both values must be provided for comparison.');
-
-        if (!isNumber(valueA) || !isNumber(valueB))
-            throw new Error('Both values must be numbers for comparison.');
+        this.assertNumbers('Comparison.isGreaterThan', 'Both values', valueA, valueB);
 
         return valueA > valueB;
     }
@@ -82,7 +79,8 @@ export class Comparison {
      * @param valueA - The first number to compare
      * @param valueB - The second number to compare
      * @returns `true` if valueA is less than valueB, `false` otherwise
-     * @throws {Error} When either value is null, undefined, or not a number
+     * @throws {ValidraArgumentError} When either value is null or undefined
+     * @throws {ValidraTypeError} When either value is not a number
      * 
      * @example
      * ```typescript
@@ -96,11 +94,7 @@ export class Comparison {
      * @static
      */
     static isLessThan(valueA: number, valueB: number): boolean {
-        if (isNullOrUndefined(valueA) || isNullOrUndefined(valueB))
-            throw new Error('Both values must be provided for comparison.');
-
-        if (!isNumber(valueA) || !isNumber(valueB))
-            throw new Error('Both values must be numbers for comparison.');
+        this.assertNumbers('Comparison.isLessThan', 'Both values', valueA, valueB);
 
         return valueA < valueB;
     }
@@ -114,7 +108,8 @@ export class Comparison {
      * @param valueA - The first number to compare
      * @param valueB - The second number to compare
      * @returns `true` if valueA is greater than or equal to valueB, `false` otherwise
-     * @throws {Error} When either value is null, undefined, or not a number
+     * @throws {ValidraArgumentError} When either value is null or undefined
+     * @throws {ValidraTypeError} When either value is not a number
      * 
      * @example
      * ```typescript
@@ -128,11 +123,7 @@ export class Comparison {
      * @static
      */
     static isGreaterThanOrEqual(valueA: number, valueB: number): boolean {
-        if (isNullOrUndefined(valueA) || isNullOrUndefined(valueB))
-            throw new Error('Both values must be provided for comparison.');
-
-        if (!isNumber(valueA) || !isNumber(valueB))
-            throw new Error('Both values must be numbers for comparison.');
+        this.assertNumbers('Comparison.isGreaterThanOrEqual', 'Both values', valueA, valueB);
 
         return valueA >= valueB;
     }
@@ -146,7 +137,8 @@ export class Comparison {
      * @param valueA - The first number to compare
      * @param valueB - The second number to compare
      * @returns `true` if valueA is less than or equal to valueB, `false` otherwise
-     * @throws {Error} When either value is null, undefined, or not a number
+     * @throws {ValidraArgumentError} When either value is null or undefined
+     * @throws {ValidraTypeError} When either value is not a number
      * 
      * @example
      * ```typescript
@@ -160,11 +152,7 @@ export class Comparison {
      * @static
      */
     static isLessThanOrEqual(valueA: number, valueB: number): boolean {
-        if (isNullOrUndefined(valueA) || isNullOrUndefined(valueB))
-            throw new Error('Both values must be provided for comparison.');
-
-        if (!isNumber(valueA) || !isNumber(valueB))
-            throw new Error('Both values must be numbers for comparison.');
+        this.assertNumbers('Comparison.isLessThanOrEqual', 'Both values', valueA, valueB);
 
         return valueA <= valueB;
     }
@@ -179,7 +167,8 @@ export class Comparison {
      * @param min - The minimum value of the range (inclusive)
      * @param max - The maximum value of the range (inclusive)
      * @returns `true` if value is between min and max (inclusive), `false` otherwise
-     * @throws {Error} When any value is null, undefined, or not a number
+     * @throws {ValidraArgumentError} When any value is null or undefined
+     * @throws {ValidraTypeError} When any value is not a number
      * 
      * @example
      * ```typescript
@@ -194,11 +183,7 @@ export class Comparison {
      * @static
      */
     static between(value: number, min: number, max: number): boolean {
-        if (isNullOrUndefined(value) || isNullOrUndefined(min) || isNullOrUndefined(max))
-            throw new Error('All three values must be provided for comparison.');
-
-        if (!isNumber(value) || !isNumber(min) || !isNumber(max))
-            throw new Error('All three values must be numbers for comparison.');
+        this.assertNumbers('Comparison.between', 'All three values', value, min, max);
 
         return value >= min && value <= max;
     }
@@ -213,7 +198,8 @@ export class Comparison {
      * @param min - The minimum value of the range
      * @param max - The maximum value of the range
      * @returns `true` if value is outside the min-max range, `false` otherwise
-     * @throws {Error} When any value is null, undefined, or not a number
+     * @throws {ValidraArgumentError} When any value is null or undefined
+     * @throws {ValidraTypeError} When any value is not a number
      * 
      * @example
      * ```typescript
@@ -228,13 +214,36 @@ export class Comparison {
      * @static
      */
     static notBetween(value: number, min: number, max: number): boolean {
-        if (isNullOrUndefined(value) || isNullOrUndefined(min) || isNullOrUndefined(max))
-            throw new Error('All three values must be provided for comparison.');
-
-        if (!isNumber(value) || !isNumber(min) || !isNumber(max))
-            throw new Error('All three values must be numbers for comparison.');
+        this.assertNumbers('Comparison.notBetween', 'All three values', value, min, max);
 
         return value < min || value > max;
     }
-    
+
+    /**
+     * Validates that every value is provided and is a number.
+     * 
+     * @param operator - Name of the calling method, reported on errors
+     * @param subject - Subject of the error messages, e.g. "Both values"
+     * @param values - The values to validate
+     * @throws {ValidraArgumentError} When a value is null or undefined
+     * @throws {ValidraTypeError} When a value is not a number
+     * 
+     * @private
+     * @static
+     */
+    private static assertNumbers(operator: string, subject: string, ...values: unknown[]): void {
+        const missing = values.findIndex(value => isNullOrUndefined(value));
+        if (missing !== -1)
+            throw new ValidraArgumentError(`${subject} must be provided for comparison.`, {
+                operator,
+                argument: values[missing]
+            }, 'ERR_VALIDRA_MISSING_ARGUMENT');
+
+        const invalid = values.findIndex(value => !isNumber(value));
+        if (invalid !== -1)
+            throw new ValidraTypeError(`${subject} must be numbers for comparison.`, {
+                operator,
+                argument: values[invalid]
+            });
+    }
 }
\ No newline at end of file
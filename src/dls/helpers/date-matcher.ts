@@ -6,6 +6,7 @@
  * @since 1.0.0
  */
 
+import { ValidraTypeError } from "@/utils";
 import { TypeChecker } from "./type-checker";
 
 /**
@@ -37,7 +38,7 @@ export class DateMatcher {
      * @param {Date} date - The date to check
      * @param {Date} reference - The reference date to compare against
      * @returns {boolean} True if date is after the reference date, false otherwise
-     * @throws {Error} Throws if either date or reference is not a valid Date instance
+     * @throws {ValidraTypeError} Throws if either date or reference is not a valid Date instance
      * 
      * @example
      * ```typescript
@@ -53,7 +54,10 @@ export class DateMatcher {
      */
     static isAfter(date: Date, reference: Date): boolean {
         if(!TypeChecker.isDate(date) || !TypeChecker.isDate(reference)) {
-            throw 'Both date and reference must be valid Date instances.';
+            throw new ValidraTypeError('Both date and reference must be valid Date instances.', {
+                operator: 'DateMatcher.isAfter',
+                argument: TypeChecker.isDate(date) ? reference : date
+            });
         }
 
         return date.getTime() > reference.getTime();
@@ -68,7 +72,7 @@ export class DateMatcher {
      * @param {Date} date - The date to check
      * @param {Date} reference - The reference date to compare against
      * @returns {boolean} True if date is before the reference date, false otherwise
-     * @throws {Error} Throws if either date or reference is not a valid Date instance
+     * @throws {ValidraTypeError} Throws if either date or reference is not a valid Date instance
      * 
      * @example
      * ```typescript
@@ -84,7 +88,10 @@ export class DateMatcher {
      */
     static isBefore(date: Date, reference: Date): boolean {
         if(!TypeChecker.isDate(date) || !TypeChecker.isDate(reference)) {
-            throw 'Both date and reference must be valid Date instances.';
+            throw new ValidraTypeError('Both date and reference must be valid Date instances.', {
+                operator: 'DateMatcher.isBefore',
+                argument: TypeChecker.isDate(date) ? reference : date
+            });
         }
 
         return date.getTime() < reference.getTime();
@@ -98,7 +105,7 @@ export class DateMatcher {
      * @static
      * @param {Date} date - The date to check
      * @returns {boolean} True if the date is today in UTC, false otherwise
-     * @throws {Error} Throws if date is not a valid Date instance
+     * @throws {ValidraTypeError} Throws if date is not a valid Date instance
      * 
      * @example
      * ```typescript
@@ -115,7 +122,10 @@ export class DateMatcher {
      */
     static isToday(date: Date): boolean {
         if(!TypeChecker.isDate(date)) {
-            throw 'The provided value must be a valid Date instance.';
+            throw new ValidraTypeError('The provided value must be a valid Date instance.', {
+                operator: 'DateMatcher.isToday',
+                argument: date
+            });
         }
 
         const today = new Date();
@@ -132,7 +142,7 @@ export class DateMatcher {
      * @static
      * @param {Date} date - The date to check
      * @returns {boolean} True if the date is a Saturday or Sunday in UTC, false otherwise
-     * @throws {Error} Throws if date is not a valid Date instance
+     * @throws {ValidraTypeError} Throws if date is not a valid Date instance
      * 
      * @example
      * ```typescript
@@ -145,7 +155,10 @@ export class DateMatcher {
      */
     static isWeekend(date: Date): boolean {
         if(!TypeChecker.isDate(date)) {
-            throw 'The provided value must be a valid Date instance.';
+            throw new ValidraTypeError('The provided value must be a valid Date instance.', {
+                operator: 'DateMatcher.isWeekend',
+                argument: date
+            });
         }
 
         const day = date.getUTCDay();
@@ -160,7 +173,7 @@ export class DateMatcher {
      * @static
      * @param {Date} date - The date to check
      * @returns {boolean} True if the date is Monday through Friday in UTC, false otherwise
-     * @throws {Error} Throws if date is not a valid Date instance
+     * @throws {ValidraTypeError} Throws if date is not a valid Date instance
      * 
      * @example
      * ```typescript
@@ -174,7 +187,10 @@ export class DateMatcher {
      */
     static isWeekday(date: Date): boolean {
         if(!TypeChecker.isDate(date)) {
-            throw 'The provided value must be a valid Date instance.';
+            throw new ValidraTypeError('The provided value must be a valid Date instance.', {
+                operator: 'DateMatcher.isWeekday',
+                argument: date
+            });
         }
 
         const day = date.getUTCDay();
@@ -190,7 +206,7 @@ export class DateMatcher {
      * @static
      * @param {Date} date - The date whose year to check
      * @returns {boolean} True if the year is a leap year, false otherwise
-     * @throws {Error} Throws if date is not a valid Date instance
+     * @throws {ValidraTypeError} Throws if date is not a valid Date instance
      * 
      * @example
      * ```typescript
@@ -204,7 +220,10 @@ export class DateMatcher {
      */
     static isLeapYear(date: Date): boolean {
         if(!TypeChecker.isDate(date)) {
-            throw 'The provided value must be a valid Date instance.';
+            throw new ValidraTypeError('The provided value must be a valid Date instance.', {
+                operator: 'DateMatcher.isLeapYear',
+                argument: date
+            });
         }
 
         const year = date.getUTCFullYear();
@@ -1,22 +1,136 @@
-import { flatValues, isNullOrUndefined } from "@/utils";
+import { isNullOrUndefined, ValidraArgumentError, ValidraValue } from "@/utils";
+import { TypeChecker } from "./type-checker";
+
+/**
+ * Options accepted by {@link Equality.deepEqual}.
+ *
+ * @public
+ */
+export interface DeepEqualOptions {
+    /** Compares arrays as unordered collections, so `[1, 2]` equals `[2, 1]`. Defaults to `false` */
+    ignoreArrayOrder?: boolean;
+    /** Treats object properties set to `undefined` as missing. Defaults to `false` */
+    ignoreUndefined?: boolean;
+    /** Largest difference between two numbers still considered equal. Defaults to `0` */
+    epsilon?: number;
+}
+
+/**
+ * Options accepted by {@link Equality.isEqual}, {@link Equality.isNotEqual}
+ * and {@link Equality.deepEqual}, and by the `eq` and `neq` operators as rule `options`.
+ *
+ * String options apply to every string compared, including those nested in
+ * arrays and objects; object keys are always compared exactly.
+ *
+ * @public
+ */
+export interface EqualityOptions extends DeepEqualOptions {
+    /** Ignores case differences between strings, so `"ACTIVE"` equals `"active"`. Defaults to `false` */
+    caseInsensitive?: boolean;
+    /** Unicode normalization form applied to strings before comparing them, e.g. `NFC` */
+    normalize?: NormalizationForm;
+    /** Compares strings with the collation of a locale (`Intl.Collator`), e.g. `de` */
+    locale?: string;
+    /**
+     * Differences the locale collation tells apart, as in `Intl.Collator`: `base` ignores
+     * case and accents. Defaults to `accent` when `caseInsensitive` is set, `variant` otherwise
+     */
+    sensitivity?: CollatorSensitivity;
+    /**
+     * Converts strings compared with numbers or booleans, so `"42"` equals `42` and
+     * `"true"` equals `true`, and compares bigints with integer numbers exactly. Defaults to `false`
+     */
+    coerce?: boolean;
+}
+
+/**
+ * Unicode normalization forms accepted by `String.prototype.normalize`.
+ *
+ * @public
+ */
+export type NormalizationForm = 'NFC' | 'NFD' | 'NFKC' | 'NFKD';
+
+/**
+ * Sensitivities of a locale collation, see {@link EqualityOptions.sensitivity}.
+ *
+ * @public
+ */
+export type CollatorSensitivity = 'base' | 'accent' | 'case' | 'variant';
+
+/** Accepted normalization forms */
+const NORMALIZATION_FORMS: readonly NormalizationForm[] = ['NFC', 'NFD', 'NFKC', 'NFKD'];
+
+/** Accepted collation sensitivities */
+const SENSITIVITIES: readonly CollatorSensitivity[] = ['base', 'accent', 'case', 'variant'];
+
+/** Accepted options and the type of their values */
+const OPTION_TYPES: Record<keyof EqualityOptions, 'boolean' | 'number' | 'string'> = {
+    ignoreArrayOrder: 'boolean',
+    ignoreUndefined: 'boolean',
+    epsilon: 'number',
+    caseInsensitive: 'boolean',
+    normalize: 'string',
+    locale: 'string',
+    sensitivity: 'string',
+    coerce: 'boolean'
+};
+
+/**
+ * Options checked and turned into the settings of a comparison.
+ */
+interface Comparator {
+    ignoreArrayOrder: boolean;
+    ignoreUndefined: boolean;
+    epsilon: number;
+    coerce: boolean;
+    /** Compares two strings, or `undefined` for strict comparison */
+    strings: ((a: string, b: string) => boolean) | undefined;
+}
+
+/**
+ * Comparators built for the frozen options returned by {@link Equality.checkOptions},
+ * so repeated comparisons don't check them again. Other option objects may
+ * change between calls and get a new comparator every time.
+ */
+const COMPARATORS = new WeakMap<EqualityOptions, Comparator>();
+
+/** Comparator used without options */
+const STRICT: Comparator = { ignoreArrayOrder: false, ignoreUndefined: false, epsilon: 0, coerce: false, strings: undefined };
+
+/**
+ * Pairs of objects being compared, from the outermost to the current one.
+ * A pair met again is part of a cycle and is assumed equal.
+ */
+type ComparisonStack = Map<object, Set<object>>;
 
 /**
  * Utility class for performing equality and inequality comparisons between values.
- * 
- * Provides static methods to compare primitive values and Date objects with proper
- * type handling and validation.
- * 
+ *
+ * Provides static methods to compare primitive values, Date objects and nested
+ * structures with proper type handling and validation. Every comparison
+ * accepts {@link EqualityOptions} relaxing it: case-insensitive, normalized or
+ * locale-aware strings, numeric tolerance and loose coercion.
+ *
  * @example
  * ```typescript
  * // Basic equality
  * Equality.isEqual("hello", "hello"); // true
  * Equality.isEqual(42, 42); // true
- * 
+ *
  * // Date comparison
  * const date1 = new Date('2025-01-01');
  * const date2 = new Date('2025-01-01');
  * Equality.isEqual(date1, date2); // true
- * 
+ *
+ * // Structural comparison
+ * Equality.isEqual({ city: "Austin", zip: "73301" }, { city: "Austin", zip: "73301" }); // true
+ * Equality.deepEqual([1, 2, 3], [3, 2, 1], { ignoreArrayOrder: true }); // true
+ *
+ * // Relaxed comparison
+ * Equality.isEqual("ACTIVE", "active", { caseInsensitive: true }); // true
+ * Equality.isEqual(0.1 + 0.2, 0.3, { epsilon: 1e-9 }); // true
+ * Equality.isEqual("42", 42, { coerce: true }); // true
+ *
  * // Inequality
  * Equality.isNotEqual("foo", "bar"); // true
  * ```
@@ -24,59 +138,434 @@ import { flatValues, isNullOrUndefined } from "@/utils";
 export class Equality {
     /**
      * Compares two values for equality.
-     * 
-     * Handles special cases like Date objects by comparing their timestamps.
-     * For all other types, performs strict equality comparison (===).
-     * 
+     *
+     * Dates are compared by timestamp, and arrays, objects and the other
+     * structures supported by {@link Equality.deepEqual} by content.
+     * Other values are compared strictly, so `123` doesn't equal `"123"`
+     * unless `coerce` is set.
+     *
      * @param valueA - The first value to compare
      * @param valueB - The second value to compare
+     * @param options - How strings, numbers and structures are compared
      * @returns `true` if the values are equal, `false` otherwise
-     * @throws {Error} When either value is null or undefined
-     * 
+     * @throws {ValidraArgumentError} When either value is null or undefined, or the options are invalid
+     *
      * @example
      * ```typescript
      * Equality.isEqual(123, 123); // true
      * Equality.isEqual("test", "test"); // true
      * Equality.isEqual(new Date('2025-01-01'), new Date('2025-01-01')); // true
+     * Equality.isEqual(["a", "b"], ["a", "b"]); // true
      * Equality.isEqual(123, "123"); // false
+     * Equality.isEqual("Straße", "STRASSE", { caseInsensitive: true }); // true
      * ```
      */
-    static isEqual(valueA: flatValues, valueB: flatValues): boolean {
-        if(isNullOrUndefined(valueA) || isNullOrUndefined(valueB)) throw new Error('Both values must be provided for comparison.');
-
-        if (valueA instanceof Date && valueB instanceof Date) {
-            return valueA.getTime() === valueB.getTime();
+    static isEqual(valueA: ValidraValue, valueB: ValidraValue, options?: EqualityOptions): boolean {
+        if(isNullOrUndefined(valueA) || isNullOrUndefined(valueB)) {
+            throw new ValidraArgumentError('Both values must be provided for comparison.', {
+                operator: 'Equality.isEqual',
+                argument: isNullOrUndefined(valueA) ? valueA : valueB
+            }, 'ERR_VALIDRA_MISSING_ARGUMENT');
         }
 
-        return valueA === valueB;
+        return Equality.deepEqual(valueA, valueB, options);
     }
 
     /**
      * Compares two values for inequality.
-     * 
-     * Handles special cases like Date objects by comparing their timestamps.
-     * For all other types, performs strict inequality comparison (!==).
-     * 
+     *
+     * The negation of {@link Equality.isEqual}: dates are compared by timestamp
+     * and nested structures by content.
+     *
      * @param valueA - The first value to compare
      * @param valueB - The second value to compare
+     * @param options - How strings, numbers and structures are compared
      * @returns `true` if the values are not equal, `false` otherwise
-     * @throws {Error} When either value is null or undefined
-     * 
+     * @throws {ValidraArgumentError} When either value is null or undefined, or the options are invalid
+     *
      * @example
      * ```typescript
      * Equality.isNotEqual(123, 456); // true
      * Equality.isNotEqual("foo", "bar"); // true
      * Equality.isNotEqual(new Date('2025-01-01'), new Date('2025-01-02')); // true
+     * Equality.isNotEqual({ zip: "73301" }, { zip: "10001" }); // true
      * Equality.isNotEqual("test", "test"); // false
+     * Equality.isNotEqual("Test", "test", { caseInsensitive: true }); // false
+     * ```
+     */
+    static isNotEqual(valueA: ValidraValue, valueB: ValidraValue, options?: EqualityOptions): boolean {
+        if(isNullOrUndefined(valueA) || isNullOrUndefined(valueB)) {
+            throw new ValidraArgumentError('Both values must be provided for comparison.', {
+                operator: 'Equality.isNotEqual',
+                argument: isNullOrUndefined(valueA) ? valueA : valueB
+            }, 'ERR_VALIDRA_MISSING_ARGUMENT');
+        }
+
+        return !Equality.deepEqual(valueA, valueB, options);
+    }
+
+    /**
+     * Compares two values by structure.
+     *
+     * - Primitives are compared strictly, except that `NaN` equals `NaN` and
+     *   numbers within `epsilon` of each other are equal. String and coercion
+     *   options relax the comparison, see {@link EqualityOptions}.
+     * - Dates are compared by timestamp, regular expressions by source and flags.
+     * - Arrays and typed arrays are compared element by element, `Map`s by
+     *   entries and `Set`s by members, whatever their insertion order.
+     * - Objects must have the same prototype and the same own enumerable keys,
+     *   whatever their order. Plain objects and `Object.create(null)` objects are interchangeable.
+     * - Cyclic references are supported: a pair of objects met again while
+     *   comparing them is considered equal.
+     *
+     * Unlike {@link Equality.isEqual}, `null` and `undefined` are accepted and
+     * only equal themselves.
+     *
+     * @param valueA - The first value to compare
+     * @param valueB - The second value to compare
+     * @param options - How strings, numbers and structures are compared
+     * @returns `true` if the values are structurally equal, `false` otherwise
+     * @throws {ValidraArgumentError} When the options are invalid, see {@link Equality.checkOptions}
+     *
+     * @example
+     * ```typescript
+     * Equality.deepEqual({ lines: [{ sku: "A-1" }] }, { lines: [{ sku: "A-1" }] }); // true
+     * Equality.deepEqual(new Set([1, 2]), new Set([2, 1])); // true
+     * Equality.deepEqual(["a", "b"], ["b", "a"], { ignoreArrayOrder: true }); // true
+     * Equality.deepEqual({ a: 1, b: undefined }, { a: 1 }, { ignoreUndefined: true }); // true
+     * Equality.deepEqual({ total: 0.1 + 0.2 }, { total: 0.3 }, { epsilon: 1e-9 }); // true
+     * ```
+     *
+     * @public
+     * @static
+     */
+    static deepEqual(valueA: unknown, valueB: unknown, options?: EqualityOptions): boolean {
+        return compare(valueA, valueB, comparator(options), new Map());
+    }
+
+    /**
+     * Checks equality options, such as the `options` of `eq` and `neq` rules.
+     *
+     * Comparisons made with the returned options reuse the checks, so pass
+     * them instead of the original object when comparing many times.
+     *
+     * @param options - The options to check
+     * @returns A frozen copy of the options
+     * @throws {ValidraArgumentError} When an option is unknown, has a value of the wrong type,
+     * `epsilon` is negative, or the normalization form, locale or sensitivity isn't supported
+     *
+     * @example
+     * ```typescript
+     * Equality.checkOptions({ caseInsensitive: true, epsilon: 0.01 }); // ok
+     * Equality.checkOptions({ normalize: "NFX" });                     // throws
      * ```
+     *
+     * @public
+     * @static
      */
-    static isNotEqual(valueA: flatValues, valueB: flatValues): boolean {
-        if(isNullOrUndefined(valueA) || isNullOrUndefined(valueB)) throw new Error('Both values must be provided for comparison.');
+    static checkOptions(options: unknown): EqualityOptions {
+        if (!TypeChecker.isPlainObject(options)) {
+            throw new ValidraArgumentError(`Equality options must be an object but got ${TypeChecker.typeOf(options)}.`, {
+                operator: 'Equality.checkOptions',
+                argument: options
+            });
+        }
+
+        const checked: EqualityOptions = Object.freeze({ ...options });
+        COMPARATORS.set(checked, buildComparator(checked));
+        return checked;
+    }
+}
+
+/**
+ * Returns the comparator for a set of options, checking them unless they
+ * come from {@link Equality.checkOptions}.
+ *
+ * @param options - The options, if any
+ * @returns The comparator
+ * @throws {ValidraArgumentError} When the options are invalid
+ * @internal
+ */
+function comparator(options: EqualityOptions | undefined): Comparator {
+    if (options === undefined) return STRICT;
+
+    return COMPARATORS.get(options) ?? buildComparator(options);
+}
+
+/**
+ * Checks a set of options and builds the comparator they describe.
+ *
+ * @param options - The options
+ * @returns The comparator
+ * @throws {ValidraArgumentError} When the options are invalid
+ * @internal
+ */
+function buildComparator(options: EqualityOptions): Comparator {
+    const invalid = (message: string, argument: unknown): ValidraArgumentError =>
+        new ValidraArgumentError(message, { operator: 'Equality.checkOptions', argument });
+
+    for (const [name, value] of Object.entries(options)) {
+        if (!Object.hasOwn(OPTION_TYPES, name)) {
+            throw invalid(`Unknown equality option "${name}". Expected one of ${Object.keys(OPTION_TYPES).join(', ')}.`, name);
+        }
+        const type = OPTION_TYPES[name as keyof EqualityOptions];
+        if (value !== undefined && typeof value !== type) {
+            throw invalid(`Equality option "${name}" must be of type ${type} but got ${TypeChecker.typeOf(value)}.`, value);
+        }
+    }
+
+    const { caseInsensitive = false, normalize, locale, sensitivity, epsilon = 0 } = options;
+    if (!(epsilon >= 0)) {
+        throw invalid('Epsilon must be a non-negative number.', epsilon);
+    }
+    if (normalize !== undefined && !NORMALIZATION_FORMS.includes(normalize)) {
+        throw invalid(`Normalization form must be one of ${NORMALIZATION_FORMS.join(', ')}.`, normalize);
+    }
+    if (sensitivity !== undefined && !SENSITIVITIES.includes(sensitivity)) {
+        throw invalid(`Sensitivity must be one of ${SENSITIVITIES.join(', ')}.`, sensitivity);
+    }
+
+    const prepare = (value: string): string => normalize ? value.normalize(normalize) : value;
+    let strings: Comparator['strings'];
+
+    if (locale !== undefined || sensitivity !== undefined) {
+        let collator: Intl.Collator;
+        try {
+            collator = new Intl.Collator(locale, { usage: 'search', sensitivity: sensitivity ?? (caseInsensitive ? 'accent' : 'variant') });
+        } catch (error) {
+            throw new ValidraArgumentError(`Locale "${locale}" is not supported.`, {
+                operator: 'Equality.checkOptions',
+                argument: locale,
+                cause: error
+            });
+        }
+        strings = (a, b) => collator.compare(prepare(a), prepare(b)) === 0;
+    } else if (caseInsensitive) {
+        // Upper then lower case folds characters like "ß" and "SS" together
+        const fold = (value: string): string => prepare(value).toUpperCase().toLowerCase();
+        strings = (a, b) => fold(a) === fold(b);
+    } else if (normalize !== undefined) {
+        strings = (a, b) => prepare(a) === prepare(b);
+    }
+
+    return {
+        ignoreArrayOrder: options.ignoreArrayOrder ?? false,
+        ignoreUndefined: options.ignoreUndefined ?? false,
+        epsilon,
+        coerce: options.coerce ?? false,
+        strings
+    };
+}
+
+/**
+ * Compares two values by structure, see {@link Equality.deepEqual}.
+ *
+ * @param valueA - The first value
+ * @param valueB - The second value
+ * @param settings - The comparator built from the options
+ * @param stack - The pairs of objects being compared
+ * @returns `true` if the values are structurally equal
+ * @internal
+ */
+function compare(valueA: unknown, valueB: unknown, settings: Comparator, stack: ComparisonStack): boolean {
+    if (valueA === valueB) return true;
+
+    if (settings.coerce && typeof valueA !== typeof valueB) {
+        const [a, b] = coerce(valueA, valueB);
+        if (typeof a === typeof b) return compare(a, b, settings, stack);
+    }
+
+    if (typeof valueA === 'number' && typeof valueB === 'number') {
+        if (Number.isNaN(valueA) || Number.isNaN(valueB)) return Number.isNaN(valueA) && Number.isNaN(valueB);
+        return Math.abs(valueA - valueB) <= settings.epsilon;
+    }
+
+    if (typeof valueA === 'string' && typeof valueB === 'string') {
+        return settings.strings?.(valueA, valueB) ?? false;
+    }
+
+    if (!isObject(valueA) || !isObject(valueB) || !sameKind(valueA, valueB)) return false;
+
+    const pending = stack.get(valueA);
+    if (pending?.has(valueB)) return true;
+
+    if (pending) {
+        pending.add(valueB);
+    } else {
+        stack.set(valueA, new Set([valueB]));
+    }
+
+    try {
+        return compareObjects(valueA, valueB, settings, stack);
+    } finally {
+        stack.get(valueA)?.delete(valueB);
+    }
+}
+
+/**
+ * Converts two primitives of different types to a common type, for the `coerce` option.
+ *
+ * Numeric strings become numbers when compared with numbers, `"true"` and
+ * `"false"` become booleans when compared with booleans, and integer numbers
+ * become bigints when compared with bigints, so they compare exactly. Other
+ * values, such as fractional numbers compared with bigints, are left as they are.
+ *
+ * @param valueA - The first value
+ * @param valueB - The second value
+ * @returns The converted values
+ * @internal
+ */
+function coerce(valueA: unknown, valueB: unknown): [unknown, unknown] {
+    const convert = (value: unknown, target: unknown): unknown => {
+        if (typeof target === 'number' && typeof value === 'string' && value.trim() !== '') {
+            const number = Number(value);
+            return Number.isNaN(number) ? value : number;
+        }
+        if (typeof target === 'bigint' && typeof value === 'number' && Number.isInteger(value)) {
+            return BigInt(value);
+        }
+        if (typeof target === 'boolean' && (value === 'true' || value === 'false')) {
+            return value === 'true';
+        }
+
+        return value;
+    };
+
+    return [convert(valueA, valueB), convert(valueB, valueA)];
+}
+
+/**
+ * Compares two objects of the same kind by content.
+ *
+ * @param valueA - The first object
+ * @param valueB - The second object, with the same prototype
+ * @param settings - The comparator built from the options
+ * @param stack - The pairs of objects being compared
+ * @returns `true` if the objects hold equal content
+ * @internal
+ */
+function compareObjects(valueA: object, valueB: object, settings: Comparator, stack: ComparisonStack): boolean {
+    const equal = (a: unknown, b: unknown) => compare(a, b, settings, stack);
+
+    if (valueA instanceof Date) {
+        return Object.is(valueA.getTime(), (valueB as Date).getTime());
+    }
+
+    if (valueA instanceof RegExp) {
+        return valueA.source === (valueB as RegExp).source && valueA.flags === (valueB as RegExp).flags;
+    }
+
+    if (Array.isArray(valueA)) {
+        const arrayB = valueB as unknown[];
+        if (valueA.length !== arrayB.length) return false;
+
+        return settings.ignoreArrayOrder
+            ? matchesUnordered(valueA, arrayB, equal)
+            : valueA.every((item, index) => equal(item, arrayB[index]));
+    }
 
-        if (valueA instanceof Date && valueB instanceof Date) {
-            return valueA.getTime() !== valueB.getTime();
+    if (ArrayBuffer.isView(valueA)) {
+        const bytesA = valueA instanceof DataView ? new Uint8Array(valueA.buffer, valueA.byteOffset, valueA.byteLength) : valueA;
+        const bytesB = valueB instanceof DataView ? new Uint8Array(valueB.buffer, valueB.byteOffset, valueB.byteLength) : valueB;
+        const itemsA = Array.from(bytesA as unknown as ArrayLike<unknown>);
+        const itemsB = Array.from(bytesB as unknown as ArrayLike<unknown>);
+
+        return itemsA.length === itemsB.length && itemsA.every((item, index) => equal(item, itemsB[index]));
+    }
+
+    if (valueA instanceof Map) {
+        const mapB = valueB as Map<unknown, unknown>;
+        if (valueA.size !== mapB.size) return false;
+
+        const unmatched: [unknown, unknown][] = [];
+        for (const [key, value] of valueA) {
+            if (isObject(key)) {
+                unmatched.push([key, value]);
+            } else if (!mapB.has(key) || !equal(value, mapB.get(key))) {
+                return false;
+            }
         }
 
-        return valueA !== valueB;
+        const candidates = [...mapB].filter(([key]) => isObject(key));
+        return matchesUnordered(unmatched, candidates, ([keyA, itemA], [keyB, itemB]) => equal(keyA, keyB) && equal(itemA, itemB));
     }
-}
\ No newline at end of file
+
+    if (valueA instanceof Set) {
+        const setB = valueB as Set<unknown>;
+        if (valueA.size !== setB.size) return false;
+
+        const unmatched = [...valueA].filter(item => isObject(item) || !setB.has(item));
+        const candidates = [...setB].filter(item => isObject(item) || !valueA.has(item));
+        return matchesUnordered(unmatched, candidates, equal);
+    }
+
+    const keysA = ownKeys(valueA, settings);
+    const keysB = ownKeys(valueB, settings);
+    if (keysA.length !== keysB.length) return false;
+
+    const recordA = valueA as Record<string, unknown>;
+    const recordB = valueB as Record<string, unknown>;
+    return keysA.every(key => Object.hasOwn(recordB, key) && equal(recordA[key], recordB[key]));
+}
+
+/**
+ * Checks that every item of a list equals a distinct item of another list.
+ *
+ * @param itemsA - The first list
+ * @param itemsB - The second list
+ * @param equal - The item comparison
+ * @returns `true` if the lists hold the same items, in any order
+ * @internal
+ */
+function matchesUnordered<T>(itemsA: readonly T[], itemsB: readonly T[], equal: (a: T, b: T) => boolean): boolean {
+    if (itemsA.length !== itemsB.length) return false;
+
+    const remaining = [...itemsB];
+    return itemsA.every(item => {
+        const index = remaining.findIndex(candidate => equal(item, candidate));
+        if (index === -1) return false;
+
+        remaining.splice(index, 1);
+        return true;
+    });
+}
+
+/**
+ * Lists the own enumerable keys of an object compared by {@link Equality.deepEqual}.
+ *
+ * @param value - The object
+ * @param settings - The comparator built from the options
+ * @returns The keys, without those of `undefined` properties when `ignoreUndefined` is set
+ * @internal
+ */
+function ownKeys(value: object, settings: Comparator): string[] {
+    const keys = Object.keys(value);
+    if (!settings.ignoreUndefined) return keys;
+
+    return keys.filter(key => (value as Record<string, unknown>)[key] !== undefined);
+}
+
+/**
+ * Checks if a value is a non-null object, functions excluded.
+ *
+ * @param value - The value to check
+ * @returns `true` if the value is an object
+ * @internal
+ */
+function isObject(value: unknown): value is object {
+    return typeof value === 'object' && value !== null;
+}
+
+/**
+ * Checks that two objects can hold equal content: they share a prototype,
+ * or are both plain objects.
+ *
+ * @param valueA - The first object
+ * @param valueB - The second object
+ * @returns `true` if the objects are of the same kind
+ * @internal
+ */
+function sameKind(valueA: object, valueB: object): boolean {
+    return Object.getPrototypeOf(valueA) === Object.getPrototypeOf(valueB)
+        || (TypeChecker.isPlainObject(valueA) && TypeChecker.isPlainObject(valueB));
+}
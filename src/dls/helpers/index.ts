@@ -1,2 +1,6 @@
+export * from './collection-checker';
+export * from './comparison';
+export * from './date-matcher';
 export * from './equality';
-export * from './type-checker';
\ No newline at end of file
+export * from './string-checker';
+export * from './type-checker';
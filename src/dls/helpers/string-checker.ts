@@ -6,7 +6,7 @@
  * @since 1.0.0
  */
 
-import { isNumber } from "@/utils";
+import { isNumber, ValidraArgumentError, ValidraTypeError } from "@/utils";
 import { TypeChecker } from "./type-checker";
 
 /**
@@ -29,6 +29,15 @@ import { TypeChecker } from "./type-checker";
  */
 export class StringChecker {
 
+    /**
+     * Shared grapheme segmenter, created on first use.
+     * `null` when Intl.Segmenter is not available in the environment.
+     * 
+     * @private
+     * @static
+     */
+    private static segmenter: Intl.Segmenter | null | undefined;
+
     /**
      * Counts the number of grapheme clusters (visible characters) in a string.
      * This properly handles complex Unicode sequences like combined emojis.
@@ -39,10 +48,22 @@ export class StringChecker {
      * @returns {number} The number of grapheme clusters
      */
     private static countGraphemes(str: string): number {
-        // Use Intl.Segmenter if available (modern browsers/Node.js)
-        if (typeof Intl !== 'undefined' && Intl.Segmenter) {
-            const segmenter = new Intl.Segmenter('en', { granularity: 'grapheme' });
-            return Array.from(segmenter.segment(str)).length;
+        // ASCII without carriage returns has one grapheme per code unit ("\r\n" is a single grapheme)
+        if (/^[\x00-\x0c\x0e-\x7f]*$/.test(str)) {
+            return str.length;
+        }
+
+        if (this.segmenter === undefined) {
+            // Use Intl.Segmenter if available (modern browsers/Node.js)
+            this.segmenter = typeof Intl !== 'undefined' && Intl.Segmenter
+                ? new Intl.Segmenter('en', { granularity: 'grapheme' })
+                : null;
+        }
+
+        if (this.segmenter) {
+            let count = 0;
+            for (const _ of this.segmenter.segment(str)) count++;
+            return count;
         }
         
         // Fallback to Array.from for basic Unicode support
@@ -56,7 +77,7 @@ export class StringChecker {
      * @static
      * @param {string} value - The string to check for emptiness
      * @returns {boolean} True if the string is empty or contains only whitespace, false otherwise
-     * @throws {string} Throws if value is not a string
+     * @throws {ValidraTypeError} Throws if value is not a string
      * 
      * @example
      * ```typescript
@@ -70,7 +91,10 @@ export class StringChecker {
      */
     static isEmpty(value: string): boolean {
         if (!TypeChecker.isString(value)) {
-            throw 'Value must be a string to check if it is empty.';
+            throw new ValidraTypeError('Value must be a string to check if it is empty.', {
+                operator: 'StringChecker.isEmpty',
+                argument: value
+            });
         }
 
         return value.trim().length === 0;
@@ -84,7 +108,7 @@ export class StringChecker {
      * @param {string} value - The string to search within
      * @param {string} substring - The substring to search for
      * @returns {boolean} True if the substring is found within the value, false otherwise
-     * @throws {string} Throws if either value or substring is not a string
+     * @throws {ValidraTypeError} Throws if either value or substring is not a string
      * 
      * @example
      * ```typescript
@@ -98,7 +122,10 @@ export class StringChecker {
      */
     static contains(value: string, substring: string): boolean {
         if (!TypeChecker.isString(value) || !TypeChecker.isString(substring)) {
-            throw 'Both value and substring must be strings for containment check.';
+            throw new ValidraTypeError('Both value and substring must be strings for containment check.', {
+                operator: 'StringChecker.contains',
+                argument: TypeChecker.isString(value) ? substring : value
+            });
         }
 
         return value.includes(substring);
@@ -112,7 +139,7 @@ export class StringChecker {
      * @param {string} value - The string to check
      * @param {string} prefix - The prefix to check for
      * @returns {boolean} True if the string starts with the prefix, false otherwise
-     * @throws {string} Throws if either value or prefix is not a string
+     * @throws {ValidraTypeError} Throws if either value or prefix is not a string
      * 
      * @example
      * ```typescript
@@ -126,7 +153,10 @@ export class StringChecker {
      */
     static startsWith(value: string, prefix: string): boolean {
         if (!TypeChecker.isString(value) || !TypeChecker.isString(prefix)) {
-            throw 'Both value and prefix must be strings for startsWith check.';
+            throw new ValidraTypeError('Both value and prefix must be strings for startsWith check.', {
+                operator: 'StringChecker.startsWith',
+                argument: TypeChecker.isString(value) ? prefix : value
+            });
         }
 
         return value.startsWith(prefix);
@@ -140,7 +170,7 @@ export class StringChecker {
      * @param {string} value - The string to check
      * @param {string} suffix - The suffix to check for
      * @returns {boolean} True if the string ends with the suffix, false otherwise
-     * @throws {string} Throws if either value or suffix is not a string
+     * @throws {ValidraTypeError} Throws if either value or suffix is not a string
      * 
      * @example
      * ```typescript
@@ -154,7 +184,10 @@ export class StringChecker {
      */
     static endsWith(value: string, suffix: string): boolean {
         if (!TypeChecker.isString(value) || !TypeChecker.isString(suffix)) {
-            throw 'Both value and suffix must be strings for endsWith check.';
+            throw new ValidraTypeError('Both value and suffix must be strings for endsWith check.', {
+                operator: 'StringChecker.endsWith',
+                argument: TypeChecker.isString(value) ? suffix : value
+            });
         }
 
         return value.endsWith(suffix);
@@ -168,7 +201,7 @@ export class StringChecker {
      * @param {string} value - The string to test against the pattern
      * @param {RegExp} pattern - The regular expression pattern to match
      * @returns {boolean} True if the string matches the pattern, false otherwise
-     * @throws {string} Throws if value is not a string or pattern is not a RegExp
+     * @throws {ValidraTypeError} Throws if value is not a string or pattern is not a RegExp
      * 
      * @example
      * ```typescript
@@ -184,10 +217,16 @@ export class StringChecker {
      */
     static regexMatch(value: string, pattern: RegExp): boolean {
         if (!TypeChecker.isString(value)) {
-            throw 'Value must be a string for regex match.';
+            throw new ValidraTypeError('Value must be a string for regex match.', {
+                operator: 'StringChecker.regexMatch',
+                argument: value
+            });
         }
         if (!(pattern instanceof RegExp)) {
-            throw 'Pattern must be a valid RegExp object.';
+            throw new ValidraTypeError('Pattern must be a valid RegExp object.', {
+                operator: 'StringChecker.regexMatch',
+                argument: pattern
+            });
         }
 
         return pattern.test(value);
@@ -201,7 +240,7 @@ export class StringChecker {
      * @static
      * @param {string} value - The string to validate as an email
      * @returns {boolean} True if the string is a valid email format, false otherwise
-     * @throws {string} Throws if value is not a string
+     * @throws {ValidraTypeError} Throws if value is not a string
      * 
      * @example
      * ```typescript
@@ -216,7 +255,10 @@ export class StringChecker {
      */
     static isEmail(value: string): boolean {
         if (!TypeChecker.isString(value)) {
-            throw 'Value must be a string to check if it is an email.';
+            throw new ValidraTypeError('Value must be a string to check if it is an email.', {
+                operator: 'StringChecker.isEmail',
+                argument: value
+            });
         }
 
         const emailPattern = /^[a-zA-Z0-9._%+-]+@[a-zA-Z0-9]+(?:[a-zA-Z0-9-]*[a-zA-Z0-9])?(?:\.[a-zA-Z0-9]+(?:[a-zA-Z0-9-]*[a-zA-Z0-9])?)*\.[a-zA-Z]{2,}$/;
@@ -231,7 +273,7 @@ export class StringChecker {
      * @static
      * @param {string} value - The string to validate as a URL
      * @returns {boolean} True if the string is a valid URL format, false otherwise
-     * @throws {string} Throws if value is not a string
+     * @throws {ValidraTypeError} Throws if value is not a string
      * 
      * @example
      * ```typescript
@@ -247,7 +289,10 @@ export class StringChecker {
      */
     static isURL(value: string): boolean {
         if (!TypeChecker.isString(value)) {
-            throw 'Value must be a string to check if it is a URL.';
+            throw new ValidraTypeError('Value must be a string to check if it is a URL.', {
+                operator: 'StringChecker.isURL',
+                argument: value
+            });
         }
         const urlPattern = /^(https?|ftp|file|ws|wss|ldap|file):\/\/[^\s/$.?#].[^\s]*$/i;
         return this.regexMatch(value, urlPattern);
@@ -261,7 +306,7 @@ export class StringChecker {
      * @static
      * @param {string} value - The string to validate as a UUID
      * @returns {boolean} True if the string is a valid UUID format, false otherwise
-     * @throws {string} Throws if value is not a string
+     * @throws {ValidraTypeError} Throws if value is not a string
      * 
      * @example
      * ```typescript
@@ -276,7 +321,10 @@ export class StringChecker {
      */
     static isUUID(value: string): boolean {
         if (!TypeChecker.isString(value)) {
-            throw 'Value must be a string to check if it is a UUID.';
+            throw new ValidraTypeError('Value must be a string to check if it is a UUID.', {
+                operator: 'StringChecker.isUUID',
+                argument: value
+            });
         }
         const uuidPattern = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
         return this.regexMatch(value, uuidPattern);
@@ -290,7 +338,8 @@ export class StringChecker {
      * @param {string} value - The string to check
      * @param {number} minLength - The minimum required length (must be non-negative)
      * @returns {boolean} True if the trimmed string length is greater than or equal to minLength, false otherwise
-     * @throws {string} Throws if value is not a string or minLength is not a non-negative number
+     * @throws {ValidraTypeError} Throws if value is not a string
+     * @throws {ValidraArgumentError} Throws if minLength is not a non-negative number
      * 
      * @example
      * ```typescript
@@ -305,10 +354,16 @@ export class StringChecker {
      */
     static minLength(value: string, minLength: number): boolean {
         if (!TypeChecker.isString(value)) {
-            throw 'Value must be a string to check its minimum length.';
+            throw new ValidraTypeError('Value must be a string to check its minimum length.', {
+                operator: 'StringChecker.minLength',
+                argument: value
+            });
         }
         if (!isNumber(minLength) || minLength < 0) {
-            throw 'Minimum length must be a non-negative number.';
+            throw new ValidraArgumentError('Minimum length must be a non-negative number.', {
+                operator: 'StringChecker.minLength',
+                argument: minLength
+            });
         }
 
         // Use countGraphemes to properly count Unicode characters (including complex emojis)
@@ -323,7 +378,8 @@ export class StringChecker {
      * @param {string} value - The string to check
      * @param {number} maxLength - The maximum allowed length (must be non-negative)
      * @returns {boolean} True if the trimmed string length is less than or equal to maxLength, false otherwise
-     * @throws {string} Throws if value is not a string or maxLength is not a non-negative number
+     * @throws {ValidraTypeError} Throws if value is not a string
+     * @throws {ValidraArgumentError} Throws if maxLength is not a non-negative number
      * 
      * @example
      * ```typescript
@@ -338,10 +394,16 @@ export class StringChecker {
      */
     static maxLength(value: string, maxLength: number): boolean {
         if (!TypeChecker.isString(value)) {
-            throw 'Value must be a string to check its maximum length.';
+            throw new ValidraTypeError('Value must be a string to check its maximum length.', {
+                operator: 'StringChecker.maxLength',
+                argument: value
+            });
         }
         if (!isNumber(maxLength) || maxLength < 0) {
-            throw 'Maximum length must be a non-negative number.';
+            throw new ValidraArgumentError('Maximum length must be a non-negative number.', {
+                operator: 'StringChecker.maxLength',
+                argument: maxLength
+            });
         }
 
         // Use countGraphemes to properly count Unicode characters (including complex emojis)
@@ -13,6 +13,52 @@
  * @since 1.0.0
  */
 
+import { ValidraArgumentError, ValidraTypeError } from "@/utils";
+
+/**
+ * Normalized type tag of a value, returned by {@link TypeChecker.typeOf}.
+ *
+ * Numbers are split into `integer`, `number` (other numbers, including
+ * infinities) and `nan`; dates into `date` and `invalidDate`. Objects are
+ * `object` when plain (object literals, `Object.create(null)`) and
+ * `instance` for other class instances without a dedicated tag.
+ *
+ * @public
+ */
+export type TypeTag =
+    | 'undefined'
+    | 'null'
+    | 'string'
+    | 'boolean'
+    | 'integer'
+    | 'number'
+    | 'nan'
+    | 'bigint'
+    | 'symbol'
+    | 'function'
+    | 'date'
+    | 'invalidDate'
+    | 'regexp'
+    | 'error'
+    | 'array'
+    | 'map'
+    | 'set'
+    | 'promise'
+    | 'object'
+    | 'instance';
+
+/** Every type tag, in the order of {@link TypeTag} */
+const TYPE_TAGS: readonly TypeTag[] = [
+    'undefined', 'null', 'string', 'boolean', 'integer', 'number', 'nan', 'bigint', 'symbol', 'function',
+    'date', 'invalidDate', 'regexp', 'error', 'array', 'map', 'set', 'promise', 'object', 'instance'
+];
+
+/** Type names accepted by {@link TypeChecker.isType} in addition to the tags, and the tags they cover */
+const TYPE_GROUPS: Record<string, readonly TypeTag[]> = {
+    number: ['integer', 'number'],
+    nullish: ['undefined', 'null']
+};
+
 /**
  * Utility class for runtime type checking and validation.
  * 
@@ -35,8 +81,24 @@
  * TypeChecker.isArray([1, 2, 3]);    // true
  * TypeChecker.isObject({key: "value"}); // true
  * TypeChecker.isObject([1, 2, 3]);   // false
+ *
+ * // Normalized type tags
+ * TypeChecker.typeOf(42);              // 'integer'
+ * TypeChecker.typeOf(new Map());       // 'map'
+ * TypeChecker.isType(4.5, "number");   // true
+ *
+ * // Narrowing
+ * function shout(value: unknown): string {
+ *   TypeChecker.assertString(value);   // throws ValidraTypeError otherwise
+ *   return value.toUpperCase();
+ * }
  * ```
  * 
+ * The `is` methods are type predicates, so TypeScript narrows the checked
+ * value. `isInteger`, `isFinite` and `isValidDate` only accept part of a
+ * type and return plain booleans, since `false` doesn't rule that type out.
+ * Every type has an `assert` variant throwing a {@link ValidraTypeError}.
+ * 
  * @public
  */
 export class TypeChecker {
@@ -45,24 +107,26 @@ export class TypeChecker {
      * Checks if a value is a string.
      * 
      * Performs a strict type check using the `typeof` operator to determine
-     * if the provided value is of string type.
+     * if the provided value is of string type. `String` wrapper objects are
+     * not primitive strings, so they don't pass.
      * 
      * @param value - The value to check
      * @returns `true` if the value is a string, `false` otherwise
      * 
      * @example
      * ```typescript
-     * TypeChecker.isString("hello");    // true
-     * TypeChecker.isString("");         // true
-     * TypeChecker.isString(123);        // false
-     * TypeChecker.isString(null);       // false
+     * TypeChecker.isString("hello");         // true
+     * TypeChecker.isString("");              // true
+     * TypeChecker.isString(123);             // false
+     * TypeChecker.isString(null);            // false
+     * TypeChecker.isString(new String("a")); // false
      * ```
      * 
      * @public
      * @static
      */
-    static isString(value: unknown): boolean {
-        return typeof value === 'string' || value instanceof String;
+    static isString(value: unknown): value is string {
+        return typeof value === 'string';
     }
 
     /**
@@ -86,7 +150,7 @@ export class TypeChecker {
      * @public
      * @static
      */
-    static isDate(value: unknown): boolean {
+    static isDate(value: unknown): value is Date {
         return value instanceof Date;
     }
 
@@ -112,7 +176,7 @@ export class TypeChecker {
      * @public
      * @static
      */
-    static isNumber(value: unknown): boolean {
+    static isNumber(value: unknown): value is number {
         return typeof value === 'number' && !isNaN(value);
     }
 
@@ -138,7 +202,7 @@ export class TypeChecker {
      * @public
      * @static
      */
-    static isBoolean(value: unknown): boolean {
+    static isBoolean(value: unknown): value is boolean {
         return typeof value === 'boolean';
     }
 
@@ -164,7 +228,7 @@ export class TypeChecker {
      * @public
      * @static
      */
-    static isArray(value: unknown): boolean {
+    static isArray(value: unknown): value is unknown[] {
         return Array.isArray(value);
     }
 
@@ -191,7 +255,668 @@ export class TypeChecker {
      * @public
      * @static
      */
-    static isObject(value: unknown): boolean {
+    static isObject(value: unknown): value is object {
         return value !== null && typeof value === 'object' && !Array.isArray(value);
-    }    
-}
\ No newline at end of file
+    }
+
+    /**
+     * Checks if a value is an integer number.
+     * 
+     * Uses `Number.isInteger()`, so `5.0` is an integer while `NaN`,
+     * infinities and numeric strings are not.
+     * 
+     * @param value - The value to check
+     * @returns `true` if the value is an integer, `false` otherwise
+     * 
+     * @example
+     * ```typescript
+     * TypeChecker.isInteger(42);        // true
+     * TypeChecker.isInteger(5.0);       // true
+     * TypeChecker.isInteger(3.14);      // false
+     * TypeChecker.isInteger(Infinity);  // false
+     * TypeChecker.isInteger("42");      // false
+     * ```
+     * 
+     * @public
+     * @static
+     */
+    static isInteger(value: unknown): boolean {
+        return Number.isInteger(value);
+    }
+
+    /**
+     * Checks if a value is a finite number.
+     * 
+     * Unlike {@link TypeChecker.isNumber}, excludes `Infinity` and `-Infinity`.
+     * 
+     * @param value - The value to check
+     * @returns `true` if the value is a number other than `NaN` and the infinities, `false` otherwise
+     * 
+     * @example
+     * ```typescript
+     * TypeChecker.isFinite(3.14);       // true
+     * TypeChecker.isFinite(Infinity);   // false
+     * TypeChecker.isFinite(NaN);        // false
+     * TypeChecker.isFinite("1");        // false
+     * ```
+     * 
+     * @public
+     * @static
+     */
+    static isFinite(value: unknown): boolean {
+        return Number.isFinite(value);
+    }
+
+    /**
+     * Checks if a value is a bigint.
+     * 
+     * @param value - The value to check
+     * @returns `true` if the value is a bigint, `false` otherwise
+     * 
+     * @example
+     * ```typescript
+     * TypeChecker.isBigInt(10n);        // true
+     * TypeChecker.isBigInt(10);         // false
+     * ```
+     * 
+     * @public
+     * @static
+     */
+    static isBigInt(value: unknown): value is bigint {
+        return typeof value === 'bigint';
+    }
+
+    /**
+     * Checks if a value is a plain object.
+     * 
+     * Only objects whose prototype is `Object.prototype` or `null` are plain:
+     * object literals, `new Object()` and `Object.create(null)`. Dates, maps,
+     * arrays and class instances are not.
+     * 
+     * @param value - The value to check
+     * @returns `true` if the value is a plain object, `false` otherwise
+     * 
+     * @example
+     * ```typescript
+     * TypeChecker.isPlainObject({ key: "value" });     // true
+     * TypeChecker.isPlainObject(Object.create(null));  // true
+     * TypeChecker.isPlainObject(new Date());           // false
+     * TypeChecker.isPlainObject(new (class User {})()); // false
+     * ```
+     * 
+     * @public
+     * @static
+     */
+    static isPlainObject(value: unknown): value is Record<string, unknown> {
+        if (value === null || typeof value !== 'object') return false;
+
+        const prototype = Object.getPrototypeOf(value);
+        return prototype === Object.prototype || prototype === null;
+    }
+
+    /**
+     * Checks if a value is a Date instance holding a valid time.
+     * 
+     * Unlike {@link TypeChecker.isDate}, rejects invalid dates such as `new Date("invalid")`.
+     * 
+     * @param value - The value to check
+     * @returns `true` if the value is a valid Date, `false` otherwise
+     * 
+     * @example
+     * ```typescript
+     * TypeChecker.isValidDate(new Date("2025-01-01")); // true
+     * TypeChecker.isValidDate(new Date("invalid"));    // false
+     * TypeChecker.isValidDate("2025-01-01");           // false
+     * ```
+     * 
+     * @public
+     * @static
+     */
+    static isValidDate(value: unknown): boolean {
+        return value instanceof Date && !Number.isNaN(value.getTime());
+    }
+
+    /**
+     * Checks if a value is a Map.
+     * 
+     * @param value - The value to check
+     * @returns `true` if the value is a Map instance, `false` otherwise
+     * 
+     * @example
+     * ```typescript
+     * TypeChecker.isMap(new Map());     // true
+     * TypeChecker.isMap({});            // false
+     * TypeChecker.isMap(new WeakMap()); // false
+     * ```
+     * 
+     * @public
+     * @static
+     */
+    static isMap(value: unknown): value is Map<unknown, unknown> {
+        return value instanceof Map;
+    }
+
+    /**
+     * Checks if a value is a Set.
+     * 
+     * @param value - The value to check
+     * @returns `true` if the value is a Set instance, `false` otherwise
+     * 
+     * @example
+     * ```typescript
+     * TypeChecker.isSet(new Set([1]));  // true
+     * TypeChecker.isSet([1]);           // false
+     * ```
+     * 
+     * @public
+     * @static
+     */
+    static isSet(value: unknown): value is Set<unknown> {
+        return value instanceof Set;
+    }
+
+    /**
+     * Checks if a value is a function, including classes, async and generator functions.
+     * 
+     * @param value - The value to check
+     * @returns `true` if the value is callable, `false` otherwise
+     * 
+     * @example
+     * ```typescript
+     * TypeChecker.isFunction(() => 1);        // true
+     * TypeChecker.isFunction(async () => 1);  // true
+     * TypeChecker.isFunction(class {});       // true
+     * TypeChecker.isFunction({});             // false
+     * ```
+     * 
+     * @public
+     * @static
+     */
+    static isFunction(value: unknown): value is (...args: any[]) => unknown {
+        return typeof value === 'function';
+    }
+
+    /**
+     * Checks if a value is a promise or a thenable.
+     * 
+     * Accepts native promises and any object or function with a `then`
+     * method, like the promises of other libraries.
+     * 
+     * @param value - The value to check
+     * @returns `true` if the value can be awaited as a promise, `false` otherwise
+     * 
+     * @example
+     * ```typescript
+     * TypeChecker.isPromise(Promise.resolve(1));        // true
+     * TypeChecker.isPromise({ then: (resolve) => {} }); // true
+     * TypeChecker.isPromise(async () => 1);             // false (the function, not its result)
+     * ```
+     * 
+     * @public
+     * @static
+     */
+    static isPromise(value: unknown): value is PromiseLike<unknown> {
+        if (value instanceof Promise) return true;
+        if (value === null || (typeof value !== 'object' && typeof value !== 'function')) return false;
+
+        return typeof (value as { then?: unknown }).then === 'function';
+    }
+
+    /**
+     * Checks if a value is `null`.
+     * 
+     * @param value - The value to check
+     * @returns `true` if the value is `null`, `false` otherwise
+     * 
+     * @example
+     * ```typescript
+     * TypeChecker.isNull(null);         // true
+     * TypeChecker.isNull(undefined);    // false
+     * ```
+     * 
+     * @public
+     * @static
+     */
+    static isNull(value: unknown): value is null {
+        return value === null;
+    }
+
+    /**
+     * Checks if a value is `undefined`.
+     * 
+     * @param value - The value to check
+     * @returns `true` if the value is `undefined`, `false` otherwise
+     * 
+     * @example
+     * ```typescript
+     * TypeChecker.isUndefined(undefined); // true
+     * TypeChecker.isUndefined(null);      // false
+     * ```
+     * 
+     * @public
+     * @static
+     */
+    static isUndefined(value: unknown): value is undefined {
+        return value === undefined;
+    }
+
+    /**
+     * Checks if a value is `null` or `undefined`.
+     * 
+     * @param value - The value to check
+     * @returns `true` if the value is `null` or `undefined`, `false` otherwise
+     * 
+     * @example
+     * ```typescript
+     * TypeChecker.isNullish(null);      // true
+     * TypeChecker.isNullish(undefined); // true
+     * TypeChecker.isNullish(0);         // false
+     * TypeChecker.isNullish("");        // false
+     * ```
+     * 
+     * @public
+     * @static
+     */
+    static isNullish(value: unknown): value is null | undefined {
+        return value === null || value === undefined;
+    }
+
+    /**
+     * Returns the normalized type tag of a value.
+     * 
+     * Tags are more precise than `typeof`: `null`, arrays, dates, maps and
+     * the other built-in objects get their own tag, integers are told apart
+     * from other numbers and invalid dates from valid ones (see {@link TypeTag}).
+     * Used by the `isType` operator and in error messages.
+     * 
+     * @param value - The value to describe
+     * @returns The type tag of the value
+     * 
+     * @example
+     * ```typescript
+     * TypeChecker.typeOf(null);                 // 'null'
+     * TypeChecker.typeOf(42);                   // 'integer'
+     * TypeChecker.typeOf(4.2);                  // 'number'
+     * TypeChecker.typeOf(new Date("invalid"));  // 'invalidDate'
+     * TypeChecker.typeOf([]);                   // 'array'
+     * TypeChecker.typeOf({});                   // 'object'
+     * TypeChecker.typeOf(new (class User {})()); // 'instance'
+     * TypeChecker.typeOf(new String("a"));      // 'instance'
+     * ```
+     * 
+     * @public
+     * @static
+     */
+    static typeOf(value: unknown): TypeTag {
+        switch (typeof value) {
+            case 'undefined': return 'undefined';
+            case 'string': return 'string';
+            case 'boolean': return 'boolean';
+            case 'number': return Number.isNaN(value) ? 'nan' : Number.isInteger(value) ? 'integer' : 'number';
+            case 'bigint': return 'bigint';
+            case 'symbol': return 'symbol';
+            case 'function': return 'function';
+        }
+
+        if (value === null) return 'null';
+        if (value instanceof Date) return Number.isNaN(value.getTime()) ? 'invalidDate' : 'date';
+        if (value instanceof RegExp) return 'regexp';
+        if (value instanceof Error) return 'error';
+        if (Array.isArray(value)) return 'array';
+        if (value instanceof Map) return 'map';
+        if (value instanceof Set) return 'set';
+        if (value instanceof Promise) return 'promise';
+        return TypeChecker.isPlainObject(value) ? 'object' : 'instance';
+    }
+
+    /**
+     * Checks if a value has a type, by type tag.
+     * 
+     * Accepts every {@link TypeTag}, plus `number` for any number other than
+     * `NaN` (integers included) and `nullish` for `null` and `undefined`.
+     * 
+     * @param value - The value to check
+     * @param type - The expected type tag, e.g. `integer` or `date`
+     * @returns `true` if the value has the type, `false` otherwise
+     * @throws {ValidraArgumentError} When the type is not a known type tag
+     * 
+     * @example
+     * ```typescript
+     * TypeChecker.isType(42, "integer");   // true
+     * TypeChecker.isType(42, "number");    // true
+     * TypeChecker.isType(4.2, "integer");  // false
+     * TypeChecker.isType(null, "nullish"); // true
+     * ```
+     * 
+     * @public
+     * @static
+     */
+    static isType(value: unknown, type: string): boolean {
+        const tags = TypeChecker.checkType(type);
+        return tags.includes(TypeChecker.typeOf(value));
+    }
+
+    /**
+     * Resolves a type name accepted by {@link TypeChecker.isType} to the tags it covers.
+     * 
+     * @param type - The type name
+     * @returns The covered type tags
+     * @throws {ValidraArgumentError} When the type is not a known type tag
+     * 
+     * @example
+     * ```typescript
+     * TypeChecker.checkType("number");  // ['integer', 'number']
+     * TypeChecker.checkType("numeric"); // throws ValidraArgumentError
+     * ```
+     * 
+     * @public
+     * @static
+     */
+    static checkType(type: string): readonly TypeTag[] {
+        if (Object.hasOwn(TYPE_GROUPS, type)) return TYPE_GROUPS[type] as readonly TypeTag[];
+        if (TYPE_TAGS.includes(type as TypeTag)) return [type as TypeTag];
+
+        throw new ValidraArgumentError(
+            `Unknown type "${String(type)}". Expected one of ${[...TYPE_TAGS, 'nullish'].join(', ')}.`,
+            { operator: 'TypeChecker.isType', argument: type }
+        );
+    }
+
+    /**
+     * Throws a {@link ValidraTypeError} naming the expected and actual types.
+     * 
+     * @param value - The rejected value
+     * @param expected - Description of the expected type, e.g. "a string"
+     * @param operator - Name of the assertion, reported in the error details
+     * @param message - Custom error message
+     * @throws {ValidraTypeError} Always
+     * @private
+     * @static
+     */
+    private static reject(value: unknown, expected: string, operator: string, message?: string): never {
+        throw new ValidraTypeError(message ?? `Expected ${expected} but got ${TypeChecker.typeOf(value)}.`, {
+            operator: `TypeChecker.${operator}`,
+            argument: value
+        });
+    }
+
+    /**
+     * Asserts that a value is a string, narrowing its type (see {@link TypeChecker.isString}).
+     * 
+     * @param value - The value to check
+     * @param message - Custom error message. Defaults to `Expected a string but got <type>.`
+     * @throws {ValidraTypeError} When the value is not a string
+     * 
+     * @example
+     * ```typescript
+     * TypeChecker.assertString("hello");  // passes
+     * TypeChecker.assertString(42);  // throws ValidraTypeError
+     * ```
+     * 
+     * @public
+     * @static
+     */
+    static assertString(value: unknown, message?: string): asserts value is string {
+        if (!TypeChecker.isString(value)) TypeChecker.reject(value, 'a string', 'assertString', message);
+    }
+
+    /**
+     * Asserts that a value is a number, narrowing its type (see {@link TypeChecker.isNumber}).
+     * 
+     * @param value - The value to check
+     * @param message - Custom error message. Defaults to `Expected a number but got <type>.`
+     * @throws {ValidraTypeError} When the value is not a number
+     * 
+     * @example
+     * ```typescript
+     * TypeChecker.assertNumber(42);  // passes
+     * TypeChecker.assertNumber("42");  // throws ValidraTypeError
+     * ```
+     * 
+     * @public
+     * @static
+     */
+    static assertNumber(value: unknown, message?: string): asserts value is number {
+        if (!TypeChecker.isNumber(value)) TypeChecker.reject(value, 'a number', 'assertNumber', message);
+    }
+
+    /**
+     * Asserts that a value is an integer, narrowing its type (see {@link TypeChecker.isInteger}).
+     * 
+     * @param value - The value to check
+     * @param message - Custom error message. Defaults to `Expected an integer but got <type>.`
+     * @throws {ValidraTypeError} When the value is not an integer
+     * 
+     * @example
+     * ```typescript
+     * TypeChecker.assertInteger(42);  // passes
+     * TypeChecker.assertInteger(4.2);  // throws ValidraTypeError
+     * ```
+     * 
+     * @public
+     * @static
+     */
+    static assertInteger(value: unknown, message?: string): asserts value is number {
+        if (!TypeChecker.isInteger(value)) TypeChecker.reject(value, 'an integer', 'assertInteger', message);
+    }
+
+    /**
+     * Asserts that a value is a finite number, narrowing its type (see {@link TypeChecker.isFinite}).
+     * 
+     * @param value - The value to check
+     * @param message - Custom error message. Defaults to `Expected a finite number but got <type>.`
+     * @throws {ValidraTypeError} When the value is not a finite number
+     * 
+     * @example
+     * ```typescript
+     * TypeChecker.assertFinite(3.14);  // passes
+     * TypeChecker.assertFinite(Infinity);  // throws ValidraTypeError
+     * ```
+     * 
+     * @public
+     * @static
+     */
+    static assertFinite(value: unknown, message?: string): asserts value is number {
+        if (!TypeChecker.isFinite(value)) TypeChecker.reject(value, 'a finite number', 'assertFinite', message);
+    }
+
+    /**
+     * Asserts that a value is a boolean, narrowing its type (see {@link TypeChecker.isBoolean}).
+     * 
+     * @param value - The value to check
+     * @param message - Custom error message. Defaults to `Expected a boolean but got <type>.`
+     * @throws {ValidraTypeError} When the value is not a boolean
+     * 
+     * @example
+     * ```typescript
+     * TypeChecker.assertBoolean(true);  // passes
+     * TypeChecker.assertBoolean("true");  // throws ValidraTypeError
+     * ```
+     * 
+     * @public
+     * @static
+     */
+    static assertBoolean(value: unknown, message?: string): asserts value is boolean {
+        if (!TypeChecker.isBoolean(value)) TypeChecker.reject(value, 'a boolean', 'assertBoolean', message);
+    }
+
+    /**
+     * Asserts that a value is a bigint, narrowing its type (see {@link TypeChecker.isBigInt}).
+     * 
+     * @param value - The value to check
+     * @param message - Custom error message. Defaults to `Expected a bigint but got <type>.`
+     * @throws {ValidraTypeError} When the value is not a bigint
+     * 
+     * @example
+     * ```typescript
+     * TypeChecker.assertBigInt(10n);  // passes
+     * TypeChecker.assertBigInt(10);  // throws ValidraTypeError
+     * ```
+     * 
+     * @public
+     * @static
+     */
+    static assertBigInt(value: unknown, message?: string): asserts value is bigint {
+        if (!TypeChecker.isBigInt(value)) TypeChecker.reject(value, 'a bigint', 'assertBigInt', message);
+    }
+
+    /**
+     * Asserts that a value is a date, narrowing its type (see {@link TypeChecker.isDate}).
+     * 
+     * @param value - The value to check
+     * @param message - Custom error message. Defaults to `Expected a date but got <type>.`
+     * @throws {ValidraTypeError} When the value is not a date
+     * 
+     * @example
+     * ```typescript
+     * TypeChecker.assertDate(new Date());  // passes
+     * TypeChecker.assertDate("2025-01-01");  // throws ValidraTypeError
+     * ```
+     * 
+     * @public
+     * @static
+     */
+    static assertDate(value: unknown, message?: string): asserts value is Date {
+        if (!TypeChecker.isDate(value)) TypeChecker.reject(value, 'a date', 'assertDate', message);
+    }
+
+    /**
+     * Asserts that a value is a valid date, narrowing its type (see {@link TypeChecker.isValidDate}).
+     * 
+     * @param value - The value to check
+     * @param message - Custom error message. Defaults to `Expected a valid date but got <type>.`
+     * @throws {ValidraTypeError} When the value is not a valid date
+     * 
+     * @example
+     * ```typescript
+     * TypeChecker.assertValidDate(new Date("2025-01-01"));  // passes
+     * TypeChecker.assertValidDate(new Date("invalid"));  // throws ValidraTypeError
+     * ```
+     * 
+     * @public
+     * @static
+     */
+    static assertValidDate(value: unknown, message?: string): asserts value is Date {
+        if (!TypeChecker.isValidDate(value)) TypeChecker.reject(value, 'a valid date', 'assertValidDate', message);
+    }
+
+    /**
+     * Asserts that a value is an array, narrowing its type (see {@link TypeChecker.isArray}).
+     * 
+     * @param value - The value to check
+     * @param message - Custom error message. Defaults to `Expected an array but got <type>.`
+     * @throws {ValidraTypeError} When the value is not an array
+     * 
+     * @example
+     * ```typescript
+     * TypeChecker.assertArray([1, 2]);  // passes
+     * TypeChecker.assertArray("1,2");  // throws ValidraTypeError
+     * ```
+     * 
+     * @public
+     * @static
+     */
+    static assertArray(value: unknown, message?: string): asserts value is unknown[] {
+        if (!TypeChecker.isArray(value)) TypeChecker.reject(value, 'an array', 'assertArray', message);
+    }
+
+    /**
+     * Asserts that a value is an object, narrowing its type (see {@link TypeChecker.isObject}).
+     * 
+     * @param value - The value to check
+     * @param message - Custom error message. Defaults to `Expected an object but got <type>.`
+     * @throws {ValidraTypeError} When the value is not an object
+     * 
+     * @example
+     * ```typescript
+     * TypeChecker.assertObject({ id: 1 });  // passes
+     * TypeChecker.assertObject(null);  // throws ValidraTypeError
+     * ```
+     * 
+     * @public
+     * @static
+     */
+    static assertObject(value: unknown, message?: string): asserts value is object {
+        if (!TypeChecker.isObject(value)) TypeChecker.reject(value, 'an object', 'assertObject', message);
+    }
+
+    /**
+     * Asserts that a value is a plain object, narrowing its type (see {@link TypeChecker.isPlainObject}).
+     * 
+     * @param value - The value to check
+     * @param message - Custom error message. Defaults to `Expected a plain object but got <type>.`
+     * @throws {ValidraTypeError} When the value is not a plain object
+     * 
+     * @example
+     * ```typescript
+     * TypeChecker.assertPlainObject({ id: 1 });  // passes
+     * TypeChecker.assertPlainObject(new Date());  // throws ValidraTypeError
+     * ```
+     * 
+     * @public
+     * @static
+     */
+    static assertPlainObject(value: unknown, message?: string): asserts value is Record<string, unknown> {
+        if (!TypeChecker.isPlainObject(value)) TypeChecker.reject(value, 'a plain object', 'assertPlainObject', message);
+    }
+
+    /**
+     * Asserts that a value is a Map, narrowing its type (see {@link TypeChecker.isMap}).
+     * 
+     * @param value - The value to check
+     * @param message - Custom error message. Defaults to `Expected a Map but got <type>.`
+     * @throws {ValidraTypeError} When the value is not a Map
+     * 
+     * @example
+     * ```typescript
+     * TypeChecker.assertMap(new Map());  // passes
+     * TypeChecker.assertMap({});  // throws ValidraTypeError
+     * ```
+     * 
+     * @public
+     * @static
+     */
+    static assertMap(value: unknown, message?: string): asserts value is Map<unknown, unknown> {
+        if (!TypeChecker.isMap(value)) TypeChecker.reject(value, 'a Map', 'assertMap', message);
+    }
+
+    /**
+     * Asserts that a value is a Set, narrowing its type (see {@link TypeChecker.isSet}).
+     * 
+     * @param value - The value to check
+     * @param message - Custom error message. Defaults to `Expected a Set but got <type>.`
+     * @throws {ValidraTypeError} When the value is not a Set
+     * 
+     * @example
+     * ```typescript
+     * TypeChecker.assertSet(new Set());  // passes
+     * TypeChecker.assertSet([]);  // throws ValidraTypeError
+     * ```
+     * 
+     * @public
+     * @static
+     */
+    static assertSet(value: unknown, message?: string): asserts value is Set<unknown> {
+        if (!TypeChecker.isSet(value)) TypeChecker.reject(value, 'a Set', 'assertSet', message);
+    }
+
+    /**
+     * Asserts that a value is a function, narrowing its type (see {@link TypeChecker.isFunction}).
+     * 
+     * @param value - The value to check
+     * @param message - Custom error message. Defaults to `Expected a function but got <type>.`
+     * @throws {ValidraTypeError} When the value is not a function
+     * 
+     * @example
+     * ```typescript
+     * TypeChecker.assertFunction(() => 1);  // passes
+     * TypeChecker.assertFunction("fn");  // throws ValidraTypeError
+     * ```
+     * 
+     * @public
+     * @static
+     */
+    static assertFunction(value: unknown, message?: string): asserts value is (...args: any[]) => unknown {
+        if (!TypeChecker.isFunction(value)) TypeChecker.reject(value, 'a function', 'assertFunction', message);
+    }
+}
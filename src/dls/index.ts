@@ -0,0 +1,6 @@
+export * from './ast';
+export * from './dsl-syntax-error';
+export * from './helpers';
+export * from './parser';
+export * from './to-condition';
+export * from './tokenizer';
@@ -0,0 +1,625 @@
+/**
+ * @fileoverview Recursive-descent parser for the Validra DSL.
+ * @module DslParser
+ * @version 1.0.0
+ * @author Felix M. Martinez
+ * @since 1.0.0
+ */
+
+import {
+    ActionNode,
+    BinaryNode,
+    CallNode,
+    DurationUnit,
+    ExpressionNode,
+    LiteralNode,
+    PredicateNode,
+    ProductionNode,
+    ValueNode
+} from "./ast";
+import { DslSyntaxError } from "./dsl-syntax-error";
+import { Token, TokenType, tokenize } from "./tokenizer";
+
+/** Symbolic comparison operators and the operators they map to */
+const COMPARISON_OPERATORS: Record<string, string> = {
+    '==': 'eq',
+    '!=': 'neq',
+    '>': 'gt',
+    '>=': 'gte',
+    '<': 'lt',
+    '<=': 'lte'
+};
+
+/** Predicates written as `field is <name>` and the operators they map to */
+const IS_PREDICATES: Record<string, string> = {
+    email: 'isEmail',
+    url: 'isURL',
+    uuid: 'isUUID',
+    empty: 'isEmpty',
+    today: 'isToday',
+    weekday: 'isWeekday',
+    weekend: 'isWeekend',
+    leapYear: 'isLeapYear',
+    string: 'isString',
+    number: 'isNumber',
+    boolean: 'isBoolean',
+    date: 'isDate',
+    array: 'isArray',
+    object: 'isObject',
+    integer: 'isInteger',
+    finite: 'isFinite',
+    bigint: 'isBigInt',
+    plainObject: 'isPlainObject',
+    validDate: 'isValidDate',
+    map: 'isMap',
+    set: 'isSet',
+    function: 'isFunction',
+    promise: 'isPromise',
+    null: 'isNull',
+    undefined: 'isUndefined',
+    nullish: 'isNullish'
+};
+
+/** Word operators taking a single value, e.g. `name startsWith "A"` */
+const WORD_OPERATORS: Record<string, string> = {
+    contains: 'contains',
+    startsWith: 'startsWith',
+    endsWith: 'endsWith',
+    matches: 'matches',
+    after: 'isAfter',
+    before: 'isBefore',
+    minLength: 'minLength',
+    maxLength: 'maxLength',
+    has: 'hasProperty'
+};
+
+/** Keywords that can't be used as field references in value position */
+const RESERVED_WORDS = new Set(['and', 'or', 'not', 'is', 'between', 'then']);
+
+/** Aggregate functions and the maximum number of arguments they accept */
+const FUNCTIONS: Record<CallNode['callee'], number> = {
+    sum: Infinity,
+    min: Infinity,
+    max: Infinity,
+    avg: Infinity,
+    count: 1
+};
+
+/** Words accepted after a number to write a duration, e.g. `30 days` */
+const DURATION_UNITS: Record<string, DurationUnit> = {
+    millisecond: 'milliseconds',
+    milliseconds: 'milliseconds',
+    second: 'seconds',
+    seconds: 'seconds',
+    minute: 'minutes',
+    minutes: 'minutes',
+    hour: 'hours',
+    hours: 'hours',
+    day: 'days',
+    days: 'days',
+    week: 'weeks',
+    weeks: 'weeks'
+};
+
+/**
+ * Parses DSL source into an expression tree.
+ *
+ * The grammar, from lowest to highest precedence:
+ *
+ * ```text
+ * expression := and ("or" and)*
+ * and        := unary ("and" unary)*
+ * unary      := "not" unary | "(" expression ")" | predicate
+ * predicate  := operand ( compare operand
+ *                       | "is" ["not"] name
+ *                       | ["not"] "between" operand "and" operand
+ *                       | ["not"] word operand ) ["with" option ("," option)*]
+ * option     := name ["=" ["-"] number | string | true | false]
+ * operand    := term (("+" | "-") term)*
+ * term       := factor (("*" | "/" | "%") factor)*
+ * factor     := "-" factor | "(" operand ")" | call | value
+ * call       := ("sum" | "min" | "max" | "avg" | "count") "(" operand ("," operand)* ")"
+ * value      := number [unit] | string | true | false | null | date(string) | field
+ * unit       := millisecond(s) | second(s) | minute(s) | hour(s) | day(s) | week(s)
+ * ```
+ *
+ * A field in operand position references another field of the fact, e.g.
+ * `deliveredAt after shippedAt`, and arithmetic computes a value from
+ * fields and constants, e.g. `endDate - startDate <= 30 days`. Options after
+ * `with` become the rule's operator options, e.g. `status == "ACTIVE" with caseInsensitive`
+ * or `total == 0.3 with epsilon = 0.001`; an option without a value is `true`. Rules with
+ * actions are parsed with {@link parseProduction}.
+ *
+ * @param source - The DSL source
+ * @returns The root node of the expression
+ * @throws {DslSyntaxError} When the source is not a valid expression
+ *
+ * @example
+ * ```typescript
+ * const ast = parse("user.age >= 18 and user.email is email and signupDate is weekday");
+ * ast.type; // 'Logical'
+ * ```
+ *
+ * @public
+ */
+export function parse(source: string): ExpressionNode {
+    return new Parser(source).parse();
+}
+
+/**
+ * Parses DSL source of a rule with actions.
+ *
+ * ```text
+ * production := "if" expression "then" action ("and" action)*
+ * action     := "set" field "=" operand
+ *             | "emit" (name | string) ["with" operand]
+ * ```
+ *
+ * @param source - The DSL source
+ * @returns The production node
+ * @throws {DslSyntaxError} When the source is not a valid production
+ *
+ * @example
+ * ```typescript
+ * const node = parseProduction("if cart.total > 100 then set cart.freeShipping = true and emit freeShipping");
+ * node.actions.map(action => action.type); // ['SetAction', 'EmitAction']
+ * ```
+ *
+ * @public
+ */
+export function parseProduction(source: string): ProductionNode {
+    return new Parser(source).parseProduction();
+}
+
+/**
+ * Parses DSL source that is either an expression or, when it starts with
+ * `if`, a rule with actions (see {@link parseProduction}).
+ *
+ * @param source - The DSL source
+ * @returns The expression or production node
+ * @throws {DslSyntaxError} When the source is not valid
+ *
+ * @example
+ * ```typescript
+ * parseStatement("age >= 18").type;                          // 'Predicate'
+ * parseStatement("if age >= 18 then set adult = true").type; // 'Production'
+ * ```
+ *
+ * @public
+ */
+export function parseStatement(source: string): ExpressionNode | ProductionNode {
+    const parser = new Parser(source);
+    return parser.startsProduction() ? parser.parseProduction() : parser.parse();
+}
+
+/**
+ * Parses DSL source of a single operand, such as the arithmetic expressions
+ * of computed rule values.
+ *
+ * @param source - The DSL source, e.g. `"sum(items[*].price) * (1 + taxRate)"`
+ * @returns The operand node
+ * @throws {DslSyntaxError} When the source is not a valid operand
+ *
+ * @example
+ * ```typescript
+ * const node = parseOperand("endDate - startDate");
+ * node.type; // 'Binary'
+ * ```
+ *
+ * @public
+ */
+export function parseOperand(source: string): ValueNode {
+    return new Parser(source).parseOperand();
+}
+
+/**
+ * Recursive-descent parser over the token stream of a DSL source.
+ *
+ * @internal
+ */
+class Parser {
+    private readonly tokens: Token[];
+    private index = 0;
+
+    constructor(private readonly source: string) {
+        this.tokens = tokenize(source);
+    }
+
+    /**
+     * Parses the whole source as a single expression.
+     *
+     * @returns The root expression node
+     */
+    parse(): ExpressionNode {
+        const expression = this.parseOr();
+        const token = this.peek();
+        if (token.type !== 'eof') {
+            throw this.error(`Unexpected ${this.describe(token)}`, token);
+        }
+
+        return expression;
+    }
+
+    /**
+     * Parses the whole source as a rule with actions.
+     *
+     * @returns The production node
+     */
+    parseProduction(): ProductionNode {
+        const start = this.peek();
+        this.expectKeyword('if', 'Expected "if"');
+        const condition = this.parseOr();
+        this.expectKeyword('then', 'Expected "then" after the condition');
+
+        const actions = [this.parseAction()];
+        while (this.matchKeyword('and')) {
+            actions.push(this.parseAction());
+        }
+
+        const token = this.peek();
+        if (token.type !== 'eof') {
+            throw this.error(`Unexpected ${this.describe(token)}`, token);
+        }
+
+        return { type: 'Production', condition, actions, position: start.position };
+    }
+
+    /**
+     * Whether the source starts with `if` used as a keyword rather than as a field.
+     *
+     * @returns `true` when the source is a production
+     */
+    startsProduction(): boolean {
+        const [first, second] = this.tokens as [Token, Token];
+        return first.type === 'identifier' && first.value === 'if' && second.type !== 'operator' && second.type !== 'eof';
+    }
+
+    /**
+     * Parses the whole source as a single operand.
+     *
+     * @returns The operand node
+     */
+    parseOperand(): ValueNode {
+        const operand = this.parseValue();
+        const token = this.peek();
+        if (token.type !== 'eof') {
+            throw this.error(`Unexpected ${this.describe(token)}`, token);
+        }
+
+        return operand;
+    }
+
+    private parseOr(): ExpressionNode {
+        let left = this.parseAnd();
+        while (this.matchKeyword('or')) {
+            left = { type: 'Logical', operator: 'or', left, right: this.parseAnd(), position: left.position };
+        }
+
+        return left;
+    }
+
+    private parseAnd(): ExpressionNode {
+        let left = this.parseUnary();
+        while (this.matchKeyword('and')) {
+            left = { type: 'Logical', operator: 'and', left, right: this.parseUnary(), position: left.position };
+        }
+
+        return left;
+    }
+
+    private parseUnary(): ExpressionNode {
+        const token = this.peek();
+
+        if (this.matchKeyword('not')) {
+            return { type: 'Not', operand: this.parseUnary(), position: token.position };
+        }
+        if (token.type === 'lparen') {
+            const start = this.index;
+            try {
+                this.next();
+                const expression = this.parseOr();
+                this.expect('rparen', 'Expected ")" to close "("');
+                return expression;
+            } catch (groupError) {
+                // `(a + b) > 3` starts with a parenthesized operand rather than a group
+                this.index = start;
+                try {
+                    return this.parsePredicate();
+                } catch (operandError) {
+                    throw furthest(groupError as DslSyntaxError, operandError as DslSyntaxError);
+                }
+            }
+        }
+        if (token.type === 'identifier' || token.type === 'number' || (token.type === 'operator' && token.value === '-')) {
+            return this.parsePredicate();
+        }
+
+        throw this.error(`Expected a field but found ${this.describe(token)}`, token);
+    }
+
+    private parsePredicate(): ExpressionNode {
+        const subject = this.parseValue();
+        const token = this.peek();
+
+        if (token.type === 'operator' && token.value in COMPARISON_OPERATORS) {
+            this.next();
+            return this.parseOptions(this.predicate(subject, COMPARISON_OPERATORS[token.value] as string, [this.parseValue()]));
+        }
+
+        if (this.matchKeyword('is')) {
+            const negated = this.matchKeyword('not');
+            const nameToken = this.peek();
+            const operator = nameToken.type === 'identifier' && Object.hasOwn(IS_PREDICATES, nameToken.value)
+                ? IS_PREDICATES[nameToken.value] as string
+                : undefined;
+            if (!operator) {
+                throw this.error(`Unknown predicate ${this.describe(nameToken)} after "is"`, nameToken);
+            }
+            this.next();
+            return this.negate(negated, this.parseOptions(this.predicate(subject, operator, [])), token);
+        }
+
+        const negated = this.matchKeyword('not');
+        const wordToken = this.peek();
+
+        if (this.matchKeyword('between')) {
+            const min = this.parseValue();
+            this.expectKeyword('and', 'Expected "and" between the bounds of "between"');
+            const max = this.parseValue();
+            return this.parseOptions(this.predicate(subject, negated ? 'notBetween' : 'between', [min, max]));
+        }
+
+        if (wordToken.type === 'identifier' && Object.hasOwn(WORD_OPERATORS, wordToken.value)) {
+            this.next();
+            const predicate = this.predicate(subject, WORD_OPERATORS[wordToken.value] as string, [this.parseValue()]);
+            return this.negate(negated, this.parseOptions(predicate), token);
+        }
+
+        const subjectName = subject.type === 'Field' ? `field "${subject.path}"` : 'expression';
+        throw this.error(`Expected an operator after ${subjectName} but found ${this.describe(wordToken)}`, wordToken);
+    }
+
+    private parseOptions(predicate: PredicateNode): PredicateNode {
+        if (!this.matchKeyword('with')) return predicate;
+
+        const options: Record<string, string | number | boolean> = {};
+        this.parseOption(options);
+        while (this.peek().type === 'comma') {
+            this.next();
+            this.parseOption(options);
+        }
+
+        return { ...predicate, options };
+    }
+
+    private parseOption(options: Record<string, string | number | boolean>): void {
+        const name = this.expect('identifier', 'Expected an option name');
+        if (Object.hasOwn(options, name.value)) {
+            throw this.error(`Duplicate option "${name.value}"`, name);
+        }
+
+        options[name.value] = true;
+        if (this.isOperator(this.peek(), '=')) {
+            this.next();
+            options[name.value] = this.parseOptionValue();
+        }
+    }
+
+    private parseOptionValue(): string | number | boolean {
+        const token = this.next();
+        const negative = this.isOperator(token, '-');
+        const value = negative ? this.next() : token;
+
+        if (value.type === 'number') return negative ? -Number(value.value) : Number(value.value);
+        if (!negative && value.type === 'string') return value.value;
+        if (!negative && value.type === 'identifier' && (value.value === 'true' || value.value === 'false')) return value.value === 'true';
+
+        throw this.error(`Expected an option value but found ${this.describe(value)}`, value);
+    }
+
+    private parseAction(): ActionNode {
+        const token = this.peek();
+
+        if (this.matchKeyword('set')) {
+            const path = this.expect('identifier', 'Expected a field after "set"');
+            const equals = this.peek();
+            if (!this.isOperator(equals, '=')) {
+                throw this.error(`Expected "=" after field "${path.value}" but found ${this.describe(equals)}`, equals);
+            }
+            this.next();
+            return { type: 'SetAction', path: path.value, value: this.parseValue(), position: token.position };
+        }
+
+        if (this.matchKeyword('emit')) {
+            const name = this.peek();
+            if (name.type !== 'identifier' && name.type !== 'string') {
+                throw this.error(`Expected an event name after "emit" but found ${this.describe(name)}`, name);
+            }
+            this.next();
+            const action: ActionNode = { type: 'EmitAction', name: name.value, position: token.position };
+            if (this.matchKeyword('with')) action.payload = this.parseValue();
+            return action;
+        }
+
+        throw this.error(`Expected "set" or "emit" but found ${this.describe(token)}`, token);
+    }
+
+    private parseValue(): ValueNode {
+        let left = this.parseTerm();
+        for (let token = this.peek(); this.isOperator(token, '+', '-'); token = this.peek()) {
+            this.next();
+            left = { type: 'Binary', operator: token.value as BinaryNode['operator'], left, right: this.parseTerm(), position: left.position };
+        }
+
+        return left;
+    }
+
+    private parseTerm(): ValueNode {
+        let left = this.parseFactor();
+        for (let token = this.peek(); this.isOperator(token, '*', '/', '%'); token = this.peek()) {
+            this.next();
+            left = { type: 'Binary', operator: token.value as BinaryNode['operator'], left, right: this.parseFactor(), position: left.position };
+        }
+
+        return left;
+    }
+
+    private parseFactor(): ValueNode {
+        const token = this.peek();
+        if (!this.isOperator(token, '-')) return this.parsePrimary();
+
+        this.next();
+        const operand = this.parseFactor();
+        if (operand.type === 'Literal' && typeof operand.value === 'number') {
+            return { ...operand, value: -operand.value, position: token.position };
+        }
+        if (operand.type === 'Duration') {
+            return { ...operand, value: -operand.value, position: token.position };
+        }
+
+        return { type: 'Negate', operand, position: token.position };
+    }
+
+    private parsePrimary(): ValueNode {
+        const token = this.next();
+        const literal = (value: LiteralNode['value']): LiteralNode => ({ type: 'Literal', value, position: token.position });
+
+        switch (token.type) {
+            case 'number': {
+                const unit = this.peek();
+                if (unit.type === 'identifier' && Object.hasOwn(DURATION_UNITS, unit.value)) {
+                    this.next();
+                    const durationUnit = DURATION_UNITS[unit.value] as DurationUnit;
+                    return { type: 'Duration', value: Number(token.value), unit: durationUnit, position: token.position };
+                }
+                return literal(Number(token.value));
+            }
+            case 'string':
+                return literal(token.value);
+            case 'lparen': {
+                const operand = this.parseValue();
+                this.expect('rparen', 'Expected ")" to close "("');
+                return operand;
+            }
+            case 'identifier':
+                if (token.value === 'true' || token.value === 'false') return literal(token.value === 'true');
+                if (token.value === 'null') return literal(null);
+                if (token.value === 'date' && this.peek().type === 'lparen') return literal(this.parseDate());
+                if (this.peek().type === 'lparen') return this.parseCall(token);
+                if (!RESERVED_WORDS.has(token.value)) return { type: 'Field', path: token.value, position: token.position };
+                break;
+        }
+
+        throw this.error(`Expected a value but found ${this.describe(token)}`, token);
+    }
+
+    private parseCall(nameToken: Token): CallNode {
+        if (!Object.hasOwn(FUNCTIONS, nameToken.value)) {
+            throw this.error(`Unknown function "${nameToken.value}"`, nameToken);
+        }
+
+        const callee = nameToken.value as CallNode['callee'];
+        const args: ValueNode[] = [];
+        this.next();
+        if (this.peek().type !== 'rparen') {
+            args.push(this.parseValue());
+            while (this.peek().type === 'comma') {
+                this.next();
+                args.push(this.parseValue());
+            }
+        }
+        this.expect('rparen', `Expected ")" to close "${callee}("`);
+
+        const max = FUNCTIONS[callee];
+        if (args.length === 0 || args.length > max) {
+            const expected = max === 1 ? '1 argument' : 'at least 1 argument';
+            throw this.error(`Function "${callee}" expects ${expected} but received ${args.length}`, nameToken);
+        }
+
+        return { type: 'Call', callee, args, position: nameToken.position };
+    }
+
+    private parseDate(): Date {
+        this.expect('lparen', 'Expected "(" after "date"');
+        const token = this.expect('string', 'Expected a date string');
+        this.expect('rparen', 'Expected ")" to close "date("');
+
+        const date = new Date(token.value);
+        if (isNaN(date.getTime())) {
+            throw this.error(`Invalid date "${token.value}"`, token);
+        }
+
+        return date;
+    }
+
+    private predicate(subject: ValueNode, operator: string, args: ValueNode[]): PredicateNode {
+        return { type: 'Predicate', subject, operator, args, position: subject.position };
+    }
+
+    private negate(negated: boolean, operand: ExpressionNode, token: Token): ExpressionNode {
+        return negated ? { type: 'Not', operand, position: token.position } : operand;
+    }
+
+    private peek(): Token {
+        return this.tokens[this.index] as Token;
+    }
+
+    private next(): Token {
+        const token = this.peek();
+        if (token.type !== 'eof') this.index++;
+        return token;
+    }
+
+    private isOperator(token: Token, ...operators: string[]): boolean {
+        return token.type === 'operator' && operators.includes(token.value);
+    }
+
+    private matchKeyword(keyword: string): boolean {
+        const token = this.peek();
+        if (token.type === 'identifier' && token.value === keyword) {
+            this.index++;
+            return true;
+        }
+
+        return false;
+    }
+
+    private expect(type: TokenType, message: string): Token {
+        const token = this.peek();
+        if (token.type !== type) {
+            throw this.error(`${message} but found ${this.describe(token)}`, token);
+        }
+
+        return this.next();
+    }
+
+    private expectKeyword(keyword: string, message: string): void {
+        const token = this.peek();
+        if (!this.matchKeyword(keyword)) {
+            throw this.error(`${message} but found ${this.describe(token)}`, token);
+        }
+    }
+
+    private describe(token: Token): string {
+        if (token.type === 'eof') return 'end of input';
+        if (token.type === 'string') return `string "${token.value}"`;
+        return `"${token.value}"`;
+    }
+
+    private error(reason: string, token: Token): DslSyntaxError {
+        return new DslSyntaxError(reason, this.source, token.position);
+    }
+}
+
+/**
+ * Picks the syntax error found furthest into the source, the most likely
+ * to point at the actual mistake when two parses were attempted.
+ *
+ * @param first - Error of the first attempt
+ * @param second - Error of the second attempt
+ * @returns The error with the later position
+ */
+function furthest(first: DslSyntaxError, second: DslSyntaxError): DslSyntaxError {
+    if (second.line !== first.line) return second.line > first.line ? second : first;
+    return second.column > first.column ? second : first;
+}
@@ -0,0 +1,204 @@
+/**
+ * @fileoverview Maps DSL expression trees to engine conditions.
+ * @module DslToCondition
+ * @version 1.0.0
+ * @author Felix M. Martinez
+ * @since 1.0.0
+ */
+
+import type { Action, Condition, Rule } from "@/core/types";
+import { ActionNode, BinaryNode, ExpressionNode, LiteralNode, LogicalNode, ProductionNode, ValueNode } from "./ast";
+import { parseStatement } from "./parser";
+
+/**
+ * Converts a DSL expression tree into a condition for the {@link ValidraEngine}.
+ *
+ * Predicates become rules whose operator resolves to the matching helper
+ * method, `and`/`or` chains become flat `all`/`any` groups and negations
+ * become `not` groups. Fields in value position become `{ ref }` references,
+ * arithmetic becomes `expr` subjects and `{ expr }` operands and `with` settings become rule `options`.
+ * Comparisons with `null` (`a == null`, `a != null`) become `isNull` rules,
+ * as the `eq` and `neq` operators require both values.
+ *
+ * @param node - The expression to convert
+ * @returns The equivalent engine condition
+ *
+ * @example
+ * ```typescript
+ * toCondition(parse("age >= 18 and email is email"));
+ * // { all: [{ field: "age", op: "gte", value: 18 }, { field: "email", op: "isEmail" }] }
+ * ```
+ *
+ * @public
+ */
+export function toCondition(node: ExpressionNode): Condition {
+    switch (node.type) {
+        case 'Predicate': {
+            const nullCheck = isNullComparison(node.operator, node.args);
+            const op = nullCheck ? 'isNull' : node.operator;
+            const rule: Rule = node.subject.type === 'Field'
+                ? { field: node.subject.path, op }
+                : { expr: formatOperand(node.subject), op };
+            if (nullCheck) return node.operator === 'neq' ? { not: rule } : rule;
+            if (node.args.length === 1) rule.value = toValue(node.args[0] as ValueNode);
+            if (node.args.length > 1) rule.value = node.args.map(toValue);
+            if (node.options) rule.options = { ...node.options };
+            return rule;
+        }
+        case 'Not':
+            return { not: toCondition(node.operand) };
+        case 'Logical': {
+            const conditions = flatten(node, node.operator).map(toCondition);
+            return node.operator === 'and' ? { all: conditions } : { any: conditions };
+        }
+    }
+}
+
+/**
+ * Converts a DSL rule with actions into a condition with `then` actions.
+ *
+ * `set` actions keep their field path and `emit` actions their event name;
+ * values and payloads are converted like predicate arguments.
+ *
+ * @param node - The production to convert
+ * @returns The equivalent engine condition
+ *
+ * @example
+ * ```typescript
+ * toProduction(parseProduction("if cart.total > 100 then set cart.freeShipping = true"));
+ * // { field: "cart.total", op: "gt", value: 100, then: [{ set: "cart.freeShipping", value: true }] }
+ * ```
+ *
+ * @public
+ */
+export function toProduction(node: ProductionNode): Condition {
+    return { ...toCondition(node.condition), then: node.actions.map(toAction) };
+}
+
+/**
+ * Parses DSL source and converts it into an engine condition.
+ *
+ * Source starting with `if` is read as a rule with actions, e.g.
+ * `if cart.total > 100 then set cart.freeShipping = true and emit freeShipping`.
+ *
+ * @param source - The DSL source
+ * @returns The equivalent engine condition
+ * @throws {DslSyntaxError} When the source is not a valid expression
+ *
+ * @example
+ * ```typescript
+ * const engine = new ValidraEngine([
+ *   parseRule("user.age >= 18 and user.email is email and signupDate is weekday"),
+ *   parseRule("if cart.total > 100 then set cart.freeShipping = true")
+ * ]);
+ * ```
+ *
+ * @public
+ */
+export function parseRule(source: string): Condition {
+    const node = parseStatement(source);
+    return node.type === 'Production' ? toProduction(node) : toCondition(node);
+}
+
+/** Binding strength of arithmetic operators, higher binds tighter */
+const PRECEDENCE: Record<BinaryNode['operator'], number> = { '+': 1, '-': 1, '*': 2, '/': 2, '%': 2 };
+
+/**
+ * Whether a predicate compares its subject with the `null` literal.
+ *
+ * @param operator - The operator of the predicate
+ * @param args - The arguments of the predicate
+ * @returns `true` for `== null` and `!= null`
+ */
+function isNullComparison(operator: string, args: readonly ValueNode[]): boolean {
+    const [arg] = args;
+    return (operator === 'eq' || operator === 'neq') && args.length === 1 && arg?.type === 'Literal' && arg.value === null;
+}
+
+/**
+ * Converts a predicate argument into a rule value.
+ *
+ * @param node - The argument
+ * @returns The constant, a reference to the field or the expression
+ */
+function toValue(node: ValueNode): unknown {
+    switch (node.type) {
+        case 'Literal':
+            return node.value;
+        case 'Field':
+            return { ref: node.path };
+        default:
+            return { expr: formatOperand(node) };
+    }
+}
+
+/**
+ * Converts a DSL action into an engine action.
+ *
+ * @param node - The action
+ * @returns The `set` or `emit` action
+ */
+function toAction(node: ActionNode): Action {
+    if (node.type === 'SetAction') return { set: node.path, value: toValue(node.value) };
+    return node.payload === undefined ? { emit: node.name } : { emit: node.name, payload: toValue(node.payload) };
+}
+
+/**
+ * Writes an operand back as DSL source, adding only the parentheses its
+ * structure requires.
+ *
+ * @param node - The operand
+ * @returns The source of the operand
+ */
+function formatOperand(node: ValueNode): string {
+    switch (node.type) {
+        case 'Literal':
+            return formatLiteral(node.value);
+        case 'Field':
+            return node.path;
+        case 'Duration':
+            return `${node.value} ${node.unit}`;
+        case 'Negate':
+            return `-${node.operand.type === 'Binary' ? `(${formatOperand(node.operand)})` : formatOperand(node.operand)}`;
+        case 'Call':
+            return `${node.callee}(${node.args.map(formatOperand).join(', ')})`;
+        case 'Binary': {
+            const precedence = PRECEDENCE[node.operator];
+            const wrap = (operand: ValueNode, strict: boolean): string => {
+                const source = formatOperand(operand);
+                if (operand.type !== 'Binary') return source;
+
+                const inner = PRECEDENCE[operand.operator];
+                return inner < precedence || (strict && inner === precedence) ? `(${source})` : source;
+            };
+
+            return `${wrap(node.left, false)} ${node.operator} ${wrap(node.right, true)}`;
+        }
+    }
+}
+
+/**
+ * Writes a constant as DSL source.
+ *
+ * @param value - The constant
+ * @returns The source of the constant
+ */
+function formatLiteral(value: LiteralNode['value']): string {
+    if (value instanceof Date) return `date(${JSON.stringify(value.toISOString())})`;
+    return typeof value === 'string' ? JSON.stringify(value) : String(value);
+}
+
+/**
+ * Collects the operands of a chain of logical nodes sharing the same operator.
+ *
+ * @param node - The expression to flatten
+ * @param operator - The operator of the chain
+ * @returns The operands, left to right
+ */
+function flatten(node: ExpressionNode, operator: LogicalNode['operator']): ExpressionNode[] {
+    if (node.type === 'Logical' && node.operator === operator) {
+        return [...flatten(node.left, operator), ...flatten(node.right, operator)];
+    }
+
+    return [node];
+}
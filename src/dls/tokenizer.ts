@@ -0,0 +1,187 @@
+/**
+ * @fileoverview Zero-dependency tokenizer for the Validra DSL.
+ * @module DslTokenizer
+ * @version 1.0.0
+ * @author Felix M. Martinez
+ * @since 1.0.0
+ */
+
+import { SourcePosition } from "./ast";
+import { DslSyntaxError } from "./dsl-syntax-error";
+
+/**
+ * Kinds of tokens produced by {@link tokenize}.
+ *
+ * Keywords such as `and`, `is` or `between` are produced as `identifier`
+ * tokens and recognized by the parser.
+ *
+ * @public
+ */
+export type TokenType = 'identifier' | 'number' | 'string' | 'operator' | 'lparen' | 'rparen' | 'comma' | 'eof';
+
+/**
+ * A lexical token of the DSL.
+ *
+ * @public
+ */
+export interface Token {
+    type: TokenType;
+    /** Token text; for strings, the unescaped content without quotes */
+    value: string;
+    position: SourcePosition;
+}
+
+/** Symbolic operators, longest first so `>=` wins over `>` */
+const OPERATORS = ['>=', '<=', '==', '!=', '>', '<', '=', '+', '-', '*', '/', '%'];
+
+/** Escape sequences supported inside string literals */
+const ESCAPES: Record<string, string> = { n: '\n', t: '\t', r: '\r', '\\': '\\', '"': '"', "'": "'" };
+
+const IDENTIFIER_START = /[A-Za-z_$]/;
+const IDENTIFIER_PART = /[\w$]/;
+const DIGIT = /[0-9]/;
+
+/**
+ * Splits DSL source into tokens.
+ *
+ * Field paths such as `user.address.zip` or `items[*]?.price` are produced
+ * as a single `identifier` token. Whitespace, including new lines, separates tokens
+ * and `#` starts a comment that runs to the end of the line.
+ *
+ * @param source - The DSL source
+ * @returns The tokens, always terminated by an `eof` token
+ * @throws {DslSyntaxError} On unexpected characters and unterminated strings
+ *
+ * @example
+ * ```typescript
+ * tokenize("user.age >= 18").map(t => t.type);
+ * // ['identifier', 'operator', 'number', 'eof']
+ * ```
+ *
+ * @public
+ */
+export function tokenize(source: string): Token[] {
+    const tokens: Token[] = [];
+    let offset = 0;
+    let line = 1;
+    let column = 1;
+
+    const position = (): SourcePosition => ({ offset, line, column });
+    const advance = (count = 1): void => {
+        for (let i = 0; i < count; i++) {
+            if (source[offset] === '\n') {
+                line++;
+                column = 1;
+            } else {
+                column++;
+            }
+            offset++;
+        }
+    };
+
+    while (offset < source.length) {
+        const char = source[offset] as string;
+        const start = position();
+
+        if (/\s/.test(char)) {
+            advance();
+            continue;
+        }
+
+        if (char === '#') {
+            while (offset < source.length && source[offset] !== '\n') advance();
+            continue;
+        }
+
+        if (IDENTIFIER_START.test(char)) {
+            let end = offset;
+            while (end < source.length) {
+                if (IDENTIFIER_PART.test(source[end] as string)) {
+                    end++;
+                } else if (source[end] === '.' && IDENTIFIER_PART.test(source[end + 1] ?? '')) {
+                    end++;
+                } else if (source.startsWith('?.', end) && /[\w$[]/.test(source[end + 2] ?? '')) {
+                    end += 2;
+                } else if (source[end] === '[') {
+                    const close = source.indexOf(']', end);
+                    if (close === -1) {
+                        advance(end - offset);
+                        throw new DslSyntaxError('Expected "]" to close "["', source, position());
+                    }
+                    end = close + 1;
+                } else {
+                    break;
+                }
+            }
+            tokens.push({ type: 'identifier', value: source.slice(offset, end), position: start });
+            advance(end - offset);
+            continue;
+        }
+
+        if (DIGIT.test(char)) {
+            const match = /^[0-9]+(\.[0-9]+)?([eE][+-]?[0-9]+)?/.exec(source.slice(offset)) as RegExpExecArray;
+            tokens.push({ type: 'number', value: match[0], position: start });
+            advance(match[0].length);
+            continue;
+        }
+
+        if (char === '"' || char === "'") {
+            tokens.push({ type: 'string', value: readString(), position: start });
+            continue;
+        }
+
+        if (char === '(' || char === ')' || char === ',') {
+            tokens.push({ type: char === '(' ? 'lparen' : char === ')' ? 'rparen' : 'comma', value: char, position: start });
+            advance();
+            continue;
+        }
+
+        const operator = OPERATORS.find(op => source.startsWith(op, offset));
+        if (operator) {
+            tokens.push({ type: 'operator', value: operator, position: start });
+            advance(operator.length);
+            continue;
+        }
+
+        throw new DslSyntaxError(`Unexpected character "${char}"`, source, start);
+    }
+
+    tokens.push({ type: 'eof', value: '', position: position() });
+    return tokens;
+
+    /**
+     * Reads a quoted string starting at the current offset.
+     *
+     * @returns The unescaped string content
+     */
+    function readString(): string {
+        const start = position();
+        const quote = source[offset];
+        let value = '';
+        advance();
+
+        while (offset < source.length && source[offset] !== quote) {
+            const char = source[offset] as string;
+            if (char === '\n') break;
+
+            if (char === '\\') {
+                const escaped = source[offset + 1] ?? '';
+                if (!(escaped in ESCAPES)) {
+                    throw new DslSyntaxError(`Invalid escape sequence "\\${escaped}"`, source, position());
+                }
+                value += ESCAPES[escaped];
+                advance(2);
+            } else {
+                value += char;
+                advance();
+            }
+        }
+
+        if (source[offset] !== quote) {
+            throw new DslSyntaxError('Unterminated string literal', source, start);
+        }
+
+        advance();
+        return value;
+    }
+}
@@ -0,0 +1,4 @@
+export * from './core';
+export * from './dls';
+export * from './operations';
+export * from './utils';
@@ -0,0 +1,147 @@
+/**
+ * @fileoverview Built-in operators mapping rule operator names to the DSL helpers.
+ * @module BuiltInOperators
+ * @version 1.0.0
+ * @author Felix M. Martinez
+ * @since 1.0.0
+ */
+
+import { CollectionChecker, Comparison, DateMatcher, Equality, EqualityOptions, StringChecker, TypeChecker } from "@/dls/helpers";
+import { ValidraArgumentError, ValidraArray, ValidraRecord, ValidraTypeError, ValidraValue } from "@/utils";
+import { OperatorDefinition } from "./types";
+
+/**
+ * Built-in operators registered in every {@link OperatorRegistry} by default.
+ *
+ * Every public helper method is exposed under a short operator name.
+ * `contains` and `isEmpty` dispatch on the field value: strings are handled by
+ * {@link StringChecker}, arrays and objects by {@link CollectionChecker}.
+ * `eq` and `neq` accept {@link EqualityOptions} as rule `options`.
+ *
+ * @public
+ */
+export const BUILT_IN_OPERATORS: ReadonlyArray<OperatorDefinition> = [
+    // Equality
+    {
+        name: 'eq',
+        fn: (a: ValidraValue, b: ValidraValue, options?: unknown) => Equality.isEqual(a, b, options as EqualityOptions | undefined),
+        arity: 1,
+        argTypes: ['any'],
+        configure: options => Equality.checkOptions(options)
+    },
+    {
+        name: 'neq',
+        fn: (a: ValidraValue, b: ValidraValue, options?: unknown) => Equality.isNotEqual(a, b, options as EqualityOptions | undefined),
+        arity: 1,
+        argTypes: ['any'],
+        configure: options => Equality.checkOptions(options)
+    },
+
+    // Comparison
+    { name: 'gt', fn: (a: number, b: number) => Comparison.isGreaterThan(a, b), arity: 1, argTypes: ['number'] },
+    { name: 'gte', fn: (a: number, b: number) => Comparison.isGreaterThanOrEqual(a, b), arity: 1, argTypes: ['number'] },
+    { name: 'lt', fn: (a: number, b: number) => Comparison.isLessThan(a, b), arity: 1, argTypes: ['number'] },
+    { name: 'lte', fn: (a: number, b: number) => Comparison.isLessThanOrEqual(a, b), arity: 1, argTypes: ['number'] },
+    { name: 'between', fn: (a: number, min: number, max: number) => Comparison.between(a, min, max), arity: 2, argTypes: ['number', 'number'] },
+    { name: 'notBetween', fn: (a: number, min: number, max: number) => Comparison.notBetween(a, min, max), arity: 2, argTypes: ['number', 'number'] },
+
+    // Strings and collections
+    {
+        name: 'contains',
+        fn: (a: string | ValidraArray | ValidraRecord, b: ValidraValue) =>
+            TypeChecker.isString(a) ? StringChecker.contains(a, b as string) : CollectionChecker.contains(a, b),
+        arity: 1,
+        argTypes: ['any']
+    },
+    {
+        name: 'isEmpty',
+        fn: (a: string | ValidraArray | ValidraRecord) => TypeChecker.isString(a) ? StringChecker.isEmpty(a) : CollectionChecker.isEmpty(a),
+        arity: 0,
+        argTypes: []
+    },
+    { name: 'hasProperty', fn: (a: ValidraRecord, b: string | string[]) => CollectionChecker.hasProperty(a, b), arity: 1, argTypes: ['any'] },
+    { name: 'startsWith', fn: (a: string, b: string) => StringChecker.startsWith(a, b), arity: 1, argTypes: ['string'] },
+    { name: 'endsWith', fn: (a: string, b: string) => StringChecker.endsWith(a, b), arity: 1, argTypes: ['string'] },
+    {
+        name: 'matches',
+        fn: (a: string, b: unknown) => StringChecker.regexMatch(a, toPattern(b)),
+        arity: 1,
+        argTypes: ['any'],
+        prepare: ([pattern]) => [toPattern(pattern)]
+    },
+    { name: 'isEmail', fn: (a: string) => StringChecker.isEmail(a), arity: 0, argTypes: [] },
+    { name: 'isURL', fn: (a: string) => StringChecker.isURL(a), arity: 0, argTypes: [] },
+    { name: 'isUUID', fn: (a: string) => StringChecker.isUUID(a), arity: 0, argTypes: [] },
+    { name: 'minLength', fn: (a: string, b: number) => StringChecker.minLength(a, b), arity: 1, argTypes: ['number'] },
+    { name: 'maxLength', fn: (a: string, b: number) => StringChecker.maxLength(a, b), arity: 1, argTypes: ['number'] },
+
+    // Dates
+    { name: 'isAfter', fn: (a: Date, b: Date) => DateMatcher.isAfter(a, b), arity: 1, argTypes: ['date'] },
+    { name: 'isBefore', fn: (a: Date, b: Date) => DateMatcher.isBefore(a, b), arity: 1, argTypes: ['date'] },
+    { name: 'isToday', fn: (a: Date) => DateMatcher.isToday(a), arity: 0, argTypes: [] },
+    { name: 'isWeekend', fn: (a: Date) => DateMatcher.isWeekend(a), arity: 0, argTypes: [] },
+    { name: 'isWeekday', fn: (a: Date) => DateMatcher.isWeekday(a), arity: 0, argTypes: [] },
+    { name: 'isLeapYear', fn: (a: Date) => DateMatcher.isLeapYear(a), arity: 0, argTypes: [] },
+
+    // Types
+    { name: 'isString', fn: (a) => TypeChecker.isString(a), arity: 0, argTypes: [] },
+    { name: 'isNumber', fn: (a) => TypeChecker.isNumber(a), arity: 0, argTypes: [] },
+    { name: 'isBoolean', fn: (a) => TypeChecker.isBoolean(a), arity: 0, argTypes: [] },
+    { name: 'isDate', fn: (a) => TypeChecker.isDate(a), arity: 0, argTypes: [] },
+    { name: 'isArray', fn: (a) => TypeChecker.isArray(a), arity: 0, argTypes: [] },
+    { name: 'isObject', fn: (a) => TypeChecker.isObject(a), arity: 0, argTypes: [] },
+    { name: 'isInteger', fn: (a) => TypeChecker.isInteger(a), arity: 0, argTypes: [] },
+    { name: 'isFinite', fn: (a) => TypeChecker.isFinite(a), arity: 0, argTypes: [] },
+    { name: 'isBigInt', fn: (a) => TypeChecker.isBigInt(a), arity: 0, argTypes: [] },
+    { name: 'isPlainObject', fn: (a) => TypeChecker.isPlainObject(a), arity: 0, argTypes: [] },
+    { name: 'isValidDate', fn: (a) => TypeChecker.isValidDate(a), arity: 0, argTypes: [] },
+    { name: 'isMap', fn: (a) => TypeChecker.isMap(a), arity: 0, argTypes: [] },
+    { name: 'isSet', fn: (a) => TypeChecker.isSet(a), arity: 0, argTypes: [] },
+    { name: 'isFunction', fn: (a) => TypeChecker.isFunction(a), arity: 0, argTypes: [] },
+    { name: 'isPromise', fn: (a) => TypeChecker.isPromise(a), arity: 0, argTypes: [] },
+    { name: 'isNull', fn: (a) => TypeChecker.isNull(a), arity: 0, argTypes: [] },
+    { name: 'isUndefined', fn: (a) => TypeChecker.isUndefined(a), arity: 0, argTypes: [] },
+    { name: 'isNullish', fn: (a) => TypeChecker.isNullish(a), arity: 0, argTypes: [] },
+    {
+        name: 'isType',
+        fn: (a: ValidraValue, type: string) => TypeChecker.isType(a, type),
+        arity: 1,
+        argTypes: ['string'],
+        prepare: ([type]) => (TypeChecker.checkType(type as string), [type])
+    }
+];
+
+/**
+ * Builds the regular expression of a `matches` rule.
+ *
+ * Patterns with the `g` or `y` flag are copied without it: those flags make
+ * `test()` resume from the previous match, so a pattern reused across facts
+ * would give alternating results.
+ *
+ * @param pattern - The rule value, a RegExp or a pattern string
+ * @returns A regular expression without state between calls
+ * @throws {ValidraTypeError} When the pattern is neither a string nor a RegExp
+ * @throws {ValidraArgumentError} When the pattern string is not a valid regular expression
+ */
+function toPattern(pattern: unknown): RegExp {
+    if (TypeChecker.isString(pattern)) {
+        try {
+            return new RegExp(pattern);
+        } catch (error) {
+            throw new ValidraArgumentError(`Invalid pattern "${pattern}" for operator "matches": ${(error as Error).message}`, {
+                operator: 'matches',
+                argument: pattern,
+                cause: error
+            });
+        }
+    }
+    if (!(pattern instanceof RegExp)) {
+        throw new ValidraTypeError(`Argument 1 of operator "matches" must be a string or RegExp but got ${TypeChecker.typeOf(pattern)}.`, {
+            operator: 'matches',
+            argument: pattern
+        });
+    }
+    if (!pattern.global && !pattern.sticky) return pattern;
+
+    return new RegExp(pattern.source, pattern.flags.replace(/[gy]/g, ''));
+}
@@ -0,0 +1,3 @@
+export * from './built-in-operators';
+export * from './operator-registry';
+export * from './types';
@@ -0,0 +1,245 @@
+/**
+ * @fileoverview Name-based registry of rule operators.
+ * @module OperatorRegistry
+ * @version 1.0.0
+ * @author Felix M. Martinez
+ * @since 1.0.0
+ */
+
+import { TypeChecker } from "@/dls/helpers";
+import { ValidraArgumentError, ValidraTypeError } from "@/utils";
+import { BUILT_IN_OPERATORS } from "./built-in-operators";
+import { AsyncOperatorFn, OperatorArgType, OperatorDefinition, OperatorFn, OperatorOptions } from "./types";
+
+/**
+ * Maps DSL operator names to their implementations.
+ *
+ * A new registry contains every built-in operator (`gt`, `between`, `contains`,
+ * `isEmail`, `isLeapYear`, ...). Custom domain operators can be added with
+ * {@link OperatorRegistry.register}; registering a name that already exists is
+ * rejected unless `override` is set explicitly.
+ *
+ * @example
+ * ```typescript
+ * const registry = new OperatorRegistry();
+ * registry.register('isValidIban', (value) => ibanPattern.test(value), { arity: 0 });
+ *
+ * registry.has('isValidIban'); // true
+ * registry.get('gt').fn(10, 5); // true
+ *
+ * const engine = new ValidraEngine(rules, { operators: registry });
+ * ```
+ *
+ * @public
+ */
+export class OperatorRegistry {
+    /** Registered operators keyed by name */
+    private readonly operators = new Map<string, OperatorDefinition>();
+
+    /**
+     * Creates a new operator registry.
+     *
+     * @param includeBuiltIns - Whether to register the built-in operators. Defaults to `true`
+     *
+     * @example
+     * ```typescript
+     * const registry = new OperatorRegistry();      // with built-ins
+     * const empty = new OperatorRegistry(false);    // custom operators only
+     * ```
+     */
+    constructor(includeBuiltIns = true) {
+        if (includeBuiltIns) {
+            BUILT_IN_OPERATORS.forEach(operator => this.operators.set(operator.name, operator));
+        }
+    }
+
+    /**
+     * Registers an operator under a name.
+     *
+     * @param name - Name used to reference the operator from rules
+     * @param fn - The operator implementation, receiving the field value followed by the rule arguments
+     * @param options - Arity, argument types, argument preparation, rule options, async and override flags
+     * @returns The registry, to allow chaining
+     * @throws {ValidraArgumentError} When the name is empty, the arity is invalid, the argument types don't match
+     * the arity, or the name is already registered and `override` is not set
+     * @throws {ValidraTypeError} When `fn` is not a function
+     *
+     * @example
+     * ```typescript
+     * registry
+     *   .register('isValidIban', isValidIban, { arity: 0 })
+     *   .register('divisibleBy', (value, n) => value % n === 0, { arity: 1, argTypes: ['number'] });
+     *
+     * // Asynchronous operators are evaluated with engine.evaluateAsync()
+     * registry.register('isUniqueEmail', async (email) => !(await users.exists(email)), { arity: 0, async: true });
+     *
+     * // Replace a built-in explicitly
+     * registry.register('isEmail', strictEmail, { arity: 0, override: true });
+     * ```
+     */
+    register(name: string, fn: OperatorFn | AsyncOperatorFn, options: OperatorOptions): this {
+        if (!TypeChecker.isString(name) || name.length === 0) {
+            throw new ValidraArgumentError('Operator name must be a non-empty string.', { argument: name });
+        }
+        if (typeof fn !== 'function') {
+            throw new ValidraTypeError(`Operator "${name}" must be a function.`, { operator: name, argument: fn });
+        }
+        if (!Number.isInteger(options.arity) || options.arity < 0) {
+            throw new ValidraArgumentError(`Operator "${name}" arity must be a non-negative integer.`, {
+                operator: name,
+                argument: options.arity
+            });
+        }
+
+        const argTypes = options.argTypes ?? new Array<OperatorArgType>(options.arity).fill('any');
+        if (argTypes.length !== options.arity) {
+            throw new ValidraArgumentError(`Operator "${name}" declares ${argTypes.length} argument types for an arity of ${options.arity}.`, {
+                operator: name,
+                argument: argTypes
+            });
+        }
+        if (this.operators.has(name) && !options.override) {
+            throw new ValidraArgumentError(`Operator "${name}" is already registered. Use { override: true } to replace it.`, {
+                operator: name
+            });
+        }
+
+        const operator: OperatorDefinition = { name, fn, arity: options.arity, argTypes: [...argTypes] };
+        if (options.prepare) operator.prepare = options.prepare;
+        if (options.configure) operator.configure = options.configure;
+        if (options.async) operator.async = true;
+
+        this.operators.set(name, operator);
+        return this;
+    }
+
+    /**
+     * Checks whether an operator is registered.
+     *
+     * @param name - The operator name
+     * @returns `true` if an operator with that name exists, `false` otherwise
+     */
+    has(name: string): boolean {
+        return this.operators.has(name);
+    }
+
+    /**
+     * Returns a registered operator.
+     *
+     * @param name - The operator name
+     * @returns The operator definition
+     * @throws {ValidraArgumentError} When no operator is registered under the name
+     */
+    get(name: string): OperatorDefinition {
+        const operator = this.operators.get(name);
+        if (!operator) {
+            throw new ValidraArgumentError(`Unknown operator "${name}".`, { operator: name });
+        }
+
+        return operator;
+    }
+
+    /**
+     * Lists the names of every registered operator.
+     *
+     * @returns The operator names, in registration order
+     */
+    names(): string[] {
+        return [...this.operators.keys()];
+    }
+
+    /**
+     * Checks that a list of rule arguments fits an operator's arity and argument types.
+     *
+     * Arguments only known at evaluation time, such as references to other
+     * fact fields, can be excluded from the type check with `isDynamic`;
+     * they still count towards the arity.
+     *
+     * @param name - The operator name
+     * @param args - The rule arguments, excluding the field value
+     * @param isDynamic - Optional predicate telling which arguments are resolved at evaluation time
+     * @throws {ValidraArgumentError} When the operator is unknown or the argument count differs from the arity
+     * @throws {ValidraTypeError} When an argument has the wrong type
+     *
+     * @example
+     * ```typescript
+     * registry.checkArguments('between', [1, 10]);  // ok
+     * registry.checkArguments('between', [1]);      // throws
+     * registry.checkArguments('gt', ['10']);        // throws
+     * ```
+     */
+    checkArguments(name: string, args: unknown[], isDynamic?: (arg: unknown, index: number) => boolean): void {
+        const operator = this.get(name);
+
+        if (args.length !== operator.arity) {
+            throw new ValidraArgumentError(`Operator "${name}" expects ${operator.arity} argument(s) but received ${args.length}.`, {
+                operator: name,
+                argument: args
+            });
+        }
+
+        operator.argTypes.forEach((type, index) => {
+            if (isDynamic?.(args[index], index)) return;
+            if (!OperatorRegistry.matchesType(args[index], type)) {
+                throw new ValidraTypeError(`Argument ${index + 1} of operator "${name}" must be of type ${type} but got ${TypeChecker.typeOf(args[index])}.`, {
+                    operator: name,
+                    argument: args[index]
+                });
+            }
+        });
+    }
+
+    /**
+     * Checks the `options` of a rule against an operator.
+     *
+     * Only operators defining `configure` accept options; it checks them and
+     * returns the value passed to the operator after the rule arguments.
+     *
+     * @param name - The operator name
+     * @param options - The rule options
+     * @returns The options converted by the operator's `configure`
+     * @throws {ValidraArgumentError} When the operator is unknown, doesn't accept options,
+     * the options aren't an object or `configure` rejects them
+     *
+     * @example
+     * ```typescript
+     * registry.checkOptions('eq', { caseInsensitive: true }); // ok
+     * registry.checkOptions('gt', { caseInsensitive: true }); // throws
+     * ```
+     */
+    checkOptions(name: string, options: unknown): unknown {
+        const operator = this.get(name);
+
+        if (!operator.configure) {
+            throw new ValidraArgumentError(`Operator "${name}" doesn't accept options.`, { operator: name, argument: options });
+        }
+        if (!TypeChecker.isPlainObject(options)) {
+            throw new ValidraArgumentError(`Options of operator "${name}" must be an object but got ${TypeChecker.typeOf(options)}.`, {
+                operator: name,
+                argument: options
+            });
+        }
+
+        return operator.configure(options);
+    }
+
+    /**
+     * Checks a value against an operator argument type.
+     *
+     * @param value - The value to check
+     * @param type - The expected type
+     * @returns `true` if the value matches the type
+     * @private
+     */
+    private static matchesType(value: unknown, type: OperatorArgType): boolean {
+        switch (type) {
+            case 'string': return TypeChecker.isString(value);
+            case 'number': return TypeChecker.isNumber(value);
+            case 'boolean': return TypeChecker.isBoolean(value);
+            case 'date': return TypeChecker.isDate(value);
+            case 'array': return TypeChecker.isArray(value);
+            case 'object': return TypeChecker.isObject(value);
+            default: return true;
+        }
+    }
+}
@@ -0,0 +1,91 @@
+/**
+ * @fileoverview Type definitions for rule operators and the operator registry.
+ * @module OperationTypes
+ * @version 1.0.0
+ * @author Felix M. Martinez
+ * @since 1.0.0
+ */
+
+import { ValidraValue } from "@/utils";
+
+/**
+ * Signature of an operator implementation. The first argument is the value
+ * resolved from the fact, followed by the rule arguments.
+ *
+ * Values are typed as {@link ValidraValue}s. Implementations may declare
+ * narrower parameters, e.g. `(value: string, prefix: string) => boolean`,
+ * and should reject other values at runtime with a {@link ValidraTypeError}.
+ *
+ * @public
+ */
+export type OperatorFn = {
+    // Method syntax keeps the parameters bivariant, so narrower implementations are accepted
+    operator(value: ValidraValue, ...args: ValidraValue[]): boolean;
+}['operator'];
+
+/**
+ * Signature of an asynchronous operator implementation, which may return a
+ * promise, e.g. to check uniqueness against a repository.
+ *
+ * @public
+ */
+export type AsyncOperatorFn = {
+    operator(value: ValidraValue, ...args: ValidraValue[]): boolean | Promise<boolean>;
+}['operator'];
+
+/**
+ * Type names accepted for operator arguments. `any` disables the check.
+ *
+ * @public
+ */
+export type OperatorArgType = 'any' | 'string' | 'number' | 'boolean' | 'date' | 'array' | 'object';
+
+/**
+ * Options accepted when registering an operator.
+ *
+ * @example
+ * ```typescript
+ * const options: OperatorOptions = { arity: 2, argTypes: ['number', 'number'] };
+ * ```
+ *
+ * @public
+ */
+export interface OperatorOptions {
+    /** Number of rule arguments the operator expects, excluding the field value */
+    arity: number;
+    /** Expected type of each rule argument, in order. Defaults to `any` for every argument */
+    argTypes?: OperatorArgType[];
+    /** Converts the constant rule arguments once when a rule set is compiled, e.g. building a RegExp */
+    prepare?: (args: unknown[]) => unknown[];
+    /**
+     * Checks and converts a rule's `options` once when a rule set is compiled. The result is passed
+     * to the operator after the rule arguments. Rules can only set `options` on operators that define it
+     */
+    configure?: (options: Readonly<Record<string, unknown>>) => unknown;
+    /** Marks the operator as asynchronous: it may return a promise and can only be used with `evaluateAsync` */
+    async?: boolean;
+    /** Allows replacing an operator that is already registered under the same name */
+    override?: boolean;
+}
+
+/**
+ * A registered operator.
+ *
+ * @public
+ */
+export interface OperatorDefinition {
+    /** Name used to reference the operator from rules */
+    name: string;
+    /** The function implementing the operator */
+    fn: OperatorFn | AsyncOperatorFn;
+    /** Number of rule arguments the operator expects, excluding the field value */
+    arity: number;
+    /** Whether the operator may return a promise */
+    async?: boolean;
+    /** Expected type of each rule argument */
+    argTypes: OperatorArgType[];
+    /** Converts the constant rule arguments once when a rule set is compiled */
+    prepare?: (args: unknown[]) => unknown[];
+    /** Checks and converts a rule's `options` once when a rule set is compiled */
+    configure?: (options: Readonly<Record<string, unknown>>) => unknown;
+}
@@ -0,0 +1,110 @@
+/**
+ * @fileoverview Zero-dependency CSV parser following RFC 4180.
+ * @module CsvParser
+ * @version 1.0.0
+ * @author Felix M. Martinez
+ * @since 1.0.0
+ */
+
+import { ValidraArgumentError } from "./validra-errors";
+
+/**
+ * Options accepted by {@link parseCsv}.
+ *
+ * @public
+ */
+export interface CsvOptions {
+    /** Character separating fields. Defaults to `,`; spreadsheets in many locales export `;` */
+    delimiter?: string;
+}
+
+/**
+ * Parses CSV text into rows of fields.
+ *
+ * Fields may be wrapped in double quotes to hold delimiters, quotes
+ * (written twice, `""`) and line breaks. Rows end with `\n` or `\r\n`; a
+ * leading byte order mark, a trailing line break and blank lines are
+ * ignored. Fields are returned as written, without trimming.
+ *
+ * @param text - The CSV text
+ * @param options - Field delimiter
+ * @returns The rows, each an array of fields
+ * @throws {ValidraArgumentError} When the delimiter is not a single character
+ * other than a quote or line break, or a quoted field is not closed
+ *
+ * @example
+ * ```typescript
+ * parseCsv('age,tier\n>=18,"contains ""vip"""\n');
+ * // [["age", "tier"], [">=18", 'contains "vip"']]
+ *
+ * parseCsv("a;b\n1;2", { delimiter: ";" }); // [["a", "b"], ["1", "2"]]
+ * ```
+ *
+ * @public
+ */
+export function parseCsv(text: string, options: CsvOptions = {}): string[][] {
+    const { delimiter = ',' } = options;
+    if (typeof delimiter !== 'string' || delimiter.length !== 1 || '"\r\n'.includes(delimiter)) {
+        throw new ValidraArgumentError('CSV delimiter must be a single character other than a quote or line break.', {
+            argument: delimiter
+        });
+    }
+    if (typeof text !== 'string') {
+        throw new ValidraArgumentError('CSV input must be a string.', { argument: text });
+    }
+
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let line = 1;
+    let index = text.charCodeAt(0) === 0xfeff ? 1 : 0;
+
+    const endRow = (): void => {
+        row.push(field);
+        if (row.length > 1 || row[0] !== '') rows.push(row);
+        row = [];
+        field = '';
+        line++;
+    };
+
+    while (index < text.length) {
+        const char = text[index] as string;
+
+        if (char === '"' && field === '') {
+            const start = line;
+            index++;
+            for (;;) {
+                if (index >= text.length) {
+                    throw new ValidraArgumentError(`Unterminated quoted CSV field starting on line ${start}.`, { argument: text });
+                }
+                const next = text[index] as string;
+                if (next === '"') {
+                    if (text[index + 1] !== '"') break;
+                    index++;
+                } else if (next === '\n') {
+                    line++;
+                }
+                field += next;
+                index++;
+            }
+            index++;
+            continue;
+        }
+
+        if (char === delimiter) {
+            row.push(field);
+            field = '';
+        } else if (char === '\n') {
+            endRow();
+        } else if (char === '\r' && text[index + 1] === '\n') {
+            index++;
+            endRow();
+        } else {
+            field += char;
+        }
+        index++;
+    }
+
+    if (field !== '' || row.length > 0) endRow();
+    return rows;
+}
@@ -1,3 +1,6 @@
+export * from './csv-parser';
+export * from './log-sinks';
 export * from './utility.types';
+export * from './validra-errors';
 export * from './validra-logger';
 export * from './utility-guards';
\ No newline at end of file
@@ -0,0 +1,194 @@
+/**
+ * @fileoverview Structured log records and the sinks that write them.
+ * @module LogSinks
+ * @version 1.0.0
+ * @author Felix M. Martinez
+ * @since 1.0.0
+ */
+
+/**
+ * Level of a log record, named after the {@link ValidraLogger} method that wrote it.
+ *
+ * From least to most severe: `trace`, `debug`, `log` and `info` (same
+ * severity), `warn`, `error`.
+ *
+ * @public
+ */
+export type LogLevel = 'trace' | 'debug' | 'log' | 'info' | 'warn' | 'error';
+
+/**
+ * A structured log entry, handed to every {@link LogSink} of a logger.
+ *
+ * @example
+ * ```typescript
+ * const record: LogRecord = {
+ *   level: "warn",
+ *   time: "2025-01-06T10:00:00.000Z",
+ *   source: "Checkout",
+ *   msg: "Rule is deprecated",
+ *   data: [{ rule: "oldRule" }],
+ *   context: { requestId: "r-42" }
+ * };
+ * ```
+ *
+ * @public
+ */
+export interface LogRecord {
+    /** Level of the record */
+    level: LogLevel;
+    /** When the record was written, as an ISO timestamp */
+    time: string;
+    /** Source of the logger that wrote the record */
+    source: string;
+    /** The log message */
+    msg: string;
+    /** The additional parameters passed with the message */
+    data: unknown[];
+    /** Context of the logger, inherited from its parents (see {@link ValidraLogger.child}) */
+    context: Record<string, unknown>;
+}
+
+/**
+ * A destination for log records.
+ *
+ * @public
+ */
+export interface LogSink {
+    /**
+     * Writes a record.
+     *
+     * @param record - The record to write
+     */
+    write(record: LogRecord): void;
+}
+
+/**
+ * Writes records to the matching `console` method with a
+ * `[time] [source] message` prefix, followed by the logger context as JSON
+ * and the additional parameters. This is the default sink of {@link ValidraLogger}.
+ *
+ * @example
+ * ```typescript
+ * const logger = new ValidraLogger("Checkout", { sinks: [new ConsoleSink()] });
+ * logger.child({ requestId: "r-42" }).warn("Slow rule", { ms: 120 });
+ * // [2025-01-06T10:00:00.000Z] [Checkout] Slow rule {"requestId":"r-42"} { ms: 120 }
+ * ```
+ *
+ * @public
+ */
+export class ConsoleSink implements LogSink {
+    write(record: LogRecord): void {
+        const context = Object.keys(record.context).length > 0 ? ` ${toJson(record.context)}` : '';
+        console[record.level](`[${record.time}] [${record.source}] ${record.msg}${context}`, ...record.data);
+    }
+}
+
+/**
+ * Writes each record as a single line of JSON, for log aggregators.
+ *
+ * Lines hold `level`, `time`, `source`, `msg`, `context` when the logger has
+ * one, and `data` when parameters were passed. Errors are written with their
+ * name and message, bigints as strings and circular references as `"[Circular]"`.
+ *
+ * @example
+ * ```typescript
+ * const logger = new ValidraLogger("Engine", { sinks: [new JsonLinesSink(line => process.stdout.write(line + "\n"))] });
+ * logger.info("Rule set loaded", { rules: 12 });
+ * // {"level":"info","time":"2025-01-06T10:00:00.000Z","source":"Engine","msg":"Rule set loaded","data":[{"rules":12}]}
+ * ```
+ *
+ * @public
+ */
+export class JsonLinesSink implements LogSink {
+    /**
+     * Creates a JSON-lines sink.
+     *
+     * @param writeLine - Receives each line, without a line break. Defaults to `console.log`
+     */
+    constructor(private readonly writeLine: (line: string) => void = line => console.log(line)) {}
+
+    write(record: LogRecord): void {
+        const { level, time, source, msg, data, context } = record;
+        const line: Record<string, unknown> = { level, time, source, msg };
+        if (Object.keys(context).length > 0) line['context'] = context;
+        if (data.length > 0) line['data'] = data;
+
+        this.writeLine(toJson(line));
+    }
+}
+
+/**
+ * Keeps records in memory, e.g. to assert on logs in tests.
+ *
+ * @example
+ * ```typescript
+ * const memory = new MemorySink();
+ * const logger = new ValidraLogger("Test", { sinks: [memory] });
+ *
+ * logger.warn("careful");
+ * memory.records[0].msg; // "careful"
+ * ```
+ *
+ * @public
+ */
+export class MemorySink implements LogSink {
+    /** The records written so far, oldest first */
+    readonly records: LogRecord[] = [];
+
+    write(record: LogRecord): void {
+        this.records.push(record);
+    }
+
+    /**
+     * Removes every record.
+     */
+    clear(): void {
+        this.records.length = 0;
+    }
+}
+
+/**
+ * Hands each record to a function, e.g. to forward logs to another logging library.
+ *
+ * @example
+ * ```typescript
+ * const logger = new ValidraLogger("Engine", {
+ *   sinks: [new CallbackSink(record => pino[record.level === "log" ? "info" : record.level](record, record.msg))]
+ * });
+ * ```
+ *
+ * @public
+ */
+export class CallbackSink implements LogSink {
+    /**
+     * Creates a callback sink.
+     *
+     * @param callback - Receives every record
+     */
+    constructor(private readonly callback: (record: LogRecord) => void) {}
+
+    write(record: LogRecord): void {
+        this.callback(record);
+    }
+}
+
+/**
+ * Serializes a value to JSON without throwing.
+ *
+ * @param value - The value to serialize
+ * @returns The JSON text
+ */
+function toJson(value: unknown): string {
+    const ancestors: unknown[] = [];
+
+    return JSON.stringify(value, function (this: unknown, _key: string, item: unknown) {
+        if (typeof item === 'bigint') return item.toString();
+        if (item instanceof Error) return { name: item.name, message: item.message };
+        if (item === null || typeof item !== 'object') return item;
+
+        while (ancestors.length > 0 && ancestors[ancestors.length - 1] !== this) ancestors.pop();
+        if (ancestors.includes(item)) return '[Circular]';
+        ancestors.push(item);
+        return item;
+    });
+}
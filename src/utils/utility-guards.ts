@@ -11,7 +11,7 @@
  * @since 1.0.0
  */
 
-import { flatValues } from "./utility.types";
+import { ValidraArgumentError, ValidraTypeError } from "./validra-errors";
 
 /**
  * Type guard utility functions for validating and checking values.
@@ -44,7 +44,7 @@ import { flatValues } from "./utility.types";
  * 
  * @public
  */
-export function isNullOrUndefined(value: flatValues): boolean {
+export function isNullOrUndefined(value: unknown): value is null | undefined {
   return value === null || value === undefined;
 }
 
@@ -78,7 +78,50 @@ export function isNullOrUndefined(value: flatValues): boolean {
  * 
  * @public
  */
-export function isNumber(value: unknown): boolean {
+export function isNumber(value: unknown): value is number {
   return typeof value === 'number' && !isNaN(value);
 }
 
+/**
+ * Asserts that a value is neither null nor undefined, narrowing its type.
+ * 
+ * @param value - The value to check
+ * @param message - Custom error message. Defaults to `Value must be provided.`
+ * @throws {ValidraArgumentError} With code `ERR_VALIDRA_MISSING_ARGUMENT` when the value is null or undefined
+ * 
+ * @example
+ * ```typescript
+ * function area(width: number | undefined): number {
+ *   assertDefined(width, "Width must be provided.");
+ *   return width * width;
+ * }
+ * ```
+ * 
+ * @public
+ */
+export function assertDefined<T>(value: T, message = 'Value must be provided.'): asserts value is NonNullable<T> {
+  if (isNullOrUndefined(value)) {
+    throw new ValidraArgumentError(message, { argument: value }, 'ERR_VALIDRA_MISSING_ARGUMENT');
+  }
+}
+
+/**
+ * Asserts that a value is a valid number (see {@link isNumber}), narrowing its type.
+ * 
+ * @param value - The value to check
+ * @param message - Custom error message. Defaults to `Value must be a number.`
+ * @throws {ValidraTypeError} When the value is not a number or is `NaN`
+ * 
+ * @example
+ * ```typescript
+ * assertNumber(42);    // passes
+ * assertNumber("42");  // throws ValidraTypeError
+ * ```
+ * 
+ * @public
+ */
+export function assertNumber(value: unknown, message = 'Value must be a number.'): asserts value is number {
+  if (!isNumber(value)) {
+    throw new ValidraTypeError(message, { argument: value });
+  }
+}
@@ -12,5 +12,67 @@
  * const isActive: flatValues = true;
  * const createdAt: flatValues = new Date();
  * ```
+ *
+ * @deprecated Use {@link ValidraScalar}, which also covers `null`, `undefined` and bigints,
+ * or {@link ValidraValue} for any value of a fact.
  */
-export type flatValues = string | number | boolean | Date;
\ No newline at end of file
+export type flatValues = string | number | boolean | Date;
+
+/**
+ * A single value of a fact: a string, number, bigint, boolean, date, `null` or `undefined`.
+ * 
+ * @example
+ * ```typescript
+ * const values: ValidraScalar[] = ["hello", 42, 10n, true, new Date(), null, undefined];
+ * ```
+ * 
+ * @public
+ */
+export type ValidraScalar = string | number | bigint | boolean | Date | null | undefined;
+
+/**
+ * A list of values of a fact, e.g. tags or order items.
+ * 
+ * @public
+ */
+export type ValidraArray = readonly ValidraValue[];
+
+/**
+ * A nested record of a fact, e.g. a customer or an address.
+ * 
+ * @public
+ */
+export interface ValidraRecord {
+  readonly [key: string]: ValidraValue;
+}
+
+/**
+ * Any value a fact can hold: scalars, arrays and records, nested to any depth.
+ * 
+ * This is the value model shared by the engine, the DSL helpers and
+ * custom operators: field values and rule arguments are `ValidraValue`s.
+ * 
+ * @example
+ * ```typescript
+ * const value: ValidraValue = { items: [{ sku: "A-1", price: 9.5 }], placedAt: new Date(), coupon: null };
+ * ```
+ * 
+ * @public
+ */
+export type ValidraValue = ValidraScalar | ValidraArray | ValidraRecord;
+
+/**
+ * An input document evaluated by the engine, with its fields by name.
+ * 
+ * Field values are usually {@link ValidraValue}s, but facts may hold any
+ * value, such as maps, sets or class instances checked by custom operators.
+ * 
+ * @example
+ * ```typescript
+ * const order: Fact = { id: "o-1", total: 120, customer: { tier: "gold" }, items: [{ sku: "A-1" }] };
+ * engine.evaluate(order);
+ * ```
+ * 
+ * @public
+ */
+export type Fact = Readonly<Record<string, unknown>>;
@@ -0,0 +1,271 @@
+/**
+ * @fileoverview Typed error hierarchy for the Validra library.
+ *
+ * Every error raised by Validra extends {@link ValidraError}, so callers can
+ * `instanceof`-check it and read a stable `code`, the operator that raised it
+ * and the offending argument.
+ *
+ * @module ValidraErrors
+ * @version 1.0.0
+ * @author Felix M. Martinez
+ * @since 1.0.0
+ */
+
+/**
+ * Stable error codes carried by {@link ValidraError} instances.
+ *
+ * - `ERR_VALIDRA_TYPE`: a value has the wrong type for an operation
+ * - `ERR_VALIDRA_MISSING_ARGUMENT`: a required value is `null` or `undefined`
+ * - `ERR_VALIDRA_INVALID_ARGUMENT`: a value has the right type but is not acceptable
+ * - `ERR_VALIDRA_RULE_EVALUATION`: a rule could not be evaluated against a fact
+ * - `ERR_VALIDRA_SYNTAX`: DSL source could not be parsed
+ * - `ERR_VALIDRA_INFERENCE`: forward chaining did not settle
+ * - `ERR_VALIDRA_FAILURE`: a failure reported with {@link ValidraLogger.fail}
+ *
+ * @public
+ */
+export type ValidraErrorCode =
+    | 'ERR_VALIDRA_TYPE'
+    | 'ERR_VALIDRA_MISSING_ARGUMENT'
+    | 'ERR_VALIDRA_INVALID_ARGUMENT'
+    | 'ERR_VALIDRA_RULE_EVALUATION'
+    | 'ERR_VALIDRA_SYNTAX'
+    | 'ERR_VALIDRA_INFERENCE'
+    | 'ERR_VALIDRA_FAILURE';
+
+/**
+ * Context attached to a {@link ValidraError}.
+ *
+ * @public
+ */
+export interface ValidraErrorDetails {
+    /** Name of the operator or helper method that raised the error, e.g. `Comparison.isGreaterThan` */
+    operator?: string;
+    /** The offending argument */
+    argument?: unknown;
+    /** The underlying error, if any */
+    cause?: unknown;
+}
+
+/**
+ * Base class of every error raised by Validra.
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   Comparison.isGreaterThan("10" as any, 5);
+ * } catch (error) {
+ *   if (error instanceof ValidraError) {
+ *     error.code;     // 'ERR_VALIDRA_TYPE'
+ *     error.operator; // 'Comparison.isGreaterThan'
+ *     error.argument; // "10"
+ *   }
+ * }
+ * ```
+ *
+ * @public
+ */
+export class ValidraError extends Error {
+    /** Stable, machine-readable error code */
+    readonly code: ValidraErrorCode;
+    /** Name of the operator or helper method that raised the error */
+    readonly operator: string | undefined;
+    /** The offending argument */
+    readonly argument: unknown;
+
+    /**
+     * Creates a new Validra error.
+     *
+     * @param code - Stable error code
+     * @param message - Human-readable description
+     * @param details - Operator, offending argument and cause
+     */
+    constructor(code: ValidraErrorCode, message: string, details: ValidraErrorDetails = {}) {
+        super(message, 'cause' in details ? { cause: details.cause } : undefined);
+        this.name = 'ValidraError';
+        this.code = code;
+        this.operator = details.operator;
+        this.argument = details.argument;
+    }
+}
+
+/**
+ * Raised when a value has the wrong type for an operation, e.g. a number
+ * passed to a string check.
+ *
+ * @example
+ * ```typescript
+ * StringChecker.isEmail(42 as any); // throws ValidraTypeError (ERR_VALIDRA_TYPE)
+ * ```
+ *
+ * @public
+ */
+export class ValidraTypeError extends ValidraError {
+    /**
+     * Creates a new type error.
+     *
+     * @param message - Human-readable description
+     * @param details - Operator and offending argument
+     */
+    constructor(message: string, details: ValidraErrorDetails = {}) {
+        super('ERR_VALIDRA_TYPE', message, details);
+        this.name = 'ValidraTypeError';
+    }
+}
+
+/**
+ * Raised when an argument is missing or not acceptable, e.g. `null` passed
+ * to a comparison or a negative length.
+ *
+ * @example
+ * ```typescript
+ * Comparison.isGreaterThan(null as any, 5);  // throws ValidraArgumentError (ERR_VALIDRA_MISSING_ARGUMENT)
+ * StringChecker.minLength("abc", -1);        // throws ValidraArgumentError (ERR_VALIDRA_INVALID_ARGUMENT)
+ * ```
+ *
+ * @public
+ */
+export class ValidraArgumentError extends ValidraError {
+    /**
+     * Creates a new argument error.
+     *
+     * @param message - Human-readable description
+     * @param details - Operator and offending argument
+     * @param code - Either `ERR_VALIDRA_INVALID_ARGUMENT` (default) or `ERR_VALIDRA_MISSING_ARGUMENT`
+     */
+    constructor(
+        message: string,
+        details: ValidraErrorDetails = {},
+        code: 'ERR_VALIDRA_INVALID_ARGUMENT' | 'ERR_VALIDRA_MISSING_ARGUMENT' = 'ERR_VALIDRA_INVALID_ARGUMENT'
+    ) {
+        super(code, message, details);
+        this.name = 'ValidraArgumentError';
+    }
+}
+
+/**
+ * Raised by the engine when a rule cannot be evaluated against a fact,
+ * typically because its operator threw. The original error is available
+ * as `cause`, the rule's operator as `operator` and the field value as `argument`.
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   engine.evaluate({ user: { age: "21" } });
+ * } catch (error) {
+ *   if (error instanceof RuleEvaluationError) {
+ *     error.field;    // 'user.age'
+ *     error.operator; // 'gte'
+ *     error.cause;    // ValidraTypeError from Comparison.isGreaterThanOrEqual
+ *   }
+ * }
+ * ```
+ *
+ * @public
+ */
+export class RuleEvaluationError extends ValidraError {
+    /** Path of the field the failing rule applies to */
+    readonly field: string;
+
+    /**
+     * Creates a new rule evaluation error.
+     *
+     * @param field - Path of the field the rule applies to
+     * @param operator - Operator of the rule
+     * @param argument - The value resolved from the fact
+     * @param cause - The error raised while evaluating the rule
+     */
+    constructor(field: string, operator: string, argument: unknown, cause: unknown) {
+        const reason = cause instanceof Error ? cause.message : String(cause);
+        super('ERR_VALIDRA_RULE_EVALUATION', `Rule "${operator}" on field "${field}" could not be evaluated: ${reason}`, {
+            operator,
+            argument,
+            cause
+        });
+        this.name = 'RuleEvaluationError';
+        this.field = field;
+    }
+}
+
+/**
+ * Raised by {@link ValidraEngine.run} when forward chaining does not settle:
+ * rules keep changing the working memory after `maxIterations` passes, or
+ * the working memory returns to an earlier state, which would repeat forever.
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   engine.run(cart, { maxIterations: 10 });
+ * } catch (error) {
+ *   if (error instanceof InferenceError) {
+ *     error.kind;       // 'maxIterations' | 'cycle'
+ *     error.iterations; // passes run before giving up
+ *   }
+ * }
+ * ```
+ *
+ * @public
+ */
+export class InferenceError extends ValidraError {
+    /** Why the run was stopped */
+    readonly kind: 'maxIterations' | 'cycle';
+    /** Number of passes over the rules run before stopping */
+    readonly iterations: number;
+
+    /**
+     * Creates a new inference error.
+     *
+     * @param kind - Why the run was stopped
+     * @param iterations - Number of passes run before stopping
+     * @param message - Human-readable description
+     */
+    constructor(kind: 'maxIterations' | 'cycle', iterations: number, message: string) {
+        super('ERR_VALIDRA_INFERENCE', message, { argument: iterations });
+        this.name = 'InferenceError';
+        this.kind = kind;
+        this.iterations = iterations;
+    }
+}
+
+/**
+ * Raised by {@link ValidraLogger.fail} after logging the failure. Carries
+ * the logger's source and context and the parameters logged with the message.
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   logger.fail("Rule set could not be loaded", { file: "rules.json" });
+ * } catch (error) {
+ *   if (error instanceof ValidraFailureError) {
+ *     error.source; // 'Validra Engine'
+ *     error.data;   // [{ file: "rules.json" }]
+ *   }
+ * }
+ * ```
+ *
+ * @public
+ */
+export class ValidraFailureError extends ValidraError {
+    /** Source of the logger that reported the failure */
+    readonly source: string;
+    /** The parameters logged with the message */
+    readonly data: unknown[];
+    /** Context of the logger that reported the failure */
+    readonly context: Record<string, unknown>;
+
+    /**
+     * Creates a new failure error.
+     *
+     * @param message - Human-readable description
+     * @param source - Source of the logger
+     * @param data - The parameters logged with the message
+     * @param context - Context of the logger
+     */
+    constructor(message: string, source: string, data: unknown[] = [], context: Record<string, unknown> = {}) {
+        super('ERR_VALIDRA_FAILURE', message);
+        this.name = 'ValidraFailureError';
+        this.source = source;
+        this.data = data;
+        this.context = context;
+    }
+}
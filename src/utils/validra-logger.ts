@@ -1,142 +1,336 @@
+import { ConsoleSink, LogLevel, LogRecord, LogSink } from './log-sinks';
+import { ValidraArgumentError, ValidraFailureError } from './validra-errors';
+
+/**
+ * Minimum level a {@link ValidraLogger} writes: records below it are dropped.
+ * `silent` drops every record.
+ *
+ * @public
+ */
+export type LoggerLevel = LogLevel | 'silent';
+
+/**
+ * Options accepted by the {@link ValidraLogger} constructor.
+ *
+ * @public
+ */
+export interface LoggerOptions {
+    /** Minimum level written. Defaults to `trace`, which writes everything */
+    level?: LoggerLevel;
+    /** Destinations of the records. Defaults to a single {@link ConsoleSink} */
+    sinks?: LogSink[];
+    /** Fields attached to every record of the logger and its children */
+    context?: Record<string, unknown>;
+}
+
+/**
+ * Options accepted by {@link ValidraLogger.child}.
+ *
+ * @public
+ */
+export interface ChildLoggerOptions {
+    /** Source of the child logger. Defaults to the parent's source */
+    source?: string;
+    /** Minimum level written by the child logger. Defaults to the parent's level */
+    level?: LoggerLevel;
+}
+
+/** Severity of each level; `log` and `info` are the same severity */
+const SEVERITIES: Record<LoggerLevel, number> = {
+    trace: 10,
+    debug: 20,
+    log: 30,
+    info: 30,
+    warn: 40,
+    error: 50,
+    silent: Infinity
+};
+
 /**
  * A comprehensive logging utility for the Validra library.
- * 
+ *
  * Provides structured logging with timestamps and source identification.
- * Supports all standard console logging levels with consistent formatting.
- * 
+ * Every message becomes a {@link LogRecord} (`{ level, time, source, msg, data, context }`)
+ * handed to the logger's sinks: by default a {@link ConsoleSink} printing
+ * `[timestamp] [source] message` with the matching `console` method.
+ * Records below the logger's `level` are dropped, and child loggers add
+ * context fields to every record they write. Logging never throws; use
+ * {@link ValidraLogger.fail} to log a failure and throw it.
+ *
  * @example
  * ```typescript
  * // Using with default source
  * const logger = new ValidraLogger();
  * logger.log("Processing validation");
- * 
+ *
  * // Using with custom source
  * const customLogger = new ValidraLogger("ValidationEngine");
  * customLogger.info("Starting validation process");
  * customLogger.warn("Deprecated method used");
+ *
+ * // Warnings and errors only, as JSON lines, with a request id on every record
+ * const jsonLogger = new ValidraLogger("Checkout", { level: "warn", sinks: [new JsonLinesSink()] });
+ * jsonLogger.child({ requestId: "r-42" }).warn("Slow rule", { ms: 120 });
+ *
+ * // Embedded in a library: writes nothing
+ * const quiet = ValidraLogger.silent();
  * ```
  */
 export class ValidraLogger {
     /** The source identifier for log messages */
     protected source = 'Validra Engine';
-    
+    /** Minimum level written */
+    private threshold: LoggerLevel;
+    /** Destinations of the records */
+    private readonly sinks: LogSink[];
+    /** Fields attached to every record */
+    private readonly context: Record<string, unknown>;
+
     /**
      * Creates a new ValidraLogger instance.
-     * 
+     *
      * @param source - Optional custom source name for log messages.
      *                If not provided, defaults to 'Validra Engine'
-     * 
+     * @param options - Minimum level, sinks and context of the logger
+     * @throws {ValidraArgumentError} When the level is unknown
+     *
      * @example
      * ```typescript
      * const logger = new ValidraLogger("MyModule");
+     * const quiet = new ValidraLogger("MyModule", { level: "warn" });
+     * const memory = new MemorySink();
+     * const testLogger = new ValidraLogger("Test", { sinks: [memory] });
      * ```
      */
-    constructor (source: string) {
+    constructor (source?: string, options: LoggerOptions = {}) {
         if (source) {
             this.source = source;
         }
+        this.threshold = checkLevel(options.level ?? 'trace');
+        this.sinks = options.sinks ?? [new ConsoleSink()];
+        this.context = { ...options.context };
+    }
+
+    /**
+     * Creates a logger that writes nothing, for libraries embedding Validra
+     * that leave logging to their host. {@link ValidraLogger.fail} still throws.
+     *
+     * @param source - Optional custom source name, reported by {@link ValidraLogger.fail}
+     * @returns A logger with the `silent` level and no sinks
+     *
+     * @example
+     * ```typescript
+     * const engineLogger = options.logger ?? ValidraLogger.silent();
+     * ```
+     */
+    static silent(source?: string): ValidraLogger {
+        return new ValidraLogger(source, { level: 'silent', sinks: [] });
+    }
+
+    /**
+     * The minimum level written by this logger.
+     */
+    get level(): LoggerLevel {
+        return this.threshold;
+    }
+
+    /**
+     * Changes the minimum level written by this logger. Child loggers keep their own level.
+     *
+     * @throws {ValidraArgumentError} When the level is unknown
+     *
+     * @example
+     * ```typescript
+     * logger.level = "silent";
+     * ```
+     */
+    set level(level: LoggerLevel) {
+        this.threshold = checkLevel(level);
+    }
+
+    /**
+     * Checks whether records of a level are written, e.g. to skip building
+     * expensive log data.
+     *
+     * @param level - The level to check
+     * @returns `true` when the level is at or above the logger's minimum level
+     *
+     * @example
+     * ```typescript
+     * if (logger.isLevelEnabled("debug")) logger.debug("State", expensiveSnapshot());
+     * ```
+     */
+    isLevelEnabled(level: LogLevel): boolean {
+        return SEVERITIES[level] >= SEVERITIES[this.threshold];
+    }
+
+    /**
+     * Creates a logger writing to the same sinks, with extra context fields
+     * added to every record.
+     *
+     * @param context - Fields added to the parent's context; they override parent fields with the same name
+     * @param options - Source and minimum level of the child, defaulting to the parent's
+     * @returns The child logger
+     * @throws {ValidraArgumentError} When the level is unknown
+     *
+     * @example
+     * ```typescript
+     * const requestLogger = logger.child({ requestId: "r-42" });
+     * requestLogger.info("Validating order"); // record.context: { requestId: "r-42" }
+     * ```
+     */
+    child(context: Record<string, unknown>, options: ChildLoggerOptions = {}): ValidraLogger {
+        return new ValidraLogger(options.source ?? this.source, {
+            level: options.level ?? this.threshold,
+            sinks: this.sinks,
+            context: { ...this.context, ...context }
+        });
     }
 
     /**
      * Logs a general message to the console.
-     * 
+     *
      * @param message - The message to log
      * @param optionalParams - Additional parameters to include in the log
-     * 
+     *
      * @example
      * ```typescript
      * logger.log("User validation completed", { userId: 123 });
      * ```
      */
     log(message: string, ...optionalParams: any[]): void {
-        console.log(`[${this.getTimestamp()}] [${this.source}] ${message}`, ...optionalParams);
+        this.write('log', message, optionalParams);
     }
-    
+
     /**
      * Logs a warning message to the console.
-     * 
+     *
      * @param message - The warning message to log
      * @param optionalParams - Additional parameters to include in the warning
-     * 
+     *
      * @example
      * ```typescript
      * logger.warn("Validation rule is deprecated", { rule: "oldRule" });
      * ```
      */
     warn(message: string, ...optionalParams: any[]): void {
-        console.warn(`[${this.getTimestamp()}] [${this.source}] ${message}`, ...optionalParams);
+        this.write('warn', message, optionalParams);
+    }
+
+    /**
+     * Logs an error message to the console.
+     *
+     * Recording an error doesn't interrupt the caller; use
+     * {@link ValidraLogger.fail} to also throw it.
+     *
+     * @param message - The error message to log
+     * @param optionalParams - Additional parameters to include in the error
+     *
+     * @example
+     * ```typescript
+     * logger.error("Rule could not be loaded, skipping it", { code: "VAL001" });
+     * ```
+     */
+    error(message: string, ...optionalParams: any[]): void {
+        this.write('error', message, optionalParams);
     }
 
     /**
-     * Logs an error message to the console and throws an Error.
-     * 
+     * Logs an error message and throws it as a {@link ValidraFailureError}.
+     *
+     * The error carries the message, the logger's source and context and the
+     * additional parameters, and is thrown even when the logger's level drops the record.
+     *
      * @param message - The error message to log
      * @param optionalParams - Additional parameters to include in the error
-     * @throws {Error} Always throws an Error with the formatted message
-     * 
+     * @throws {ValidraFailureError} Always
+     *
      * @example
      * ```typescript
      * try {
-     *   logger.error("Critical validation failure", { code: "VAL001" });
+     *   logger.fail("Critical validation failure", { code: "VAL001" });
      * } catch (error) {
-     *   // Handle the thrown error
+     *   if (error instanceof ValidraFailureError) error.data; // [{ code: "VAL001" }]
      * }
      * ```
      */
-    error(message: string, ...optionalParams: any[]): void {
-        const timestamp = this.getTimestamp();
-        console.error(`[${timestamp}] [${this.source}] ${message}`, ...optionalParams);
-        throw new Error(`[${timestamp}] [${this.source}] ${message}`);
+    fail(message: string, ...optionalParams: any[]): never {
+        this.write('error', message, optionalParams);
+        throw new ValidraFailureError(message, this.source, optionalParams, { ...this.context });
     }
 
     /**
      * Logs an informational message to the console.
-     * 
+     *
      * @param message - The info message to log
      * @param optionalParams - Additional parameters to include in the info log
-     * 
+     *
      * @example
      * ```typescript
      * logger.info("Validation engine initialized", { version: "1.0.0" });
      * ```
      */
     info(message: string, ...optionalParams: any[]): void {
-        console.info(`[${this.getTimestamp()}] [${this.source}] ${message}`, ...optionalParams);
+        this.write('info', message, optionalParams);
     }
 
     /**
      * Logs a debug message to the console.
-     * 
+     *
      * @param message - The debug message to log
      * @param optionalParams - Additional parameters to include in the debug log
-     * 
+     *
      * @example
      * ```typescript
      * logger.debug("Processing rule", { rule: rule.name, input: value });
      * ```
      */
     debug(message: string, ...optionalParams: any[]): void {
-        console.debug(`[${this.getTimestamp()}] [${this.source}] ${message}`, ...optionalParams);
+        this.write('debug', message, optionalParams);
     }
 
     /**
      * Logs a trace message with stack trace to the console.
-     * 
+     *
      * @param message - The trace message to log
      * @param optionalParams - Additional parameters to include in the trace log
-     * 
+     *
      * @example
      * ```typescript
      * logger.trace("Entering validation method", { method: "validateUser" });
      * ```
      */
     trace(message: string, ...optionalParams: any[]): void {
-        console.trace(`[${this.getTimestamp()}] [${this.source}] ${message}`, ...optionalParams);
+        this.write('trace', message, optionalParams);
+    }
+
+    /**
+     * Builds a record and hands it to every sink, unless its level is below the threshold.
+     *
+     * A sink that throws is skipped, so it neither reaches the caller nor
+     * keeps the record from the other sinks.
+     *
+     * @param level - Level of the record
+     * @param msg - The message
+     * @param data - The additional parameters
+     * @private
+     */
+    private write(level: LogLevel, msg: string, data: unknown[]): void {
+        if (!this.isLevelEnabled(level)) return;
+
+        const record: LogRecord = { level, time: this.getTimestamp(), source: this.source, msg, data, context: this.context };
+        for (const sink of this.sinks) {
+            try {
+                sink.write(record);
+            } catch {
+                // Logging never throws: a failing sink must not turn a log call into an error
+            }
+        }
     }
 
     /**
      * Generates an ISO timestamp string for log entries.
-     * 
+     *
      * @returns ISO formatted timestamp string
      * @private
      */
@@ -144,4 +338,19 @@ export class ValidraLogger {
         return new Date().toISOString();
     }
 
-}
\ No newline at end of file
+}
+
+/**
+ * Checks a logger level.
+ *
+ * @param level - The level to check
+ * @returns The level
+ * @throws {ValidraArgumentError} When the level is unknown
+ */
+function checkLevel(level: LoggerLevel): LoggerLevel {
+    if (!Object.hasOwn(SEVERITIES, level)) {
+        throw new ValidraArgumentError(`Log level must be one of ${Object.keys(SEVERITIES).join(', ')}.`, { argument: level });
+    }
+
+    return level;
+}
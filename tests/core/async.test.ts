@@ -0,0 +1,23 @@
+import { describe, it, expect } from 'vitest';
+import { mapWithConcurrency } from '@/core/async';
+
+const delay = <T>(ms: number, value: T): Promise<T> => new Promise(resolve => setTimeout(() => resolve(value), ms));
+
+describe('mapWithConcurrency', () => {
+    it('should map items in input order', async () => {
+        expect(await mapWithConcurrency([30, 1, 15], 2, ms => delay(ms, ms * 2))).toEqual([60, 2, 30]);
+    });
+
+    it('should stop starting calls after the first rejection', async () => {
+        const started: number[] = [];
+        const map = mapWithConcurrency([0, 1, 2, 3, 4, 5], 2, async item => {
+            started.push(item);
+            if (item === 0) throw new Error('boom');
+            return delay(5, item);
+        });
+
+        await expect(map).rejects.toThrow('boom');
+        await delay(30, null);
+        expect(started).toEqual([0, 1]);
+    });
+});
@@ -0,0 +1,29 @@
+import { bench, describe } from 'vitest';
+import { compile } from '@/core/compiler';
+import { Rule } from '@/core/types';
+import { OperatorRegistry } from '@/operations/operator-registry';
+
+describe('compile', () => {
+    const registry = new OperatorRegistry();
+    const rules: Rule[] = [
+        { field: 'user.age', op: 'gte', value: 18 },
+        { field: 'user.name', op: 'minLength', value: 2 },
+        { field: 'user.code', op: 'matches', value: '^[A-Z]{3}-[0-9]{4}$' },
+        { field: 'order.quantity', op: 'between', value: [1, 100] },
+        { field: 'order.createdAt', op: 'isWeekday' }
+    ];
+
+    const facts = Array.from({ length: 10_000 }, (_, i) => ({
+        user: { age: 18 + (i % 50), name: `User ${i}`, code: `ABC-${String(i % 10_000).padStart(4, '0')}` },
+        order: { quantity: 1 + (i % 100), createdAt: new Date(Date.UTC(2025, 0, 6 + (i % 5))) }
+    }));
+    const ruleSet = compile(rules, { operators: registry });
+
+    bench('test 10k facts with a rule set compiled once', () => {
+        facts.forEach(fact => ruleSet.test(fact));
+    });
+
+    bench('test 10k facts compiling the rule set for each fact', () => {
+        facts.forEach(fact => compile(rules, { operators: registry }).test(fact));
+    });
+});
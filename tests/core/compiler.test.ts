@@ -0,0 +1,82 @@
+import { describe, it, expect, vi } from 'vitest';
+import { compile } from '@/core/compiler';
+import { Condition } from '@/core/types';
+import { OperatorRegistry } from '@/operations/operator-registry';
+import { ValidraArgumentError } from '@/utils/validra-errors';
+
+describe('compile', () => {
+    const conditions: Condition[] = [
+        { field: 'user.age', op: 'gte', value: 18 },
+        { field: 'user.code', op: 'matches', value: '^[A-Z]{3}$' },
+        { any: [{ field: 'user.country', op: 'eq', value: 'US' }, { not: { field: 'user.tags', op: 'isEmpty' } }] },
+        { atLeast: 1, of: [{ field: 'user.score', op: 'between', value: [1, 10] }, { field: 'user.vip', op: 'eq', value: true }] }
+    ];
+
+    const facts = [
+        { user: { age: 20, code: 'ABC', country: 'US', tags: [], score: 5, vip: false } },
+        { user: { age: 17, code: 'ABC', country: 'US', tags: [], score: 5, vip: false } },
+        { user: { age: 20, code: 'abc', country: 'US', tags: [], score: 5, vip: false } },
+        { user: { age: 20, code: 'ABC', country: 'CA', tags: ['x'], score: 50, vip: true } },
+        { user: { age: 20, code: 'ABC', country: 'CA', tags: [], score: 5, vip: false } },
+        { user: { age: 20, code: 'ABC', country: 'US', tags: [], score: 50, vip: false } }
+    ];
+
+    it('should evaluate facts like the engine', () => {
+        const ruleSet = compile(conditions);
+
+        expect(facts.map(fact => ruleSet.evaluate(fact).passed)).toEqual([true, false, false, true, false, false]);
+    });
+
+    it('should return the same outcome from test and evaluate', () => {
+        const ruleSet = compile(conditions);
+
+        facts.forEach(fact => expect(ruleSet.test(fact)).toBe(ruleSet.evaluate(fact).passed));
+    });
+
+    it('should stop test at the first failing condition', () => {
+        const spy = vi.fn(() => true);
+        const operators = new OperatorRegistry().register('spy', spy, { arity: 0 });
+        const ruleSet = compile([{ field: 'a', op: 'gt', value: 1 }, { field: 'b', op: 'spy' }], { operators });
+
+        expect(ruleSet.test({ a: 0, b: 1 })).toBe(false);
+        expect(spy).not.toHaveBeenCalled();
+
+        // evaluate still reports every top-level condition
+        expect(ruleSet.evaluate({ a: 0, b: 1 }).results).toHaveLength(2);
+        expect(spy).toHaveBeenCalledTimes(1);
+    });
+
+    it('should prepare constant arguments once', () => {
+        const prepare = vi.fn((args: unknown[]) => [String(args[0]).toUpperCase()]);
+        const operators = new OperatorRegistry()
+            .register('equalsUpper', (value: string, expected: string) => value === expected, { arity: 1, prepare });
+        const ruleSet = compile([{ field: 'code', op: 'equalsUpper', value: 'abc' }], { operators });
+
+        expect(ruleSet.test({ code: 'ABC' })).toBe(true);
+        expect(ruleSet.test({ code: 'abc' })).toBe(false);
+        expect(prepare).toHaveBeenCalledTimes(1);
+    });
+
+    it('should build regular expressions for matches at compile time', () => {
+        expect(() => compile([{ field: 'code', op: 'matches', value: '[' }])).toThrow(ValidraArgumentError);
+        expect(() => compile([{ field: 'code', op: 'matches', value: '[' }])).toThrow(expect.objectContaining({ cause: expect.any(SyntaxError) }));
+    });
+
+    it('should call operators with more than two arguments', () => {
+        const operators = new OperatorRegistry()
+            .register('sumIs', (value: number, a: number, b: number, c: number) => value === a + b + c, { arity: 3 });
+        const ruleSet = compile([{ field: 'n', op: 'sumIs', value: [1, 2, 3] }], { operators });
+
+        expect(ruleSet.test({ n: 6 })).toBe(true);
+        expect(ruleSet.test({ n: 7 })).toBe(false);
+    });
+
+    it('should short-circuit atLeast tests once the outcome is known', () => {
+        const spy = vi.fn(() => true);
+        const operators = new OperatorRegistry().register('spy', spy, { arity: 0 });
+        const ruleSet = compile([{ atLeast: 1, of: [{ field: 'a', op: 'spy' }, { field: 'b', op: 'spy' }] }], { operators });
+
+        expect(ruleSet.test({})).toBe(true);
+        expect(spy).toHaveBeenCalledTimes(1);
+    });
+});
@@ -0,0 +1,183 @@
+import { describe, it, expect } from 'vitest';
+import { DecisionTable } from '@/core/decision-table';
+import { ValidraEngine } from '@/core/validra-engine';
+import { ValidraArgumentError } from '@/utils/validra-errors';
+
+describe('DecisionTable', () => {
+    const csv = [
+        '#id,customer.age,customer.tier,=> discount,=> label',
+        'senior,>=65,-,15,senior',
+        'loyal,-,"gold, platinum",10,"""loyal"""',
+        'adult,between 18..64,-,5,',
+        'default,-,-,0,none'
+    ].join('\n');
+
+    describe('fromCsv', () => {
+        it('should pick the first matching row', () => {
+            const table = DecisionTable.fromCsv(csv);
+
+            expect(table.evaluate({ customer: { age: 70, tier: 'gold' } })).toEqual({
+                matched: true,
+                output: { discount: 15, label: 'senior' },
+                outputs: [{ discount: 15, label: 'senior' }],
+                rows: [0]
+            });
+            expect(table.evaluate({ customer: { age: 30, tier: 'platinum' } }).output).toEqual({ discount: 10, label: 'loyal' });
+            expect(table.evaluate({ customer: { age: 30, tier: 'silver' } }).output).toEqual({ discount: 5 });
+            expect(table.evaluate({ customer: { age: 12, tier: 'silver' } }).rows).toEqual([3]);
+        });
+
+        it('should describe its columns and rows', () => {
+            const table = DecisionTable.fromCsv(csv);
+
+            expect(table.hitPolicy).toBe('first');
+            expect(table.inputs).toEqual(['customer.age', 'customer.tier']);
+            expect(table.outputs).toEqual(['discount', 'label']);
+            expect(table.rows[0]).toEqual({
+                id: 'senior',
+                priority: 0,
+                condition: { field: 'customer.age', op: 'gte', value: 65, id: 'senior' },
+                output: { discount: 15, label: 'senior' }
+            });
+            expect(table.rows[1]?.condition).toEqual({
+                any: [
+                    { field: 'customer.tier', op: 'eq', value: 'gold' },
+                    { field: 'customer.tier', op: 'eq', value: 'platinum' }
+                ],
+                id: 'loyal'
+            });
+            expect(table.rows[3]?.condition).toEqual({ all: [], id: 'default' });
+        });
+
+        it('should collect every matching row', () => {
+            const table = DecisionTable.fromCsv(csv, { hitPolicy: 'collect' });
+            const result = table.evaluate({ customer: { age: 70, tier: 'gold' } });
+
+            expect(result.rows).toEqual([0, 1, 3]);
+            expect(result.outputs.map(output => output['discount'])).toEqual([15, 10, 0]);
+        });
+
+        it('should use a custom delimiter', () => {
+            const table = DecisionTable.fromCsv('score;=> grade\n>=90;A\n-;B', { delimiter: ';' });
+
+            expect(table.evaluate({ score: 95 }).output).toEqual({ grade: 'A' });
+        });
+    });
+
+    describe('cells', () => {
+        const decide = (cell: unknown, value: unknown) =>
+            new DecisionTable({ columns: ['x', '=> hit'], rows: [[cell, true]] }).evaluate({ x: value }).matched;
+
+        it('should compile comparisons and ranges', () => {
+            expect(decide('>= 18', 18)).toBe(true);
+            expect(decide('<18', 18)).toBe(false);
+            expect(decide('=5', 5)).toBe(true);
+            expect(decide('!= 5', 5)).toBe(false);
+            expect(decide('between 1..5', 3)).toBe(true);
+            expect(decide('not between 1..5', 3)).toBe(false);
+            expect(decide('<0, >100', 150)).toBe(true);
+        });
+
+        it('should compile word operators and predicates', () => {
+            expect(decide('contains "vip"', ['vip', 'new'])).toBe(true);
+            expect(decide('not contains "vip"', ['vip'])).toBe(false);
+            expect(decide('startsWith "A"', 'Ada')).toBe(true);
+            expect(decide('weekday', new Date(2025, 0, 6))).toBe(true);
+            expect(decide('weekend', new Date(2025, 0, 6))).toBe(false);
+            expect(decide('not empty', 'x')).toBe(true);
+            expect(decide('is email', 'ada@example.com')).toBe(true);
+        });
+
+        it('should compare values for equality', () => {
+            expect(decide('42', 42)).toBe(true);
+            expect(decide('true', true)).toBe(true);
+            expect(decide('"gold, silver"', 'gold, silver')).toBe(true);
+            expect(decide('gold', 'gold')).toBe(true);
+            expect(decide(42, 42)).toBe(true);
+            expect(decide(false, true)).toBe(false);
+            expect(decide(null, 'anything')).toBe(true);
+            expect(decide('-', 'anything')).toBe(true);
+        });
+
+        it('should report invalid cells with their row and column', () => {
+            expect(() => decide('>=', 1)).toThrow(ValidraArgumentError);
+            expect(() => decide('between 1..', 1)).toThrow(/^Invalid cell "between 1\.\." in row 1, column "x": /);
+            expect(() => decide({}, 1)).toThrow('input cells must be strings, numbers, booleans or null.');
+        });
+    });
+
+    describe('hit policies', () => {
+        const document = {
+            columns: ['#priority', 'amount', '=> route'],
+            rows: [
+                [1, '>100', 'review'],
+                [5, '>1000', 'manager'],
+                [5, '>5000', 'board'],
+                [null, '-', 'auto']
+            ]
+        };
+
+        it('should pick the highest priority match', () => {
+            const table = new DecisionTable(document, { hitPolicy: 'priority' });
+
+            expect(table.evaluate({ amount: 2000 }).output).toEqual({ route: 'manager' });
+            expect(table.evaluate({ amount: 9000 }).rows).toEqual([1]);
+            expect(table.evaluate({ amount: 10 }).output).toEqual({ route: 'auto' });
+        });
+
+        it('should require a single match for unique', () => {
+            const table = new DecisionTable({ ...document, hitPolicy: 'unique' });
+
+            expect(() => table.evaluate({ amount: 2000 }))
+                .toThrow('Hit policy "unique" allows a single matching row, but rows 1, 2 and 4 matched.');
+            expect(new DecisionTable({ columns: ['a', '=> b'], rows: [['1', 'x'], ['2', 'y']], hitPolicy: 'unique' })
+                .evaluate({ a: 2 }).output).toEqual({ b: 'y' });
+        });
+
+        it('should report no match', () => {
+            const table = new DecisionTable({ columns: ['a', '=> b'], rows: [['1', 'x']] });
+
+            expect(table.evaluate({ a: 2 })).toEqual({ matched: false, output: undefined, outputs: [], rows: [] });
+        });
+
+        it('should reject unknown hit policies', () => {
+            expect(() => new DecisionTable(document, { hitPolicy: 'any' as never }))
+                .toThrow('Hit policy must be one of first, unique, collect, priority.');
+        });
+    });
+
+    describe('fromJson', () => {
+        it('should read JSON text and documents', () => {
+            const json = JSON.stringify({ hitPolicy: 'collect', columns: ['a', '=> b'], rows: [['>0', 1], ['>1', 2]] });
+
+            expect(DecisionTable.fromJson(json).evaluate({ a: 5 }).outputs).toEqual([{ b: 1 }, { b: 2 }]);
+            expect(DecisionTable.fromJson(JSON.parse(json)).hitPolicy).toBe('collect');
+            expect(() => DecisionTable.fromJson('{')).toThrow(/^Decision table is not valid JSON/);
+        });
+
+        it('should validate the table layout', () => {
+            expect(() => DecisionTable.fromJson({} as never)).toThrow('Decision table must have "columns" and "rows" arrays.');
+            expect(() => DecisionTable.fromJson({ columns: ['a'], rows: [] }))
+                .toThrow('Decision table requires at least one output column, e.g. "=> result".');
+            expect(() => DecisionTable.fromJson({ columns: ['=> a', '=>a'], rows: [] }))
+                .toThrow('Output column "a" is defined more than once.');
+            expect(() => DecisionTable.fromJson({ columns: ['', '=> a'], rows: [] }))
+                .toThrow('Decision table column headers must be non-empty strings.');
+            expect(() => DecisionTable.fromJson({ columns: ['a..b', '=> a'], rows: [] })).toThrow(/^Invalid column "a\.\.b"/);
+            expect(() => DecisionTable.fromJson({ columns: ['a', '=> b'], rows: [['1', 2, 3]] }))
+                .toThrow('Row 1 must be an array of at most 2 cells.');
+            expect(() => DecisionTable.fromJson({ columns: ['#priority', '=> b'], rows: [['high', 2]] }))
+                .toThrow('Invalid priority "high" in row 1.');
+        });
+    });
+
+    describe('toConditions', () => {
+        it('should export rows as engine conditions', () => {
+            const conditions = DecisionTable.fromCsv(csv).toConditions();
+            const engine = new ValidraEngine(conditions);
+
+            expect(conditions).toHaveLength(4);
+            expect(engine.evaluate({ customer: { age: 70, tier: 'gold' } }, { mode: 'stopOnFirstMatch' }).results[0]?.passed).toBe(true);
+        });
+    });
+});
@@ -0,0 +1,139 @@
+import { describe, it, expect, vi } from 'vitest';
+import { ValidraEngine } from '@/core/validra-engine';
+import { GroupResult, RuleResult } from '@/core/types';
+import { OperatorRegistry } from '@/operations/operator-registry';
+
+const delay = <T>(ms: number, value: T): Promise<T> => new Promise(resolve => setTimeout(() => resolve(value), ms));
+
+describe('ValidraEngine.evaluateAsync', () => {
+    const takenEmails = new Set(['taken@example.com']);
+    const operators = new OperatorRegistry()
+        .register('isUniqueEmail', async (email: string) => delay(5, !takenEmails.has(email)), { arity: 0, async: true })
+        .register('slow', () => delay(200, true), { arity: 0, async: true })
+        .register('rejects', () => Promise.reject(new Error('repository unavailable')), { arity: 0, async: true });
+
+    it('should await asynchronous operators', async () => {
+        const engine = new ValidraEngine([{ field: 'email', op: 'isUniqueEmail' }], { operators });
+
+        expect((await engine.evaluateAsync({ email: 'new@example.com' })).passed).toBe(true);
+        expect((await engine.evaluateAsync({ email: 'taken@example.com' })).passed).toBe(false);
+    });
+
+    it('should mix synchronous and asynchronous operators', async () => {
+        const engine = new ValidraEngine([
+            { field: 'age', op: 'gte', value: 18 },
+            { all: [{ field: 'email', op: 'isEmail' }, { field: 'email', op: 'isUniqueEmail' }] }
+        ], { operators });
+
+        const result = await engine.evaluateAsync({ age: 30, email: 'new@example.com' });
+
+        expect(result.passed).toBe(true);
+        expect((result.results[0] as RuleResult).status).toBe('passed');
+        expect((result.results[1] as GroupResult).children).toHaveLength(2);
+    });
+
+    it('should match the synchronous results for synchronous rule sets', async () => {
+        const engine = new ValidraEngine([
+            { field: 'age', op: 'gte', value: 18 },
+            { any: [{ field: 'country', op: 'eq', value: 'US' }, { field: 'consent', op: 'eq', value: true }] }
+        ]);
+        const fact = { age: 16, country: 'CA', consent: true };
+
+        expect(await engine.evaluateAsync(fact)).toEqual(engine.evaluate(fact));
+    });
+
+    it('should reject synchronous evaluation of asynchronous operators', () => {
+        const engine = new ValidraEngine([{ field: 'email', op: 'isUniqueEmail' }], { operators });
+
+        expect(() => engine.evaluate({ email: 'a@b.co' })).toThrow('Operator "isUniqueEmail" is asynchronous. Use evaluateAsync() instead.');
+        expect(() => engine.test({ email: 'a@b.co' })).toThrow('Operator "isUniqueEmail" is asynchronous.');
+    });
+
+    it('should fail rules that time out with a distinct status', async () => {
+        const engine = new ValidraEngine([
+            { id: 'slow', field: 'x', op: 'slow' },
+            { id: 'fast', field: 'email', op: 'isUniqueEmail' }
+        ], { operators });
+
+        const result = await engine.evaluateAsync({ email: 'new@example.com' }, { timeoutMs: 50 });
+        const [slow, fast] = result.results as RuleResult[];
+
+        expect(result.passed).toBe(false);
+        expect(slow).toMatchObject({ passed: false, status: 'timeout' });
+        expect(fast).toMatchObject({ passed: true, status: 'passed' });
+    });
+
+    it('should reject when the signal is aborted during evaluation', async () => {
+        const engine = new ValidraEngine([{ field: 'x', op: 'slow' }], { operators });
+        const controller = new AbortController();
+
+        const promise = engine.evaluateAsync({}, { signal: controller.signal });
+        setTimeout(() => controller.abort(new Error('cancelled')), 10);
+
+        await expect(promise).rejects.toThrow('cancelled');
+    });
+
+    it('should reject immediately when the signal is already aborted', async () => {
+        const spy = vi.fn(() => true);
+        const registry = new OperatorRegistry().register('spy', spy, { arity: 0 });
+        const engine = new ValidraEngine([{ field: 'x', op: 'spy' }], { operators: registry });
+
+        await expect(engine.evaluateAsync({}, { signal: AbortSignal.abort() })).rejects.toThrow();
+        expect(spy).not.toHaveBeenCalled();
+    });
+
+    it('should propagate operator rejections', async () => {
+        const engine = new ValidraEngine([{ field: 'x', op: 'rejects' }], { operators });
+
+        await expect(engine.evaluateAsync({})).rejects.toThrow('repository unavailable');
+    });
+
+    it('should bound the number of concurrent top-level conditions', async () => {
+        let active = 0;
+        let peak = 0;
+        const registry = new OperatorRegistry().register('track', async () => {
+            active++;
+            peak = Math.max(peak, active);
+            await delay(5, null);
+            active--;
+            return true;
+        }, { arity: 0, async: true });
+        const engine = new ValidraEngine(Array.from({ length: 10 }, () => ({ field: 'x', op: 'track' })), { operators: registry });
+
+        const result = await engine.evaluateAsync({}, { concurrency: 3 });
+
+        expect(result.passed).toBe(true);
+        expect(result.results).toHaveLength(10);
+        expect(peak).toBe(3);
+    });
+
+    it('should keep result order regardless of completion order', async () => {
+        const registry = new OperatorRegistry()
+            .register('after', (value: number) => delay(value, true), { arity: 0, async: true });
+        const engine = new ValidraEngine([
+            { id: 'a', field: 'a', op: 'after' },
+            { id: 'b', field: 'b', op: 'after' },
+            { id: 'c', field: 'c', op: 'after' }
+        ], { operators: registry });
+
+        const result = await engine.evaluateAsync({ a: 30, b: 1, c: 15 });
+
+        expect(result.results.map(r => (r as RuleResult).rule.id)).toEqual(['a', 'b', 'c']);
+    });
+
+    it('should short-circuit groups', async () => {
+        const spy = vi.fn(async () => true);
+        const registry = new OperatorRegistry().register('spy', spy, { arity: 0, async: true });
+        const engine = new ValidraEngine([{ all: [{ field: 'n', op: 'gt', value: 1 }, { field: 'n', op: 'spy' }] }], { operators: registry });
+
+        expect((await engine.evaluateAsync({ n: 0 })).passed).toBe(false);
+        expect(spy).not.toHaveBeenCalled();
+    });
+
+    it('should validate options', async () => {
+        const engine = new ValidraEngine([]);
+
+        await expect(engine.evaluateAsync({}, { concurrency: 0 })).rejects.toThrow('Concurrency must be a positive integer.');
+        await expect(engine.evaluateAsync({}, { timeoutMs: -1 })).rejects.toThrow('Timeout must be a non-negative number of milliseconds.');
+    });
+});
@@ -0,0 +1,135 @@
+import { describe, it, expect, vi } from 'vitest';
+import { renderTrace } from '@/core/explain';
+import { ValidraEngine } from '@/core/validra-engine';
+import { Condition, GroupTrace, RuleTrace } from '@/core/types';
+import { ValidraLogger } from '@/utils/validra-logger';
+
+describe('explain', () => {
+    const conditions: Condition[] = [
+        { id: 'adult', field: 'user.age', op: 'gte', value: 18 },
+        { any: [
+            { field: 'user.country', op: 'eq', value: 'US' },
+            { field: 'user.hasConsent', op: 'eq', value: true }
+        ] },
+        { field: 'discount', op: 'lte', value: { ref: 'subtotal' } }
+    ];
+
+    describe('ValidraEngine.explain', () => {
+        it('should trace every evaluated condition', () => {
+            const explanation = new ValidraEngine(conditions).explain({
+                user: { age: 16, country: 'FR', hasConsent: true },
+                discount: 5,
+                subtotal: 40
+            });
+            const [adult, any, discount] = explanation.trace as [RuleTrace, GroupTrace, RuleTrace];
+
+            expect(explanation.passed).toBe(false);
+            expect(explanation.duration).toBeGreaterThanOrEqual(0);
+            expect(adult).toMatchObject({
+                kind: 'rule',
+                id: 'adult',
+                subject: 'user.age',
+                operator: 'gte',
+                expected: 18,
+                arguments: [18],
+                actual: 16,
+                passed: false,
+                status: 'failed'
+            });
+            expect(any).toMatchObject({ kind: 'group', operator: 'any', passed: true, status: 'passed' });
+            expect(any.children.map(child => child.status)).toEqual(['failed', 'passed']);
+            expect(discount).toMatchObject({ expected: { ref: 'subtotal' }, arguments: [40], actual: 5, status: 'passed' });
+            expect(explanation.trace.every(node => node.duration >= 0)).toBe(true);
+        });
+
+        it('should list conditions left out by short-circuiting', () => {
+            const engine = new ValidraEngine(conditions);
+            const explanation = engine.explain(
+                { user: { age: 16, country: 'US' }, discount: 5, subtotal: 40 },
+                { mode: 'stopOnFirstFailure' }
+            );
+            const any = explanation.trace[1] as GroupTrace;
+
+            expect(any.status).toBe('notEvaluated');
+            expect(any.passed).toBeUndefined();
+            expect(any.children.map(child => child.status)).toEqual(['notEvaluated', 'notEvaluated']);
+            expect(explanation.trace[2]).not.toHaveProperty('actual');
+
+            const passing = engine.explain({ user: { age: 30, country: 'US' }, discount: 5, subtotal: 40 });
+            expect((passing.trace[1] as GroupTrace).children.map(child => child.status)).toEqual(['passed', 'notEvaluated']);
+        });
+
+        it('should trace skipped conditions and turned-off rule groups', () => {
+            const engine = new ValidraEngine([
+                { field: 'name', op: 'minLength', value: 2 },
+                { all: [{ field: 'a', op: 'eq', value: 1 }], group: 'promo' }
+            ], { onTypeMismatch: 'skip' });
+            const [name, promo] = engine.explain({ name: 42, a: 1 }, { groups: { promo: false } }).trace as [RuleTrace, GroupTrace];
+
+            expect(name.status).toBe('skipped');
+            expect(name.reason).toBeDefined();
+            expect(promo).toMatchObject({ status: 'skipped', reason: 'Rule group "promo" is turned off.' });
+            expect(promo.children[0]?.status).toBe('notEvaluated');
+        });
+
+        it('should write the rendered trace to a logger', () => {
+            const logger = new ValidraLogger('Explain');
+            const debug = vi.spyOn(logger, 'debug').mockImplementation(() => {});
+            const trace = vi.spyOn(logger, 'trace').mockImplementation(() => {});
+            const engine = new ValidraEngine(conditions);
+            const fact = { user: { age: 30, country: 'US' }, discount: 5, subtotal: 40 };
+
+            const explanation = engine.explain(fact, { logger });
+            expect(debug).toHaveBeenCalledWith(renderTrace(explanation), explanation);
+
+            engine.explain(fact, { logger, logLevel: 'trace' });
+            expect(trace).toHaveBeenCalledTimes(1);
+            expect(() => engine.explain(fact, { logger, logLevel: 'info' as never })).toThrow('Log level must be one of debug, trace.');
+        });
+    });
+
+    describe('renderTrace', () => {
+        it('should render the tree with indentation and markers', () => {
+            const engine = new ValidraEngine([
+                ...conditions,
+                { atLeast: 1, of: [{ field: 'user.email', op: 'isEmail' }] }
+            ]);
+            const explanation = engine.explain(
+                { user: { age: 16, country: 'FR', email: 'jane@example.com' }, discount: 5, subtotal: 40 },
+                { mode: 'stopOnFirstFailure' }
+            );
+
+            expect(renderTrace(explanation, { durations: false })).toBe([
+                '✗ evaluation failed',
+                '  ✗ [adult] user.age gte 18 (actual: 16)',
+                '  · any (not evaluated)',
+                '    · user.country eq "US" (not evaluated)',
+                '    · user.hasConsent eq true (not evaluated)',
+                '  · discount lte {"ref":"subtotal"} (not evaluated)',
+                '  · atLeast 1 of (not evaluated)',
+                '    · user.email isEmail (not evaluated)'
+            ].join('\n'));
+        });
+
+        it('should render reasons, resolved arguments and durations', () => {
+            const engine = new ValidraEngine([
+                { field: 'meta?.tags', op: 'contains', value: 'x' },
+                { field: 'name', op: 'minLength', value: 2 },
+                { field: 'range', op: 'between', value: [1, { ref: 'max' }] }
+            ], { onTypeMismatch: 'skip' });
+            const rendered = renderTrace(engine.explain({ name: 42, range: 3, max: 5 }));
+            const lines = rendered.split('\n');
+
+            expect(lines[1]).toMatch(/^ {2}✓ meta\?\.tags contains "x" \(actual: undefined\) — Optional field "meta\?\.tags" is absent\. \[\d+\.\d{3} ms\]$/);
+            expect(lines[2]).toMatch(/^ {2}– name minLength 2 \(actual: 42\) — .+ \[\d+\.\d{3} ms\]$/);
+            expect(lines[3]).toMatch(/^ {2}✓ range between 1, 5 \(actual: 3\)/);
+        });
+
+        it('should shorten long values', () => {
+            const engine = new ValidraEngine([{ field: 'text', op: 'isString' }]);
+            const rendered = renderTrace(engine.explain({ text: 'x'.repeat(100) }), { durations: false });
+
+            expect(rendered.split('\n')[1]).toBe(`  ✓ text isString (actual: "${'x'.repeat(58)}…)`);
+        });
+    });
+});
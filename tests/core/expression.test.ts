@@ -0,0 +1,114 @@
+import { describe, it, expect } from 'vitest';
+import { compileExpression, evaluateExpression, isDynamicOperand, isExpressionOperand } from '@/core/expression';
+import { DslSyntaxError } from '@/dls/dsl-syntax-error';
+import { ValidraTypeError } from '@/utils/validra-errors';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+describe('expression', () => {
+    const order = {
+        items: [{ price: 40, qty: 1 }, { price: 60, qty: 3 }, { qty: 2 }],
+        taxRate: 0.25,
+        startDate: new Date('2025-01-01'),
+        endDate: new Date('2025-01-31')
+    };
+
+    describe('arithmetic', () => {
+        it('should respect precedence and parentheses', () => {
+            expect(evaluateExpression('1 + 2 * 3', {})).toBe(7);
+            expect(evaluateExpression('(1 + 2) * 3', {})).toBe(9);
+            expect(evaluateExpression('10 - 4 - 3', {})).toBe(3);
+            expect(evaluateExpression('7 % 4 / 2', {})).toBe(1.5);
+            expect(evaluateExpression('-taxRate * 4', order)).toBe(-1);
+            expect(evaluateExpression('-(2 + 3)', {})).toBe(-5);
+        });
+
+        it('should read fields with the rule path syntax', () => {
+            expect(evaluateExpression('items[1].price * items[1].qty', order)).toBe(180);
+            expect(evaluateExpression('sum(items[*]?.price) * (1 + taxRate)', { ...order, items: [...order.items.slice(0, 2), null] })).toBe(125);
+            expect(() => evaluateExpression('sum(items[*]?.price)', order)).toThrow(ValidraTypeError);
+        });
+
+        it('should compute with dates and durations', () => {
+            expect(evaluateExpression('endDate - startDate', order)).toBe(30 * DAY);
+            expect(evaluateExpression('startDate + 2 weeks', order)).toEqual(new Date('2025-01-15'));
+            expect(evaluateExpression('endDate - 36 hours', order)).toEqual(new Date('2025-01-29T12:00:00Z'));
+            expect(evaluateExpression('1 day + startDate', order)).toEqual(new Date('2025-01-02'));
+            expect(evaluateExpression('90 minutes + 30 seconds + 500 milliseconds', {})).toBe(5_430_500);
+        });
+
+        it('should reject operands of the wrong type', () => {
+            expect(() => evaluateExpression('name * 2', { name: 'x' }))
+                .toThrow('Cannot apply "*" to string and integer in expression "name * 2".');
+            expect(() => evaluateExpression('startDate + endDate', order)).toThrow(ValidraTypeError);
+            expect(() => evaluateExpression('missing + 1', {})).toThrow('Cannot apply "+" to undefined and integer');
+            expect(() => evaluateExpression('-name', { name: 'x' })).toThrow('Cannot negate string in expression "-name".');
+        });
+    });
+
+    describe('aggregates', () => {
+        it('should aggregate lists', () => {
+            expect(evaluateExpression('sum(items[*].qty)', order)).toBe(6);
+            expect(evaluateExpression('min(items[*].qty)', order)).toBe(1);
+            expect(evaluateExpression('max(items[*].qty)', order)).toBe(3);
+            expect(evaluateExpression('avg(items[*].qty)', order)).toBe(2);
+            expect(evaluateExpression('count(items)', order)).toBe(3);
+        });
+
+        it('should aggregate several values', () => {
+            expect(evaluateExpression('max(taxRate, 1, 0.5)', order)).toBe(1);
+            expect(evaluateExpression('sum(1, 2, 3) / count(items[*].qty)', order)).toBe(2);
+            expect(evaluateExpression('min(startDate, endDate)', order)).toEqual(order.startDate);
+        });
+
+        it('should aggregate empty lists', () => {
+            expect(evaluateExpression('sum(items[*].price)', { items: [] })).toBe(0);
+            expect(evaluateExpression('avg(items[*].price)', { items: [] })).toBeUndefined();
+            expect(evaluateExpression('max(items[*].price)', { items: [] })).toBeUndefined();
+        });
+
+        it('should aggregate lists too long to spread into arguments', () => {
+            const items = Array.from({ length: 200_000 }, (_, index) => ({ price: index }));
+
+            expect(evaluateExpression('min(items[*].price)', { items })).toBe(0);
+            expect(evaluateExpression('max(items[*].price)', { items })).toBe(199_999);
+        });
+
+        it('should reject values that cannot be aggregated', () => {
+            expect(() => evaluateExpression('sum(items[*].price)', order))
+                .toThrow('Function "sum" expects numbers but received undefined in expression "sum(items[*].price)".');
+            expect(() => evaluateExpression('count(taxRate)', order)).toThrow('Function "count" expects a list but received number');
+            expect(() => evaluateExpression('-label', { label: 'x' })).toThrow('Cannot negate string in expression "-label".');
+            expect(() => evaluateExpression('a + 1', { a: new Map() })).toThrow('Cannot apply "+" to map and integer in expression "a + 1".');
+        });
+    });
+
+    describe('compileExpression', () => {
+        it('should expose the source and parsed tree', () => {
+            const expression = compileExpression('a + 1');
+
+            expect(expression.source).toBe('a + 1');
+            expect(expression.node.type).toBe('Binary');
+            expect(expression.evaluate({ a: 2 })).toBe(3);
+            expect(expression.evaluate({ a: 5 })).toBe(6);
+        });
+
+        it('should reject malformed expressions', () => {
+            expect(() => compileExpression('a +')).toThrow(DslSyntaxError);
+            expect(() => compileExpression('median(a)')).toThrow('Unknown function "median"');
+            expect(() => compileExpression('count(a, b)')).toThrow('Function "count" expects 1 argument but received 2');
+            expect(() => compileExpression('a[x] + 1')).toThrow('Invalid field path "a[x]"');
+        });
+    });
+
+    describe('operands', () => {
+        it('should recognize expression operands', () => {
+            expect(isExpressionOperand({ expr: 'a + 1' })).toBe(true);
+            expect(isExpressionOperand({ expr: 1 })).toBe(false);
+            expect(isExpressionOperand({ expr: 'a', ref: 'b' })).toBe(false);
+            expect(isDynamicOperand({ ref: 'a' })).toBe(true);
+            expect(isDynamicOperand({ expr: 'a' })).toBe(true);
+            expect(isDynamicOperand('a')).toBe(false);
+        });
+    });
+});
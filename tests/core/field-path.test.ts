@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest';
+import { compileFieldPath, getFieldValue } from '@/core/field-path';
+
+describe('getFieldValue', () => {
+    const fact = {
+        user: { age: 30, tags: ['vip', 'beta'], address: { zip: '10001' } },
+        active: false,
+        nothing: null
+    };
+
+    it('should resolve top-level fields', () => {
+        expect(getFieldValue(fact, 'active')).toBe(false);
+    });
+
+    it('should resolve nested fields', () => {
+        expect(getFieldValue(fact, 'user.age')).toBe(30);
+        expect(getFieldValue(fact, 'user.address.zip')).toBe('10001');
+    });
+
+    it('should resolve array elements by index segment', () => {
+        expect(getFieldValue(fact, 'user.tags.1')).toBe('beta');
+    });
+
+    it('should return undefined for missing fields', () => {
+        expect(getFieldValue(fact, 'user.name')).toBeUndefined();
+        expect(getFieldValue(fact, 'user.address.city.name')).toBeUndefined();
+    });
+
+    it('should return undefined when traversing null or primitives', () => {
+        expect(getFieldValue(fact, 'nothing.value')).toBeUndefined();
+        expect(getFieldValue(fact, 'user.age.value')).toBeUndefined();
+        expect(getFieldValue(null, 'any')).toBeUndefined();
+    });
+});
+
+describe('compileFieldPath', () => {
+    const fact = { user: { age: 30, address: { zip: '10001' } }, active: false };
+
+    it('should resolve the same values as getFieldValue', () => {
+        ['active', 'user.age', 'user.address.zip', 'user.name', 'user.age.value', 'missing'].forEach(path => {
+            expect(compileFieldPath(path)(fact)).toEqual(getFieldValue(fact, path));
+        });
+    });
+
+    it('should be reusable across facts', () => {
+        const getZip = compileFieldPath('user.address.zip');
+
+        expect(getZip(fact)).toBe('10001');
+        expect(getZip({ user: { address: { zip: '90210' } } })).toBe('90210');
+        expect(getZip({ user: null })).toBeUndefined();
+        expect(compileFieldPath('active')(null)).toBeUndefined();
+    });
+
+    it('should support indices and wildcards, reporting absent values as undefined', () => {
+        const order = { items: [{ price: 5 }, {}] };
+
+        expect(compileFieldPath('items[0].price')(order)).toBe(5);
+        expect(compileFieldPath('items[*].price')(order)).toEqual([5, undefined]);
+        expect(compileFieldPath('missing[*].price')(order)).toBeUndefined();
+    });
+});
@@ -0,0 +1,184 @@
+import { describe, it, expect } from 'vitest';
+import { compileInference } from '@/core/inference';
+import { ValidraEngine } from '@/core/validra-engine';
+import { Condition } from '@/core/types';
+import { InferenceError, RuleEvaluationError, ValidraTypeError } from '@/utils/validra-errors';
+
+describe('inference', () => {
+    const promotions: Condition[] = [
+        { id: 'shipping', field: 'cart.total', op: 'gt', value: 100, then: [{ set: 'cart.freeShipping', value: true }] },
+        { id: 'notify', field: 'cart.freeShipping', op: 'eq', value: true, then: [{ emit: 'freeShippingUnlocked', payload: { ref: 'cart.total' } }] },
+        { id: 'valid', field: 'cart.total', op: 'gte', value: 0 }
+    ];
+
+    describe('run', () => {
+        it('should chain rules through the working memory', () => {
+            const cart = { cart: { total: 120 } };
+            const { fact, events, fired, iterations } = compileInference(promotions).run(cart);
+
+            expect(fact).toEqual({ cart: { total: 120, freeShipping: true } });
+            expect(cart).toEqual({ cart: { total: 120 } });
+            expect(events).toEqual([
+                { name: 'freeShippingUnlocked', payload: 120, condition: promotions[1], iteration: 1 }
+            ]);
+            expect(fired.map(condition => condition.id)).toEqual(['shipping', 'notify']);
+            expect(iterations).toBe(1);
+        });
+
+        it('should re-evaluate rules whose fields changed in a later pass', () => {
+            const { events, iterations } = compileInference([
+                { id: 'notify', field: 'cart.freeShipping', op: 'eq', value: true, then: [{ emit: 'freeShippingUnlocked' }] },
+                { id: 'shipping', field: 'cart.total', op: 'gt', value: 100, then: [{ set: 'cart.freeShipping', value: true }] }
+            ]).run({ cart: { total: 120, freeShipping: false } });
+
+            expect(events.map(event => [event.name, event.iteration])).toEqual([['freeShippingUnlocked', 2]]);
+            expect(iterations).toBe(2);
+        });
+
+        it('should fire rules once while the fields they read are unchanged', () => {
+            const { events, fired } = compileInference([
+                { field: 'total', op: 'gt', value: 0, then: [{ emit: 'positive' }, { set: 'seen', value: true }] }
+            ]).run({ total: 5 });
+
+            expect(events).toHaveLength(1);
+            expect(fired).toHaveLength(1);
+        });
+
+        it('should fire higher priority rules first', () => {
+            const { fact } = compileInference([
+                { field: 'tier', op: 'eq', value: 'gold', then: [{ set: 'discount', value: 10 }] },
+                { field: 'tier', op: 'eq', value: 'gold', priority: 5, then: [{ set: 'discount', value: 20 }] }
+            ]).run({ tier: 'gold' });
+
+            expect(fact['discount']).toBe(10);
+        });
+
+        it('should compute values from references and expressions', () => {
+            const { fact } = compileInference([
+                { field: 'cart.items', op: 'isArray', then: [
+                    { set: 'cart.total', value: { expr: 'sum(cart.items[*].price)' } },
+                    { set: 'cart.copy', value: { ref: 'cart.items[0]' } },
+                    { set: 'order.lines[0].sku', value: 'A-1' }
+                ] }
+            ]).run({ cart: { items: [{ price: 40 }, { price: 60 }] } });
+
+            expect(fact).toEqual({
+                cart: { items: [{ price: 40 }, { price: 60 }], total: 100, copy: { price: 40 } },
+                order: { lines: [{ sku: 'A-1' }] }
+            });
+            expect((fact['cart'] as { copy: object }).copy).not.toBe((fact['cart'] as { items: object[] }).items[0]);
+        });
+
+        it('should loop until the rules settle', () => {
+            const { fact, iterations } = compileInference([
+                { field: 'count', op: 'lt', value: 5, then: [{ set: 'count', value: { expr: 'count + 1' } }] }
+            ]).run({ count: 0 });
+
+            expect(fact['count']).toBe(5);
+            expect(iterations).toBe(6);
+        });
+
+        it('should fire groups and skip rule groups that are turned off', () => {
+            const inference = compileInference([
+                { all: [{ field: 'a', op: 'eq', value: 1 }, { field: 'b', op: 'eq', value: 2 }], group: 'promo', then: [{ emit: 'both' }] }
+            ]);
+
+            expect(inference.run({ a: 1, b: 2 }).events).toHaveLength(1);
+            expect(inference.run({ a: 1, b: 2 }, { groups: { promo: false } }).events).toHaveLength(0);
+            expect(inference.run({ a: 1, b: 3 }).events).toHaveLength(0);
+        });
+
+        it('should detect cycles', () => {
+            const inference = compileInference([
+                { field: 'flag', op: 'eq', value: true, then: [{ set: 'flag', value: false }] },
+                { field: 'flag', op: 'eq', value: false, then: [{ set: 'flag', value: true }] }
+            ]);
+
+            let error: unknown;
+            try {
+                inference.run({ flag: true });
+            } catch (caught) {
+                error = caught;
+            }
+
+            expect(error).toBeInstanceOf(InferenceError);
+            expect(error).toMatchObject({ kind: 'cycle', code: 'ERR_VALIDRA_INFERENCE' });
+        });
+
+        it('should stop after the maximum number of iterations', () => {
+            const inference = compileInference([
+                { field: 'count', op: 'gte', value: 0, then: [{ set: 'count', value: { expr: 'count + 1' } }] }
+            ]);
+
+            expect(() => inference.run({ count: 0 }, { maxIterations: 10 }))
+                .toThrow('Rules kept changing the fact after 10 iterations.');
+            expect(() => inference.run({ count: 0 })).toThrow(InferenceError);
+            expect(() => inference.run({ count: 0 }, { maxIterations: 0 })).toThrow('Maximum iterations must be a positive integer.');
+        });
+
+        it('should reject writes below primitive fields', () => {
+            const inference = compileInference([{ field: 'a', op: 'eq', value: 1, then: [{ set: 'a.b', value: 2 }] }]);
+
+            expect(() => inference.run({ a: 1 })).toThrow(ValidraTypeError);
+            expect(() => inference.run({ a: 1 })).toThrow('Cannot set "a.b": a parent field holds number.');
+        });
+
+        it('should leave class instances of the input unchanged', () => {
+            class Cart {
+                total = 150;
+                freeShipping = false;
+            }
+            const inference = compileInference([
+                { field: 'cart.total', op: 'gt', value: 100, then: [{ set: 'cart.freeShipping', value: true }] }
+            ]);
+            const cart = new Cart();
+
+            expect(() => inference.run({ cart })).toThrow('Cannot set "cart.freeShipping": a parent field holds instance, which is shared with the input fact.');
+            expect(() => compileInference([{ field: 'total', op: 'gt', value: 100, then: [{ set: 'freeShipping', value: true }] }])
+                .run(cart as never)).toThrow(ValidraTypeError);
+            expect(cart.freeShipping).toBe(false);
+            expect(compileInference([{ field: 'cart.total', op: 'gt', value: 100, then: [{ set: 'shipping.free', value: true }] }])
+                .run({ cart }).fact).toMatchObject({ cart, shipping: { free: true } });
+        });
+    });
+
+    describe('compileInference', () => {
+        it('should validate actions', () => {
+            const rule = { field: 'a', op: 'isString' };
+
+            expect(() => compileInference([{ ...rule, then: [] }])).toThrow('Condition actions in "then" must be a non-empty array.');
+            expect(() => compileInference([{ ...rule, then: [{ set: 'b', emit: 'c', value: 1 }] }]))
+                .toThrow('Action must define exactly one of set, emit.');
+            expect(() => compileInference([{ ...rule, then: [{ set: 'b[*].c', value: 1 }] }]))
+                .toThrow('Action path "b[*].c" must not contain wildcards.');
+            expect(() => compileInference([{ ...rule, then: [{ set: 'b.__proto__.c', value: 1 }] }]))
+                .toThrow('Action path "b.__proto__.c" must not write to "__proto__".');
+            expect(() => compileInference([{ ...rule, then: [{ set: 'b' } as never] }])).toThrow('Action setting "b" requires a value.');
+            expect(() => compileInference([{ ...rule, then: [{ emit: '' }] }])).toThrow('Event name must be a non-empty string.');
+            expect(() => compileInference([{ ...rule, then: [{ set: 'b', value: { expr: 'a +' } }] }])).toThrow('Expected a value');
+            expect(() => compileInference([{ any: [{ ...rule, then: [{ emit: 'x' }] }] }]))
+                .toThrow('Actions in "then" are only allowed on top-level conditions.');
+        });
+    });
+
+    describe('ValidraEngine.run', () => {
+        it('should run actions and keep validating', () => {
+            const engine = new ValidraEngine(promotions);
+
+            expect(engine.run({ cart: { total: 150 } }).fact).toEqual({ cart: { total: 150, freeShipping: true } });
+            expect(engine.validate({ cart: { total: 150, freeShipping: true } }).valid).toBe(true);
+            expect(engine.evaluate({ cart: { total: -1, freeShipping: false } }).passed).toBe(false);
+        });
+
+        it('should check actions when the engine is created', () => {
+            expect(() => new ValidraEngine([{ field: 'a', op: 'isString', then: [{ set: 'b[*]', value: 1 }] }]))
+                .toThrow('Action path "b[*]" must not contain wildcards.');
+        });
+
+        it('should report rule errors', () => {
+            const engine = new ValidraEngine([{ field: 'total', op: 'gt', value: 1, then: [{ emit: 'x' }] }]);
+
+            expect(() => engine.run({ total: '2' })).toThrow(RuleEvaluationError);
+        });
+    });
+});
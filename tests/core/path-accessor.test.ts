@@ -0,0 +1,127 @@
+import { describe, it, expect } from 'vitest';
+import { ABSENT, compilePath, isAbsent, parsePath, resolvePath } from '@/core/path-accessor';
+import { ValidraArgumentError } from '@/utils/validra-errors';
+
+describe('path-accessor', () => {
+    const fact = {
+        order: {
+            items: [
+                { sku: 'A-1', price: 5, tags: ['new'] },
+                { sku: 'B-2', price: 7, tags: [] },
+                { sku: 'C-3' }
+            ]
+        },
+        customer: { addresses: [{ zip: '10001' }, { zip: '94105' }] },
+        meta: { tags: ['public'], empty: undefined, nothing: null },
+        'first.name': 'Jane'
+    };
+
+    describe('parsePath', () => {
+        it('should parse properties, indices, wildcards and optional segments', () => {
+            expect(parsePath('customer.addresses[0].zip')).toEqual([
+                { kind: 'property', key: 'customer', optional: false },
+                { kind: 'property', key: 'addresses', optional: false },
+                { kind: 'index', index: 0, optional: false },
+                { kind: 'property', key: 'zip', optional: false }
+            ]);
+            expect(parsePath('items[*]?.price')).toEqual([
+                { kind: 'property', key: 'items', optional: false },
+                { kind: 'wildcard', optional: false },
+                { kind: 'property', key: 'price', optional: true }
+            ]);
+            expect(parsePath('meta?.[1]')).toEqual([
+                { kind: 'property', key: 'meta', optional: false },
+                { kind: 'index', index: 1, optional: true }
+            ]);
+        });
+
+        it('should parse quoted keys', () => {
+            expect(parsePath('["first.name"]')).toEqual([{ kind: 'property', key: 'first.name', optional: false }]);
+            expect(parsePath("a['b\\'c']")).toEqual([
+                { kind: 'property', key: 'a', optional: false },
+                { kind: 'property', key: "b'c", optional: false }
+            ]);
+        });
+
+        it('should reject malformed paths', () => {
+            expect(() => parsePath('')).toThrow(ValidraArgumentError);
+            expect(() => parsePath('a..b')).toThrow('Invalid field path "a..b": expected a property name at position 3.');
+            expect(() => parsePath('a[x]')).toThrow('expected an index, "*" or a quoted key');
+            expect(() => parsePath('a[0')).toThrow('missing "]"');
+            expect(() => parsePath('a["b]')).toThrow('unterminated quoted key');
+            expect(() => parsePath('a.[0]')).toThrow('unexpected "["');
+            expect(() => parsePath('a?b')).toThrow('expected "." or "["');
+        });
+    });
+
+    describe('resolvePath', () => {
+        it('should resolve dotted paths and indices', () => {
+            expect(resolvePath(fact, 'customer.addresses[1].zip')).toBe('94105');
+            expect(resolvePath(fact, 'customer.addresses.0.zip')).toBe('10001');
+            expect(resolvePath(fact, '["first.name"]')).toBe('Jane');
+        });
+
+        it('should resolve missing segments to ABSENT', () => {
+            expect(resolvePath(fact, 'customer.name')).toBe(ABSENT);
+            expect(resolvePath(fact, 'customer.addresses[5].zip')).toBe(ABSENT);
+            expect(resolvePath(fact, 'meta.nothing.value')).toBe(ABSENT);
+            expect(resolvePath(fact, 'order.items.length.value')).toBe(ABSENT);
+            expect(resolvePath(null, 'a')).toBe(ABSENT);
+        });
+
+        it('should only resolve own properties and indices in bounds', () => {
+            const user = { user: {}, list: [1] };
+
+            expect(resolvePath(user, 'user.constructor')).toBe(ABSENT);
+            expect(resolvePath(user, 'user.__proto__')).toBe(ABSENT);
+            expect(resolvePath(user, 'user["toString"]')).toBe(ABSENT);
+            expect(resolvePath(user, 'constructor')).toBe(ABSENT);
+            expect(resolvePath(user, 'list[1]')).toBe(ABSENT);
+            expect(resolvePath(user, 'list.length')).toBe(1);
+        });
+
+        it('should follow optional chaining on optional paths', () => {
+            expect(resolvePath({}, 'meta?.tags')).toBe(ABSENT);
+            expect(resolvePath({ meta: null }, 'meta?.tags')).toBe(ABSENT);
+            expect(resolvePath({ meta: {} }, 'meta?.tags')).toBeUndefined();
+            expect(resolvePath({ meta: {} }, 'meta?.info.lang')).toBeUndefined();
+            expect(resolvePath({}, 'a.b?.c')).toBe(ABSENT);
+            expect(resolvePath({ items: [{ price: 1 }, null, {}] }, 'items[*]?.price')).toEqual([1, ABSENT, undefined]);
+            expect(resolvePath({ meta: {} }, 'meta?.tags[*]')).toBeUndefined();
+        });
+
+        it('should distinguish absent fields from fields holding undefined', () => {
+            expect(resolvePath(fact, 'meta.empty')).toBeUndefined();
+            expect(isAbsent(resolvePath(fact, 'meta.empty'))).toBe(false);
+            expect(isAbsent(resolvePath(fact, 'meta.missing'))).toBe(true);
+        });
+
+        it('should expand wildcards into lists of values', () => {
+            expect(resolvePath(fact, 'order.items[*].price')).toEqual([5, 7, ABSENT]);
+            expect(resolvePath(fact, 'order.items[*].tags[*]')).toEqual(['new', ABSENT]);
+            expect(resolvePath(fact, 'order.missing[*].price')).toBe(ABSENT);
+            expect(resolvePath(fact, 'order[*]')).toBe(ABSENT);
+        });
+    });
+
+    describe('compilePath', () => {
+        it('should describe the path', () => {
+            const accessor = compilePath('meta?.tags[*]');
+
+            expect(accessor.path).toBe('meta?.tags[*]');
+            expect(accessor.wildcard).toBe(true);
+            expect(accessor.optional).toBe(true);
+            expect(accessor.get(fact)).toEqual(['public']);
+            expect(compilePath('meta.tags').wildcard).toBe(false);
+            expect(compilePath('meta.tags').optional).toBe(false);
+        });
+
+        it('should resolve single-segment paths', () => {
+            const accessor = compilePath('meta');
+
+            expect(accessor.get(fact)).toBe(fact.meta);
+            expect(accessor.get({})).toBe(ABSENT);
+            expect(accessor.get(42)).toBe(ABSENT);
+        });
+    });
+});
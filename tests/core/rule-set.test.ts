@@ -0,0 +1,305 @@
+import { describe, it, expect } from 'vitest';
+import { loadRuleSet, RULE_SET_VERSION, toRuleSet, validateRuleSet } from '@/core/rule-set';
+import { RULE_SET_SCHEMA } from '@/core/rule-set-schema';
+import { Condition } from '@/core/types';
+import { ValidraEngine } from '@/core/validra-engine';
+import { OperatorRegistry } from '@/operations/operator-registry';
+import { ValidraArgumentError, ValidraTypeError } from '@/utils/validra-errors';
+
+describe('rule-set', () => {
+    const document = {
+        $validra: '1',
+        description: 'Checkout rules',
+        rules: [
+            { id: 'adult', field: 'user.age', op: 'gte', value: 18 },
+            { field: 'user.email', op: 'isEmail', severity: 'warning', message: '{field} is not an email' },
+            { field: 'order.createdAt', op: 'isAfter', value: { $date: '2025-01-01T00:00:00Z' } },
+            { field: 'order.items[*].price', op: 'between', value: [0, 1000], quantifier: 'every' },
+            { any: [
+                { field: 'user.country', op: 'eq', value: 'US' },
+                { not: { field: 'user.hasConsent', op: 'eq', value: false } }
+            ] },
+            { atLeast: 1, of: [{ field: 'user.name', op: 'isString' }] }
+        ]
+    };
+
+    describe('validateRuleSet', () => {
+        it('should accept valid documents', () => {
+            expect(validateRuleSet(document)).toEqual({ valid: true, problems: [] });
+        });
+
+        it('should accept operators from every helper class', () => {
+            const rules = [
+                { field: 'a', op: 'eq', value: 1 },
+                { field: 'a', op: 'notBetween', value: [1, 2] },
+                { field: 'a', op: 'matches', value: '^[a-z]+$' },
+                { field: 'a', op: 'hasProperty', value: 'id' },
+                { field: 'a', op: 'isBefore', value: { $date: '2030-01-01' } },
+                { field: 'a', op: 'isLeapYear' },
+                { field: 'a', op: 'isArray' }
+            ];
+
+            expect(validateRuleSet({ $validra: '1', rules }).problems).toEqual([]);
+        });
+
+        it('should report arguments the operator fails to prepare', () => {
+            const document = {
+                $validra: '1',
+                rules: [{ field: 'a', op: 'matches', value: '(' }, { field: 'a', op: 'isType', value: 'foo' }, { field: 'a', op: 'matches', value: { ref: 'b' } }]
+            };
+            const { valid, problems } = validateRuleSet(document);
+
+            expect(valid).toBe(false);
+            expect(problems.map(problem => problem.pointer)).toEqual(['/rules/0/value', '/rules/1/value']);
+            expect(problems[1]?.message).toMatch(/^Unknown type "foo"/);
+            expect(() => ValidraEngine.fromRuleSet(document)).toThrow();
+        });
+
+        it('should report problems with JSON-pointer locations', () => {
+            const { valid, problems } = validateRuleSet({
+                $validra: '1',
+                rules: [
+                    { field: 'age', op: 'gte', value: '18' },
+                    { field: 'email', op: 'isMail' },
+                    { all: [{ field: 'a', op: 'between', value: [1] }, { field: '', op: 'isString' }] },
+                    { field: 'date', op: 'isAfter', value: { $date: 'not a date' } },
+                    { field: 'x', op: 'isString', extra: true, severity: 'fatal' },
+                    { field: 'items', op: 'isArray', quantifier: 'some' },
+                    { atLeast: -1, of: {} },
+                    { field: 'a[x]', op: 'isString' },
+                    'rule'
+                ]
+            });
+
+            expect(valid).toBe(false);
+            expect(problems).toEqual([
+                { pointer: '/rules/0/value', message: 'Argument 1 of operator "gte" must be of type number but got string.' },
+                { pointer: '/rules/1/op', message: 'Unknown operator "isMail".' },
+                { pointer: '/rules/2/all/0/value', message: 'Operator "between" expects 2 argument(s) but received 1.' },
+                { pointer: '/rules/2/all/1/field', message: 'Rule field must be a non-empty string.' },
+                { pointer: '/rules/3/value', message: '"$date" must be the only property and hold a valid date string.' },
+                { pointer: '/rules/4/extra', message: 'Unknown property "extra".' },
+                { pointer: '/rules/4/severity', message: 'Severity must be one of error, warning, info.' },
+                { pointer: '/rules/5/quantifier', message: 'Quantifier requires a wildcard field path.' },
+                { pointer: '/rules/6/atLeast', message: 'Condition group "atLeast" requires a non-negative integer threshold.' },
+                { pointer: '/rules/6/of', message: 'Condition group "atLeast" requires an array of conditions in "of".' },
+                { pointer: '/rules/7/field', message: 'Invalid field path "a[x]": expected an index, "*" or a quoted key at position 2.' },
+                { pointer: '/rules/8', message: 'Condition must be a rule or a condition group object.' }
+            ]);
+        });
+
+        it('should check operator options', () => {
+            const { problems } = validateRuleSet({
+                $validra: '1',
+                rules: [
+                    { field: 'status', op: 'eq', value: 'ACTIVE', options: { caseInsensitive: true, normalize: 'NFC' } },
+                    { field: 'status', op: 'eq', value: 'ACTIVE', options: { caseInsensitive: 'yes' } },
+                    { field: 'age', op: 'gt', value: 1, options: { epsilon: 0.1 } },
+                    { field: 'age', op: 'neq', value: 1, options: [] }
+                ]
+            });
+
+            expect(problems).toEqual([
+                { pointer: '/rules/1/options', message: 'Equality option "caseInsensitive" must be of type boolean but got string.' },
+                { pointer: '/rules/2/options', message: 'Operator "gt" doesn\'t accept options.' },
+                { pointer: '/rules/3/options', message: 'Options of operator "neq" must be an object but got array.' }
+            ]);
+        });
+
+        it('should accept and check field references', () => {
+            const { problems } = validateRuleSet({
+                $validra: '1',
+                rules: [
+                    { field: 'deliveredAt', op: 'isAfter', value: { ref: 'shippedAt' } },
+                    { field: 'qty', op: 'between', value: [{ ref: 'limits.min' }, 10] },
+                    { field: 'a', op: 'gt', value: { ref: 'b..c' } },
+                    { field: 'a', op: 'gt', value: { ref: 1 } },
+                    { field: 'a', op: 'gt', value: { ref: 'b', extra: true } }
+                ]
+            });
+
+            expect(problems).toEqual([
+                { pointer: '/rules/2/value', message: 'Invalid field path "b..c": expected a property name at position 3.' },
+                { pointer: '/rules/3/value', message: '"ref" must be the only property and hold a field path string.' },
+                { pointer: '/rules/4/value', message: '"ref" must be the only property and hold a field path string.' }
+            ]);
+        });
+
+        it('should accept and check expressions', () => {
+            const { problems } = validateRuleSet({
+                $validra: '1',
+                rules: [
+                    { field: 'total', op: 'eq', value: { expr: 'sum(items[*].price) * (1 + taxRate)' } },
+                    { expr: 'endDate - startDate', op: 'lte', value: { expr: '30 days' } },
+                    { expr: 'a +', op: 'gt', value: 1 },
+                    { field: 'a', expr: 'b', op: 'gt', value: 1 },
+                    { field: 'a', op: 'gt', value: { expr: 'b[x]' } },
+                    { field: 'a', op: 'gt', value: { expr: 2 } },
+                    { expr: 'a', op: 'isArray', quantifier: 'some' }
+                ]
+            });
+
+            expect(problems).toEqual([
+                { pointer: '/rules/2/expr', message: 'Invalid expression "a +": Expected a value but found end of input at line 1, column 4.' },
+                { pointer: '/rules/3/field', message: 'Rule must define either a field or an expression, not both.' },
+                { pointer: '/rules/4/value', message: 'Invalid expression "b[x]": Invalid field path "b[x]": expected an index, "*" or a quoted key at position 2.' },
+                { pointer: '/rules/5/value', message: '"expr" must be the only property and hold an expression string.' },
+                { pointer: '/rules/6/quantifier', message: 'Quantifier requires a wildcard field path.' }
+            ]);
+        });
+
+        it('should accept and check priorities and rule groups', () => {
+            const { problems } = validateRuleSet({
+                $validra: '1',
+                rules: [
+                    { field: 'a', op: 'isString', priority: 10, group: 'basics' },
+                    { any: [{ field: 'a', op: 'isString' }], priority: -1.5, group: 'fraud' },
+                    { field: 'a', op: 'isString', priority: '1' },
+                    { not: { field: 'a', op: 'isString' }, group: '' }
+                ]
+            });
+
+            expect(problems).toEqual([
+                { pointer: '/rules/2/priority', message: 'Condition priority must be a finite number.' },
+                { pointer: '/rules/3/group', message: 'Rule group name must be a non-empty string.' }
+            ]);
+        });
+
+        it('should accept and check actions', () => {
+            const { problems } = validateRuleSet({
+                $validra: '1',
+                rules: [
+                    { field: 'cart.total', op: 'gt', value: 100, then: [
+                        { set: 'cart.freeShipping', value: true },
+                        { set: 'cart.until', value: { $date: '2025-12-31' } },
+                        { emit: 'freeShipping', payload: { ref: 'cart.total' } }
+                    ] },
+                    { all: [{ field: 'a', op: 'isString', then: [{ emit: 'x' }] }], then: [] },
+                    { field: 'a', op: 'isString', then: [{ set: 'b[*]', value: 1 }, { emit: 'x', set: 'y' }, { emit: 'x', value: 1 }] },
+                    { field: 'a', op: 'isString', then: [{ set: 'b', value: { expr: 'a +' } }, { set: 'b' }] }
+                ]
+            });
+
+            expect(problems).toEqual([
+                { pointer: '/rules/1/then', message: 'Condition actions in "then" must be a non-empty array.' },
+                { pointer: '/rules/1/all/0/then', message: 'Actions in "then" are only allowed on top-level conditions.' },
+                { pointer: '/rules/2/then/0', message: 'Action path "b[*]" must not contain wildcards.' },
+                { pointer: '/rules/2/then/1', message: 'Action must define exactly one of set, emit.' },
+                { pointer: '/rules/2/then/2/value', message: 'Unknown property "value".' },
+                { pointer: '/rules/3/then/0/value', message: 'Invalid expression "a +": Expected a value but found end of input at line 1, column 4.' },
+                { pointer: '/rules/3/then/1', message: 'Action setting "b" requires a value.' }
+            ]);
+        });
+
+        it('should report missing arguments on the rule', () => {
+            expect(validateRuleSet({ $validra: '1', rules: [{ field: 'a', op: 'gt' }] }).problems).toEqual([
+                { pointer: '/rules/0', message: 'Operator "gt" expects 1 argument(s) but received 0.' }
+            ]);
+        });
+
+        it('should report document-level problems', () => {
+            expect(validateRuleSet(null).problems).toEqual([{ pointer: '', message: 'Rule set must be an object.' }]);
+            expect(validateRuleSet({ rules: [] }).problems).toEqual([
+                { pointer: '/$validra', message: 'Missing rule-set version "$validra".' }
+            ]);
+            expect(validateRuleSet({ $validra: '2', rules: {}, 'a/b': 1 }).problems).toEqual([
+                { pointer: '/a~1b', message: 'Unknown property "a/b".' },
+                { pointer: '/$validra', message: 'Unsupported rule-set version "2"; expected "1".' },
+                { pointer: '/rules', message: '"rules" must be an array of conditions.' }
+            ]);
+        });
+
+        it('should resolve operators from a custom registry', () => {
+            const operators = new OperatorRegistry().register('isIban', () => true, { arity: 0 });
+            const rules = { $validra: '1', rules: [{ field: 'iban', op: 'isIban' }] };
+
+            expect(validateRuleSet(rules).valid).toBe(false);
+            expect(validateRuleSet(rules, { operators }).valid).toBe(true);
+        });
+    });
+
+    describe('loadRuleSet', () => {
+        it('should convert documents into conditions with dates', () => {
+            const conditions = loadRuleSet(document);
+
+            expect(conditions).toHaveLength(6);
+            expect(conditions[2]).toEqual({ field: 'order.createdAt', op: 'isAfter', value: new Date('2025-01-01T00:00:00Z') });
+            expect(conditions[4]).toEqual(document.rules[4]);
+        });
+
+        it('should decode action values', () => {
+            const [rule] = loadRuleSet({
+                $validra: '1',
+                rules: [{ field: 'a', op: 'isString', then: [{ set: 'until', value: { $date: '2025-12-31T00:00:00Z' } }, { emit: 'x' }] }]
+            });
+
+            expect(rule?.then).toEqual([{ set: 'until', value: new Date('2025-12-31T00:00:00Z') }, { emit: 'x' }]);
+            expect(toRuleSet([rule as Condition]).rules[0]?.['then']).toEqual([
+                { set: 'until', value: { $date: '2025-12-31T00:00:00.000Z' } },
+                { emit: 'x' }
+            ]);
+        });
+
+        it('should throw a ValidraArgumentError listing the problems', () => {
+            const load = () => loadRuleSet({ $validra: '1', rules: [{ field: 'a', op: 'nope' }] });
+
+            expect(load).toThrow(ValidraArgumentError);
+            expect(load).toThrow('Invalid rule set:\n  /rules/0/op: Unknown operator "nope".');
+        });
+    });
+
+    describe('toRuleSet', () => {
+        it('should round-trip through JSON', () => {
+            const conditions = loadRuleSet(document);
+            const exported = JSON.parse(JSON.stringify(toRuleSet(conditions)));
+
+            expect(exported.$validra).toBe(RULE_SET_VERSION);
+            expect(exported.rules[2].value).toEqual({ $date: '2025-01-01T00:00:00.000Z' });
+            expect(loadRuleSet(exported)).toEqual(conditions);
+        });
+
+        it('should round-trip dates nested in objects', () => {
+            const exported = JSON.parse(JSON.stringify(toRuleSet([{ field: 'addr', op: 'eq', value: { since: new Date(0) } }])));
+            const engine = ValidraEngine.fromRuleSet(exported);
+
+            expect(exported.rules[0].value).toEqual({ since: { $date: '1970-01-01T00:00:00.000Z' } });
+            expect(engine.test({ addr: { since: new Date(0) } })).toBe(true);
+            expect(engine.test({ addr: { since: { $date: '1970-01-01T00:00:00.000Z' } } })).toBe(false);
+            expect(validateRuleSet({ $validra: '1', rules: [{ field: 'a', op: 'eq', value: { at: { $date: 'x' } } }] }).problems)
+                .toEqual([{ pointer: '/rules/0/value/at', message: '"$date" must be the only property and hold a valid date string.' }]);
+        });
+
+        it('should keep field references', () => {
+            expect(toRuleSet([{ field: 'discount', op: 'lte', value: { ref: 'subtotal' } }]).rules[0])
+                .toEqual({ field: 'discount', op: 'lte', value: { ref: 'subtotal' } });
+        });
+
+        it('should reject values that cannot be represented in JSON', () => {
+            expect(() => toRuleSet([{ field: 'a', op: 'matches', value: /x/ }]))
+                .toThrow('Value at "/rules/0/value" cannot be represented in JSON.');
+            expect(() => toRuleSet([{ field: 'a', op: 'eq', value: NaN }])).toThrow(ValidraTypeError);
+        });
+    });
+
+    describe('ValidraEngine.fromRuleSet', () => {
+        it('should evaluate the rules of a document', () => {
+            const engine = ValidraEngine.fromRuleSet({
+                $validra: '1',
+                rules: [{ field: 'createdAt', op: 'isAfter', value: { $date: '2025-01-01T00:00:00Z' } }]
+            });
+
+            expect(engine.test({ createdAt: new Date('2025-06-01') })).toBe(true);
+            expect(engine.test({ createdAt: new Date('2024-06-01') })).toBe(false);
+        });
+    });
+
+    describe('RULE_SET_SCHEMA', () => {
+        it('should describe the versioned document format', () => {
+            expect(RULE_SET_SCHEMA.properties.$validra.const).toBe(RULE_SET_VERSION);
+            expect(RULE_SET_SCHEMA.required).toEqual(['$validra', 'rules']);
+            expect(Object.keys(RULE_SET_SCHEMA.$defs.rule.properties))
+                .toEqual(['id', 'field', 'expr', 'op', 'value', 'quantifier', 'options', 'severity', 'message', 'priority', 'group', 'then']);
+            expect(JSON.parse(JSON.stringify(RULE_SET_SCHEMA))).toEqual(RULE_SET_SCHEMA);
+        });
+    });
+});
@@ -0,0 +1,219 @@
+import { describe, it, expect, expectTypeOf } from 'vitest';
+import { Infer, v } from '@/core/schema-builder';
+import { loadRuleSet } from '@/core/rule-set';
+import { ValidraEngine } from '@/core/validra-engine';
+import { ValidraArgumentError } from '@/utils/validra-errors';
+
+describe('schema builder', () => {
+    const signup = v.object({
+        age: v.number().int().gte(18),
+        email: v.string().email(),
+        plan: v.enum(['free', 'pro']),
+        nickname: v.string().maxLength(20).optional(),
+        deletedAt: v.date().nullable(),
+        tags: v.array(v.string().minLength(2)).nonEmpty(),
+        address: v.object({ city: v.string(), zip: v.string().matches('^\\d{5}$') }),
+        items: v.array(v.object({ sku: v.string(), note: v.string() }))
+    });
+    const valid = {
+        age: 30,
+        email: 'jane@example.com',
+        plan: 'pro',
+        deletedAt: null,
+        tags: ['vip'],
+        address: { city: 'Austin', zip: '73301' },
+        items: [{ sku: 'A-1', note: '' }, { sku: 'B-2', note: 'gift' }]
+    };
+
+    describe('Infer', () => {
+        it('should infer the type of the accepted values', () => {
+            type Signup = Infer<typeof signup>;
+
+            expectTypeOf<Signup>().toEqualTypeOf<{
+                age: number;
+                email: string;
+                plan: 'free' | 'pro';
+                deletedAt: Date | null;
+                tags: string[];
+                address: { city: string; zip: string };
+                items: { sku: string; note: string }[];
+                nickname?: string | undefined;
+            }>();
+            expectTypeOf<Infer<ReturnType<typeof v.literal<42>>>>().toEqualTypeOf<42>();
+            expectTypeOf<Infer<ReturnType<typeof v.boolean>>>().toEqualTypeOf<boolean>();
+        });
+    });
+
+    describe('toConditions', () => {
+        it('should check the type first, then the constraints in order', () => {
+            const [age, email] = signup.toConditions();
+
+            expect(age).toEqual({
+                all: [
+                    { field: 'age', op: 'isNumber' },
+                    { field: 'age', op: 'isInteger' },
+                    { field: 'age', op: 'gte', value: 18 }
+                ]
+            });
+            expect(email).toEqual({ all: [{ field: 'email', op: 'isString' }, { field: 'email', op: 'isEmail' }] });
+        });
+
+        it('should compile enums, optional and nullable fields to alternatives', () => {
+            const [, , plan, nickname, deletedAt] = signup.toConditions();
+
+            expect(plan).toEqual({
+                all: [
+                    { not: { field: 'plan', op: 'isNullish' } },
+                    { any: [{ field: 'plan', op: 'eq', value: 'free' }, { field: 'plan', op: 'eq', value: 'pro' }] }
+                ]
+            });
+            expect(nickname).toEqual({
+                any: [
+                    { field: 'nickname', op: 'isUndefined' },
+                    { all: [{ field: 'nickname', op: 'isString' }, { field: 'nickname', op: 'maxLength', value: 20 }] }
+                ]
+            });
+            expect(deletedAt).toEqual({ any: [{ field: 'deletedAt', op: 'isNull' }, { field: 'deletedAt', op: 'isValidDate' }] });
+        });
+
+        it('should check arrays, nested objects and array elements', () => {
+            const [, , , , , tags, address, items] = signup.toConditions();
+
+            expect(tags).toEqual({
+                all: [
+                    { field: 'tags', op: 'isArray' },
+                    { not: { field: 'tags', op: 'isEmpty' } },
+                    { all: [{ field: 'tags[*]', op: 'isString' }, { field: 'tags[*]', op: 'minLength', value: 2 }] }
+                ]
+            });
+            expect(address).toEqual({
+                all: [
+                    { field: 'address', op: 'isPlainObject' },
+                    { field: 'address.city', op: 'isString' },
+                    { all: [{ field: 'address.zip', op: 'isString' }, { field: 'address.zip', op: 'matches', value: '^\\d{5}$' }] }
+                ]
+            });
+            expect(items).toEqual({
+                all: [
+                    { field: 'items', op: 'isArray' },
+                    {
+                        all: [
+                            { field: 'items[*]', op: 'isPlainObject' },
+                            { field: 'items[*].sku', op: 'isString' },
+                            { field: 'items[*].note', op: 'isString' }
+                        ]
+                    }
+                ]
+            });
+        });
+
+        it('should quote keys that are not plain names and keep messages', () => {
+            const schema = v.object({ 'first.name': v.string().minLength(1, '{field} is required'), lit: v.literal(true) });
+
+            expect(schema.toConditions()).toEqual([
+                {
+                    all: [
+                        { field: '["first.name"]', op: 'isString' },
+                        { field: '["first.name"]', op: 'minLength', value: 1, message: '{field} is required' }
+                    ]
+                },
+                { all: [{ not: { field: 'lit', op: 'isNullish' } }, { field: 'lit', op: 'eq', value: true }] }
+            ]);
+        });
+
+        it('should reject optional and nullable values inside arrays', () => {
+            expect(() => v.object({ list: v.array(v.number().optional()) }).toConditions())
+                .toThrow('Values inside arrays can\'t be optional: "list[*]".');
+            expect(() => v.object({ list: v.array(v.object({ a: v.string().optional() })) }).toConditions())
+                .toThrow('Values inside arrays can\'t be optional: "list[*].a".');
+            expect(() => v.object({ list: v.array(v.object({ a: v.string().nullable() })) }).toConditions())
+                .toThrow(ValidraArgumentError);
+            expect(() => v.object({ m: v.array(v.enum(['x', 'y'])) }).toConditions())
+                .toThrow('Values inside arrays can\'t be enums: "m[*]".');
+            expect(() => v.enum([])).toThrow('Enum schema requires at least one value.');
+        });
+
+        it('should leave schemas immutable', () => {
+            const base = v.number();
+            const adult = base.gte(18);
+
+            expect(v.object({ n: base }).toConditions()).toEqual([{ field: 'n', op: 'isNumber' }]);
+            expect(v.object({ n: adult }).toConditions()).toHaveLength(1);
+            expect(adult).not.toBe(base);
+        });
+    });
+
+    describe('runtime', () => {
+        it('should validate facts with the engine', () => {
+            const engine = new ValidraEngine(signup.toConditions());
+
+            expect(engine.test(valid)).toBe(true);
+            expect(engine.test({ ...valid, nickname: 'J' })).toBe(true);
+            expect(engine.test({ ...valid, age: '30' })).toBe(false);
+            expect(engine.test({ ...valid, age: 17 })).toBe(false);
+            expect(engine.test({ ...valid, plan: 'gold' })).toBe(false);
+            expect(engine.test({ ...valid, deletedAt: new Date('invalid') })).toBe(false);
+            expect(engine.test({ ...valid, tags: [] })).toBe(false);
+            expect(engine.test({ ...valid, tags: ['vip', 1] })).toBe(false);
+            expect(engine.test({ ...valid, address: { city: 'Austin', zip: 'x' } })).toBe(false);
+            expect(engine.test({ ...valid, items: [{ sku: 'A-1', note: 5 }] })).toBe(false);
+            expect(engine.test({ ...valid, items: [{ note: 'x' }] })).toBe(false);
+            expect(engine.test({ ...valid, items: [{ sku: 'A-1' }] })).toBe(false);
+        });
+
+        it('should accept null members and reject missing enum fields without throwing', () => {
+            const schema = v.object({ s: v.enum(['a', 'b']), n: v.literal(null), m: v.enum(['a', null]) });
+
+            expect(schema.toConditions()[1]).toEqual({ field: 'n', op: 'isNull' });
+            expect(schema.is({ s: 'a', n: null, m: null })).toBe(true);
+            expect(schema.is({ s: 'b', n: null, m: 'a' })).toBe(true);
+            expect(schema.is({})).toBe(false);
+            expect(schema.is({ s: null, n: null, m: null })).toBe(false);
+            expect(schema.is({ s: 'a', n: 'x', m: null })).toBe(false);
+            expect(schema.is({ s: 'a', n: null })).toBe(false);
+            expect(v.object({ n: v.literal(null) }).is({ n: null })).toBe(true);
+        });
+
+        it('should only accept plain objects', () => {
+            const schema = v.object({ note: v.string().optional(), address: v.object({ city: v.string().optional() }) });
+
+            expect(schema.is({ address: {} })).toBe(true);
+            expect(schema.is(new Map())).toBe(false);
+            expect(schema.is(new Date())).toBe(false);
+            expect(schema.is({ address: new Map() })).toBe(false);
+            expect(schema.is({ address: new (class Address {})() })).toBe(false);
+        });
+
+        it('should check every element of arrays of literals', () => {
+            const schema = v.object({ m: v.array(v.literal('x')), n: v.array(v.literal(null)) });
+
+            expect(schema.is({ m: ['x', 'x'], n: [null] })).toBe(true);
+            expect(schema.is({ m: [], n: [] })).toBe(true);
+            expect(schema.is({ m: ['x', 'y'], n: [null] })).toBe(false);
+            expect(schema.is({ m: ['x', null], n: [null] })).toBe(false);
+            expect(schema.is({ m: ['x'], n: [null, 'x'] })).toBe(false);
+        });
+
+        it('should round-trip through a rule-set document', () => {
+            const schema = v.object({ createdAt: v.date().after(new Date('2025-01-01T00:00:00Z')) });
+            const document = JSON.parse(JSON.stringify(schema.toRuleSet()));
+
+            expect(document.rules[0].all[1]).toEqual({ field: 'createdAt', op: 'isAfter', value: { $date: '2025-01-01T00:00:00.000Z' } });
+            expect(loadRuleSet(document)).toEqual(schema.toConditions());
+        });
+
+        it('should narrow the type of checked facts with is', () => {
+            const input: unknown = valid;
+
+            expect(signup.is(input)).toBe(true);
+            if (signup.is(input)) {
+                expectTypeOf(input.tags).toEqualTypeOf<string[]>();
+            }
+            expect(signup.is({ ...valid, email: 'nope' })).toBe(false);
+            expect(signup.is({ ...valid, plan: undefined })).toBe(false);
+            expect(signup.is({ ...valid, plan: null })).toBe(false);
+            expect(signup.is(null)).toBe(false);
+            expect(signup.is([valid])).toBe(false);
+        });
+    });
+});
@@ -0,0 +1,169 @@
+import { describe, it, expect } from 'vitest';
+import { ValidraEngine } from '@/core/validra-engine';
+import { formatMessage } from '@/core/validation-result';
+import { OperatorRegistry } from '@/operations/operator-registry';
+
+describe('validation-result', () => {
+    describe('formatMessage', () => {
+        it('should replace field, value, expected and operator placeholders', () => {
+            const rule = { field: 'age', op: 'gte', value: 18 };
+
+            expect(formatMessage('{field} must be {operator} {expected}, got {value}', rule, 16))
+                .toBe('age must be gte 18, got 16');
+        });
+
+        it('should format non-string values', () => {
+            const rule = { field: 'range', op: 'between', value: [1, 10] };
+
+            expect(formatMessage('{expected}', rule, undefined)).toBe('[1,10]');
+            expect(formatMessage('{value}', rule, undefined)).toBe('undefined');
+            expect(formatMessage('{value}', rule, new Date('2025-01-01T00:00:00Z'))).toBe('2025-01-01T00:00:00.000Z');
+            expect(formatMessage('{value}', rule, { a: 1 })).toBe('{"a":1}');
+        });
+
+        it('should leave unknown placeholders untouched', () => {
+            expect(formatMessage('{field} {other}', { field: 'x', op: 'eq' }, 1)).toBe('x {other}');
+        });
+    });
+
+    describe('ValidraEngine.validate', () => {
+        it('should report a diagnostic per rule', () => {
+            const engine = new ValidraEngine([
+                { id: 'adult', field: 'age', op: 'gte', value: 18 },
+                { field: 'email', op: 'isEmail' }
+            ]);
+            const result = engine.validate({ age: 16, email: 'jane@example.com' });
+
+            expect(result.valid).toBe(false);
+            expect(result.rules).toHaveLength(2);
+            expect(result.rules[0]).toMatchObject({
+                id: 'adult',
+                field: 'age',
+                operator: 'gte',
+                expected: 18,
+                actual: 16,
+                passed: false,
+                status: 'failed',
+                severity: 'error',
+                message: 'Field "age" must satisfy gte 18'
+            });
+            expect(result.rules[0]?.duration).toBeGreaterThanOrEqual(0);
+            expect(result.rules[1]).toMatchObject({ passed: true, message: 'Field "email" satisfies isEmail' });
+            expect(result.rules[1]).not.toHaveProperty('id');
+            expect(result.errors).toEqual([result.rules[0]]);
+            expect(result.warnings).toEqual([]);
+        });
+
+        it('should use custom messages', () => {
+            const engine = new ValidraEngine([
+                { field: 'age', op: 'gte', value: 18, message: '{field} must be at least {expected}, got {value}' }
+            ]);
+
+            expect(engine.validate({ age: 16 }).errors[0]?.message).toBe('age must be at least 18, got 16');
+        });
+
+        it('should only let error failures flip valid', () => {
+            const engine = new ValidraEngine([
+                { field: 'nickname', op: 'maxLength', value: 5, severity: 'warning' },
+                { field: 'bio', op: 'minLength', value: 10, severity: 'info' }
+            ]);
+            const result = engine.validate({ nickname: 'a-long-nickname', bio: 'short' });
+
+            expect(result.valid).toBe(true);
+            expect(result.errors).toEqual([]);
+            expect(result.warnings.map(d => d.field)).toEqual(['nickname']);
+            expect(result.infos.map(d => d.field)).toEqual(['bio']);
+        });
+
+        it('should inherit severity from groups', () => {
+            const engine = new ValidraEngine([
+                { severity: 'warning', all: [
+                    { field: 'b', op: 'eq', value: 2, severity: 'error' },
+                    { field: 'a', op: 'eq', value: 1 }
+                ] }
+            ]);
+            const result = engine.validate({ a: 0, b: 2 });
+
+            expect(result.valid).toBe(true);
+            expect(result.warnings.map(d => d.field)).toEqual(['a']);
+            expect(result.rules.map(d => d.severity)).toEqual(['error', 'warning']);
+        });
+
+        it('should not blame rules failing inside passing groups', () => {
+            const engine = new ValidraEngine([
+                { any: [
+                    { field: 'country', op: 'eq', value: 'US' },
+                    { field: 'consent', op: 'eq', value: true }
+                ] }
+            ]);
+
+            const passing = engine.validate({ country: 'FR', consent: true });
+            expect(passing.valid).toBe(true);
+            expect(passing.errors).toEqual([]);
+            expect(passing.summary).toMatchObject({ total: 2, passed: 1, failed: 1 });
+
+            const failing = engine.validate({ country: 'FR', consent: false });
+            expect(failing.errors.map(d => d.field)).toEqual(['country', 'consent']);
+        });
+
+        it('should blame the rules that passed under not and none groups', () => {
+            const engine = new ValidraEngine([
+                { none: [
+                    { field: 'banned', op: 'eq', value: true },
+                    { field: 'age', op: 'lt', value: 13 }
+                ] }
+            ]);
+            const result = engine.validate({ banned: false, age: 10 });
+
+            expect(result.valid).toBe(false);
+            expect(result.errors).toHaveLength(1);
+            expect(result.errors[0]).toMatchObject({ field: 'age', passed: true, message: 'Field "age" must not satisfy lt 13' });
+        });
+
+        it('should report mismatches and summarize skipped rules', () => {
+            const engine = new ValidraEngine([
+                { field: 'email', op: 'isEmail' },
+                { field: 'age', op: 'gte', value: 18 }
+            ], { onTypeMismatch: 'skip' });
+            const result = engine.validate({ email: 42, age: 20 });
+
+            expect(result.valid).toBe(true);
+            expect(result.rules[0]).toMatchObject({
+                status: 'skipped',
+                message: 'Field "email" was skipped: Value must be a string to check if it is an email.'
+            });
+            expect(result.summary).toMatchObject({ total: 2, passed: 1, failed: 0, skipped: 1 });
+            expect(result.summary.duration).toBeGreaterThanOrEqual(0);
+        });
+
+        it('should reject invalid severities and messages', () => {
+            expect(() => new ValidraEngine([{ field: 'a', op: 'isString', severity: 'fatal' as any }]))
+                .toThrow('Severity must be one of error, warning, info.');
+            expect(() => new ValidraEngine([{ severity: 'fatal' as any, all: [] }]))
+                .toThrow('Severity must be one of error, warning, info.');
+            expect(() => new ValidraEngine([{ field: 'a', op: 'isString', message: 42 as any }]))
+                .toThrow('Rule message for field "a" must be a string.');
+        });
+    });
+
+    describe('ValidraEngine.validateAsync', () => {
+        it('should report timeouts and durations of asynchronous rules', async () => {
+            const operators = new OperatorRegistry()
+                .register('slow', () => new Promise<boolean>(resolve => setTimeout(() => resolve(true), 50)), { arity: 0, async: true })
+                .register('fast', async () => true, { arity: 0, async: true });
+            const engine = new ValidraEngine([
+                { id: 'slow', field: 'x', op: 'slow' },
+                { id: 'fast', field: 'x', op: 'fast' }
+            ], { operators });
+
+            const result = await engine.validateAsync({ x: 1 }, { timeoutMs: 10 });
+
+            expect(result.valid).toBe(false);
+            expect(result.errors).toEqual([
+                expect.objectContaining({ id: 'slow', status: 'timeout', message: 'Field "x" timed out on slow' })
+            ]);
+            expect(result.rules[0]?.duration).toBeGreaterThanOrEqual(5);
+            expect(result.rules[1]).toMatchObject({ id: 'fast', passed: true });
+        });
+    });
+});
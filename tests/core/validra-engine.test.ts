@@ -0,0 +1,762 @@
+import { describe, it, expect } from 'vitest';
+import { ValidraEngine } from '@/core/validra-engine';
+import { OperatorRegistry } from '@/operations/operator-registry';
+import { Condition, ConditionResult, ExecutionMode, GroupResult, RuleResult } from '@/core/types';
+import { RuleEvaluationError, ValidraArgumentError, ValidraTypeError } from '@/utils/validra-errors';
+
+describe('ValidraEngine', () => {
+    describe('constructor', () => {
+        it('should accept a valid rule set', () => {
+            expect(() => new ValidraEngine([
+                { field: 'user.age', op: 'gte', value: 18 },
+                { field: 'user.email', op: 'isEmail' },
+                { field: 'order.quantity', op: 'between', value: [1, 10] }
+            ])).not.toThrow();
+        });
+
+        it('should throw for unknown operators', () => {
+            expect(() => new ValidraEngine([{ field: 'age', op: 'older', value: 1 }]))
+                .toThrow('Unknown operator "older" in rule for field "age".');
+        });
+
+        it('should not resolve operators from the object prototype', () => {
+            expect(() => new ValidraEngine([{ field: 'age', op: 'toString' }])).toThrow('Unknown operator');
+        });
+
+        it('should throw for missing fields', () => {
+            expect(() => new ValidraEngine([{ field: '', op: 'isEmail' }]))
+                .toThrow('Rule field must be a non-empty string.');
+        });
+
+        it('should throw when a multi-argument operator does not receive an array', () => {
+            expect(() => new ValidraEngine([{ field: 'qty', op: 'between', value: 5 }]))
+                .toThrow('Operator "between" expects 2 argument(s) but received 1.');
+            expect(() => new ValidraEngine([{ field: 'qty', op: 'between', value: [1] }]))
+                .toThrow('Operator "between" expects 2 argument(s) but received 1.');
+        });
+
+        it('should check rule arity against the operator', () => {
+            expect(() => new ValidraEngine([{ field: 'age', op: 'gte' }]))
+                .toThrow('Operator "gte" expects 1 argument(s) but received 0.');
+            expect(() => new ValidraEngine([{ field: 'email', op: 'isEmail', value: true }]))
+                .toThrow('Operator "isEmail" expects 0 argument(s) but received 1.');
+        });
+
+        it('should check constant argument types against the operator', () => {
+            expect(() => new ValidraEngine([{ field: 'age', op: 'gte', value: '18' }]))
+                .toThrow('Argument 1 of operator "gte" must be of type number but got string.');
+        });
+
+        it('should raise typed errors for invalid rules', () => {
+            expect(() => new ValidraEngine([{ field: 'age', op: 'older' }])).toThrow(ValidraArgumentError);
+            expect(() => new ValidraEngine([{ field: 'age', op: 'gte', value: '18' }])).toThrow(ValidraTypeError);
+        });
+
+        it('should resolve operators from a custom registry', () => {
+            const operators = new OperatorRegistry()
+                .register('isEven', (value: number) => value % 2 === 0, { arity: 0 });
+            const engine = new ValidraEngine([{ field: 'n', op: 'isEven' }], { operators });
+
+            expect(engine.evaluate({ n: 4 }).passed).toBe(true);
+            expect(engine.evaluate({ n: 3 }).passed).toBe(false);
+            expect(() => new ValidraEngine([{ field: 'n', op: 'isEven' }])).toThrow('Unknown operator "isEven"');
+        });
+    });
+
+    describe('evaluate', () => {
+        it('should pass when every rule passes', () => {
+            const engine = new ValidraEngine([
+                { field: 'user.age', op: 'gte', value: 18 },
+                { field: 'user.email', op: 'isEmail' }
+            ]);
+
+            const result = engine.evaluate({ user: { age: 21, email: 'jane@example.com' } });
+
+            expect(result.passed).toBe(true);
+            expect(result.results).toHaveLength(2);
+            expect(result.results.every(r => r.passed)).toBe(true);
+        });
+
+        it('should report failing rules with the resolved value', () => {
+            const rule = { id: 'adult', field: 'user.age', op: 'gte', value: 18 };
+            const engine = new ValidraEngine([rule]);
+
+            const result = engine.evaluate({ user: { age: 16 } });
+
+            expect(result.passed).toBe(false);
+            expect(result.results[0]).toEqual({ rule, passed: false, status: 'failed', actual: 16 });
+        });
+
+        it('should keep results in rule definition order', () => {
+            const engine = new ValidraEngine([
+                { id: 'a', field: 'n', op: 'gt', value: 0 },
+                { id: 'b', field: 'n', op: 'lt', value: 0 }
+            ]);
+
+            const result = engine.evaluate({ n: 5 });
+
+            expect(result.results.map(r => [(r as RuleResult).rule.id, r.passed])).toEqual([['a', true], ['b', false]]);
+        });
+
+        it('should spread array values into multi-argument operators', () => {
+            const engine = new ValidraEngine([{ field: 'qty', op: 'between', value: [1, 10] }]);
+
+            expect(engine.evaluate({ qty: 5 }).passed).toBe(true);
+            expect(engine.evaluate({ qty: 11 }).passed).toBe(false);
+        });
+
+        it('should dispatch contains and isEmpty on the field type', () => {
+            const engine = new ValidraEngine([{ field: 'value', op: 'contains', value: 'b' }]);
+
+            expect(engine.evaluate({ value: 'abc' }).passed).toBe(true);
+            expect(engine.evaluate({ value: ['a', 'b'] }).passed).toBe(true);
+            expect(engine.evaluate({ value: { x: 'b' } }).passed).toBe(true);
+            expect(engine.evaluate({ value: ['a'] }).passed).toBe(false);
+
+            const empty = new ValidraEngine([{ field: 'value', op: 'isEmpty' }]);
+            expect(empty.evaluate({ value: '   ' }).passed).toBe(true);
+            expect(empty.evaluate({ value: [] }).passed).toBe(true);
+            expect(empty.evaluate({ value: { a: 1 } }).passed).toBe(false);
+        });
+
+        it('should accept regular expression sources for matches', () => {
+            const engine = new ValidraEngine([{ field: 'code', op: 'matches', value: '^[A-Z]{3}$' }]);
+
+            expect(engine.evaluate({ code: 'ABC' }).passed).toBe(true);
+            expect(engine.evaluate({ code: 'abc' }).passed).toBe(false);
+        });
+
+        it('should give the same result on every call for global and sticky patterns', () => {
+            const global = /a/g;
+            const engine = new ValidraEngine([{ field: 's', op: 'matches', value: global }]);
+            const sticky = /a/y;
+            const referenced = new ValidraEngine([{ field: 's', op: 'matches', value: { ref: 'pattern' } }]);
+
+            expect([engine.test({ s: 'a' }), engine.test({ s: 'a' }), engine.test({ s: 'a' })]).toEqual([true, true, true]);
+            expect([1, 2, 3].map(() => referenced.test({ s: 'a', pattern: sticky }))).toEqual([true, true, true]);
+            expect(global.lastIndex).toBe(0);
+        });
+
+        it('should reject invalid matches patterns with typed errors', () => {
+            const invalid = () => new ValidraEngine([{ field: 'a', op: 'matches', value: '(' }]);
+            const referenced = new ValidraEngine([{ field: 'a', op: 'matches', value: { ref: 'pattern' } }], { onTypeMismatch: 'fail' });
+
+            expect(invalid).toThrow(ValidraArgumentError);
+            expect(invalid).toThrow('Invalid pattern "(" for operator "matches"');
+            expect(() => new ValidraEngine([{ field: 'a', op: 'matches', value: 42 }]))
+                .toThrow('Argument 1 of operator "matches" must be a string or RegExp but got integer.');
+            expect(referenced.evaluate({ a: 'x', pattern: { source: 'x' } }).results[0]).toMatchObject({ passed: false, status: 'failed' });
+        });
+
+        it('should check normalized types with isType', () => {
+            const engine = new ValidraEngine([
+                { field: 'qty', op: 'isType', value: 'integer' },
+                { field: 'tags', op: 'isSet' },
+                { field: 'meta', op: 'isPlainObject' }
+            ]);
+
+            expect(engine.evaluate({ qty: 3, tags: new Set(['a']), meta: {} }).passed).toBe(true);
+            expect(engine.evaluate({ qty: 3.5, tags: new Set(['a']), meta: {} }).passed).toBe(false);
+            expect(engine.evaluate({ qty: 3, tags: ['a'], meta: new Date() }).passed).toBe(false);
+            expect(() => new ValidraEngine([{ field: 'qty', op: 'isType', value: 'int' }])).toThrow('Unknown type "int".');
+        });
+
+        it('should evaluate date operators', () => {
+            const engine = new ValidraEngine([
+                { field: 'createdAt', op: 'isAfter', value: new Date('2024-01-01') },
+                { field: 'createdAt', op: 'isWeekday' }
+            ]);
+
+            expect(engine.evaluate({ createdAt: new Date('2025-01-06') }).passed).toBe(true);
+            expect(engine.evaluate({ createdAt: new Date('2025-01-05') }).passed).toBe(false);
+        });
+
+        it('should propagate helper errors', () => {
+            const engine = new ValidraEngine([{ field: 'user.age', op: 'gte', value: 18 }]);
+
+            expect(() => engine.evaluate({ user: { age: '21' } })).toThrow('Both values must be numbers for comparison.');
+            expect(() => engine.evaluate({})).toThrow('Both values must be provided for comparison.');
+        });
+
+        it('should wrap helper errors in a RuleEvaluationError', () => {
+            const engine = new ValidraEngine([{ field: 'user.age', op: 'gte', value: 18 }]);
+
+            let error: unknown;
+            try {
+                engine.evaluate({ user: { age: '21' } });
+            } catch (caught) {
+                error = caught;
+            }
+
+            expect(error).toBeInstanceOf(RuleEvaluationError);
+            expect(error).toMatchObject({ code: 'ERR_VALIDRA_RULE_EVALUATION', field: 'user.age', operator: 'gte', argument: '21' });
+            expect((error as RuleEvaluationError).cause).toBeInstanceOf(ValidraTypeError);
+        });
+    });
+
+    describe('condition groups', () => {
+        const adult = { id: 'adult', field: 'age', op: 'gte', value: 18 };
+        const us = { id: 'us', field: 'country', op: 'eq', value: 'US' };
+        const consent = { id: 'consent', field: 'hasConsent', op: 'eq', value: true };
+
+        it('should compose nested all and any groups', () => {
+            const engine = new ValidraEngine([{ all: [adult, { any: [us, consent] }] }]);
+
+            expect(engine.evaluate({ age: 20, country: 'US', hasConsent: false }).passed).toBe(true);
+            expect(engine.evaluate({ age: 20, country: 'CA', hasConsent: true }).passed).toBe(true);
+            expect(engine.evaluate({ age: 20, country: 'CA', hasConsent: false }).passed).toBe(false);
+            expect(engine.evaluate({ age: 16, country: 'US', hasConsent: true }).passed).toBe(false);
+        });
+
+        it('should keep the tree shape in results', () => {
+            const engine = new ValidraEngine([{ all: [adult, { any: [us, consent] }] }]);
+
+            const group = engine.evaluate({ age: 20, country: 'CA', hasConsent: false }).results[0] as GroupResult;
+            const inner = group.children[1] as GroupResult;
+
+            expect(group.operator).toBe('all');
+            expect(group.passed).toBe(false);
+            expect((group.children[0] as RuleResult).passed).toBe(true);
+            expect(inner.operator).toBe('any');
+            expect(inner.passed).toBe(false);
+            expect(inner.children.map(c => [(c as RuleResult).rule.id, c.passed])).toEqual([['us', false], ['consent', false]]);
+        });
+
+        it('should short-circuit all and any groups', () => {
+            const all = new ValidraEngine([{ all: [adult, us] }]).evaluate({ age: 10 }).results[0] as GroupResult;
+            const any = new ValidraEngine([{ any: [adult, us] }]).evaluate({ age: 30 }).results[0] as GroupResult;
+
+            expect(all.passed).toBe(false);
+            expect(all.children).toHaveLength(1);
+            expect(any.passed).toBe(true);
+            expect(any.children).toHaveLength(1);
+        });
+
+        it('should not evaluate skipped rules', () => {
+            const engine = new ValidraEngine([{ any: [adult, { field: 'score', op: 'gt', value: 1 }] }]);
+
+            // score is missing and would throw if it were evaluated
+            expect(engine.evaluate({ age: 30 }).passed).toBe(true);
+        });
+
+        it('should negate a condition with not', () => {
+            const engine = new ValidraEngine([{ not: us }]);
+
+            expect(engine.evaluate({ country: 'CA' }).passed).toBe(true);
+            expect(engine.evaluate({ country: 'US' }).passed).toBe(false);
+        });
+
+        it('should pass none groups only when no condition passes', () => {
+            const engine = new ValidraEngine([{ none: [us, consent] }]);
+
+            expect(engine.evaluate({ country: 'CA', hasConsent: false }).passed).toBe(true);
+            const result = engine.evaluate({ country: 'US', hasConsent: false }).results[0] as GroupResult;
+            expect(result.passed).toBe(false);
+            expect(result.children).toHaveLength(1);
+        });
+
+        it('should require a minimum number of passing conditions with atLeast', () => {
+            const engine = new ValidraEngine([{ atLeast: 2, of: [adult, us, consent] }]);
+
+            expect(engine.evaluate({ age: 20, country: 'US', hasConsent: false }).passed).toBe(true);
+            expect(engine.evaluate({ age: 20, country: 'CA', hasConsent: false }).passed).toBe(false);
+
+            const early = engine.evaluate({ age: 20, country: 'US', hasConsent: true }).results[0] as GroupResult;
+            expect(early.children).toHaveLength(2);
+
+            const hopeless = engine.evaluate({ age: 10, country: 'CA', hasConsent: true }).results[0] as GroupResult;
+            expect(hopeless.passed).toBe(false);
+            expect(hopeless.children).toHaveLength(2);
+        });
+
+        it('should handle empty groups', () => {
+            expect(new ValidraEngine([{ all: [] }]).evaluate({}).passed).toBe(true);
+            expect(new ValidraEngine([{ any: [] }]).evaluate({}).passed).toBe(false);
+            expect(new ValidraEngine([{ none: [] }]).evaluate({}).passed).toBe(true);
+            expect(new ValidraEngine([{ atLeast: 0, of: [] }]).evaluate({}).passed).toBe(true);
+            expect(new ValidraEngine([{ atLeast: 1, of: [] }]).evaluate({}).passed).toBe(false);
+        });
+
+        it('should reject malformed groups', () => {
+            expect(() => new ValidraEngine([{ all: adult } as any])).toThrow('Condition group "all" requires an array of conditions in "all".');
+            expect(() => new ValidraEngine([{ atLeast: 1 } as any])).toThrow('Condition group "atLeast" requires an array of conditions in "of".');
+            expect(() => new ValidraEngine([{ atLeast: -1, of: [] }])).toThrow('Condition group "atLeast" requires a non-negative integer threshold.');
+            expect(() => new ValidraEngine([{ all: [], any: [] } as any])).toThrow('Condition group must define exactly one of');
+            expect(() => new ValidraEngine([{ all: [{ field: 'x', op: 'nope' }] }])).toThrow('Unknown operator "nope"');
+            expect(() => new ValidraEngine([null as any])).toThrow('Condition must be a rule or a condition group object.');
+        });
+    });
+
+    describe('onTypeMismatch', () => {
+        const rules = [
+            { field: 'email', op: 'isEmail' },
+            { field: 'age', op: 'gte', value: 18 }
+        ];
+
+        it('should throw by default', () => {
+            expect(() => new ValidraEngine(rules).evaluate({ email: 42, age: 20 })).toThrow(RuleEvaluationError);
+            expect(() => new ValidraEngine(rules, { onTypeMismatch: 'throw' }).test({ email: 42, age: 20 })).toThrow(RuleEvaluationError);
+        });
+
+        it('should report mismatches as failed rules with a reason', () => {
+            const engine = new ValidraEngine(rules, { onTypeMismatch: 'fail' });
+            const result = engine.evaluate({ email: 42, age: 20 });
+
+            expect(result.passed).toBe(false);
+            expect(result.results[0]).toEqual({
+                rule: rules[0],
+                passed: false,
+                status: 'failed',
+                actual: 42,
+                reason: 'Value must be a string to check if it is an email.'
+            });
+            expect(result.results[1]).toMatchObject({ passed: true, status: 'passed' });
+            expect(engine.test({ email: 42, age: 20 })).toBe(false);
+        });
+
+        it('should treat missing fields as mismatches', () => {
+            const result = new ValidraEngine(rules, { onTypeMismatch: 'fail' }).evaluate({ email: 'jane@example.com' });
+
+            expect(result.results[1]).toMatchObject({ status: 'failed', reason: 'Both values must be provided for comparison.' });
+        });
+
+        it('should report mismatches as skipped rules that do not affect the outcome', () => {
+            const engine = new ValidraEngine(rules, { onTypeMismatch: 'skip' });
+            const result = engine.evaluate({ email: 42, age: 20 });
+
+            expect(result.passed).toBe(true);
+            expect(result.results[0]).toMatchObject({ passed: true, status: 'skipped', reason: 'Value must be a string to check if it is an email.' });
+            expect(engine.test({ email: 42, age: 20 })).toBe(true);
+            expect(engine.test({ email: 42, age: 16 })).toBe(false);
+        });
+
+        it('should leave skipped rules out of their group', () => {
+            const skipping = (conditions: any[]) => new ValidraEngine(conditions, { onTypeMismatch: 'skip' });
+            const bad = { field: 'email', op: 'isEmail' };
+            const adult = { field: 'age', op: 'gte', value: 18 };
+            const fact = { email: 42, age: 20 };
+
+            expect(skipping([{ any: [bad, { field: 'age', op: 'lt', value: 18 }] }]).test(fact)).toBe(false);
+            expect(skipping([{ all: [bad, adult] }]).test(fact)).toBe(true);
+            expect(skipping([{ none: [bad] }]).evaluate(fact).results[0]).toMatchObject({ passed: true, skipped: true });
+            expect(skipping([{ not: bad }]).test(fact)).toBe(true);
+            expect(skipping([{ not: { all: [bad] } }]).test(fact)).toBe(true);
+            expect(skipping([{ atLeast: 2, of: [bad, adult, { field: 'age', op: 'lt', value: 18 }] }]).test(fact)).toBe(false);
+            expect(skipping([{ atLeast: 1, of: [bad, adult] }]).test(fact)).toBe(true);
+        });
+
+        it('should still throw errors that are not type mismatches', () => {
+            const operators = new OperatorRegistry()
+                .register('explodes', () => { throw new Error('boom'); }, { arity: 0 });
+            const engine = new ValidraEngine([{ field: 'x', op: 'explodes' }], { operators, onTypeMismatch: 'skip' });
+
+            expect(() => engine.evaluate({ x: 1 })).toThrow('Rule "explodes" on field "x" could not be evaluated: boom');
+        });
+
+        it('should apply to asynchronous evaluation', async () => {
+            const result = await new ValidraEngine(rules, { onTypeMismatch: 'fail' }).evaluateAsync({ email: 42, age: 20 });
+
+            expect(result.results[0]).toMatchObject({ passed: false, status: 'failed', reason: 'Value must be a string to check if it is an email.' });
+        });
+
+        it('should reject unknown policies', () => {
+            expect(() => new ValidraEngine(rules, { onTypeMismatch: 'ignore' as any })).toThrow('onTypeMismatch must be one of throw, fail, skip.');
+        });
+    });
+
+    describe('field paths', () => {
+        const order = {
+            items: [{ sku: 'A-1', price: 5 }, { sku: 'GIFT-1', price: 0 }],
+            customer: { addresses: [{ zip: '10001' }] }
+        };
+
+        it('should resolve array indices', () => {
+            const engine = new ValidraEngine([{ field: 'customer.addresses[0].zip', op: 'eq', value: '10001' }]);
+
+            expect(engine.evaluate(order).passed).toBe(true);
+        });
+
+        it('should apply operators to every wildcard value by default', () => {
+            const engine = new ValidraEngine([{ field: 'items[*].price', op: 'gte', value: 0 }]);
+            const result = engine.evaluate(order);
+
+            expect(result.passed).toBe(true);
+            expect(result.results[0]).toMatchObject({ actual: [5, 0] });
+            expect(new ValidraEngine([{ field: 'items[*].price', op: 'gt', value: 0 }]).test(order)).toBe(false);
+        });
+
+        it('should combine wildcard values with quantifiers', () => {
+            const gift = (quantifier: 'every' | 'some' | 'none') =>
+                new ValidraEngine([{ field: 'items[*].sku', op: 'startsWith', value: 'GIFT-', quantifier }]);
+
+            expect(gift('every').test(order)).toBe(false);
+            expect(gift('some').test(order)).toBe(true);
+            expect(gift('none').test(order)).toBe(false);
+            expect(gift('none').test({ items: [{ sku: 'A-1' }] })).toBe(true);
+            expect(gift('some').test({ items: [] })).toBe(false);
+            expect(gift('every').test({ items: [] })).toBe(true);
+        });
+
+        it('should pass missing wildcard values as undefined', () => {
+            const engine = new ValidraEngine([{ field: 'items[*].price', op: 'gte', value: 0 }], { onTypeMismatch: 'fail' });
+            const result = engine.evaluate({ items: [{ price: 1 }, {}] });
+
+            expect(result.results[0]).toMatchObject({ passed: false, actual: [1, undefined] });
+        });
+
+        it('should pass rules on absent optional paths without calling the operator', () => {
+            const engine = new ValidraEngine([{ field: 'meta?.tags', op: 'contains', value: 'public' }]);
+
+            expect(engine.evaluate({}).results[0]).toEqual({
+                rule: { field: 'meta?.tags', op: 'contains', value: 'public' },
+                passed: true,
+                status: 'passed',
+                actual: undefined,
+                reason: 'Optional field "meta?.tags" is absent.'
+            });
+            expect(engine.test({ meta: null })).toBe(true);
+            expect(engine.test({ meta: { tags: ['public'] } })).toBe(true);
+            expect(engine.test({ meta: { tags: ['private'] } })).toBe(false);
+        });
+
+        it('should only skip optional paths that stop in front of the optional segment', () => {
+            const tags = new ValidraEngine([{ field: 'meta?.tags', op: 'isArray' }]);
+            const lang = new ValidraEngine([{ field: 'meta?.info.lang', op: 'eq', value: 'en' }], { onTypeMismatch: 'fail' });
+
+            expect(tags.test({})).toBe(true);
+            expect(tags.evaluate({ meta: {} }).results[0]).toMatchObject({ passed: false, actual: undefined });
+            expect(lang.test({ meta: undefined })).toBe(true);
+            expect(lang.test({ meta: {} })).toBe(false);
+            expect(lang.test({ meta: { info: { lang: 'en' } } })).toBe(true);
+        });
+
+        it('should leave elements of optional wildcard paths out when they are nullish', () => {
+            const engine = new ValidraEngine([{ field: 'items[*]?.price', op: 'gt', value: 0 }], { onTypeMismatch: 'fail' });
+
+            expect(engine.evaluate({ items: [{ price: 3 }, null] }).results[0]).toMatchObject({ passed: true, actual: [3] });
+            expect(engine.evaluate({ items: [{ price: 3 }, {}] }).results[0]).toMatchObject({ passed: false, actual: [3, undefined] });
+        });
+
+        it('should apply quantifiers to asynchronous operators', async () => {
+            const operators = new OperatorRegistry()
+                .register('isInStock', async (sku: string) => sku !== 'GIFT-1', { arity: 0, async: true });
+            const engine = new ValidraEngine([{ field: 'items[*].sku', op: 'isInStock' }], { operators });
+
+            expect((await engine.evaluateAsync(order)).passed).toBe(false);
+            expect((await engine.evaluateAsync({ items: [{ sku: 'A-1' }] })).passed).toBe(true);
+        });
+
+        it('should reject invalid paths and quantifiers', () => {
+            expect(() => new ValidraEngine([{ field: 'items[x]', op: 'isString' }])).toThrow('Invalid field path "items[x]"');
+            expect(() => new ValidraEngine([{ field: 'items', op: 'isArray', quantifier: 'some' }]))
+                .toThrow('Quantifier of rule for field "items" must be one of every, some, none and requires a wildcard path.');
+            expect(() => new ValidraEngine([{ field: 'items[*]', op: 'isString', quantifier: 'most' as any }]))
+                .toThrow('must be one of every, some, none');
+        });
+    });
+
+    describe('operator options', () => {
+        it('should pass rule options to the operator', () => {
+            const engine = new ValidraEngine([
+                { field: 'status', op: 'eq', value: 'ACTIVE', options: { caseInsensitive: true } },
+                { field: 'total', op: 'eq', value: 0.3, options: { epsilon: 1e-9 } },
+                { field: 'code', op: 'neq', value: 42, options: { coerce: true } }
+            ]);
+
+            expect(engine.test({ status: 'active', total: 0.1 + 0.2, code: '41' })).toBe(true);
+            expect(engine.test({ status: 'inactive', total: 0.1 + 0.2, code: '41' })).toBe(false);
+            expect(engine.test({ status: 'active', total: 0.1 + 0.2, code: ' 42 ' })).toBe(false);
+        });
+
+        it('should pass options along with field references', () => {
+            const engine = new ValidraEngine([{ field: 'email', op: 'eq', value: { ref: 'confirmation' }, options: { caseInsensitive: true } }]);
+
+            expect(engine.test({ email: 'Jane@Example.com', confirmation: 'jane@example.com' })).toBe(true);
+        });
+
+        it('should reject invalid options when compiling', () => {
+            expect(() => new ValidraEngine([{ field: 'age', op: 'gte', value: 18, options: { epsilon: 1 } }]))
+                .toThrow('Operator "gte" doesn\'t accept options.');
+            expect(() => new ValidraEngine([{ field: 'a', op: 'eq', value: 'x', options: { ignoreCase: true } }]))
+                .toThrow(ValidraArgumentError);
+        });
+    });
+
+    describe('field references', () => {
+        const order = {
+            subtotal: 100,
+            discount: 20,
+            shippedAt: new Date('2025-03-01'),
+            deliveredAt: new Date('2025-03-04'),
+            limits: { min: 1, max: 10 },
+            items: [{ qty: 2, stock: 5 }, { qty: 3, stock: 3 }]
+        };
+
+        it('should compare fields with other fields of the fact', () => {
+            const engine = new ValidraEngine([
+                { field: 'deliveredAt', op: 'isAfter', value: { ref: 'shippedAt' } },
+                { field: 'discount', op: 'lte', value: { ref: 'subtotal' } }
+            ]);
+
+            expect(engine.test(order)).toBe(true);
+            expect(engine.test({ ...order, discount: 120 })).toBe(false);
+            expect(engine.test({ ...order, deliveredAt: new Date('2025-02-01') })).toBe(false);
+        });
+
+        it('should compare nested objects by content', () => {
+            const engine = new ValidraEngine([{ field: 'shippingAddress', op: 'eq', value: { ref: 'billingAddress' } }]);
+            const address = { city: 'Austin', zip: '73301', lines: ['1 Main St'] };
+
+            expect(engine.test({ shippingAddress: address, billingAddress: structuredClone(address) })).toBe(true);
+            expect(engine.test({ shippingAddress: address, billingAddress: { ...address, lines: ['2 Main St'] } })).toBe(false);
+        });
+
+        it('should mix references with constant arguments', () => {
+            const engine = new ValidraEngine([
+                { field: 'discount', op: 'between', value: [{ ref: 'limits.min' }, 50] },
+                { field: 'items[*].qty', op: 'lte', value: { ref: 'limits.max' } }
+            ]);
+
+            expect(engine.test(order)).toBe(true);
+            expect(engine.test({ ...order, limits: { min: 30, max: 10 } })).toBe(false);
+        });
+
+        it('should resolve wildcard references to lists of values', () => {
+            const operators = new OperatorRegistry()
+                .register('isSumOf', (total: number, values: number[]) => values.reduce((sum, value) => sum + value, 0) === total, { arity: 1 });
+            const engine = new ValidraEngine([{ field: 'totalQty', op: 'isSumOf', value: { ref: 'items[*].qty' } }], { operators });
+
+            expect(engine.test({ ...order, totalQty: 5 })).toBe(true);
+            expect(engine.test({ ...order, totalQty: 6 })).toBe(false);
+        });
+
+        it('should report dangling references with a clear diagnostic', () => {
+            const engine = new ValidraEngine([{ field: 'discount', op: 'lte', value: { ref: 'subTotal' } }]);
+
+            let error: unknown;
+            try {
+                engine.evaluate(order);
+            } catch (caught) {
+                error = caught;
+            }
+
+            expect(error).toBeInstanceOf(RuleEvaluationError);
+            expect((error as RuleEvaluationError).message).toBe(
+                'Rule "lte" on field "discount" could not be evaluated: Reference "subTotal" in rule for field "discount" could not be resolved.'
+            );
+            expect((error as RuleEvaluationError).cause).toMatchObject({ code: 'ERR_VALIDRA_MISSING_ARGUMENT', argument: 'subTotal' });
+        });
+
+        it('should apply the type mismatch policy to dangling references', () => {
+            const engine = new ValidraEngine(
+                [{ field: 'discount', op: 'lte', value: { ref: 'subTotal' } }],
+                { onTypeMismatch: 'skip' }
+            );
+
+            expect(engine.evaluate(order).results[0]).toMatchObject({
+                passed: true,
+                status: 'skipped',
+                reason: 'Reference "subTotal" in rule for field "discount" could not be resolved.'
+            });
+        });
+
+        it('should pass rules whose optional reference is absent', () => {
+            const engine = new ValidraEngine([{ field: 'discount', op: 'lte', value: { ref: 'coupon?.limit' } }]);
+
+            expect(engine.evaluate(order).results[0]).toMatchObject({
+                passed: true,
+                status: 'passed',
+                reason: 'Optional reference "coupon?.limit" is absent.'
+            });
+            expect(engine.test({ ...order, coupon: { limit: 10 } })).toBe(false);
+        });
+
+        it('should resolve references in asynchronous evaluation', async () => {
+            const engine = new ValidraEngine([{ field: 'deliveredAt', op: 'isAfter', value: { ref: 'shippedAt' } }]);
+
+            expect((await engine.evaluateAsync(order)).passed).toBe(true);
+            expect((await engine.evaluateAsync({ ...order, deliveredAt: order.shippedAt })).passed).toBe(false);
+        });
+
+        it('should validate references when compiling', () => {
+            expect(() => new ValidraEngine([{ field: 'a', op: 'gt', value: { ref: 'b..c' } }])).toThrow('Invalid field path "b..c"');
+            expect(() => new ValidraEngine([{ field: 'a', op: 'between', value: [{ ref: 'b' }] }]))
+                .toThrow('Operator "between" expects 2 argument(s) but received 1.');
+        });
+    });
+
+    describe('computed operands', () => {
+        const DAY = 24 * 60 * 60 * 1000;
+        const order = {
+            total: 125,
+            items: [{ price: 40 }, { price: 60 }],
+            taxRate: 0.25,
+            startDate: new Date('2025-01-01'),
+            endDate: new Date('2025-01-21'),
+            shippedAt: new Date('2025-03-01'),
+            deliveredAt: new Date('2025-03-04')
+        };
+
+        it('should compare fields with computed values', () => {
+            const engine = new ValidraEngine([
+                { field: 'total', op: 'eq', value: { expr: 'sum(items[*].price) * (1 + taxRate)' } },
+                { field: 'total', op: 'gte', value: { expr: 'max(items[*].price) * 2' } },
+                { field: 'taxRate', op: 'between', value: [0, { expr: 'count(items) / 4' }] },
+                { field: 'deliveredAt', op: 'isBefore', value: { expr: 'shippedAt + 5 days' } }
+            ]);
+
+            expect(engine.test(order)).toBe(true);
+            expect(engine.test({ ...order, total: 100 })).toBe(false);
+            expect(engine.test({ ...order, deliveredAt: new Date('2025-03-07') })).toBe(false);
+        });
+
+        it('should test the value of rule expressions', () => {
+            const engine = new ValidraEngine([{ expr: 'endDate - startDate', op: 'lte', value: { expr: '30 days' } }]);
+
+            expect(engine.evaluate(order).results[0]).toMatchObject({ passed: true, actual: 20 * DAY });
+            expect(engine.test({ ...order, endDate: new Date('2025-03-01') })).toBe(false);
+        });
+
+        it('should report expression rules by their expression', () => {
+            const engine = new ValidraEngine([{ expr: 'sum(items[*].price)', op: 'gt', value: 500 }]);
+
+            expect(engine.validate(order).errors[0]).toMatchObject({
+                field: 'sum(items[*].price)',
+                message: 'Field "sum(items[*].price)" must satisfy gt 500'
+            });
+        });
+
+        it('should apply the type mismatch policy to expression errors', () => {
+            const rules = [{ expr: 'sum(items[*].price)', op: 'gt', value: 0 }];
+            const fact = { items: [{ price: '40' }] };
+
+            expect(() => new ValidraEngine(rules).evaluate(fact)).toThrow(RuleEvaluationError);
+            expect(new ValidraEngine(rules, { onTypeMismatch: 'fail' }).evaluate(fact).results[0]).toMatchObject({
+                passed: false,
+                status: 'failed',
+                reason: 'Function "sum" expects numbers but received string in expression "sum(items[*].price)".'
+            });
+        });
+
+        it('should evaluate expressions asynchronously', async () => {
+            const engine = new ValidraEngine([{ expr: 'endDate - startDate', op: 'lte', value: { expr: '30 days' } }]);
+
+            expect((await engine.evaluateAsync(order)).passed).toBe(true);
+        });
+
+        it('should validate expression rules when compiling', () => {
+            expect(() => new ValidraEngine([{ expr: 'a +', op: 'gt', value: 1 }])).toThrow('Expected a value but found end of input');
+            expect(() => new ValidraEngine([{ field: 'a', expr: 'b', op: 'gt', value: 1 }]))
+                .toThrow('Rule must define either a field or an expression, not both.');
+            expect(() => new ValidraEngine([{ expr: '', op: 'gt', value: 1 }])).toThrow('Rule expression must be a non-empty string.');
+            expect(() => new ValidraEngine([{ expr: 'a', op: 'nope' }])).toThrow('Unknown operator "nope" in rule for expression "a".');
+            expect(() => new ValidraEngine([{ field: 'a', op: 'gt', value: { expr: 'median(b)' } }])).toThrow('Unknown function "median"');
+        });
+    });
+
+    describe('priority and execution modes', () => {
+        const rules: Condition[] = [
+            { id: 'name', field: 'name', op: 'isString' },
+            { id: 'age', field: 'age', op: 'gte', value: 18, priority: 10 },
+            { id: 'email', field: 'email', op: 'isEmail', priority: 10 },
+            { id: 'fraud', field: 'score', op: 'lt', value: 50, group: 'fraud', priority: -1 }
+        ];
+        const ids = (results: ConditionResult[]) => results.map(result => ('rule' in result ? result.rule : result.group).id);
+
+        it('should evaluate by descending priority, keeping definition order on ties', () => {
+            const engine = new ValidraEngine(rules);
+            const fact = { name: 'Jane', age: 30, email: 'jane@example.com', score: 10 };
+
+            expect(ids(engine.evaluate(fact).results)).toEqual(['age', 'email', 'name', 'fraud']);
+            expect(engine.validate(fact).rules.map(rule => rule.id)).toEqual(['age', 'email', 'name', 'fraud']);
+        });
+
+        it('should order the children of groups by priority', () => {
+            const engine = new ValidraEngine([{ any: [
+                { id: 'low', field: 'a', op: 'eq', value: 1 },
+                { id: 'high', field: 'b', op: 'eq', value: 1, priority: 1 }
+            ] }]);
+
+            expect(ids((engine.evaluate({ a: 1, b: 1 }).results[0] as GroupResult).children)).toEqual(['high']);
+        });
+
+        it('should stop on the first failure', () => {
+            const engine = new ValidraEngine(rules);
+            const result = engine.evaluate({ name: 'Jane', age: 30, email: 'nope', score: 90 }, { mode: 'stopOnFirstFailure' });
+
+            expect(result.passed).toBe(false);
+            expect(ids(result.results)).toEqual(['age', 'email']);
+            expect(engine.validate({ age: 10 }, { mode: 'stopOnFirstFailure' }).summary.total).toBe(1);
+        });
+
+        it('should stop on the first match', () => {
+            const engine = new ValidraEngine(rules);
+            const matched = engine.evaluate({ age: 10, email: 'jane@example.com' }, { mode: 'stopOnFirstMatch' });
+            const unmatched = engine.evaluate({ age: 10, email: 'nope', name: 1, score: 90 }, { mode: 'stopOnFirstMatch' });
+
+            expect(matched.passed).toBe(true);
+            expect(ids(matched.results)).toEqual(['age', 'email']);
+            expect(unmatched.passed).toBe(false);
+            expect(unmatched.results).toHaveLength(4);
+        });
+
+        it('should not count skipped rules as a match', () => {
+            const engine = new ValidraEngine([
+                { id: 'email', field: 'email', op: 'isEmail' },
+                { id: 'age', field: 'age', op: 'gte', value: 18 }
+            ], { onTypeMismatch: 'skip' });
+            const result = engine.evaluate({ email: 42, age: 10 }, { mode: 'stopOnFirstMatch' });
+
+            expect(result.passed).toBe(false);
+            expect(result.results.map(result => (result as RuleResult).status)).toEqual(['skipped', 'failed']);
+        });
+
+        it('should skip rule groups that are turned off', () => {
+            const engine = new ValidraEngine([
+                ...rules,
+                { id: 'checks', all: [{ field: 'a', op: 'eq', value: 1 }], group: 'fraud' }
+            ]);
+            const fact = { name: 'Jane', age: 30, email: 'jane@example.com', score: 90, a: 2 };
+            const result = engine.evaluate(fact, { groups: { fraud: false } });
+
+            expect(result.passed).toBe(true);
+            expect(ids(result.results)).toEqual(['age', 'email', 'name', 'checks', 'fraud']);
+            expect(result.results[3]).toMatchObject({ skipped: true, children: [] });
+            expect(result.results[4]).toMatchObject({ status: 'skipped', reason: 'Rule group "fraud" is turned off.' });
+            expect(engine.evaluate(fact, { groups: { fraud: true } }).passed).toBe(false);
+            expect(engine.evaluate(fact).passed).toBe(false);
+            expect(engine.validate(fact, { groups: { fraud: false } }).summary.skipped).toBe(1);
+        });
+
+        it('should apply modes and rule groups to test()', () => {
+            const engine = new ValidraEngine(rules);
+
+            expect(engine.test({ name: 'Jane', age: 30, email: 'jane@example.com', score: 90 })).toBe(false);
+            expect(engine.test({ name: 'Jane', age: 30, email: 'jane@example.com', score: 90 }, { groups: { fraud: false } })).toBe(true);
+            expect(engine.test({ name: 1, age: 10, email: 'nope', score: 10 }, { mode: 'stopOnFirstMatch' })).toBe(true);
+            expect(engine.test({ name: 1, age: 10, email: 'nope', score: 10 }, { mode: 'stopOnFirstMatch', groups: { fraud: false } }))
+                .toBe(false);
+        });
+
+        it('should apply modes and rule groups asynchronously', async () => {
+            const engine = new ValidraEngine(rules);
+            const fact = { name: 'Jane', age: 10, email: 'nope', score: 90 };
+
+            expect(ids((await engine.evaluateAsync(fact, { mode: 'stopOnFirstFailure' })).results)).toEqual(['age']);
+            expect(ids((await engine.evaluateAsync(fact, { mode: 'stopOnFirstMatch' })).results)).toEqual(['age', 'email', 'name']);
+            expect((await engine.validateAsync(fact, { groups: { fraud: false } })).summary.skipped).toBe(1);
+        });
+
+        it('should reject invalid priorities, groups and options', () => {
+            const engine = new ValidraEngine(rules);
+
+            expect(() => new ValidraEngine([{ field: 'a', op: 'isString', priority: NaN }]))
+                .toThrow('Condition priority must be a finite number.');
+            expect(() => new ValidraEngine([{ all: [], group: '' }])).toThrow('Rule group name must be a non-empty string.');
+            expect(() => engine.evaluate({}, { mode: 'first' as ExecutionMode }))
+                .toThrow('Execution mode must be one of all, stopOnFirstFailure, stopOnFirstMatch.');
+            expect(() => engine.test({}, { groups: { fraud: 'no' as unknown as boolean } }))
+                .toThrow('Rule groups must map group names to booleans.');
+        });
+    });
+});
@@ -1,5 +1,6 @@
 import { describe, test, expect } from 'vitest';
 import { Comparison } from '../../../src/dls/helpers/comparison';
+import { ValidraArgumentError, ValidraTypeError } from '../../../src/utils/validra-errors';
 
 describe('Comparison', () => {
     describe('isGreaterThan', () => {
@@ -304,4 +305,22 @@ describe('Comparison', () => {
             expect(Comparison.between(1000, small, large)).toBe(true);
         });
     });
+
+    describe('errors', () => {
+        test('should raise a ValidraArgumentError for missing values', () => {
+            expect(() => Comparison.isGreaterThan(null as any, 5)).toThrow(ValidraArgumentError);
+            expect(() => Comparison.isGreaterThan(null as any, 5)).toThrow(expect.objectContaining({
+                code: 'ERR_VALIDRA_MISSING_ARGUMENT',
+                operator: 'Comparison.isGreaterThan'
+            }));
+        });
+
+        test('should raise a ValidraTypeError for non-numeric values', () => {
+            expect(() => Comparison.isGreaterThan('10' as any, 5)).toThrow(ValidraTypeError);
+            expect(() => Comparison.isGreaterThan('10' as any, 5)).toThrow(expect.objectContaining({
+                code: 'ERR_VALIDRA_TYPE',
+                argument: '10'
+            }));
+        });
+    });
 });
@@ -1,5 +1,6 @@
 import { describe, it, expect } from "vitest";
-import { Equality } from "@/dls/helpers/equality";
+import { Equality, EqualityOptions } from "@/dls/helpers/equality";
+import { ValidraArgumentError } from "@/utils";
 
 describe("DSL - Equality Helper", () => {
   describe("isEqual", () => {
@@ -104,6 +105,165 @@ describe("DSL - Equality Helper", () => {
     });
   });
 
+  describe("structural equality", () => {
+    it("should compare arrays and objects by content in isEqual and isNotEqual", () => {
+      expect(Equality.isEqual(["a", "b"], ["a", "b"])).toBe(true);
+      expect(Equality.isEqual({ city: "Austin", zip: "73301" }, { zip: "73301", city: "Austin" })).toBe(true);
+      expect(Equality.isEqual(["a", "b"], ["b", "a"])).toBe(false);
+      expect(Equality.isNotEqual({ zip: "73301" }, { zip: "10001" })).toBe(true);
+      expect(Equality.isNotEqual([1, 2], [1, 2])).toBe(false);
+    });
+  });
+
+  describe("deepEqual", () => {
+    it("should compare nested arrays and objects", () => {
+      const order = { lines: [{ sku: "A-1", qty: 2 }], placedAt: new Date("2025-01-01") };
+
+      expect(Equality.deepEqual(order, structuredClone(order))).toBe(true);
+      expect(Equality.deepEqual(order, { ...order, lines: [{ sku: "A-1", qty: 3 }] })).toBe(false);
+      expect(Equality.deepEqual({ a: 1 }, { a: 1, b: 2 })).toBe(false);
+      expect(Equality.deepEqual([1, [2, 3]], [1, [2]])).toBe(false);
+      expect(Equality.deepEqual([1], { 0: 1 })).toBe(false);
+    });
+
+    it("should accept null and undefined and only match them with themselves", () => {
+      expect(Equality.deepEqual(null, null)).toBe(true);
+      expect(Equality.deepEqual(undefined, undefined)).toBe(true);
+      expect(Equality.deepEqual(null, undefined)).toBe(false);
+      expect(Equality.deepEqual({ a: null }, { a: {} })).toBe(false);
+    });
+
+    it("should treat NaN as equal to itself", () => {
+      expect(Equality.deepEqual(NaN, NaN)).toBe(true);
+      expect(Equality.deepEqual([NaN], [0])).toBe(false);
+    });
+
+    it("should compare Maps and Sets whatever their order", () => {
+      expect(Equality.deepEqual(new Map([["a", 1], ["b", 2]]), new Map([["b", 2], ["a", 1]]))).toBe(true);
+      expect(Equality.deepEqual(new Map([["a", 1]]), new Map([["a", 2]]))).toBe(false);
+      expect(Equality.deepEqual(new Map([[{ id: 1 }, "x"]]), new Map([[{ id: 1 }, "x"]]))).toBe(true);
+      expect(Equality.deepEqual(new Set([1, { id: 2 }]), new Set([{ id: 2 }, 1]))).toBe(true);
+      expect(Equality.deepEqual(new Set([1, 2]), new Set([1, 3]))).toBe(false);
+    });
+
+    it("should compare dates, regular expressions and typed arrays", () => {
+      expect(Equality.deepEqual(new Date("invalid"), new Date("invalid"))).toBe(true);
+      expect(Equality.deepEqual(/ab+/gi, /ab+/gi)).toBe(true);
+      expect(Equality.deepEqual(/ab+/g, /ab+/i)).toBe(false);
+      expect(Equality.deepEqual(new Uint8Array([1, 2]), new Uint8Array([1, 2]))).toBe(true);
+      expect(Equality.deepEqual(new Uint8Array([1, 2]), new Int8Array([1, 2]))).toBe(false);
+      expect(Equality.deepEqual(new DataView(new Uint8Array([1]).buffer), new DataView(new Uint8Array([2]).buffer))).toBe(false);
+    });
+
+    it("should require the same prototype except for plain objects", () => {
+      class Point { constructor(public x: number) {} }
+
+      expect(Equality.deepEqual(new Point(1), new Point(1))).toBe(true);
+      expect(Equality.deepEqual(new Point(1), { x: 1 })).toBe(false);
+      expect(Equality.deepEqual(Object.assign(Object.create(null), { x: 1 }), { x: 1 })).toBe(true);
+    });
+
+    it("should handle cyclic references", () => {
+      const a: Record<string, unknown> = { name: "node" };
+      const b: Record<string, unknown> = { name: "node" };
+      a["self"] = a;
+      b["self"] = b;
+
+      expect(Equality.deepEqual(a, b)).toBe(true);
+      expect(Equality.deepEqual(a, { name: "node", self: { name: "other" } })).toBe(false);
+    });
+
+    it("should ignore array order when asked", () => {
+      expect(Equality.deepEqual([1, 2, 2], [2, 1, 2], { ignoreArrayOrder: true })).toBe(true);
+      expect(Equality.deepEqual([1, 1, 2], [1, 2, 2], { ignoreArrayOrder: true })).toBe(false);
+      expect(Equality.deepEqual([{ id: 1 }, { id: 2 }], [{ id: 2 }, { id: 1 }], { ignoreArrayOrder: true })).toBe(true);
+    });
+
+    it("should ignore undefined properties when asked", () => {
+      expect(Equality.deepEqual({ a: 1, b: undefined }, { a: 1 })).toBe(false);
+      expect(Equality.deepEqual({ a: 1, b: undefined }, { a: 1 }, { ignoreUndefined: true })).toBe(true);
+      expect(Equality.deepEqual({ a: 1 }, { a: 1, b: 2 }, { ignoreUndefined: true })).toBe(false);
+    });
+
+    it("should compare numbers within epsilon", () => {
+      expect(Equality.deepEqual({ total: 0.1 + 0.2 }, { total: 0.3 })).toBe(false);
+      expect(Equality.deepEqual({ total: 0.1 + 0.2 }, { total: 0.3 }, { epsilon: 1e-9 })).toBe(true);
+      expect(Equality.deepEqual(1, 1.5, { epsilon: 0.1 })).toBe(false);
+      expect(() => Equality.deepEqual(1, 1, { epsilon: -1 })).toThrow("Epsilon must be a non-negative number.");
+      expect(() => Equality.deepEqual(1, 1, { epsilon: NaN })).toThrow(ValidraArgumentError);
+    });
+  });
+
+  describe("options", () => {
+    it("should compare strings case-insensitively", () => {
+      expect(Equality.isEqual("ACTIVE", "active", { caseInsensitive: true })).toBe(true);
+      expect(Equality.isEqual("Straße", "STRASSE", { caseInsensitive: true })).toBe(true);
+      expect(Equality.isEqual({ tags: ["VIP"] }, { tags: ["vip"] }, { caseInsensitive: true })).toBe(true);
+      expect(Equality.isEqual({ Status: "x" }, { status: "x" }, { caseInsensitive: true })).toBe(false);
+      expect(Equality.isNotEqual("active", "inactive", { caseInsensitive: true })).toBe(true);
+    });
+
+    it("should normalize strings before comparing them", () => {
+      const composed = "caf\u00e9";
+      const decomposed = "cafe\u0301";
+
+      expect(Equality.isEqual(composed, decomposed)).toBe(false);
+      expect(Equality.isEqual(composed, decomposed, { normalize: "NFC" })).toBe(true);
+      expect(Equality.isEqual("\ufb01", "fi", { normalize: "NFKC" })).toBe(true);
+      expect(Equality.isEqual("CAF\u00c9", decomposed, { normalize: "NFD", caseInsensitive: true })).toBe(true);
+    });
+
+    it("should compare strings with a locale collation", () => {
+      expect(Equality.isEqual("résumé", "resume", { locale: "en", sensitivity: "base" })).toBe(true);
+      expect(Equality.isEqual("résumé", "RESUME", { locale: "en", sensitivity: "accent" })).toBe(false);
+      expect(Equality.isEqual("Résumé", "résumé", { locale: "fr", caseInsensitive: true })).toBe(true);
+      expect(Equality.isEqual("Résumé", "résumé", { locale: "fr" })).toBe(false);
+    });
+
+    it("should compare numbers within epsilon", () => {
+      expect(Equality.isEqual(0.1 + 0.2, 0.3)).toBe(false);
+      expect(Equality.isEqual(0.1 + 0.2, 0.3, { epsilon: Number.EPSILON })).toBe(true);
+      expect(Equality.isNotEqual(10, 10.5, { epsilon: 0.5 })).toBe(false);
+    });
+
+    it("should coerce strings, booleans and bigints when asked", () => {
+      expect(Equality.isEqual("42", 42)).toBe(false);
+      expect(Equality.isEqual("42", 42, { coerce: true })).toBe(true);
+      expect(Equality.isEqual(42, " 42.0 ", { coerce: true })).toBe(true);
+      expect(Equality.isEqual("true", true, { coerce: true })).toBe(true);
+      expect(Equality.isEqual(10n, 10, { coerce: true })).toBe(true);
+      expect(Equality.isEqual(2n ** 64n + 1n, 2 ** 64, { coerce: true })).toBe(false);
+      expect(Equality.isEqual(2 ** 64, 2n ** 64n, { coerce: true })).toBe(true);
+      expect(Equality.isEqual(10n, 10.5, { coerce: true, epsilon: 1 })).toBe(false);
+      expect(Equality.isEqual("", 0, { coerce: true })).toBe(false);
+      expect(Equality.isEqual("abc", 0, { coerce: true })).toBe(false);
+      expect(Equality.isEqual("0.30000001", 0.3, { coerce: true, epsilon: 1e-6 })).toBe(true);
+      expect(Equality.isEqual(["1", "2"], [1, 2], { coerce: true })).toBe(true);
+    });
+
+    it("should check the options", () => {
+      expect(Equality.checkOptions({ caseInsensitive: true })).toEqual({ caseInsensitive: true });
+      expect(Object.isFrozen(Equality.checkOptions({ caseInsensitive: true }))).toBe(true);
+      expect(() => Equality.checkOptions({ ignoreCase: true })).toThrow('Unknown equality option "ignoreCase".');
+      expect(() => Equality.checkOptions({ coerce: "yes" })).toThrow('Equality option "coerce" must be of type boolean but got string.');
+      expect(() => Equality.checkOptions({ normalize: "NFX" })).toThrow("Normalization form must be one of NFC, NFD, NFKC, NFKD.");
+      expect(() => Equality.checkOptions({ sensitivity: "loose" })).toThrow("Sensitivity must be one of base, accent, case, variant.");
+      expect(() => Equality.checkOptions({ locale: "not a locale" })).toThrow('Locale "not a locale" is not supported.');
+      expect(() => Equality.checkOptions(null)).toThrow("Equality options must be an object but got null.");
+      expect(() => Equality.isEqual("a", "a", { epsilon: -1 })).toThrow(ValidraArgumentError);
+    });
+
+    it("should not keep comparing with options changed after a comparison", () => {
+      const options: EqualityOptions = { caseInsensitive: true };
+      const checked = Equality.checkOptions(options);
+
+      expect(Equality.isEqual("ACTIVE", "active", options)).toBe(true);
+      options.caseInsensitive = false;
+      expect(Equality.isEqual("ACTIVE", "active", options)).toBe(false);
+      expect(Equality.isEqual("ACTIVE", "active", checked)).toBe(true);
+    });
+  });
+
   describe("logical consistency", () => {
     it("isNotEqual should be the logical negation of isEqual for valid inputs", () => {
       const testCases = [
@@ -6,6 +6,7 @@
 
 import { describe, it, expect } from 'vitest';
 import { StringChecker } from '../../../src/dls/helpers/string-checker';
+import { ValidraArgumentError, ValidraTypeError } from '../../../src/utils/validra-errors';
 
 describe('StringChecker', () => {
     describe('isEmpty', () => {
@@ -441,4 +442,21 @@ describe('StringChecker', () => {
             expect(StringChecker.endsWith('hello', emptyString)).toBe(true);
         });
     });
+
+    describe('errors', () => {
+        it('should raise a ValidraTypeError for non-string values', () => {
+            expect(() => StringChecker.isEmail(42 as any)).toThrow(ValidraTypeError);
+            expect(() => StringChecker.isEmail(42 as any)).toThrow(expect.objectContaining({
+                code: 'ERR_VALIDRA_TYPE',
+                argument: 42
+            }));
+        });
+
+        it('should raise a ValidraArgumentError for invalid lengths', () => {
+            expect(() => StringChecker.minLength('abc', -1)).toThrow(ValidraArgumentError);
+            expect(() => StringChecker.minLength('abc', -1)).toThrow(expect.objectContaining({
+                code: 'ERR_VALIDRA_INVALID_ARGUMENT'
+            }));
+        });
+    });
 });
@@ -1,5 +1,6 @@
-import { describe, test, expect } from 'vitest';
+import { describe, test, expect, expectTypeOf } from 'vitest';
 import { TypeChecker } from '../../../src/dls/helpers/type-checker';
+import { ValidraArgumentError, ValidraTypeError } from '../../../src/utils/validra-errors';
 
 describe('TypeChecker', () => {
     describe('isString', () => {
@@ -20,6 +21,7 @@ describe('TypeChecker', () => {
             expect(TypeChecker.isString([])).toBe(false);
             expect(TypeChecker.isString({})).toBe(false);
             expect(TypeChecker.isString(new Date())).toBe(false);
+            expect(TypeChecker.isString(new String('text'))).toBe(false);
         });
     });
 
@@ -167,6 +169,238 @@ describe('TypeChecker', () => {
         });
     });
 
+    describe('isInteger', () => {
+        test('should return true for integers only', () => {
+            expect(TypeChecker.isInteger(42)).toBe(true);
+            expect(TypeChecker.isInteger(-3)).toBe(true);
+            expect(TypeChecker.isInteger(5.0)).toBe(true);
+            expect(TypeChecker.isInteger(3.14)).toBe(false);
+            expect(TypeChecker.isInteger(NaN)).toBe(false);
+            expect(TypeChecker.isInteger(Infinity)).toBe(false);
+            expect(TypeChecker.isInteger('42')).toBe(false);
+            expect(TypeChecker.isInteger(42n)).toBe(false);
+        });
+    });
+
+    describe('isFinite', () => {
+        test('should exclude NaN, infinities and non-numbers', () => {
+            expect(TypeChecker.isFinite(3.14)).toBe(true);
+            expect(TypeChecker.isFinite(0)).toBe(true);
+            expect(TypeChecker.isFinite(Infinity)).toBe(false);
+            expect(TypeChecker.isFinite(-Infinity)).toBe(false);
+            expect(TypeChecker.isFinite(NaN)).toBe(false);
+            expect(TypeChecker.isFinite('1')).toBe(false);
+        });
+    });
+
+    describe('isBigInt', () => {
+        test('should return true for bigints only', () => {
+            expect(TypeChecker.isBigInt(10n)).toBe(true);
+            expect(TypeChecker.isBigInt(BigInt(10))).toBe(true);
+            expect(TypeChecker.isBigInt(10)).toBe(false);
+            expect(TypeChecker.isBigInt('10')).toBe(false);
+        });
+    });
+
+    describe('isPlainObject', () => {
+        test('should return true for object literals and null-prototype objects', () => {
+            expect(TypeChecker.isPlainObject({})).toBe(true);
+            expect(TypeChecker.isPlainObject({ key: 'value' })).toBe(true);
+            expect(TypeChecker.isPlainObject(new Object())).toBe(true);
+            expect(TypeChecker.isPlainObject(Object.create(null))).toBe(true);
+        });
+
+        test('should return false for built-in objects and class instances', () => {
+            class User {}
+
+            expect(TypeChecker.isPlainObject(new Date())).toBe(false);
+            expect(TypeChecker.isPlainObject(new Map())).toBe(false);
+            expect(TypeChecker.isPlainObject([])).toBe(false);
+            expect(TypeChecker.isPlainObject(new User())).toBe(false);
+            expect(TypeChecker.isPlainObject(null)).toBe(false);
+            expect(TypeChecker.isPlainObject(() => {})).toBe(false);
+        });
+    });
+
+    describe('isValidDate', () => {
+        test('should reject invalid dates', () => {
+            expect(TypeChecker.isValidDate(new Date('2025-01-01'))).toBe(true);
+            expect(TypeChecker.isValidDate(new Date('invalid'))).toBe(false);
+            expect(TypeChecker.isValidDate('2025-01-01')).toBe(false);
+            expect(TypeChecker.isValidDate(Date.now())).toBe(false);
+        });
+    });
+
+    describe('isMap and isSet', () => {
+        test('should recognize maps and sets', () => {
+            expect(TypeChecker.isMap(new Map())).toBe(true);
+            expect(TypeChecker.isMap(new WeakMap())).toBe(false);
+            expect(TypeChecker.isMap({})).toBe(false);
+            expect(TypeChecker.isSet(new Set([1]))).toBe(true);
+            expect(TypeChecker.isSet(new WeakSet())).toBe(false);
+            expect(TypeChecker.isSet([1])).toBe(false);
+        });
+    });
+
+    describe('isFunction', () => {
+        test('should return true for every kind of function', () => {
+            expect(TypeChecker.isFunction(() => 1)).toBe(true);
+            expect(TypeChecker.isFunction(async () => 1)).toBe(true);
+            expect(TypeChecker.isFunction(function* () {})).toBe(true);
+            expect(TypeChecker.isFunction(class {})).toBe(true);
+            expect(TypeChecker.isFunction({})).toBe(false);
+        });
+    });
+
+    describe('isPromise', () => {
+        test('should return true for promises and thenables', () => {
+            const promise = Promise.resolve(1);
+
+            expect(TypeChecker.isPromise(promise)).toBe(true);
+            expect(TypeChecker.isPromise({ then: () => {} })).toBe(true);
+            expect(TypeChecker.isPromise({ then: true })).toBe(false);
+            expect(TypeChecker.isPromise(async () => 1)).toBe(false);
+            expect(TypeChecker.isPromise(null)).toBe(false);
+        });
+    });
+
+    describe('isNull, isUndefined and isNullish', () => {
+        test('should tell null and undefined apart', () => {
+            expect(TypeChecker.isNull(null)).toBe(true);
+            expect(TypeChecker.isNull(undefined)).toBe(false);
+            expect(TypeChecker.isUndefined(undefined)).toBe(true);
+            expect(TypeChecker.isUndefined(null)).toBe(false);
+            expect(TypeChecker.isNullish(null)).toBe(true);
+            expect(TypeChecker.isNullish(undefined)).toBe(true);
+            expect(TypeChecker.isNullish(0)).toBe(false);
+            expect(TypeChecker.isNullish('')).toBe(false);
+            expect(TypeChecker.isNullish(false)).toBe(false);
+        });
+    });
+
+    describe('typeOf', () => {
+        test('should return a tag for primitives', () => {
+            expect(TypeChecker.typeOf(undefined)).toBe('undefined');
+            expect(TypeChecker.typeOf(null)).toBe('null');
+            expect(TypeChecker.typeOf('text')).toBe('string');
+            expect(TypeChecker.typeOf(true)).toBe('boolean');
+            expect(TypeChecker.typeOf(42)).toBe('integer');
+            expect(TypeChecker.typeOf(4.2)).toBe('number');
+            expect(TypeChecker.typeOf(Infinity)).toBe('number');
+            expect(TypeChecker.typeOf(NaN)).toBe('nan');
+            expect(TypeChecker.typeOf(42n)).toBe('bigint');
+            expect(TypeChecker.typeOf(Symbol('s'))).toBe('symbol');
+            expect(TypeChecker.typeOf(() => 1)).toBe('function');
+        });
+
+        test('should return a tag for objects', () => {
+            class User {}
+
+            expect(TypeChecker.typeOf(new Date('2025-01-01'))).toBe('date');
+            expect(TypeChecker.typeOf(new Date('invalid'))).toBe('invalidDate');
+            expect(TypeChecker.typeOf(/a/)).toBe('regexp');
+            expect(TypeChecker.typeOf(new TypeError('bad'))).toBe('error');
+            expect(TypeChecker.typeOf([])).toBe('array');
+            expect(TypeChecker.typeOf(new Map())).toBe('map');
+            expect(TypeChecker.typeOf(new Set())).toBe('set');
+            expect(TypeChecker.typeOf(Promise.resolve())).toBe('promise');
+            expect(TypeChecker.typeOf({})).toBe('object');
+            expect(TypeChecker.typeOf(Object.create(null))).toBe('object');
+            expect(TypeChecker.typeOf(new User())).toBe('instance');
+            expect(TypeChecker.typeOf(new String('text'))).toBe('instance');
+        });
+    });
+
+    describe('isType', () => {
+        test('should compare the type tag of a value', () => {
+            expect(TypeChecker.isType(42, 'integer')).toBe(true);
+            expect(TypeChecker.isType(4.2, 'integer')).toBe(false);
+            expect(TypeChecker.isType(new Map(), 'map')).toBe(true);
+            expect(TypeChecker.isType(new Date('invalid'), 'date')).toBe(false);
+            expect(TypeChecker.isType(new String('text'), 'string')).toBe(false);
+        });
+
+        test('should accept the number and nullish type groups', () => {
+            expect(TypeChecker.isType(42, 'number')).toBe(true);
+            expect(TypeChecker.isType(4.2, 'number')).toBe(true);
+            expect(TypeChecker.isType(NaN, 'number')).toBe(false);
+            expect(TypeChecker.isType(null, 'nullish')).toBe(true);
+            expect(TypeChecker.isType(undefined, 'nullish')).toBe(true);
+            expect(TypeChecker.isType(0, 'nullish')).toBe(false);
+        });
+
+        test('should throw ValidraArgumentError for unknown types', () => {
+            expect(() => TypeChecker.isType(1, 'numeric')).toThrow(ValidraArgumentError);
+            expect(() => TypeChecker.isType(1, 'numeric')).toThrow('Unknown type "numeric". Expected one of undefined, null, string,');
+            expect(() => TypeChecker.isType(1, 'toString')).toThrow(ValidraArgumentError);
+        });
+    });
+
+    describe('narrowing', () => {
+        test('should narrow values checked with the is methods', () => {
+            const value = 'text' as unknown;
+            const maybe = null as Date | string | null;
+
+            if (TypeChecker.isString(value)) expectTypeOf(value).toEqualTypeOf<string>();
+            if (TypeChecker.isDate(value)) expectTypeOf(value).toEqualTypeOf<Date>();
+            if (TypeChecker.isPlainObject(value)) expectTypeOf(value).toEqualTypeOf<Record<string, unknown>>();
+            if (TypeChecker.isNullish(maybe)) expectTypeOf(maybe).toEqualTypeOf<null>();
+            if (!TypeChecker.isDate(maybe) && !TypeChecker.isNull(maybe)) expectTypeOf(maybe).toEqualTypeOf<string>();
+        });
+
+        test('should not narrow away types on partial checks', () => {
+            const value = 4.2 as number | string;
+
+            if (!TypeChecker.isInteger(value)) expectTypeOf(value).toEqualTypeOf<number | string>();
+        });
+    });
+
+    describe('assertions', () => {
+        test('should narrow values that pass', () => {
+            const value = 'text' as unknown;
+
+            TypeChecker.assertString(value);
+            expectTypeOf(value).toEqualTypeOf<string>();
+            expect(value.toUpperCase()).toBe('TEXT');
+        });
+
+        test('should pass matching values', () => {
+            expect(() => {
+                TypeChecker.assertNumber(4.2);
+                TypeChecker.assertInteger(42);
+                TypeChecker.assertFinite(0);
+                TypeChecker.assertBoolean(false);
+                TypeChecker.assertBigInt(1n);
+                TypeChecker.assertDate(new Date('invalid'));
+                TypeChecker.assertValidDate(new Date('2025-01-01'));
+                TypeChecker.assertArray([]);
+                TypeChecker.assertObject(new Date());
+                TypeChecker.assertPlainObject({});
+                TypeChecker.assertMap(new Map());
+                TypeChecker.assertSet(new Set());
+                TypeChecker.assertFunction(() => 1);
+            }).not.toThrow();
+        });
+
+        test('should throw ValidraTypeError naming the actual type', () => {
+            expect(() => TypeChecker.assertString(42)).toThrow(ValidraTypeError);
+            expect(() => TypeChecker.assertString(42)).toThrow('Expected a string but got integer.');
+            expect(() => TypeChecker.assertString(new String('text'))).toThrow(ValidraTypeError);
+            expect(() => TypeChecker.assertInteger(4.2)).toThrow('Expected an integer but got number.');
+            expect(() => TypeChecker.assertValidDate(new Date('invalid'))).toThrow('Expected a valid date but got invalidDate.');
+            expect(() => TypeChecker.assertPlainObject(new Map())).toThrow('Expected a plain object but got map.');
+            expect(() => TypeChecker.assertArray(null)).toThrow(expect.objectContaining({
+                code: 'ERR_VALIDRA_TYPE',
+                operator: 'TypeChecker.assertArray',
+                argument: null
+            }));
+        });
+
+        test('should use a custom message', () => {
+            expect(() => TypeChecker.assertNumber('18', 'Age must be a number.')).toThrow('Age must be a number.');
+        });
+    });
+
     describe('integration tests', () => {
         test('should correctly identify mixed types in an array', () => {
             const mixedArray = [
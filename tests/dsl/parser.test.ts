@@ -0,0 +1,291 @@
+import { describe, it, expect } from 'vitest';
+import { parse, parseProduction, parseStatement } from '@/dls/parser';
+import { DslSyntaxError } from '@/dls/dsl-syntax-error';
+import { ValidraError } from '@/utils/validra-errors';
+import { EmitActionNode, FieldNode, LiteralNode, LogicalNode, NotNode, PredicateNode, SetActionNode, ValueNode } from '@/dls/ast';
+
+describe('DSL - Parser', () => {
+    const predicate = (source: string) => parse(source) as PredicateNode;
+    const simplify = (source: string) => {
+        const node = predicate(source);
+        const value = (arg: ValueNode) => arg.type === 'Field' ? { ref: arg.path } : (arg as LiteralNode).value;
+        return [(node.subject as FieldNode).path, node.operator, node.args.map(value)];
+    };
+    const valueOf = (source: string) => (predicate(source).args[0] as LiteralNode).value;
+
+    describe('predicates', () => {
+        it('should parse symbolic comparisons', () => {
+            expect(simplify('age == 1')).toEqual(['age', 'eq', [1]]);
+            expect(simplify('age != 1')).toEqual(['age', 'neq', [1]]);
+            expect(simplify('age > 1')).toEqual(['age', 'gt', [1]]);
+            expect(simplify('age >= 1')).toEqual(['age', 'gte', [1]]);
+            expect(simplify('age < 1')).toEqual(['age', 'lt', [1]]);
+            expect(simplify('age <= 1')).toEqual(['age', 'lte', [1]]);
+        });
+
+        it('should parse is predicates', () => {
+            expect(simplify('user.email is email')).toEqual(['user.email', 'isEmail', []]);
+            expect(simplify('signupDate is weekday')).toEqual(['signupDate', 'isWeekday', []]);
+            expect(simplify('year is leapYear')).toEqual(['year', 'isLeapYear', []]);
+            expect(simplify('qty is integer')).toEqual(['qty', 'isInteger', []]);
+            expect(simplify('deletedAt is null')).toEqual(['deletedAt', 'isNull', []]);
+            expect(simplify('meta is plainObject')).toEqual(['meta', 'isPlainObject', []]);
+        });
+
+        it('should parse negated is predicates', () => {
+            const node = parse('name is not empty') as NotNode;
+            expect(node.type).toBe('Not');
+            expect((node.operand as PredicateNode).operator).toBe('isEmpty');
+        });
+
+        it('should parse between and not between', () => {
+            expect(simplify('qty between 1 and 10')).toEqual(['qty', 'between', [1, 10]]);
+            expect(simplify('qty not between 1 and 10')).toEqual(['qty', 'notBetween', [1, 10]]);
+        });
+
+        it('should parse word operators', () => {
+            expect(simplify('name contains "vip"')).toEqual(['name', 'contains', ['vip']]);
+            expect(simplify('name startsWith "A"')).toEqual(['name', 'startsWith', ['A']]);
+            expect(simplify('file endsWith ".txt"')).toEqual(['file', 'endsWith', ['.txt']]);
+            expect(simplify('code matches "^[A-Z]+$"')).toEqual(['code', 'matches', ['^[A-Z]+$']]);
+            expect(simplify('name minLength 3')).toEqual(['name', 'minLength', [3]]);
+            expect(simplify('name maxLength 30')).toEqual(['name', 'maxLength', [30]]);
+            expect(simplify('user has "email"')).toEqual(['user', 'hasProperty', ['email']]);
+        });
+
+        it('should negate word operators', () => {
+            const node = parse('tags not contains "banned"') as NotNode;
+            expect(node.type).toBe('Not');
+            expect((node.operand as PredicateNode).operator).toBe('contains');
+        });
+
+        it('should parse literal values', () => {
+            expect(valueOf('a == "text"')).toBe('text');
+            expect(valueOf('a == 2.5')).toBe(2.5);
+            expect(valueOf('a > -3')).toBe(-3);
+            expect(valueOf('a == true')).toBe(true);
+            expect(valueOf('a == false')).toBe(false);
+            expect(valueOf('a == null')).toBeNull();
+        });
+
+        it('should parse date literals', () => {
+            const node = predicate('createdAt after date("2025-01-01")');
+            expect(node.operator).toBe('isAfter');
+            expect((node.args[0] as LiteralNode).value).toEqual(new Date('2025-01-01'));
+        });
+
+        it('should parse fields in value position as references', () => {
+            expect(simplify('discount <= subtotal')).toEqual(['discount', 'lte', [{ ref: 'subtotal' }]]);
+            expect(simplify('order.deliveredAt after order.shippedAt'))
+                .toEqual(['order.deliveredAt', 'isAfter', [{ ref: 'order.shippedAt' }]]);
+            expect(simplify('qty between min and 10')).toEqual(['qty', 'between', [{ ref: 'min' }, 10]]);
+            expect(predicate('a == b').args[0]).toEqual({ type: 'Field', path: 'b', position: { offset: 5, line: 1, column: 6 } });
+        });
+
+        it('should read date as a field unless it is followed by "("', () => {
+            expect(simplify('expiresAt after date')).toEqual(['expiresAt', 'isAfter', [{ ref: 'date' }]]);
+        });
+
+        it('should parse arithmetic operands', () => {
+            const node = predicate('total == sum(items[*].price) * (1 + taxRate)');
+
+            expect(node.subject).toMatchObject({ type: 'Field', path: 'total' });
+            expect(node.args[0]).toMatchObject({
+                type: 'Binary',
+                operator: '*',
+                left: { type: 'Call', callee: 'sum', args: [{ type: 'Field', path: 'items[*].price' }] },
+                right: { type: 'Binary', operator: '+', left: { value: 1 }, right: { type: 'Field', path: 'taxRate' } }
+            });
+        });
+
+        it('should parse computed subjects and durations', () => {
+            const node = predicate('endDate - startDate <= 30 days');
+
+            expect(node.operator).toBe('lte');
+            expect(node.subject).toMatchObject({ type: 'Binary', operator: '-', left: { path: 'endDate' }, right: { path: 'startDate' } });
+            expect(node.args[0]).toMatchObject({ type: 'Duration', value: 30, unit: 'days' });
+            expect(predicate('a > -2 hours').args[0]).toMatchObject({ type: 'Duration', value: -2, unit: 'hours' });
+            expect(predicate('a > -b').args[0]).toMatchObject({ type: 'Negate', operand: { path: 'b' } });
+        });
+
+        it('should parse parenthesized operands at the start of a predicate', () => {
+            expect(predicate('(a + b) * 2 > 3').subject).toMatchObject({ type: 'Binary', operator: '*' });
+            expect((parse('(a > 1) and b > 2') as LogicalNode).operator).toBe('and');
+        });
+
+        it('should parse options after with', () => {
+            expect(predicate('status == "ACTIVE" with caseInsensitive').options).toEqual({ caseInsensitive: true });
+            expect(predicate('total == 0.3 with epsilon = 0.001, coerce = false').options).toEqual({ epsilon: 0.001, coerce: false });
+            expect(predicate('name == "Åsa" with locale = "sv", sensitivity = "base"').options).toEqual({ locale: 'sv', sensitivity: 'base' });
+            expect(predicate('a == 1 with offset = -2').options).toEqual({ offset: -2 });
+            expect(predicate('a == 1').options).toBeUndefined();
+
+            const negated = parse('name not contains "x" with caseInsensitive') as NotNode;
+            expect((negated.operand as PredicateNode).options).toEqual({ caseInsensitive: true });
+            expect((parse('a == "x" with caseInsensitive and b > 1') as LogicalNode).operator).toBe('and');
+            expect(parseProduction('if a == "x" with caseInsensitive then emit matched with a').condition)
+                .toMatchObject({ operator: 'eq', options: { caseInsensitive: true } });
+        });
+
+        it('should record node positions', () => {
+            const node = predicate('  age >= 18');
+            expect(node.position).toEqual({ offset: 2, line: 1, column: 3 });
+            expect(node.args[0]?.position).toEqual({ offset: 9, line: 1, column: 10 });
+        });
+    });
+
+    describe('logical expressions', () => {
+        it('should give and precedence over or', () => {
+            const node = parse('a > 1 or b > 2 and c > 3') as LogicalNode;
+            expect(node.operator).toBe('or');
+            expect((node.right as LogicalNode).operator).toBe('and');
+        });
+
+        it('should group with parentheses', () => {
+            const node = parse('(a > 1 or b > 2) and c > 3') as LogicalNode;
+            expect(node.operator).toBe('and');
+            expect((node.left as LogicalNode).operator).toBe('or');
+        });
+
+        it('should be left associative', () => {
+            const node = parse('a > 1 and b > 2 and c > 3') as LogicalNode;
+            expect((node.left as LogicalNode).operator).toBe('and');
+            expect(((node.right as PredicateNode).subject as FieldNode).path).toBe('c');
+        });
+
+        it('should parse not prefixes', () => {
+            const node = parse('not (a > 1 or b > 2)') as NotNode;
+            expect(node.type).toBe('Not');
+            expect((node.operand as LogicalNode).operator).toBe('or');
+        });
+
+        it('should parse the full example expression', () => {
+            const node = parse('user.age >= 18 and user.email is email and signupDate is weekday') as LogicalNode;
+            expect(node.type).toBe('Logical');
+            expect(node.operator).toBe('and');
+        });
+
+        it('should parse expressions over multiple lines', () => {
+            const node = parse('age >= 18\n  and (country == "US"\n    or hasConsent == true)') as LogicalNode;
+            expect(node.operator).toBe('and');
+        });
+    });
+
+    describe('productions', () => {
+        it('should parse rules with set and emit actions', () => {
+            const node = parseProduction('if cart.total > 100 then set cart.freeShipping = true and emit freeShipping with cart.total');
+            const [set, emit] = node.actions as [SetActionNode, EmitActionNode];
+
+            expect(node.type).toBe('Production');
+            expect(node.condition.type).toBe('Predicate');
+            expect(set.path).toBe('cart.freeShipping');
+            expect((set.value as LiteralNode).value).toBe(true);
+            expect(emit.name).toBe('freeShipping');
+            expect((emit.payload as FieldNode).path).toBe('cart.total');
+        });
+
+        it('should parse computed values and quoted event names', () => {
+            const node = parseProduction('if a > 1 and b > 2 then set c = a + b and emit "c-updated"');
+
+            expect(node.condition.type).toBe('Logical');
+            expect((node.actions[0] as SetActionNode).value.type).toBe('Binary');
+            expect(node.actions[1]).toMatchObject({ type: 'EmitAction', name: 'c-updated' });
+            expect((node.actions[1] as EmitActionNode).payload).toBeUndefined();
+        });
+
+        it('should tell productions from expressions', () => {
+            expect(parseStatement('if a > 1 then emit x').type).toBe('Production');
+            expect(parseStatement('a > 1').type).toBe('Predicate');
+            expect(parseStatement('if > 1').type).toBe('Predicate');
+        });
+
+        it('should reject malformed productions', () => {
+            const reasonOf = (source: string) => {
+                try {
+                    parseProduction(source);
+                } catch (error) {
+                    return (error as DslSyntaxError).reason;
+                }
+                throw new Error('Expected parse to fail');
+            };
+
+            expect(reasonOf('a > 1 then emit x')).toBe('Expected "if" but found "a"');
+            expect(reasonOf('if a > 1 emit x')).toBe('Expected "then" after the condition but found "emit"');
+            expect(reasonOf('if a > 1 then')).toBe('Expected "set" or "emit" but found end of input');
+            expect(reasonOf('if a > 1 then set b 2')).toBe('Expected "=" after field "b" but found "2"');
+            expect(reasonOf('if a > 1 then emit 2')).toBe('Expected an event name after "emit" but found "2"');
+            expect(reasonOf('if a > then set b = 1')).toBe('Expected a value but found "then"');
+        });
+    });
+
+    describe('errors', () => {
+        const errorOf = (source: string): DslSyntaxError => {
+            try {
+                parse(source);
+            } catch (error) {
+                return error as DslSyntaxError;
+            }
+            throw new Error('Expected parse to fail');
+        };
+
+        it('should report line, column and a caret under the offending token', () => {
+            const error = errorOf('user.age >= and');
+
+            expect(error).toBeInstanceOf(DslSyntaxError);
+            expect(error).toBeInstanceOf(ValidraError);
+            expect(error.code).toBe('ERR_VALIDRA_SYNTAX');
+            expect(error.line).toBe(1);
+            expect(error.column).toBe(13);
+            expect(error.reason).toBe('Expected a value but found "and"');
+            expect(error.message).toBe('Expected a value but found "and" at line 1, column 13\nuser.age >= and\n            ^');
+        });
+
+        it('should report malformed options', () => {
+            expect(errorOf('a == 1 with').reason).toBe('Expected an option name but found end of input');
+            expect(errorOf('a == 1 with epsilon =').reason).toBe('Expected an option value but found end of input');
+            expect(errorOf('a == 1 with epsilon = b').reason).toBe('Expected an option value but found "b"');
+            expect(errorOf('a == 1 with coerce, coerce').reason).toBe('Duplicate option "coerce"');
+        });
+
+        it('should report errors on later lines', () => {
+            const error = errorOf('age >= 18\nand email is mail');
+
+            expect(error.line).toBe(2);
+            expect(error.column).toBe(14);
+            expect(error.message).toBe('Unknown predicate "mail" after "is" at line 2, column 14\nand email is mail\n             ^');
+        });
+
+        it('should reject missing operators', () => {
+            expect(errorOf('age 18').reason).toBe('Expected an operator after field "age" but found "18"');
+            expect(errorOf('age').reason).toBe('Expected an operator after field "age" but found end of input');
+        });
+
+        it('should reject unbalanced parentheses', () => {
+            expect(errorOf('(age > 1').reason).toBe('Expected ")" to close "(" but found end of input');
+            expect(errorOf('age > 1)').reason).toBe('Unexpected ")"');
+        });
+
+        it('should reject malformed operands', () => {
+            expect(errorOf('a > median(b)').reason).toBe('Unknown function "median"');
+            expect(errorOf('a > count()').reason).toBe('Function "count" expects 1 argument but received 0');
+            expect(errorOf('a > sum(b').reason).toBe('Expected ")" to close "sum(" but found end of input');
+            expect(errorOf('(a + ) > 1').reason).toBe('Expected a value but found ")"');
+            expect(errorOf('a + 1').reason).toBe('Expected an operator after expression but found end of input');
+        });
+
+        it('should reject malformed between expressions', () => {
+            expect(errorOf('qty between 1 or 2').reason).toBe('Expected "and" between the bounds of "between" but found "or"');
+        });
+
+        it('should reject invalid dates', () => {
+            expect(errorOf('d after date("nope")').reason).toBe('Invalid date "nope"');
+            expect(errorOf('d after date(1)').reason).toBe('Expected a date string but found "1"');
+        });
+
+        it('should reject missing fields and trailing input', () => {
+            expect(errorOf('>= 18').reason).toBe('Expected a field but found ">="');
+            expect(errorOf('').reason).toBe('Expected a field but found end of input');
+            expect(errorOf('a > 1 b > 2').reason).toBe('Unexpected "b"');
+        });
+    });
+});
@@ -0,0 +1,119 @@
+import { describe, it, expect } from 'vitest';
+import { parseRule, toCondition, toProduction } from '@/dls/to-condition';
+import { parse, parseProduction } from '@/dls/parser';
+import { ValidraEngine } from '@/core/validra-engine';
+
+describe('DSL - toCondition', () => {
+    it('should map predicates to rules', () => {
+        expect(toCondition(parse('age >= 18'))).toEqual({ field: 'age', op: 'gte', value: 18 });
+        expect(toCondition(parse('email is email'))).toEqual({ field: 'email', op: 'isEmail' });
+        expect(toCondition(parse('qty between 1 and 5'))).toEqual({ field: 'qty', op: 'between', value: [1, 5] });
+    });
+
+    it('should map fields in value position to references', () => {
+        expect(parseRule('discount <= subtotal')).toEqual({ field: 'discount', op: 'lte', value: { ref: 'subtotal' } });
+        expect(parseRule('qty between min and max')).toEqual({ field: 'qty', op: 'between', value: [{ ref: 'min' }, { ref: 'max' }] });
+    });
+
+    it('should map arithmetic to expressions', () => {
+        expect(parseRule('total == sum(items[*].price) * (1 + taxRate)')).toEqual({
+            field: 'total',
+            op: 'eq',
+            value: { expr: 'sum(items[*].price) * (1 + taxRate)' }
+        });
+        expect(parseRule('endDate - startDate <= 30 days')).toEqual({ expr: 'endDate - startDate', op: 'lte', value: { expr: '30 days' } });
+        expect(parseRule('a between b - (c - 1) and -(d * 2)')).toEqual({
+            field: 'a',
+            op: 'between',
+            value: [{ expr: 'b - (c - 1)' }, { expr: '-(d * 2)' }]
+        });
+        expect(parseRule('due before date("2025-01-01") + 1 day')).toEqual({
+            field: 'due',
+            op: 'isBefore',
+            value: { expr: 'date("2025-01-01T00:00:00.000Z") + 1 days' }
+        });
+    });
+
+    it('should flatten logical chains into groups', () => {
+        expect(parseRule('a > 1 and b > 2 and c > 3')).toEqual({
+            all: [
+                { field: 'a', op: 'gt', value: 1 },
+                { field: 'b', op: 'gt', value: 2 },
+                { field: 'c', op: 'gt', value: 3 }
+            ]
+        });
+        expect(parseRule('a > 1 and (b > 2 or c > 3)')).toEqual({
+            all: [
+                { field: 'a', op: 'gt', value: 1 },
+                { any: [{ field: 'b', op: 'gt', value: 2 }, { field: 'c', op: 'gt', value: 3 }] }
+            ]
+        });
+    });
+
+    it('should map comparisons with null to isNull rules', () => {
+        expect(parseRule('a == null')).toEqual({ field: 'a', op: 'isNull' });
+        expect(parseRule('a != null')).toEqual({ not: { field: 'a', op: 'isNull' } });
+
+        const isNull = new ValidraEngine([parseRule('a == null')]);
+        const notNull = new ValidraEngine([parseRule('a != null')]);
+        expect(isNull.test({ a: null })).toBe(true);
+        expect(isNull.test({ a: 1 })).toBe(false);
+        expect(notNull.test({ a: 1 })).toBe(true);
+        expect(notNull.test({ a: null })).toBe(false);
+    });
+
+    it('should map options to rule options', () => {
+        expect(parseRule('status == "ACTIVE" with caseInsensitive, normalize = "NFC"'))
+            .toEqual({ field: 'status', op: 'eq', value: 'ACTIVE', options: { caseInsensitive: true, normalize: 'NFC' } });
+
+        const engine = new ValidraEngine([parseRule('total == 0.3 with epsilon = 0.000001')]);
+        expect(engine.test({ total: 0.1 + 0.2 })).toBe(true);
+    });
+
+    it('should map negations to not groups', () => {
+        expect(parseRule('name is not empty')).toEqual({ not: { field: 'name', op: 'isEmpty' } });
+    });
+
+    it('should map productions to conditions with actions', () => {
+        expect(toProduction(parseProduction('if cart.total > 100 then set cart.freeShipping = true'))).toEqual({
+            field: 'cart.total',
+            op: 'gt',
+            value: 100,
+            then: [{ set: 'cart.freeShipping', value: true }]
+        });
+        expect(parseRule('if a > 1 or b > 1 then set c = a * 2 and set d = b and emit done with c')).toEqual({
+            any: [{ field: 'a', op: 'gt', value: 1 }, { field: 'b', op: 'gt', value: 1 }],
+            then: [
+                { set: 'c', value: { expr: 'a * 2' } },
+                { set: 'd', value: { ref: 'b' } },
+                { emit: 'done', payload: { ref: 'c' } }
+            ]
+        });
+    });
+
+    it('should produce productions the engine runs', () => {
+        const engine = new ValidraEngine([
+            parseRule('if cart.total > 100 then set cart.freeShipping = true'),
+            parseRule('if cart.freeShipping == true then emit freeShipping')
+        ]);
+
+        expect(engine.run({ cart: { total: 150, freeShipping: false } }).events.map(event => event.name)).toEqual(['freeShipping']);
+    });
+
+    it('should produce conditions the engine evaluates', () => {
+        const engine = new ValidraEngine([
+            parseRule('user.age >= 18 and user.email is email and signupDate is weekday'),
+            parseRule('user.country == "US" or user.hasConsent == true')
+        ]);
+
+        expect(engine.evaluate({
+            user: { age: 30, email: 'jane@example.com', country: 'CA', hasConsent: true },
+            signupDate: new Date('2025-01-06')
+        }).passed).toBe(true);
+
+        expect(engine.evaluate({
+            user: { age: 30, email: 'jane@example.com', country: 'CA', hasConsent: false },
+            signupDate: new Date('2025-01-05')
+        }).passed).toBe(false);
+    });
+});
@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest';
+import { tokenize } from '@/dls/tokenizer';
+import { DslSyntaxError } from '@/dls/dsl-syntax-error';
+
+describe('DSL - Tokenizer', () => {
+    const types = (source: string) => tokenize(source).map(token => token.type);
+    const values = (source: string) => tokenize(source).map(token => token.value);
+
+    it('should tokenize a comparison', () => {
+        expect(types('user.age >= 18')).toEqual(['identifier', 'operator', 'number', 'eof']);
+        expect(values('user.age >= 18')).toEqual(['user.age', '>=', '18', '']);
+    });
+
+    it('should prefer the longest symbolic operator', () => {
+        expect(values('a>=1 b<=2 c==3 d!=4 e>5 f<6')).toEqual([
+            'a', '>=', '1', 'b', '<=', '2', 'c', '==', '3', 'd', '!=', '4', 'e', '>', '5', 'f', '<', '6', ''
+        ]);
+    });
+
+    it('should read the assignment operator', () => {
+        expect(values('a = 1 b == 2')).toEqual(['a', '=', '1', 'b', '==', '2', '']);
+    });
+
+    it('should read dotted paths as a single identifier', () => {
+        expect(values('order.items.0.price')).toEqual(['order.items.0.price', '']);
+        expect(values('$meta._id')).toEqual(['$meta._id', '']);
+    });
+
+    it('should read indices, wildcards and optional segments as part of paths', () => {
+        expect(values('items[*].price + items[0]?.qty')).toEqual(['items[*].price', '+', 'items[0]?.qty', '']);
+        expect(values('meta?.tags?.[1]')).toEqual(['meta?.tags?.[1]', '']);
+        expect(() => tokenize('items[0')).toThrow('Expected "]" to close "[" at line 1, column 6');
+    });
+
+    it('should read arithmetic operators', () => {
+        expect(values('a+b-c*d/e%f')).toEqual(['a', '+', 'b', '-', 'c', '*', 'd', '/', 'e', '%', 'f', '']);
+    });
+
+    it('should read numbers', () => {
+        expect(values('1 2.5 1e3 -4')).toEqual(['1', '2.5', '1e3', '-', '4', '']);
+    });
+
+    it('should read single and double quoted strings with escapes', () => {
+        const tokens = tokenize(`"say \\"hi\\"" 'it\\'s' "a\\nb"`);
+        expect(tokens.map(t => t.type)).toEqual(['string', 'string', 'string', 'eof']);
+        expect(tokens.map(t => t.value)).toEqual(['say "hi"', "it's", 'a\nb', '']);
+    });
+
+    it('should read parentheses and commas', () => {
+        expect(types('(a, b)')).toEqual(['lparen', 'identifier', 'comma', 'identifier', 'rparen', 'eof']);
+    });
+
+    it('should skip whitespace and comments', () => {
+        expect(values('a # comment\n  > 1 # trailing')).toEqual(['a', '>', '1', '']);
+    });
+
+    it('should track line and column positions', () => {
+        const tokens = tokenize('a > 1\n  and b < 2');
+        expect(tokens[0]?.position).toEqual({ offset: 0, line: 1, column: 1 });
+        expect(tokens[3]?.position).toEqual({ offset: 8, line: 2, column: 3 });
+        expect(tokens[5]?.position).toEqual({ offset: 14, line: 2, column: 9 });
+    });
+
+    it('should throw on unexpected characters', () => {
+        expect(() => tokenize('a > 1 & b')).toThrow(DslSyntaxError);
+        expect(() => tokenize('a > 1 & b')).toThrow('Unexpected character "&" at line 1, column 7');
+    });
+
+    it('should throw on unterminated strings', () => {
+        expect(() => tokenize('name == "abc')).toThrow('Unterminated string literal at line 1, column 9');
+        expect(() => tokenize('name == "abc\n"')).toThrow('Unterminated string literal');
+    });
+
+    it('should throw on invalid escape sequences', () => {
+        expect(() => tokenize('"a\\qb"')).toThrow('Invalid escape sequence "\\q" at line 1, column 3');
+    });
+});
@@ -0,0 +1,155 @@
+import { describe, it, expect, expectTypeOf } from 'vitest';
+import { OperatorRegistry } from '@/operations/operator-registry';
+import { BUILT_IN_OPERATORS } from '@/operations/built-in-operators';
+import { OperatorFn } from '@/operations/types';
+import { ValidraRecord, ValidraValue } from '@/utils/utility.types';
+import { ValidraArgumentError } from '@/utils/validra-errors';
+
+describe('OperatorRegistry', () => {
+    describe('built-in operators', () => {
+        it('should register every built-in operator by default', () => {
+            const registry = new OperatorRegistry();
+
+            expect(registry.names()).toEqual(BUILT_IN_OPERATORS.map(op => op.name));
+            ['gt', 'lt', 'between', 'contains', 'isEmail', 'isLeapYear', 'matches', 'hasProperty'].forEach(name => {
+                expect(registry.has(name)).toBe(true);
+            });
+        });
+
+        it('should start empty when built-ins are excluded', () => {
+            expect(new OperatorRegistry(false).names()).toEqual([]);
+        });
+
+        it('should map operators to the helper methods', () => {
+            const registry = new OperatorRegistry();
+
+            expect(registry.get('gt').fn(10, 5)).toBe(true);
+            expect(registry.get('between').fn(5, 1, 10)).toBe(true);
+            expect(registry.get('startsWith').fn('hello', 'he')).toBe(true);
+            expect(registry.get('isLeapYear').fn(new Date('2024-01-01'))).toBe(true);
+            expect(registry.get('isWeekend').fn(new Date('2025-01-06'))).toBe(false);
+        });
+
+        it('should expose unique names', () => {
+            const names = BUILT_IN_OPERATORS.map(op => op.name);
+            expect(new Set(names).size).toBe(names.length);
+        });
+    });
+
+    describe('register', () => {
+        it('should register custom operators and allow chaining', () => {
+            const registry = new OperatorRegistry()
+                .register('isValidIban', (value: string) => value.startsWith('DE'), { arity: 0 })
+                .register('divisibleBy', (value: number, n: number) => value % n === 0, { arity: 1, argTypes: ['number'] });
+
+            expect(registry.get('isValidIban').fn('DE89370400440532013000')).toBe(true);
+            expect(registry.get('divisibleBy')).toMatchObject({ name: 'divisibleBy', arity: 1, argTypes: ['number'] });
+        });
+
+        it('should type operators against the value model', () => {
+            const registry = new OperatorRegistry(false)
+                .register('hasTier', (customer: ValidraRecord, tier: ValidraValue) => customer['tier'] === tier, { arity: 1 });
+
+            expect(registry.get('hasTier').fn({ tier: 'gold' }, 'gold')).toBe(true);
+            expectTypeOf<Parameters<OperatorFn>>().toEqualTypeOf<[value: ValidraValue, ...args: ValidraValue[]]>();
+            expectTypeOf<(value: Set<string>) => boolean>().not.toExtend<OperatorFn>();
+        });
+
+        it('should default argument types to any', () => {
+            const registry = new OperatorRegistry(false).register('custom', () => true, { arity: 2 });
+            expect(registry.get('custom').argTypes).toEqual(['any', 'any']);
+        });
+
+        it('should reject duplicate names unless override is explicit', () => {
+            const registry = new OperatorRegistry();
+            const strictEmail = (value: string) => value.endsWith('@example.com');
+
+            expect(() => registry.register('isEmail', strictEmail, { arity: 0 }))
+                .toThrow('Operator "isEmail" is already registered. Use { override: true } to replace it.');
+
+            registry.register('isEmail', strictEmail, { arity: 0, override: true });
+            expect(registry.get('isEmail').fn('jane@other.com')).toBe(false);
+        });
+
+        it('should reject invalid definitions', () => {
+            const registry = new OperatorRegistry(false);
+
+            expect(() => registry.register('', () => true, { arity: 0 })).toThrow('Operator name must be a non-empty string.');
+            expect(() => registry.register('x', 'nope' as any, { arity: 0 })).toThrow('Operator "x" must be a function.');
+            expect(() => registry.register('x', () => true, { arity: -1 })).toThrow('Operator "x" arity must be a non-negative integer.');
+            expect(() => registry.register('x', () => true, { arity: 1.5 })).toThrow('Operator "x" arity must be a non-negative integer.');
+            expect(() => registry.register('x', () => true, { arity: 1, argTypes: ['number', 'number'] }))
+                .toThrow('Operator "x" declares 2 argument types for an arity of 1.');
+        });
+
+        it('should not share registrations between registries', () => {
+            const a = new OperatorRegistry().register('custom', () => true, { arity: 0 });
+            const b = new OperatorRegistry();
+
+            expect(a.has('custom')).toBe(true);
+            expect(b.has('custom')).toBe(false);
+        });
+    });
+
+    describe('get', () => {
+        it('should throw for unknown operators', () => {
+            expect(() => new OperatorRegistry().get('nope')).toThrow('Unknown operator "nope".');
+        });
+    });
+
+    describe('checkArguments', () => {
+        const registry = new OperatorRegistry();
+
+        it('should accept arguments matching arity and types', () => {
+            expect(() => registry.checkArguments('between', [1, 10])).not.toThrow();
+            expect(() => registry.checkArguments('isAfter', [new Date()])).not.toThrow();
+            expect(() => registry.checkArguments('isEmail', [])).not.toThrow();
+            expect(() => registry.checkArguments('eq', ['anything'])).not.toThrow();
+        });
+
+        it('should reject the wrong number of arguments', () => {
+            expect(() => registry.checkArguments('between', [1])).toThrow('Operator "between" expects 2 argument(s) but received 1.');
+            expect(() => registry.checkArguments('isEmail', ['x'])).toThrow('Operator "isEmail" expects 0 argument(s) but received 1.');
+        });
+
+        it('should reject arguments of the wrong type', () => {
+            expect(() => registry.checkArguments('gt', ['10'])).toThrow('Argument 1 of operator "gt" must be of type number but got string.');
+            expect(() => registry.checkArguments('between', [1, null])).toThrow('Argument 2 of operator "between" must be of type number but got null.');
+            expect(() => registry.checkArguments('isBefore', ['2025-01-01'])).toThrow('Argument 1 of operator "isBefore" must be of type date but got string.');
+            expect(() => registry.checkArguments('startsWith', [1])).toThrow('Argument 1 of operator "startsWith" must be of type string but got integer.');
+        });
+
+        it('should skip type checks for dynamic arguments but still count them', () => {
+            const isDynamic = (arg: unknown) => typeof arg === 'object' && arg !== null && 'ref' in arg;
+
+            expect(() => registry.checkArguments('gt', [{ ref: 'b' }], isDynamic)).not.toThrow();
+            expect(() => registry.checkArguments('between', [{ ref: 'b' }, '2'], isDynamic))
+                .toThrow('Argument 2 of operator "between" must be of type number but got string.');
+            expect(() => registry.checkArguments('isEmail', [{ ref: 'b' }], isDynamic)).toThrow('expects 0 argument(s)');
+        });
+    });
+
+    describe('checkOptions', () => {
+        const registry = new OperatorRegistry();
+
+        it('should return the options configured by the operator', () => {
+            const options = { caseInsensitive: true };
+            const custom = new OperatorRegistry(false).register('near', (a: number, b: number, tolerance: number) => Math.abs(a - b) <= tolerance, {
+                arity: 1,
+                configure: options => options['tolerance'] ?? 1
+            });
+
+            expect(registry.checkOptions('eq', options)).toEqual(options);
+            expect(registry.checkOptions('eq', options)).not.toBe(options);
+            expect(custom.checkOptions('near', { tolerance: 5 })).toBe(5);
+            expect(custom.get('near').configure).toBeTypeOf('function');
+        });
+
+        it('should reject options the operator does not accept', () => {
+            expect(() => registry.checkOptions('gt', {})).toThrow('Operator "gt" doesn\'t accept options.');
+            expect(() => registry.checkOptions('eq', 'loose')).toThrow('Options of operator "eq" must be an object but got string.');
+            expect(() => registry.checkOptions('neq', { epsilon: -1 })).toThrow(ValidraArgumentError);
+            expect(() => registry.checkOptions('missing', {})).toThrow('Unknown operator "missing".');
+        });
+    });
+});
@@ -0,0 +1,44 @@
+import { describe, test, expect } from 'vitest';
+import { parseCsv } from '../../src/utils/csv-parser';
+import { ValidraArgumentError } from '../../src/utils/validra-errors';
+
+describe('parseCsv', () => {
+    test('should split rows and fields', () => {
+        expect(parseCsv('a,b,c\n1,2,3\n')).toEqual([['a', 'b', 'c'], ['1', '2', '3']]);
+    });
+
+    test('should keep empty fields', () => {
+        expect(parseCsv('a,,c\n,,\n')).toEqual([['a', '', 'c'], ['', '', '']]);
+    });
+
+    test('should read quoted fields with delimiters, escaped quotes and line breaks', () => {
+        expect(parseCsv('"a,b","say ""hi""","two\nlines"')).toEqual([['a,b', 'say "hi"', 'two\nlines']]);
+    });
+
+    test('should accept CRLF line endings, a byte order mark and blank lines', () => {
+        expect(parseCsv('﻿a,b\r\n\r\n1,2\r\n')).toEqual([['a', 'b'], ['1', '2']]);
+    });
+
+    test('should not trim fields', () => {
+        expect(parseCsv(' a , b ')).toEqual([[' a ', ' b ']]);
+    });
+
+    test('should use a custom delimiter', () => {
+        expect(parseCsv('a;b\n1,5;2', { delimiter: ';' })).toEqual([['a', 'b'], ['1,5', '2']]);
+    });
+
+    test('should return no rows for empty input', () => {
+        expect(parseCsv('')).toEqual([]);
+    });
+
+    test('should reject unterminated quoted fields', () => {
+        expect(() => parseCsv('a\n"b,c\nd')).toThrow(ValidraArgumentError);
+        expect(() => parseCsv('a\n"b,c\nd')).toThrow('Unterminated quoted CSV field starting on line 2.');
+    });
+
+    test('should reject invalid delimiters and input', () => {
+        expect(() => parseCsv('a', { delimiter: '"' })).toThrow('CSV delimiter must be a single character other than a quote or line break.');
+        expect(() => parseCsv('a', { delimiter: ';;' })).toThrow(ValidraArgumentError);
+        expect(() => parseCsv(42 as never)).toThrow('CSV input must be a string.');
+    });
+});
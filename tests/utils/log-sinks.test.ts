@@ -0,0 +1,120 @@
+import { describe, test, expect, afterEach, vi } from 'vitest';
+import { CallbackSink, ConsoleSink, JsonLinesSink, LogRecord, MemorySink } from '../../src/utils/log-sinks';
+import { ValidraLogger } from '../../src/utils/validra-logger';
+
+describe('log-sinks', () => {
+    const record: LogRecord = {
+        level: 'warn',
+        time: '2025-01-06T10:00:00.000Z',
+        source: 'Checkout',
+        msg: 'Slow rule',
+        data: [{ ms: 120 }],
+        context: { requestId: 'r-42' }
+    };
+
+    afterEach(() => {
+        vi.restoreAllMocks();
+    });
+
+    describe('ConsoleSink', () => {
+        test('should print with the matching console method', () => {
+            const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+            new ConsoleSink().write(record);
+
+            expect(warn).toHaveBeenCalledWith('[2025-01-06T10:00:00.000Z] [Checkout] Slow rule {"requestId":"r-42"}', { ms: 120 });
+        });
+
+        test('should leave out an empty context', () => {
+            const log = vi.spyOn(console, 'log').mockImplementation(() => {});
+
+            new ConsoleSink().write({ ...record, level: 'log', data: [], context: {} });
+
+            expect(log).toHaveBeenCalledWith('[2025-01-06T10:00:00.000Z] [Checkout] Slow rule');
+        });
+    });
+
+    describe('JsonLinesSink', () => {
+        test('should write one JSON line per record', () => {
+            const lines: string[] = [];
+
+            new JsonLinesSink(line => lines.push(line)).write(record);
+
+            expect(lines).toHaveLength(1);
+            expect(JSON.parse(lines[0] as string)).toEqual({
+                level: 'warn',
+                time: '2025-01-06T10:00:00.000Z',
+                source: 'Checkout',
+                msg: 'Slow rule',
+                context: { requestId: 'r-42' },
+                data: [{ ms: 120 }]
+            });
+        });
+
+        test('should leave out empty data and context', () => {
+            const lines: string[] = [];
+
+            new JsonLinesSink(line => lines.push(line)).write({ ...record, data: [], context: {} });
+
+            expect(lines[0]).toBe('{"level":"warn","time":"2025-01-06T10:00:00.000Z","source":"Checkout","msg":"Slow rule"}');
+        });
+
+        test('should serialize errors, bigints and circular references', () => {
+            const lines: string[] = [];
+            const cyclic: Record<string, unknown> = { name: 'node' };
+            cyclic['self'] = cyclic;
+            const shared = { id: 1 };
+
+            new JsonLinesSink(line => lines.push(line)).write({
+                ...record,
+                data: [new TypeError('bad'), 10n, cyclic, [shared, shared]]
+            });
+
+            expect(JSON.parse(lines[0] as string).data).toEqual([
+                { name: 'TypeError', message: 'bad' },
+                '10',
+                { name: 'node', self: '[Circular]' },
+                [{ id: 1 }, { id: 1 }]
+            ]);
+        });
+
+        test('should default to console.log', () => {
+            const log = vi.spyOn(console, 'log').mockImplementation(() => {});
+
+            new JsonLinesSink().write(record);
+
+            expect(log).toHaveBeenCalledWith(expect.stringMatching(/^\{"level":"warn"/));
+        });
+    });
+
+    describe('MemorySink', () => {
+        test('should keep and clear records', () => {
+            const memory = new MemorySink();
+            const logger = new ValidraLogger('Test', { sinks: [memory] });
+
+            logger.info('first');
+            logger.warn('second', 1, 2);
+
+            expect(memory.records.map(entry => [entry.level, entry.msg, entry.data])).toEqual([
+                ['info', 'first', []],
+                ['warn', 'second', [1, 2]]
+            ]);
+            expect(memory.records[0]?.source).toBe('Test');
+            expect(new Date(memory.records[0]?.time as string).toISOString()).toBe(memory.records[0]?.time);
+
+            memory.clear();
+            expect(memory.records).toEqual([]);
+        });
+    });
+
+    describe('CallbackSink', () => {
+        test('should hand every record to the callback', () => {
+            const callback = vi.fn();
+
+            new ValidraLogger('Test', { sinks: [new CallbackSink(callback), new CallbackSink(callback)] }).debug('hi');
+
+            expect(callback).toHaveBeenCalledTimes(2);
+            expect(callback.mock.calls[0]?.[0]).toMatchObject({ level: 'debug', msg: 'hi' });
+        });
+    });
+});
@@ -1,5 +1,6 @@
-import { describe, test, expect } from 'vitest';
-import { isNullOrUndefined, isNumber } from '../../src/utils/utility-guards';
+import { describe, test, expect, expectTypeOf } from 'vitest';
+import { assertDefined, assertNumber, isNullOrUndefined, isNumber } from '../../src/utils/utility-guards';
+import { ValidraArgumentError, ValidraTypeError } from '../../src/utils/validra-errors';
 
 describe('utility-guards', () => {
     describe('isNullOrUndefined', () => {
@@ -169,4 +170,47 @@ describe('utility-guards', () => {
             expect(isNumber(mixedArray[6])).toBe(true); // Infinity
         });
     });
+
+    describe('narrowing', () => {
+        test('should narrow the checked value', () => {
+            const value = 42 as unknown;
+            const maybe = 'x' as string | null | undefined;
+
+            if (isNumber(value)) expectTypeOf(value).toEqualTypeOf<number>();
+            if (isNullOrUndefined(maybe)) expectTypeOf(maybe).toEqualTypeOf<null | undefined>();
+            else expectTypeOf(maybe).toEqualTypeOf<string>();
+        });
+    });
+
+    describe('assertDefined', () => {
+        test('should pass values that are provided, including falsy ones', () => {
+            const value = 0 as number | undefined;
+
+            assertDefined(value);
+            expectTypeOf(value).toEqualTypeOf<number>();
+            expect(() => assertDefined('')).not.toThrow();
+            expect(() => assertDefined(false)).not.toThrow();
+        });
+
+        test('should throw ValidraArgumentError for null and undefined', () => {
+            expect(() => assertDefined(null)).toThrow(ValidraArgumentError);
+            expect(() => assertDefined(undefined)).toThrow(expect.objectContaining({
+                code: 'ERR_VALIDRA_MISSING_ARGUMENT',
+                message: 'Value must be provided.'
+            }));
+            expect(() => assertDefined(null, 'Width must be provided.')).toThrow('Width must be provided.');
+        });
+    });
+
+    describe('assertNumber', () => {
+        test('should pass numbers and reject anything else', () => {
+            const value = 42 as unknown;
+
+            assertNumber(value);
+            expectTypeOf(value).toEqualTypeOf<number>();
+            expect(() => assertNumber('42')).toThrow(ValidraTypeError);
+            expect(() => assertNumber(NaN)).toThrow('Value must be a number.');
+            expect(() => assertNumber(null, 'Quantity must be a number.')).toThrow('Quantity must be a number.');
+        });
+    });
 });
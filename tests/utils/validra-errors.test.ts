@@ -0,0 +1,114 @@
+import { describe, test, expect } from 'vitest';
+import {
+    InferenceError,
+    RuleEvaluationError,
+    ValidraArgumentError,
+    ValidraError,
+    ValidraFailureError,
+    ValidraTypeError
+} from '../../src/utils/validra-errors';
+
+describe('validra-errors', () => {
+    describe('ValidraError', () => {
+        test('should carry code, operator and argument', () => {
+            const error = new ValidraError('ERR_VALIDRA_TYPE', 'bad value', { operator: 'op', argument: 42 });
+
+            expect(error).toBeInstanceOf(Error);
+            expect(error.name).toBe('ValidraError');
+            expect(error.message).toBe('bad value');
+            expect(error.code).toBe('ERR_VALIDRA_TYPE');
+            expect(error.operator).toBe('op');
+            expect(error.argument).toBe(42);
+        });
+
+        test('should default operator and argument to undefined', () => {
+            const error = new ValidraError('ERR_VALIDRA_SYNTAX', 'oops');
+
+            expect(error.operator).toBeUndefined();
+            expect(error.argument).toBeUndefined();
+            expect(error.cause).toBeUndefined();
+        });
+
+        test('should keep the cause', () => {
+            const cause = new Error('root');
+            expect(new ValidraError('ERR_VALIDRA_TYPE', 'wrapped', { cause }).cause).toBe(cause);
+        });
+    });
+
+    describe('ValidraTypeError', () => {
+        test('should use the type error code', () => {
+            const error = new ValidraTypeError('not a string', { operator: 'StringChecker.isEmail', argument: 42 });
+
+            expect(error).toBeInstanceOf(ValidraError);
+            expect(error.name).toBe('ValidraTypeError');
+            expect(error.code).toBe('ERR_VALIDRA_TYPE');
+        });
+    });
+
+    describe('ValidraArgumentError', () => {
+        test('should default to the invalid argument code', () => {
+            const error = new ValidraArgumentError('negative');
+
+            expect(error).toBeInstanceOf(ValidraError);
+            expect(error.name).toBe('ValidraArgumentError');
+            expect(error.code).toBe('ERR_VALIDRA_INVALID_ARGUMENT');
+        });
+
+        test('should accept the missing argument code', () => {
+            expect(new ValidraArgumentError('missing', {}, 'ERR_VALIDRA_MISSING_ARGUMENT').code).toBe('ERR_VALIDRA_MISSING_ARGUMENT');
+        });
+    });
+
+    describe('RuleEvaluationError', () => {
+        test('should describe the rule and keep the cause', () => {
+            const cause = new ValidraTypeError('Both values must be numbers for comparison.');
+            const error = new RuleEvaluationError('user.age', 'gte', '21', cause);
+
+            expect(error).toBeInstanceOf(ValidraError);
+            expect(error.name).toBe('RuleEvaluationError');
+            expect(error.code).toBe('ERR_VALIDRA_RULE_EVALUATION');
+            expect(error.message).toBe('Rule "gte" on field "user.age" could not be evaluated: Both values must be numbers for comparison.');
+            expect(error.field).toBe('user.age');
+            expect(error.operator).toBe('gte');
+            expect(error.argument).toBe('21');
+            expect(error.cause).toBe(cause);
+        });
+
+        test('should describe non-error causes', () => {
+            expect(new RuleEvaluationError('a', 'op', 1, 'boom').message).toBe('Rule "op" on field "a" could not be evaluated: boom');
+        });
+    });
+
+    describe('InferenceError', () => {
+        test('should report why and when the run stopped', () => {
+            const error = new InferenceError('cycle', 3, 'Rules keep changing the fact in a cycle.');
+
+            expect(error).toBeInstanceOf(ValidraError);
+            expect(error.name).toBe('InferenceError');
+            expect(error.code).toBe('ERR_VALIDRA_INFERENCE');
+            expect(error.kind).toBe('cycle');
+            expect(error.iterations).toBe(3);
+        });
+    });
+
+    describe('ValidraFailureError', () => {
+        test('should carry the source, data and context of the failure', () => {
+            const error = new ValidraFailureError('cannot load', 'Loader', [{ file: 'rules.json' }], { requestId: 'r-1' });
+
+            expect(error).toBeInstanceOf(ValidraError);
+            expect(error.name).toBe('ValidraFailureError');
+            expect(error.code).toBe('ERR_VALIDRA_FAILURE');
+            expect(error.message).toBe('cannot load');
+            expect(error.source).toBe('Loader');
+            expect(error.data).toEqual([{ file: 'rules.json' }]);
+            expect(error.context).toEqual({ requestId: 'r-1' });
+        });
+
+        test('should default data and context to empty', () => {
+            const error = new ValidraFailureError('cannot load', 'Loader');
+
+            expect(error.data).toEqual([]);
+            expect(error.context).toEqual({});
+        });
+    });
+});
@@ -1,5 +1,7 @@
 import { describe, test, expect, beforeEach, afterEach, vi } from 'vitest';
 import { ValidraLogger } from '../../src/utils/validra-logger';
+import { CallbackSink, MemorySink } from '../../src/utils/log-sinks';
+import { ValidraArgumentError, ValidraFailureError } from '../../src/utils/validra-errors';
 
 describe('ValidraLogger', () => {
     let logger: ValidraLogger;
@@ -30,7 +32,7 @@ describe('ValidraLogger', () => {
 
     describe('constructor', () => {
         test('should use default source when no parameter provided', () => {
-            logger = new ValidraLogger('');
+            logger = new ValidraLogger();
             logger.log('test message');
             
             expect(consoleSpy.log).toHaveBeenCalledWith(
@@ -122,33 +124,65 @@ describe('ValidraLogger', () => {
             logger = new ValidraLogger('TestLogger');
         });
 
-        test('should log error and throw exception', () => {
+        test('should log error without throwing', () => {
             expect(() => {
                 logger.error('error message');
-            }).toThrow('error message');
+            }).not.toThrow();
             
             expect(consoleSpy.error).toHaveBeenCalledWith(
                 expect.stringMatching(/\[.*\] \[TestLogger\] error message/)
             );
         });
 
+        test('should not throw when a sink fails', () => {
+            const memory = new MemorySink();
+            const failing = new CallbackSink(() => { throw new Error('sink down'); });
+            logger = new ValidraLogger('TestLogger', { sinks: [failing, memory] });
+
+            expect(() => logger.error('error message')).not.toThrow();
+            expect(memory.records.map(record => record.msg)).toEqual(['error message']);
+            expect(() => logger.fail('boom')).toThrow(ValidraFailureError);
+        });
+
         test('should include optional parameters in error', () => {
             const param = { error: 'details' };
             
-            expect(() => {
-                logger.error('error message', param);
-            }).toThrow('error message');
+            logger.error('error message', param);
             
             expect(consoleSpy.error).toHaveBeenCalledWith(
                 expect.stringMatching(/\[.*\] \[TestLogger\] error message/),
                 param
             );
         });
+    });
 
-        test('should throw Error with formatted message', () => {
-            expect(() => {
-                logger.error('critical error');
-            }).toThrow(/\[.*\] \[TestLogger\] critical error/);
+    describe('fail', () => {
+        beforeEach(() => {
+            logger = new ValidraLogger('TestLogger');
+        });
+
+        test('should log error and throw a ValidraFailureError', () => {
+            const param = { code: 'VAL001' };
+            let error: unknown;
+
+            try {
+                logger.child({ requestId: 'r-1' }).fail('critical error', param);
+            } catch (caught) {
+                error = caught;
+            }
+
+            expect(consoleSpy.error).toHaveBeenCalledWith(
+                expect.stringMatching(/\[.*\] \[TestLogger\] critical error/),
+                param
+            );
+            expect(error).toBeInstanceOf(ValidraFailureError);
+            expect(error).toMatchObject({
+                message: 'critical error',
+                code: 'ERR_VALIDRA_FAILURE',
+                source: 'TestLogger',
+                data: [param],
+                context: { requestId: 'r-1' }
+            });
         });
     });
 
@@ -274,4 +308,106 @@ describe('ValidraLogger', () => {
             );
         });
     });
+
+    describe('levels', () => {
+        test('should drop records below the minimum level', () => {
+            const memory = new MemorySink();
+            logger = new ValidraLogger('Levels', { level: 'warn', sinks: [memory] });
+
+            logger.trace('trace');
+            logger.debug('debug');
+            logger.log('log');
+            logger.info('info');
+            logger.warn('warn');
+
+            expect(memory.records.map(record => record.level)).toEqual(['warn']);
+        });
+
+        test('should treat log and info as the same level', () => {
+            logger = new ValidraLogger('Levels', { level: 'info', sinks: [] });
+
+            expect(logger.isLevelEnabled('log')).toBe(true);
+            expect(logger.isLevelEnabled('debug')).toBe(false);
+        });
+
+        test('should write nothing when silent but still throw on fail', () => {
+            logger = new ValidraLogger('Levels', { level: 'silent' });
+
+            logger.warn('hidden');
+            logger.error('hidden');
+            expect(() => logger.fail('boom')).toThrow('boom');
+            expect(consoleSpy.warn).not.toHaveBeenCalled();
+            expect(consoleSpy.error).not.toHaveBeenCalled();
+        });
+
+        test('should create silent loggers', () => {
+            logger = ValidraLogger.silent();
+
+            logger.info('hidden');
+            logger.error('hidden');
+
+            expect(logger.level).toBe('silent');
+            expect(consoleSpy.info).not.toHaveBeenCalled();
+            expect(consoleSpy.error).not.toHaveBeenCalled();
+            expect(() => ValidraLogger.silent('Embedded').fail('boom')).toThrow(ValidraFailureError);
+            expect(() => logger.fail('boom')).toThrow(expect.objectContaining({ source: 'Validra Engine' }));
+        });
+
+        test('should change the level at runtime', () => {
+            logger = new ValidraLogger('Levels');
+            expect(logger.level).toBe('trace');
+
+            logger.level = 'error';
+            logger.info('hidden');
+
+            expect(consoleSpy.info).not.toHaveBeenCalled();
+        });
+
+        test('should reject unknown levels', () => {
+            expect(() => new ValidraLogger('Levels', { level: 'verbose' as never })).toThrow(ValidraArgumentError);
+            expect(() => new ValidraLogger('Levels', { level: 'verbose' as never }))
+                .toThrow('Log level must be one of trace, debug, log, info, warn, error, silent.');
+        });
+    });
+
+    describe('child', () => {
+        test('should inherit sinks, level and context', () => {
+            const memory = new MemorySink();
+            const parent = new ValidraLogger('Parent', { level: 'info', sinks: [memory], context: { app: 'shop' } });
+            const child = parent.child({ requestId: 'r-1' });
+
+            child.debug('hidden');
+            child.info('hello', { items: 2 });
+
+            expect(memory.records).toHaveLength(1);
+            expect(memory.records[0]).toMatchObject({
+                level: 'info',
+                source: 'Parent',
+                msg: 'hello',
+                data: [{ items: 2 }],
+                context: { app: 'shop', requestId: 'r-1' }
+            });
+        });
+
+        test('should override source, level and context fields', () => {
+            const memory = new MemorySink();
+            const parent = new ValidraLogger('Parent', { level: 'warn', sinks: [memory], context: { step: 1 } });
+            const child = parent.child({ step: 2 }, { source: 'Child', level: 'debug' });
+
+            child.debug('detail');
+            parent.debug('hidden');
+
+            expect(memory.records).toHaveLength(1);
+            expect(memory.records[0]).toMatchObject({ source: 'Child', context: { step: 2 } });
+        });
+
+        test('should print its context on the console', () => {
+            new ValidraLogger('Parent').child({ requestId: 'r-1' }).warn('slow', { ms: 5 });
+
+            expect(consoleSpy.warn).toHaveBeenCalledWith(
+                expect.stringMatching(/\[.*\] \[Parent\] slow \{"requestId":"r-1"\}$/),
+                { ms: 5 }
+            );
+        });
+    });
 });